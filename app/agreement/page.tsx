@@ -0,0 +1,176 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { createAuthHeaders } from '@/lib/credentials'
+import { formatPercentage } from '@/lib/utils'
+import type { AgreementMatrix } from '@/lib/agreement-matrix'
+
+// Red at no agreement through yellow to green at full agreement
+function agreementColor(value: number): string {
+  return `hsl(${(value / 100) * 120}, 70%, 80%)`
+}
+
+function formatAgreement(value: number | null): string {
+  return value === null ? '—' : formatPercentage(value, 0)
+}
+
+export default function AgreementPage() {
+  const [matrix, setMatrix] = useState<AgreementMatrix | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMatrix = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const headers = createAuthHeaders()
+      const response = await fetch('/api/agreement', { headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load agreement matrix')
+
+      setMatrix(data.matrix)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load agreement matrix')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadMatrix()
+  }, [loadMatrix])
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          Model Agreement
+        </h1>
+        <p className="text-xl text-gray-600">
+          How often each pair of models gave the same answer across every prompt in history
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 mb-6">
+          <CardContent className="pt-6">
+            <p className="text-red-700">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Agreement Heatmap</CardTitle>
+                <CardDescription>
+                  Models are ordered by average-linkage clustering, so models that tend to agree sit next to each other
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={loadMatrix} disabled={isLoading}>
+                {isLoading ? 'Loading...' : 'Refresh'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && !matrix ? (
+              <p className="text-gray-500">Loading agreement matrix...</p>
+            ) : !matrix || matrix.models.length < 2 ? (
+              <p className="text-gray-500">Run prompts against at least two models to compare their answers.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-2" />
+                      {matrix.models.map(model => (
+                        <th key={model.id} className="p-2 font-medium text-gray-700 align-bottom">
+                          <div className="whitespace-nowrap [writing-mode:vertical-rl] rotate-180">
+                            {model.name}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.models.map((rowModel, i) => (
+                      <tr key={rowModel.id}>
+                        <th className="p-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                          {rowModel.name}
+                          <span className="ml-2 text-xs font-normal text-gray-500">{rowModel.provider}</span>
+                        </th>
+                        {matrix.models.map((columnModel, j) => {
+                          const value = matrix.agreement[i][j]
+                          const isDiagonal = i === j
+                          return (
+                            <td
+                              key={columnModel.id}
+                              className="w-12 h-12 text-center border border-white text-gray-800"
+                              style={{ backgroundColor: isDiagonal || value === null ? '#F3F4F6' : agreementColor(value) }}
+                              title={isDiagonal
+                                ? `${rowModel.name} answered ${rowModel.prompts} prompts`
+                                : `${rowModel.name} and ${columnModel.name}: ${formatAgreement(value)} over ${matrix.shared[i][j]} shared prompts`}
+                            >
+                              {isDiagonal ? '' : formatAgreement(value)}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">
+                  Based on {matrix.prompts} prompts. Hover a cell for the number of prompts both models answered.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {matrix && matrix.models.length >= 2 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Provider Clustering</CardTitle>
+              <CardDescription>
+                Agreement between models of the same provider compared with agreement across providers
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="font-medium text-gray-700">Same Provider</h4>
+                  <p className="text-sm text-gray-600">{formatAgreement(matrix.sameProviderAgreement)}</p>
+                </div>
+                <div>
+                  <h4 className="font-medium text-gray-700">Across Providers</h4>
+                  <p className="text-sm text-gray-600">{formatAgreement(matrix.crossProviderAgreement)}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {matrix.providers.map(provider => (
+                  <div key={provider.provider} className="flex items-center justify-between border rounded-lg p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{provider.provider}</span>
+                      <Badge variant="outline">{provider.models} models</Badge>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Within {formatAgreement(provider.withinAgreement)} · With others {formatAgreement(provider.crossAgreement)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
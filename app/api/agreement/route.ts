@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAgreementMatrix } from '@/lib/agreement-matrix'
+
+// Validation schemas
+const AgreementQuerySchema = z.object({
+  // Consensus groups read, newest first
+  limit: z.coerce.number().int().min(1).max(50000).optional(),
+})
+
+// GET: Pairwise model agreement across the prompt history
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { limit } = AgreementQuerySchema.parse({
+      limit: searchParams.get('limit') || undefined,
+    })
+
+    const matrix = await getAgreementMatrix({ limit })
+
+    return NextResponse.json({ matrix }, { status: 200 })
+  } catch (error) {
+    console.error('Error building agreement matrix:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build agreement matrix' },
+      { status: 500 }
+    )
+  }
+}
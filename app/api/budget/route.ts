@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { getBudgetSettings } from '@/lib/budget'
+
+// GET: The budget limits runs are checked against, set through the environment
+export async function GET() {
+  try {
+    return NextResponse.json({ budget: getBudgetSettings() }, { status: 200 })
+  } catch (error) {
+    console.error('Error reading budget:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read budget' },
+      { status: 500 }
+    )
+  }
+}
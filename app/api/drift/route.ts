@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+import { SimilaritySchema, CanonicalizationSchema, VoteWeightingSchema } from '@/lib/benchmark-runner'
+import { buildDriftReport } from '@/lib/drift-detector'
+import { GenerationSettingsSchema } from '@/lib/generation-settings'
+import { PricingOverridesSchema } from '@/lib/pricing'
+import { RateLimitsSchema } from '@/lib/rate-limiter'
+
+// Validation schemas
+const IntervalHoursSchema = z.number().int().min(1).max(24 * 30).nullable().optional()
+
+const CreateScheduleSchema = z.object({
+  suiteId: z.string().min(1, 'Suite is required'),
+  modelIds: z.array(z.string().min(1)).min(1, 'At least one model must be selected'),
+  intervalHours: IntervalHoursSchema,
+  similarity: SimilaritySchema,
+  canonicalization: CanonicalizationSchema,
+  generation: GenerationSettingsSchema,
+  weighting: VoteWeightingSchema,
+  pricing: PricingOverridesSchema,
+  rateLimits: RateLimitsSchema,
+})
+
+const UpdateScheduleSchema = z.object({
+  id: z.string().min(1),
+  enabled: z.boolean().optional(),
+  intervalHours: IntervalHoursSchema,
+})
+
+const ReportQuerySchema = z.object({
+  scheduleId: z.string().min(1),
+  answerChange: z.coerce.number().min(0).max(100).optional(),
+  agreementChange: z.coerce.number().min(0).max(100).optional(),
+  limit: z.coerce.number().int().min(2).max(100).optional(),
+})
+
+// GET: List pinned prompt sets, or the drift report of one (?scheduleId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    if (!searchParams.get('scheduleId')) {
+      const schedules = await getRepository().getDriftSchedules()
+      return NextResponse.json({ schedules }, { status: 200 })
+    }
+
+    const { scheduleId, answerChange, agreementChange, limit } = ReportQuerySchema.parse({
+      scheduleId: searchParams.get('scheduleId'),
+      answerChange: searchParams.get('answerChange') || undefined,
+      agreementChange: searchParams.get('agreementChange') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    })
+
+    const history = await getRepository().getDriftHistory(scheduleId, limit)
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Drift schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      schedule: history.schedule,
+      report: buildDriftReport(history, { answerChange, agreementChange })
+    }, { status: 200 })
+  } catch (error) {
+    console.error('Error building drift report:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build drift report' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Pin a suite with the given models and settings for drift tracking
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate request body
+    const { suiteId, modelIds, intervalHours, ...settings } = CreateScheduleSchema.parse(body)
+
+    const schedule = await getRepository().createDriftSchedule({
+      suite_id: suiteId,
+      model_ids: modelIds,
+      settings,
+      interval_hours: intervalHours ?? null,
+      enabled: true
+    })
+
+    return NextResponse.json({ schedule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating drift schedule:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create drift schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT: Pause or resume a schedule, or change its interval
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { id, enabled, intervalHours } = UpdateScheduleSchema.parse(body)
+
+    await getRepository().updateDriftSchedule(id, {
+      ...(enabled !== undefined && { enabled }),
+      ...(intervalHours !== undefined && { interval_hours: intervalHours })
+    })
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error('Error updating drift schedule:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update drift schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Unpin a prompt set (?id=); its runs stay in the suite history
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      )
+    }
+
+    await getRepository().deleteDriftSchedule(id)
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error('Error deleting drift schedule:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete drift schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+import VercelAIGatewayClient from '@/lib/vercel-ai-gateway'
+import { getVercelAIGatewayApiKey } from '@/lib/credentials'
+import { startDriftRun, startDueDriftRuns } from '@/lib/drift-schedules'
+import { BUDGET_EXCEEDED, BudgetExceededError } from '@/lib/budget'
+
+// Validation schemas
+const RunScheduleSchema = z.object({
+  scheduleId: z.string().min(1, 'Schedule is required'),
+  // Set once the user agreed to go over the budget for this run
+  confirmOverBudget: z.boolean().optional(),
+})
+
+// GET: Start every schedule that is due; called by a cron job, which has to
+// send CRON_SECRET as a bearer token. Refused while CRON_SECRET is unset, so
+// nobody else can start paid runs.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET must be set for scheduled runs.' },
+        { status: 500 }
+      )
+    }
+    if (request.headers.get('Authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Scheduled runs have no browser session, so only the environment key counts
+    const vercelAIGatewayApiKey = process.env.AI_GATEWAY_API_KEY
+    if (!vercelAIGatewayApiKey) {
+      return NextResponse.json(
+        { error: 'AI_GATEWAY_API_KEY must be set for scheduled runs.' },
+        { status: 500 }
+      )
+    }
+
+    const started = await startDueDriftRuns(new VercelAIGatewayClient(vercelAIGatewayApiKey))
+
+    return NextResponse.json({ started }, { status: 200 })
+  } catch (error) {
+    console.error('Error starting scheduled drift runs:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start scheduled runs' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Run a pinned prompt set now; progress can be polled on /api/runs?id=
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { scheduleId, confirmOverBudget } = RunScheduleSchema.parse(body)
+
+    // Get Vercel AI Gateway API key
+    const vercelAIGatewayApiKey = getVercelAIGatewayApiKey(request)
+    if (!vercelAIGatewayApiKey) {
+      return NextResponse.json(
+        { error: 'Vercel AI Gateway API key is not configured. Please set it in environment variables or via the settings page.' },
+        { status: 500 }
+      )
+    }
+
+    const schedules = await getRepository().getDriftSchedules()
+    const schedule = schedules.find(item => item.id === scheduleId)
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Drift schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    const run = await startDriftRun(new VercelAIGatewayClient(vercelAIGatewayApiKey), schedule, { confirmOverBudget })
+
+    return NextResponse.json({ run }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting drift run:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: BUDGET_EXCEEDED,
+          budget: error.check,
+          confirmable: error.check.confirmable
+        },
+        { status: 402 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start drift run' },
+      { status: 500 }
+    )
+  }
+}
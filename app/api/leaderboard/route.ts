@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+import { buildLeaderboard } from '@/lib/leaderboard'
+
+// Validation schemas
+const DateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  // Rejects dates that do not exist, e.g. 2024-02-30, which Date would roll over
+  .refine(date => {
+    const parsed = new Date(`${date}T00:00:00.000Z`)
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+  }, 'Invalid date')
+
+const LeaderboardQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  provider: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
+})
+
+// GET: Rank models over the saved responses; dates are inclusive UTC days
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { from, to, provider, tag } = LeaderboardQuerySchema.parse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      provider: searchParams.get('provider') || undefined,
+      tag: searchParams.get('tag') || undefined,
+    })
+
+    // The end date is inclusive, so read up to the start of the next day
+    const end = to ? new Date(`${to}T00:00:00.000Z`) : null
+    end?.setUTCDate(end.getUTCDate() + 1)
+
+    const responses = await getRepository().getResponseHistory({
+      from: from ? `${from}T00:00:00.000Z` : undefined,
+      to: end?.toISOString()
+    })
+
+    const leaderboard = buildLeaderboard(responses, { provider, tag })
+
+    return NextResponse.json({ leaderboard }, { status: 200 })
+  } catch (error) {
+    console.error('Error building leaderboard:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid filters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build leaderboard' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+
+// Validation schemas
+const ModelProfileSchema = z.object({
+  model_id: z.string().min(1),
+  system_prompt: z.string().max(4000, 'System prompt too long').nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  max_tokens: z.number().int().min(1).max(8192).nullable().optional(),
+  prompt_template: z.string().max(4000, 'Prompt template too long').nullable().optional(),
+  trust_weight: z.number().min(0).max(10).nullable().optional(),
+})
+
+// GET: Fetch all model profiles
+export async function GET() {
+  try {
+    const profiles = await getRepository().getModelProfiles()
+
+    return NextResponse.json({ profiles }, { status: 200 })
+  } catch (error) {
+    console.error('Error fetching model profiles:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch model profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT: Create or replace a model's profile
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { model_id, system_prompt, temperature, max_tokens, prompt_template, trust_weight } = ModelProfileSchema.parse(body)
+
+    const profile = await getRepository().upsertModelProfile({
+      model_id,
+      system_prompt: system_prompt || null,
+      temperature: temperature ?? null,
+      max_tokens: max_tokens ?? null,
+      prompt_template: prompt_template || null,
+      trust_weight: trust_weight ?? null
+    })
+
+    return NextResponse.json({ profile }, { status: 200 })
+  } catch (error) {
+    console.error('Error saving model profile:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save model profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Remove a model's profile (?modelId=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const modelId = searchParams.get('modelId')
+
+    if (!modelId) {
+      return NextResponse.json(
+        { error: 'modelId is required' },
+        { status: 400 }
+      )
+    }
+
+    await getRepository().deleteModelProfile(modelId)
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error('Error deleting model profile:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete model profile' },
+      { status: 500 }
+    )
+  }
+}
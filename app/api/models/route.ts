@@ -1,26 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { supabaseClient } from '@/lib/supabase'
+import { getRepository } from '@/lib/repository'
 import VercelAIGatewayClient from '@/lib/vercel-ai-gateway'
-
-// Helper function to get Vercel AI Gateway API key from environment or headers
-function getVercelAIGatewayApiKey(request?: NextRequest): string | null {
-  // First try environment variable (for production)
-  if (process.env.AI_GATEWAY_API_KEY) {
-    return process.env.AI_GATEWAY_API_KEY
-  }
-  
-  // Fall back to request headers (for development with settings page)
-  if (request?.headers.get('X-Vercel-AI-Gateway-Key')) {
-    return request.headers.get('X-Vercel-AI-Gateway-Key')
-  }
-  
-  return null
-}
+import { getVercelAIGatewayApiKey } from '@/lib/credentials'
+import { parseGatewayPricing } from '@/lib/pricing'
 
 // Validation schemas
 const UpdateModelSchema = z.object({
-  id: z.string().min(1), // Accept any non-empty string (UUID or mock ID)
+  id: z.string().min(1),
   enabled: z.boolean(),
 })
 
@@ -30,12 +17,14 @@ const ModelSchema = z.object({
   model_id: z.string(),
   enabled: z.boolean(),
   context_length: z.number(),
+  input_price_per_million: z.number().min(0).nullable().optional(),
+  output_price_per_million: z.number().min(0).nullable().optional(),
 })
 
 // GET: Fetch all models
 export async function GET() {
   try {
-    const models = await supabaseClient.getModels()
+    const models = await getRepository().getModels()
     
     return NextResponse.json({ models }, { status: 200 })
   } catch (error) {
@@ -110,12 +99,17 @@ export async function POST(request: NextRequest) {
             })
             .join(' ')
 
+      // Keep the gateway's pricing so each response's cost can be computed
+      const pricing = parseGatewayPricing(model.pricing)
+
       return {
         name: formattedName,
         provider: formattedProvider,
         model_id: model.id,
         enabled: true,
-        context_length: model.context_length || 4096
+        context_length: model.context_length || 4096,
+        input_price_per_million: pricing?.inputPerMillion ?? null,
+        output_price_per_million: pricing?.outputPerMillion ?? null
       }
     })
 
@@ -124,12 +118,15 @@ export async function POST(request: NextRequest) {
     
     recommendedModels.forEach(recModel => {
       if (!models.some(m => m.model_id === recModel.id)) {
+        const pricing = parseGatewayPricing(recModel.pricing)
         models.push({
           name: recModel.name,
           provider: recModel.provider,
           model_id: recModel.id,
           enabled: true,
-          context_length: recModel.context_length
+          context_length: recModel.context_length,
+          input_price_per_million: pricing?.inputPerMillion ?? null,
+          output_price_per_million: pricing?.outputPerMillion ?? null
         })
       }
     })
@@ -137,17 +134,9 @@ export async function POST(request: NextRequest) {
     // Validate models
     const validatedModels = models.map(model => ModelSchema.parse(model))
 
-    // Get existing models to preserve enabled status (with fallback)
-    let existingModels: any[] = []
-    let existingModelMap = new Map()
-    
-    try {
-      existingModels = await supabaseClient.getModels()
-      existingModelMap = new Map(existingModels.map(m => [m.model_id, m.enabled]))
-    } catch (error) {
-      console.warn('Could not fetch existing models from database, using defaults:', error)
-      // Continue with empty map - all models will be enabled by default
-    }
+    // Get existing models to preserve enabled status
+    const existingModels = await getRepository().getModels()
+    const existingModelMap = new Map(existingModels.map(m => [m.model_id, m.enabled]))
 
     // Preserve enabled status for existing models
     const modelsToUpsert = validatedModels.map(model => ({
@@ -157,20 +146,7 @@ export async function POST(request: NextRequest) {
         : true
     }))
 
-    // Upsert models (with fallback)
-    let savedModels = modelsToUpsert
-    try {
-      savedModels = await supabaseClient.upsertModels(modelsToUpsert)
-    } catch (error) {
-      console.warn('Could not save models to database, returning local models:', error)
-      // For development without database, return the models we would have saved
-      savedModels = modelsToUpsert.map((model, index) => ({
-        ...model,
-        id: `mock-${index}`,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      }))
-    }
+    const savedModels = await getRepository().upsertModels(modelsToUpsert)
 
     return NextResponse.json({
       message: `Successfully synced ${savedModels.length} models.`,
@@ -194,34 +170,8 @@ export async function PUT(request: NextRequest) {
     // Validate request body
     const { id, enabled } = UpdateModelSchema.parse(body)
     
-    // Check if this is a mock ID (development mode)
-    if (id.startsWith('mock-')) {
-      // In development mode, just return a mock response
-      console.log(`Mock update: Model ${id} enabled status set to ${enabled}`)
-      return NextResponse.json({
-        model: {
-          id,
-          enabled,
-          updated_at: new Date().toISOString()
-        }
-      }, { status: 200 })
-    }
-    
-    // Update model in database (production mode)
-    try {
-      const updatedModel = await supabaseClient.updateModelEnabled(id, enabled)
-      return NextResponse.json({ model: updatedModel }, { status: 200 })
-    } catch (error) {
-      console.warn('Could not update model in database, using mock response:', error)
-      // Fallback to mock response if database is unavailable
-      return NextResponse.json({
-        model: {
-          id,
-          enabled,
-          updated_at: new Date().toISOString()
-        }
-      }, { status: 200 })
-    }
+    const updatedModel = await getRepository().updateModelEnabled(id, enabled)
+    return NextResponse.json({ model: updatedModel }, { status: 200 })
 
   } catch (error) {
     console.error('Error updating model:', error)
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { cancelRun } from '@/lib/run-registry'
+
+// Validation schemas
+const CancelRequestSchema = z.object({
+  runId: z.string().min(1).max(100),
+})
+
+// POST: Cancel a prompt run; the responses received so far are still saved
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { runId } = CancelRequestSchema.parse(body)
+
+    // An unknown run has finished already or runs in another server instance,
+    // where the client dropping its connection cancels it; neither is an error
+    const cancelled = cancelRun(runId)
+
+    return NextResponse.json({ cancelled }, { status: 200 })
+  } catch (error) {
+    console.error('Error cancelling run:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel run' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,37 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { supabaseClient } from '@/lib/supabase'
+import { getRepository } from '@/lib/repository'
 import VercelAIGatewayClient from '@/lib/vercel-ai-gateway'
-import { ConsensusAnalyzer } from '@/lib/consensus-analyzer'
-
-// Helper function to get Vercel AI Gateway API key from environment or headers
-function getVercelAIGatewayApiKey(request?: NextRequest): string | null {
-  // First try environment variable (for production)
-  if (process.env.AI_GATEWAY_API_KEY) {
-    return process.env.AI_GATEWAY_API_KEY
-  }
-  
-  // Fall back to request headers (for development with settings page)
-  if (request?.headers.get('X-Vercel-AI-Gateway-Key')) {
-    return request.headers.get('X-Vercel-AI-Gateway-Key')
-  }
-  
-  return null
-}
+import { getVercelAIGatewayApiKey } from '@/lib/credentials'
+import { ConsensusAnalyzer, ConsensusAnalysis } from '@/lib/consensus-analyzer'
+import {
+  SimilaritySchema,
+  CanonicalizationSchema,
+  GroundTruthSchema,
+  VoteWeightingSchema,
+  runPromptBenchmark,
+  analyzeSavedRun,
+  checkRunBudget,
+  PromptBenchmarkOutcome
+} from '@/lib/benchmark-runner'
+import { createSseResponse } from '@/lib/sse'
+import { parseTags } from '@/lib/utils'
+import { PricingOverridesSchema } from '@/lib/pricing'
+import { BUDGET_EXCEEDED } from '@/lib/budget'
+import { RateLimitsSchema } from '@/lib/rate-limiter'
+import { GenerationSettingsSchema } from '@/lib/generation-settings'
+import { AgreementMatrix, getCachedAgreementMatrix } from '@/lib/agreement-matrix'
+import { registerRun, unregisterRun } from '@/lib/run-registry'
 
 // Validation schemas
 const PromptRequestSchema = z.object({
   text: z.string().min(1, 'Prompt text is required').max(1000, 'Prompt too long'),
   modelIds: z.array(z.string().min(1)).min(1, 'At least one model must be selected'),
+  similarity: SimilaritySchema,
+  canonicalization: CanonicalizationSchema,
+  groundTruth: GroundTruthSchema.optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  generation: GenerationSettingsSchema,
+  // Scales each vote when computing the weighted consensus
+  weighting: VoteWeightingSchema,
+  // Locally edited prices per gateway model id
+  pricing: PricingOverridesSchema,
+  // Set once the user agreed to go over the budget for this run
+  confirmOverBudget: z.boolean().optional(),
+  rateLimits: RateLimitsSchema,
+  // Stream each model's result as a server-sent event instead of one JSON reply
+  stream: z.boolean().optional(),
+  // Generated by the client so it can cancel the run through /api/prompt/cancel
+  runId: z.string().min(1).max(100).optional(),
 })
 
+// Helper function to load cross-run agreement for the provider insights, only
+// when the analysis has one to give; the matrix is cached between runs
+async function loadAgreementHistory(analysis: ConsensusAnalysis): Promise<AgreementMatrix | null> {
+  if (!ConsensusAnalyzer.needsAgreementHistory(analysis)) {
+    return null
+  }
+
+  try {
+    return await getCachedAgreementMatrix()
+  } catch (error) {
+    console.error('Failed to load agreement history, continuing without it:', error)
+    return null
+  }
+}
+
+// Helper function to build the final benchmark payload
+function buildBenchmarkPayload(outcome: PromptBenchmarkOutcome, totalModels: number, history: AgreementMatrix | null) {
+  const { prompt, run, results, analysis, sampleAnalysis, successfulResponses, totalCostUsd, cancelled } = outcome
+
+  return {
+    prompt,
+    run,
+    responses: results,
+    // One vote per model; the per-sample groups differ only when models were sampled repeatedly
+    consensus_groups: analysis.groups,
+    sample_consensus_groups: sampleAnalysis.groups,
+    self_consistency: analysis.selfConsistency || null,
+    insights: ConsensusAnalyzer.generateInsights(analysis, history),
+    summary: ConsensusAnalyzer.getSummaryStats(analysis),
+    weighting: analysis.weighting,
+    similarity: {
+      mode: analysis.mode,
+      strategy: analysis.strategy,
+      threshold: analysis.threshold
+    },
+    generation: run.generation_settings,
+    total_models: totalModels,
+    samples_per_model: run.generation_settings?.samples ?? 1,
+    successful_responses: successfulResponses,
+    failed_responses: results.length - successfulResponses,
+    total_cost_usd: totalCostUsd,
+    cancelled
+  }
+}
+
 // POST: Process prompt with selected models
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
     // Validate request body
-    const { text, modelIds } = PromptRequestSchema.parse(body)
+    const { text, modelIds, similarity, canonicalization, groundTruth, tags, generation, weighting, pricing, confirmOverBudget, rateLimits, stream, runId } = PromptRequestSchema.parse(body)
     
     // Get Vercel AI Gateway API key
     const vercelAIGatewayApiKey = getVercelAIGatewayApiKey(request)
@@ -43,7 +108,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get selected models from database
-    const allModels = await supabaseClient.getModels()
+    const allModels = await getRepository().getModels()
     const selectedModels = allModels.filter(model => modelIds.includes(model.id))
     
     if (selectedModels.length === 0) {
@@ -53,120 +118,65 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Save prompt to database
-    const savedPrompt = await supabaseClient.savePrompt(text)
+    // Refuse runs that would go over budget, unless the budget allows confirming
+    // and the user confirmed going over
+    const budgetCheck = await checkRunBudget({
+      prompts: [text],
+      models: selectedModels,
+      settings: { generation, pricing }
+    })
+
+    if (budgetCheck.exceeded && !(budgetCheck.confirmable && confirmOverBudget)) {
+      return NextResponse.json(
+        {
+          error: `${budgetCheck.reasons.join('. ')}.`,
+          code: BUDGET_EXCEEDED,
+          budget: budgetCheck,
+          confirmable: budgetCheck.confirmable
+        },
+        { status: 402 }
+      )
+    }
 
     // Initialize Vercel AI Gateway client
     const aiGateway = new VercelAIGatewayClient(vercelAIGatewayApiKey)
-    
-    // Get model IDs for Vercel AI Gateway
-    const modelAIGatewayIds = selectedModels.map(model => model.model_id)
-    
-    // Send requests to all models in batches
-    const batchResults = await aiGateway.batchCompletion(
-      modelAIGatewayIds,
-      text,
-      {
-        maxTokens: 10,
-        temperature: 0.7,
-        systemPrompt: 'You are a helpful assistant. Respond with a single word only.',
-        timeout: 30000,
-        concurrency: 5
-      }
-    )
 
-    // Process results and prepare responses
-    const responses: Array<{
-      prompt_id: string
-      model_id: string
-      response_text: string
-      response_time_ms: number
-    }> = []
+    const benchmark = {
+      aiGateway,
+      text,
+      models: selectedModels,
+      settings: { similarity, canonicalization, generation, weighting, pricing, rateLimits },
+      groundTruth,
+      tags: tags ? parseTags(tags) : null
+    }
 
-    const processedResults = batchResults.map(batchResult => {
-      const model = selectedModels.find(m => m.model_id === batchResult.modelId)
-      
-      if (batchResult.error || !batchResult.result || !model) {
-        return {
-          model: model || { id: 'unknown', name: 'Unknown', provider: 'Unknown' },
-          response_text: batchResult.error || 'Error',
-          response_time_ms: 0,
-          error: batchResult.error || 'Unknown error'
+    // Stream run, start and result events as they happen, then the full payload
+    if (stream) {
+      return createSseResponse(async (send, disconnected) => {
+        try {
+          // The cancel route may run in another instance, so the client
+          // dropping the stream cancels the run as well
+          const outcome = await runPromptBenchmark({
+            ...benchmark,
+            signal: registerRun(runId, [request.signal, disconnected]),
+            onProgress: event => send(event.type, event)
+          })
+          send('complete', buildBenchmarkPayload(outcome, selectedModels.length, await loadAgreementHistory(outcome.analysis)))
+        } finally {
+          if (runId) unregisterRun(runId)
         }
-      }
-
-      // Add to database responses
-      responses.push({
-        prompt_id: savedPrompt.id,
-        model_id: model.id,
-        response_text: batchResult.result.text,
-        response_time_ms: batchResult.result.timeMs
       })
-
-      return {
-        model: {
-          id: model.id,
-          name: model.name,
-          provider: model.provider
-        },
-        response_text: batchResult.result.text,
-        response_time_ms: batchResult.result.timeMs,
-        usage: batchResult.result.usage
-      }
-    })
-
-    // Save responses to database if any were successful
-    let savedResponses: any[] = []
-    if (responses.length > 0) {
-      savedResponses = await supabaseClient.saveResponses(responses)
     }
 
-    // Analyze consensus
-    const consensusAnalysis = ConsensusAnalyzer.analyzeConsensus(
-      savedResponses.map(response => ({
-        id: response.id,
-        model_id: response.model_id,
-        response_text: response.response_text,
-        response_time_ms: response.response_time_ms,
-        model: response.model
-      }))
-    )
+    // Query the models, then save and analyze the results
+    try {
+      const outcome = await runPromptBenchmark({ ...benchmark, signal: registerRun(runId, [request.signal]) })
 
-    // Save consensus groups to database
-    let savedConsensusGroups: any[] = []
-    if (consensusAnalysis.groups.length > 0) {
-      const consensusGroupsToSave = consensusAnalysis.groups.map(group => ({
-        prompt_id: savedPrompt.id,
-        group_name: group.groupName,
-        count: group.count,
-        percentage: group.percentage,
-        color: group.color
-        // Note: models field removed temporarily due to database schema mismatch
-      }))
-      
-      try {
-        savedConsensusGroups = await supabaseClient.saveConsensusGroups(consensusGroupsToSave)
-      } catch (error) {
-        console.error('Failed to save consensus groups, continuing without saving:', error)
-        // Continue without saving consensus groups to database
-      }
+      return NextResponse.json(buildBenchmarkPayload(outcome, selectedModels.length, await loadAgreementHistory(outcome.analysis)), { status: 200 })
+    } finally {
+      if (runId) unregisterRun(runId)
     }
 
-    // Generate insights
-    const insights = ConsensusAnalyzer.generateInsights(consensusAnalysis)
-    const summaryStats = ConsensusAnalyzer.getSummaryStats(consensusAnalysis)
-
-    return NextResponse.json({
-      prompt: savedPrompt,
-      responses: processedResults,
-      consensus_groups: consensusAnalysis.groups,
-      insights,
-      summary: summaryStats,
-      total_models: selectedModels.length,
-      successful_responses: responses.length,
-      failed_responses: selectedModels.length - responses.length
-    }, { status: 200 })
-
   } catch (error) {
     console.error('Error processing prompt:', error)
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace')
@@ -185,28 +195,37 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET: Get prompt history
+// GET: Get prompt history with the runs of each prompt, or one run with its results
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '50')
-    const promptId = searchParams.get('id')
+    const runId = searchParams.get('runId')
 
-    if (promptId) {
-      // Get specific prompt with results
-      const promptWithResults = await supabaseClient.getPromptWithResults(promptId)
+    if (runId) {
+      // Get specific run with results
+      const runWithResults = await getRepository().getRunWithResults(runId)
       
-      if (!promptWithResults) {
+      if (!runWithResults) {
         return NextResponse.json(
-          { error: 'Prompt not found' },
+          { error: 'Run not found' },
           { status: 404 }
         )
       }
 
-      return NextResponse.json(promptWithResults, { status: 200 })
+      const analysis = analyzeSavedRun(runWithResults.run, runWithResults.responses)
+      const sampleAnalysis = analyzeSavedRun(runWithResults.run, runWithResults.responses, 'sample')
+      const history = await loadAgreementHistory(analysis)
+
+      return NextResponse.json({
+        ...runWithResults,
+        analysis,
+        sample_analysis: sampleAnalysis,
+        insights: ConsensusAnalyzer.generateInsights(analysis, history)
+      }, { status: 200 })
     } else {
       // Get prompt history
-      const prompts = await supabaseClient.getPromptHistory(limit)
+      const prompts = await getRepository().getPromptHistory(limit)
       
       return NextResponse.json({ prompts }, { status: 200 })
     }
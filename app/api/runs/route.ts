@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+import VercelAIGatewayClient from '@/lib/vercel-ai-gateway'
+import { getVercelAIGatewayApiKey } from '@/lib/credentials'
+import { SimilaritySchema, CanonicalizationSchema, VoteWeightingSchema, checkRunBudget, runSuiteInBackground } from '@/lib/benchmark-runner'
+import { buildRunMatrix } from '@/lib/suite-matrix'
+import { GenerationSettingsSchema } from '@/lib/generation-settings'
+import { PricingOverridesSchema } from '@/lib/pricing'
+import { BUDGET_EXCEEDED } from '@/lib/budget'
+import { RateLimitsSchema } from '@/lib/rate-limiter'
+
+// Validation schemas
+const RunRequestSchema = z.object({
+  suiteId: z.string().min(1, 'Suite is required'),
+  modelIds: z.array(z.string().min(1)).min(1, 'At least one model must be selected'),
+  similarity: SimilaritySchema,
+  canonicalization: CanonicalizationSchema,
+  generation: GenerationSettingsSchema,
+  weighting: VoteWeightingSchema,
+  pricing: PricingOverridesSchema,
+  // Set once the user agreed to go over the budget for this run
+  confirmOverBudget: z.boolean().optional(),
+  rateLimits: RateLimitsSchema,
+})
+
+// POST: Start a suite run; prompts are processed in the background and the
+// run's progress can be polled with GET ?id=
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate request body
+    const { suiteId, modelIds, similarity, canonicalization, generation, weighting, pricing, confirmOverBudget, rateLimits } = RunRequestSchema.parse(body)
+
+    // Get Vercel AI Gateway API key
+    const vercelAIGatewayApiKey = getVercelAIGatewayApiKey(request)
+    if (!vercelAIGatewayApiKey) {
+      return NextResponse.json(
+        { error: 'Vercel AI Gateway API key is not configured. Please set it in environment variables or via the settings page.' },
+        { status: 500 }
+      )
+    }
+
+    const [allModels, suitePrompts] = await Promise.all([
+      getRepository().getModels(),
+      getRepository().getSuitePrompts(suiteId)
+    ])
+    const selectedModels = allModels.filter(model => modelIds.includes(model.id))
+
+    if (selectedModels.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid models selected.' },
+        { status: 400 }
+      )
+    }
+
+    if (suitePrompts.length === 0) {
+      return NextResponse.json(
+        { error: 'Suite not found or has no prompts.' },
+        { status: 404 }
+      )
+    }
+
+    // The whole suite counts as one run against the per-run budget
+    const budgetCheck = await checkRunBudget({
+      prompts: suitePrompts.map(prompt => prompt.text),
+      models: selectedModels,
+      settings: { generation, pricing }
+    })
+
+    if (budgetCheck.exceeded && !(budgetCheck.confirmable && confirmOverBudget)) {
+      return NextResponse.json(
+        {
+          error: `${budgetCheck.reasons.join('. ')}.`,
+          code: BUDGET_EXCEEDED,
+          budget: budgetCheck,
+          confirmable: budgetCheck.confirmable
+        },
+        { status: 402 }
+      )
+    }
+
+    const run = await getRepository().createSuiteRun(
+      suiteId,
+      selectedModels.map(model => model.id),
+      suitePrompts.length
+    )
+
+    // Runs after the response; progress and failures are recorded on the run
+    runSuiteInBackground({
+      aiGateway: new VercelAIGatewayClient(vercelAIGatewayApiKey),
+      run,
+      prompts: suitePrompts,
+      models: selectedModels,
+      settings: { similarity, canonicalization, generation, weighting, pricing, rateLimits }
+    })
+
+    return NextResponse.json({ run }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting suite run:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start suite run' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET: List recent runs, or one run with its aggregate matrix
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const runId = searchParams.get('id')
+
+    if (runId) {
+      const runWithResults = await getRepository().getSuiteRunWithResults(runId)
+
+      if (!runWithResults) {
+        return NextResponse.json(
+          { error: 'Run not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        run: runWithResults.run,
+        matrix: buildRunMatrix(runWithResults.runs, runWithResults.responses)
+      }, { status: 200 })
+    }
+
+    const runs = await getRepository().getSuiteRuns(limit)
+    return NextResponse.json({ runs }, { status: 200 })
+  } catch (error) {
+    console.error('Error fetching runs:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch runs' },
+      { status: 500 }
+    )
+  }
+}
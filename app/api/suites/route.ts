@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRepository } from '@/lib/repository'
+import { parseSuite } from '@/lib/suite-parser'
+
+// Validation schemas
+const CreateSuiteSchema = z.object({
+  name: z.string().min(1, 'Suite name is required').max(200, 'Suite name too long'),
+  description: z.string().max(1000).optional(),
+  format: z.enum(['json', 'jsonl', 'csv']).optional(),
+  content: z.string().min(1, 'Suite content is required'),
+})
+
+// GET: List suites, or the prompts of one suite
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const suiteId = searchParams.get('id')
+
+    if (suiteId) {
+      const prompts = await getRepository().getSuitePrompts(suiteId)
+      return NextResponse.json({ prompts }, { status: 200 })
+    }
+
+    const suites = await getRepository().getSuites()
+    return NextResponse.json({ suites }, { status: 200 })
+  } catch (error) {
+    console.error('Error fetching suites:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch suites' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Import a suite from JSON, JSONL or CSV content
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate request body
+    const { name, description, format, content } = CreateSuiteSchema.parse(body)
+
+    let parsed
+    try {
+      parsed = parseSuite(content, format)
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Invalid suite file: ${error instanceof Error ? error.message : 'parse error'}` },
+        { status: 400 }
+      )
+    }
+
+    const suite = await getRepository().createSuite(
+      name,
+      description || parsed.description || null,
+      parsed.prompts
+    )
+
+    return NextResponse.json({ suite }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating suite:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create suite' },
+      { status: 500 }
+    )
+  }
+}
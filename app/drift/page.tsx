@@ -0,0 +1,467 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { createAuthHeaders } from '@/lib/credentials'
+import { formatPercentage, formatTime } from '@/lib/utils'
+import { getLocalPricingOverrides } from '@/lib/pricing'
+import { BUDGET_EXCEEDED } from '@/lib/budget'
+import { getLocalRateLimits } from '@/lib/rate-limiter'
+import { useModelsStore } from '@/store/models-store'
+import { useBenchmarkStore } from '@/store/benchmark-store'
+import type { DriftSchedule, Suite } from '@/lib/database-types'
+import type { DriftFlag, DriftReport } from '@/lib/drift-detector'
+
+const FLAG_LABELS: Record<DriftFlag, string> = {
+  answers: 'Answers changed',
+  agreement: 'Agreement moved'
+}
+
+export default function DriftPage() {
+  const { models, selectedModelIds, syncModels } = useModelsStore()
+  const { clusteringMode, similarityStrategy, similarityThreshold, generationSettings, voteWeighting } = useBenchmarkStore()
+
+  const [suites, setSuites] = useState<Suite[]>([])
+  const [schedules, setSchedules] = useState<DriftSchedule[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const [suiteId, setSuiteId] = useState('')
+  const [intervalHours, setIntervalHours] = useState('24')
+  const [isPinning, setIsPinning] = useState(false)
+
+  const [activeSchedule, setActiveSchedule] = useState<DriftSchedule | null>(null)
+  const [report, setReport] = useState<DriftReport | null>(null)
+  // Empty until a report is loaded, then the thresholds it was built with
+  const [answerChange, setAnswerChange] = useState('')
+  const [agreementChange, setAgreementChange] = useState('')
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const headers = createAuthHeaders()
+      const [suitesResponse, schedulesResponse] = await Promise.all([
+        fetch('/api/suites', { headers }),
+        fetch('/api/drift', { headers })
+      ])
+      const suitesData = await suitesResponse.json()
+      const schedulesData = await schedulesResponse.json()
+
+      if (!suitesResponse.ok) throw new Error(suitesData.error || 'Failed to load suites')
+      if (!schedulesResponse.ok) throw new Error(schedulesData.error || 'Failed to load drift schedules')
+
+      setSuites(suitesData.suites || [])
+      setSchedules(schedulesData.schedules || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drift schedules')
+    }
+  }, [])
+
+  const loadReport = useCallback(async (scheduleId: string) => {
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ scheduleId })
+      if (answerChange) params.set('answerChange', answerChange)
+      if (agreementChange) params.set('agreementChange', agreementChange)
+
+      const headers = createAuthHeaders()
+      const response = await fetch(`/api/drift?${params}`, { headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load drift report')
+
+      setActiveSchedule(data.schedule)
+      setReport(data.report)
+      setAnswerChange(String(data.report.thresholds.answerChange))
+      setAgreementChange(String(data.report.thresholds.agreementChange))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drift report')
+    }
+  }, [answerChange, agreementChange])
+
+  useEffect(() => {
+    loadSchedules()
+    if (models.length === 0) {
+      syncModels()
+    }
+  }, [loadSchedules, models.length, syncModels])
+
+  const pinSuite = async () => {
+    setIsPinning(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const response = await fetch('/api/drift', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          suiteId,
+          modelIds: selectedModelIds,
+          intervalHours: intervalHours ? Number(intervalHours) : null,
+          similarity: {
+            mode: clusteringMode,
+            strategy: similarityStrategy,
+            threshold: similarityThreshold ?? undefined
+          },
+          generation: generationSettings,
+          weighting: voteWeighting,
+          pricing: getLocalPricingOverrides(),
+          rateLimits: getLocalRateLimits()
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to pin suite')
+
+      setSuiteId('')
+      await loadSchedules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pin suite')
+    } finally {
+      setIsPinning(false)
+    }
+  }
+
+  const toggleSchedule = async (schedule: DriftSchedule) => {
+    setError(null)
+
+    try {
+      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const response = await fetch('/api/drift', {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ id: schedule.id, enabled: !schedule.enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule')
+
+      await loadSchedules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule')
+    }
+  }
+
+  const runNow = async (schedule: DriftSchedule, confirmOverBudget = false) => {
+    setError(null)
+    setNotice(null)
+
+    try {
+      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const response = await fetch('/api/drift/run', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ scheduleId: schedule.id, confirmOverBudget })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (data.code === BUDGET_EXCEEDED && data.confirmable && confirm(`${data.error} Run anyway?`)) {
+          return runNow(schedule, true)
+        }
+        throw new Error(data.error || 'Failed to start run')
+      }
+
+      setNotice(`Started a run of ${schedule.suite?.name || 'the suite'}; progress is shown on the suites page.`)
+      await loadSchedules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start run')
+    }
+  }
+
+  const unpinSchedule = async (schedule: DriftSchedule) => {
+    if (!confirm('Unpin this prompt set? Its runs stay in the suite history.')) return
+    setError(null)
+
+    try {
+      const headers = createAuthHeaders()
+      const response = await fetch(`/api/drift?id=${schedule.id}`, { method: 'DELETE', headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to unpin suite')
+
+      if (activeSchedule?.id === schedule.id) {
+        setActiveSchedule(null)
+        setReport(null)
+      }
+      await loadSchedules()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unpin suite')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const formatChange = (value: number | null, suffix: string) => {
+    if (value === null) return ''
+    return ` (${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix})`
+  }
+
+  const describeInterval = (schedule: DriftSchedule) => {
+    if (!schedule.interval_hours) return 'Manual runs only'
+    return `Every ${schedule.interval_hours} ${schedule.interval_hours === 1 ? 'hour' : 'hours'}`
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          Drift Detection
+        </h1>
+        <p className="text-xl text-gray-600">
+          Re-run a pinned prompt set over time and see which models change their answers
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 mb-6">
+          <CardContent className="pt-6">
+            <p className="text-red-700">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {notice && (
+        <Card className="border-blue-200 bg-blue-50 mb-6">
+          <CardContent className="pt-6">
+            <p className="text-blue-700">{notice}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-6">
+        {/* Pin */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pin a Prompt Set</CardTitle>
+            <CardDescription>
+              Runs use the {selectedModelIds.length} models and the grouping and generation settings selected on the
+              benchmark page, fixed at the time the suite is pinned
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-2">
+              <select
+                value={suiteId}
+                onChange={(e) => setSuiteId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+                disabled={isPinning}
+              >
+                <option value="">Select a suite</option>
+                {suites.map(suite => (
+                  <option key={suite.id} value={suite.id}>
+                    {suite.name} ({suite.prompt_count} prompts)
+                  </option>
+                ))}
+              </select>
+              <div className="w-48">
+                <label className="block text-xs text-gray-600 mb-1">Interval in hours (empty for manual)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={intervalHours}
+                  onChange={(e) => setIntervalHours(e.target.value)}
+                  disabled={isPinning}
+                />
+              </div>
+              <Button onClick={pinSuite} disabled={isPinning || !suiteId || selectedModelIds.length === 0}>
+                {isPinning ? 'Pinning...' : 'Pin Suite'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Schedules */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pinned Prompt Sets</CardTitle>
+            <CardDescription>Scheduled runs are started by the daily cron job once their interval has passed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {schedules.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No prompt sets pinned yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {schedules.map((schedule) => (
+                  <div
+                    key={schedule.id}
+                    className={`flex items-center justify-between border rounded-lg p-4 ${
+                      activeSchedule?.id === schedule.id ? 'border-blue-300 bg-blue-50' : ''
+                    }`}
+                  >
+                    <div>
+                      <h3 className="font-medium">{schedule.suite?.name || 'Suite'}</h3>
+                      <p className="text-sm text-gray-600">
+                        {schedule.model_ids.length} models · {describeInterval(schedule)}
+                        {schedule.last_run_at && ` · Last run ${formatDate(schedule.last_run_at)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!schedule.enabled && <Badge variant="outline">paused</Badge>}
+                      <Button variant="outline" onClick={() => loadReport(schedule.id)}>
+                        Report
+                      </Button>
+                      <Button variant="outline" onClick={() => runNow(schedule)}>
+                        Run Now
+                      </Button>
+                      {schedule.interval_hours && (
+                        <Button variant="outline" onClick={() => toggleSchedule(schedule)}>
+                          {schedule.enabled ? 'Pause' : 'Resume'}
+                        </Button>
+                      )}
+                      <Button variant="outline" onClick={() => unpinSchedule(schedule)}>
+                        Unpin
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Report */}
+        {activeSchedule && report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{activeSchedule.suite?.name || 'Suite'} Drift</CardTitle>
+              <CardDescription>
+                {report.runs.length} runs · {report.models.filter(model => model.flagged).length} of {report.models.length} models flagged
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="w-56">
+                  <label className="block text-xs text-gray-600 mb-1">Flag when answers change on more than (%)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={answerChange}
+                    onChange={(e) => setAnswerChange(e.target.value)}
+                  />
+                </div>
+                <div className="w-56">
+                  <label className="block text-xs text-gray-600 mb-1">Flag when agreement moves more than (pts)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={agreementChange}
+                    onChange={(e) => setAgreementChange(e.target.value)}
+                  />
+                </div>
+                <Button variant="outline" onClick={() => loadReport(activeSchedule.id)}>
+                  Apply
+                </Button>
+              </div>
+
+              {report.runs.length < 2 && (
+                <p className="text-sm text-gray-500">
+                  Drift shows up once the prompt set has been run at least twice.
+                </p>
+              )}
+
+              {report.models.map(model => (
+                <div key={model.modelId} className={`border rounded-lg p-4 ${model.flagged ? 'border-amber-300' : ''}`}>
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <h3 className="font-medium">{model.name}</h3>
+                      <p className="text-sm text-gray-600">{model.provider}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {model.latencyChangePercent !== null && (
+                        <span className="text-sm text-gray-600" title="Median latency of the latest run against the first">
+                          Latency {model.latencyChangePercent > 0 ? '+' : ''}{formatPercentage(model.latencyChangePercent, 0)}
+                        </span>
+                      )}
+                      {model.flagged && <Badge variant="destructive">drift</Badge>}
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm border-collapse">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2 font-medium text-gray-700">Run</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Answered</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Agreement</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Accuracy</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Answer Changes</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Median Latency</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Flags</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {model.points.map(point => (
+                          <tr key={point.suiteRunId} className={`border-b ${point.flags.length > 0 ? 'bg-amber-50' : ''}`}>
+                            <td className="p-2 whitespace-nowrap">{formatDate(point.createdAt)}</td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.answered}
+                              {point.failures > 0 && <span className="ml-1 text-xs text-red-600">({point.failures} failed)</span>}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.agreementRate !== null ? formatPercentage(point.agreementRate, 0) : '—'}
+                              {formatChange(point.agreementChange, ' pts')}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.accuracy !== null ? formatPercentage(point.accuracy, 0) : '—'}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.answerChangeRate !== null
+                                ? `${point.changes.length}/${point.compared} (${formatPercentage(point.answerChangeRate, 0)})`
+                                : '—'}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.medianLatencyMs !== null ? formatTime(point.medianLatencyMs) : '—'}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">
+                              {point.flags.map(flag => (
+                                <Badge key={flag} variant="outline" className="mr-1">{FLAG_LABELS[flag]}</Badge>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {model.points.some(point => point.changes.length > 0) && (
+                    <details className="mt-3">
+                      <summary className="text-sm text-gray-700 cursor-pointer">Changed answers</summary>
+                      <div className="mt-2 space-y-2">
+                        {model.points.flatMap(point => point.changes.map(change => (
+                          <div key={`${point.suiteRunId}:${change.promptId}`} className="text-sm border-l-2 border-amber-300 pl-3">
+                            <p className="text-gray-500">{formatDate(point.createdAt)} · {change.text}</p>
+                            <p>
+                              <span className="text-gray-500 line-through">{change.previousAnswer}</span>
+                              {' → '}
+                              <span className="font-medium">{change.answer}</span>
+                            </p>
+                          </div>
+                        )))}
+                      </div>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
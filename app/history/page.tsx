@@ -5,20 +5,61 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { createAuthHeaders } from '@/lib/credentials'
+import { ConsensusAnalyzer } from '@/lib/consensus-analyzer'
+import { formatGroundTruth, getModelAccuracy } from '@/lib/accuracy-scorer'
+import { formatPercentage, formatTime } from '@/lib/utils'
+import { GenerationSettings, describeGenerationSettings } from '@/lib/generation-settings'
+import { VoteWeighting, getVoteWeightingLabel } from '@/lib/vote-weights'
+import { ConfidenceInterval, formatInterval } from '@/lib/agreement-statistics'
+import { sumCosts, formatCost } from '@/lib/pricing'
+import { AttemptRecord, describeAttempts } from '@/lib/resilience'
+import { ErrorCategory, getErrorCategoryLabel, summarizeFailures } from '@/lib/error-taxonomy'
+
+interface HistoryRun {
+  id: string
+  prompt_id: string
+  model_ids: string[]
+  similarity_strategy?: string
+  similarity_threshold?: number
+  clustering_mode?: 'pairwise' | 'semantic'
+  expected_answers?: string[] | null
+  expected_pattern?: string | null
+  generation_settings?: GenerationSettings | null
+  tags?: string[] | null
+  status: 'running' | 'completed' | 'cancelled' | 'failed'
+  created_at: string
+  completed_at?: string | null
+}
 
 interface HistoryPrompt {
   id: string
   text: string
   created_at: string
   updated_at?: string
+  // Newest first
+  runs: HistoryRun[]
 }
 
 interface HistoryResponse {
   id: string
   prompt_id: string
+  run_id: string
   model_id: string
+  sample_index?: number
   response_text: string
+  canonical_text?: string | null
+  is_correct?: boolean | null
   response_time_ms: number
+  time_to_first_token_ms?: number | null
+  tokens_per_second?: number | null
+  input_tokens?: number | null
+  output_tokens?: number | null
+  cost_usd?: number | null
+  attempts?: AttemptRecord[] | null
+  status?: 'success' | 'failed' | null
+  error_category?: ErrorCategory | null
+  error_message?: string | null
+  attempt_count?: number | null
   created_at: string
   model?: {
     id: string
@@ -30,6 +71,7 @@ interface HistoryResponse {
 interface ConsensusGroup {
   id: string
   prompt_id: string
+  run_id: string
   group_name: string
   count: number
   percentage?: number
@@ -38,15 +80,33 @@ interface ConsensusGroup {
   created_at: string
 }
 
+const RUN_STATUS_BADGES: Record<HistoryRun['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  running: { label: 'Running', variant: 'secondary' },
+  completed: { label: 'Completed', variant: 'outline' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+  failed: { label: 'Failed', variant: 'destructive' }
+}
+
 export default function HistoryPage() {
   const [prompts, setPrompts] = useState<HistoryPrompt[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [selectedPrompt, setSelectedPrompt] = useState<string | null>(null)
+  const [selectedRun, setSelectedRun] = useState<string | null>(null)
   const [promptDetails, setPromptDetails] = useState<{
-    prompt: HistoryPrompt
+    prompt: Omit<HistoryPrompt, 'runs'>
+    run: HistoryRun
     responses: HistoryResponse[]
     consensusGroups: ConsensusGroup[]
+    analysis?: {
+      consensusLevel: number
+      consensusInterval: ConfidenceInterval
+      entropy: number
+      normalizedEntropy: number
+      accuracy?: number
+      weighting: VoteWeighting
+      weightedConsensusLevel: number
+      weightedTopResponse: string
+    }
   } | null>(null)
 
   useEffect(() => {
@@ -65,8 +125,9 @@ export default function HistoryPage() {
       if (response.ok) {
         const allPrompts = data.prompts || []
         
-        // Sort by creation date (most recent first) - show all benchmarks as created
-        allPrompts.sort((a: HistoryPrompt, b: HistoryPrompt) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        // Sort by latest run (most recent first), so a prompt asked again moves to the top
+        const lastActivity = (prompt: HistoryPrompt) => new Date(prompt.runs[0]?.created_at || prompt.updated_at || prompt.created_at).getTime()
+        allPrompts.sort((a: HistoryPrompt, b: HistoryPrompt) => lastActivity(b) - lastActivity(a))
         
         setPrompts(allPrompts)
       } else {
@@ -80,21 +141,21 @@ export default function HistoryPage() {
     }
   }
 
-  const loadPromptDetails = async (promptId: string) => {
+  const loadRunDetails = async (runId: string) => {
     try {
       const headers = createAuthHeaders()
-      const response = await fetch(`/api/prompt?id=${promptId}`, { headers })
+      const response = await fetch(`/api/prompt?runId=${runId}`, { headers })
       const data = await response.json()
       
       if (response.ok) {
         setPromptDetails(data)
-        setSelectedPrompt(promptId)
+        setSelectedRun(runId)
       } else {
-        setError(data.error || 'Failed to load prompt details')
+        setError(data.error || 'Failed to load run details')
       }
     } catch (err) {
-      setError('Failed to load prompt details')
-      console.error('Error loading prompt details:', err)
+      setError('Failed to load run details')
+      console.error('Error loading run details:', err)
     }
   }
 
@@ -108,7 +169,18 @@ export default function HistoryPage() {
     })
   }
 
-  if (selectedPrompt && promptDetails) {
+  if (selectedRun && promptDetails) {
+    const { run } = promptDetails
+    const modelAccuracy = getModelAccuracy(promptDetails.responses)
+    const failureBreakdown = summarizeFailures(promptDetails.responses)
+    const failedCount = failureBreakdown.reduce((sum, entry) => sum + entry.failures, 0)
+    const expected = run.expected_answers?.length || run.expected_pattern
+      ? formatGroundTruth({
+          answers: run.expected_answers || undefined,
+          pattern: run.expected_pattern || undefined
+        })
+      : null
+
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8 flex items-center justify-between">
@@ -122,7 +194,7 @@ export default function HistoryPage() {
           </div>
           <Button 
             variant="outline" 
-            onClick={() => setSelectedPrompt(null)}
+            onClick={() => setSelectedRun(null)}
           >
             ← Back to History
           </Button>
@@ -132,26 +204,135 @@ export default function HistoryPage() {
           {/* Prompt Info */}
           <Card>
             <CardHeader>
-              <CardTitle>Prompt Information</CardTitle>
+              <CardTitle>Run Information</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div>
-                  <h4 className="font-medium text-gray-700">Created</h4>
-                  <p className="text-sm text-gray-600">{formatDate(promptDetails.prompt.created_at)}</p>
+                  <h4 className="font-medium text-gray-700">Run</h4>
+                  <p className="text-sm text-gray-600">
+                    {formatDate(run.created_at)}
+                    <Badge variant={RUN_STATUS_BADGES[run.status].variant} className="ml-2">
+                      {RUN_STATUS_BADGES[run.status].label}
+                    </Badge>
+                  </p>
                 </div>
                 <div>
                   <h4 className="font-medium text-gray-700">Total Responses</h4>
-                  <p className="text-sm text-gray-600">{promptDetails.responses.length}</p>
+                  <p className="text-sm text-gray-600">
+                    {promptDetails.responses.length - failedCount}
+                    {failedCount > 0 && ` (${failedCount} failed)`}
+                  </p>
+                </div>
+                <div>
+                  <h4 className="font-medium text-gray-700">Total Cost</h4>
+                  <p className="text-sm text-gray-600">
+                    {formatCost(sumCosts(promptDetails.responses.map(response => response.cost_usd)))}
+                  </p>
                 </div>
                 <div>
                   <h4 className="font-medium text-gray-700">Consensus Groups</h4>
                   <p className="text-sm text-gray-600">{promptDetails.consensusGroups.length}</p>
                 </div>
+                <div>
+                  <h4 className="font-medium text-gray-700">Grouped By</h4>
+                  <p className="text-sm text-gray-600">
+                    {ConsensusAnalyzer.describeGrouping(
+                      run.clustering_mode || 'pairwise',
+                      run.similarity_strategy || 'levenshtein',
+                      Number(run.similarity_threshold ?? 0.8)
+                    )}
+                  </p>
+                </div>
+                {run.generation_settings && (
+                  <div className="md:col-span-2">
+                    <h4 className="font-medium text-gray-700">Generation</h4>
+                    <p className="text-sm text-gray-600">
+                      {describeGenerationSettings(run.generation_settings)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1 truncate" title={run.generation_settings.systemPrompt}>
+                      System: {run.generation_settings.systemPrompt || '(none)'}
+                    </p>
+                  </div>
+                )}
+                {promptDetails.analysis && (
+                  <div>
+                    <h4 className="font-medium text-gray-700">Consensus Level</h4>
+                    <p className="text-sm text-gray-600">{formatPercentage(promptDetails.analysis.consensusLevel)}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatInterval(promptDetails.analysis.consensusInterval)} · entropy {promptDetails.analysis.entropy.toFixed(2)} bits
+                    </p>
+                  </div>
+                )}
+                {promptDetails.analysis && promptDetails.analysis.weighting !== 'equal' && (
+                  <div>
+                    <h4 className="font-medium text-gray-700">Weighted Consensus</h4>
+                    <p className="text-sm text-gray-600">
+                      {formatPercentage(promptDetails.analysis.weightedConsensusLevel)} for "{promptDetails.analysis.weightedTopResponse}"
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      By {getVoteWeightingLabel(promptDetails.analysis.weighting).toLowerCase()}
+                    </p>
+                  </div>
+                )}
+                {expected && (
+                  <div>
+                    <h4 className="font-medium text-gray-700">Expected Answer</h4>
+                    <p className="text-sm text-gray-600">{expected}</p>
+                  </div>
+                )}
+                {promptDetails.analysis?.accuracy !== undefined && (
+                  <div>
+                    <h4 className="font-medium text-gray-700">Accuracy</h4>
+                    <p className="text-sm text-gray-600">{formatPercentage(promptDetails.analysis.accuracy)}</p>
+                  </div>
+                )}
               </div>
+              {modelAccuracy.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {modelAccuracy.map(entry => (
+                    <Badge key={entry.modelId} variant={entry.correct === entry.total ? 'secondary' : 'destructive'}>
+                      {entry.modelName}: {formatPercentage(entry.accuracy, 0)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Failures */}
+          {failedCount > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Failures by Model</CardTitle>
+                <CardDescription>Requests that failed after all retries, by cause</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {failureBreakdown.filter(entry => entry.failures > 0).map(entry => (
+                    <div key={entry.modelId} className="flex flex-wrap items-center justify-between gap-2 border rounded-lg p-3">
+                      <div>
+                        <span className="font-medium">{entry.name}</span>
+                        <Badge variant="secondary" className="ml-2">{entry.provider}</Badge>
+                        <span className="ml-2 text-sm text-gray-600">
+                          {entry.failures} of {entry.requests} failed ({formatPercentage(entry.failureRate, 0)})
+                          {entry.averageFailureMs !== null && ` · ${formatTime(Math.round(entry.averageFailureMs))} lost on average`}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(entry.categories).map(([category, count]) => (
+                          <Badge key={category} variant="destructive">
+                            {getErrorCategoryLabel(category as ErrorCategory)}: {count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Responses */}
           <Card>
             <CardHeader>
@@ -168,14 +349,45 @@ export default function HistoryPage() {
                         <Badge variant="secondary" className="ml-2">
                           {response.model?.provider || 'Unknown'}
                         </Badge>
+                        {(run.generation_settings?.samples ?? 1) > 1 && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            Sample {(response.sample_index ?? 0) + 1}
+                          </span>
+                        )}
+                        {response.is_correct !== undefined && response.is_correct !== null && (
+                          <Badge variant={response.is_correct ? 'outline' : 'destructive'} className="ml-2">
+                            {response.is_correct ? '✓ Correct' : '✗ Incorrect'}
+                          </Badge>
+                        )}
+                        {response.status === 'failed' && (
+                          <Badge variant="destructive" className="ml-2">
+                            {getErrorCategoryLabel(response.error_category)}
+                          </Badge>
+                        )}
                       </div>
                       <span className="text-sm text-gray-500">
                         {response.response_time_ms}ms
+                        {response.time_to_first_token_ms != null && ` · first token ${response.time_to_first_token_ms}ms`}
+                        {response.tokens_per_second != null && ` · ${Number(response.tokens_per_second).toFixed(1)} tok/s`}
+                        {response.input_tokens != null && response.output_tokens != null && ` · ${response.input_tokens} in / ${response.output_tokens} out tokens`}
+                        {response.cost_usd != null && ` · ${formatCost(response.cost_usd)}`}
+                        {response.attempts && response.attempts.length > 1 && ` · ${describeAttempts(response.attempts)}`}
                       </span>
                     </div>
-                    <p className="text-gray-700 bg-gray-50 p-2 rounded">
-                      "{response.response_text}"
-                    </p>
+                    {response.status === 'failed' ? (
+                      <p className="text-red-700 bg-red-50 p-2 rounded text-sm">
+                        {response.error_message || 'Unknown error'}
+                      </p>
+                    ) : (
+                      <p className="text-gray-700 bg-gray-50 p-2 rounded">
+                        "{response.response_text}"
+                      </p>
+                    )}
+                    {response.canonical_text && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Canonical: {response.canonical_text}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -250,7 +462,7 @@ export default function HistoryPage() {
               <div>
                 <CardTitle>Recent Benchmarks</CardTitle>
                 <CardDescription>
-                  Your most recent prompt submissions and their consensus results
+                  Each prompt with the runs it was benchmarked in, newest first
                 </CardDescription>
               </div>
               <Button 
@@ -282,25 +494,42 @@ export default function HistoryPage() {
             ) : (
               <div className="space-y-4">
                 {prompts.map((prompt) => (
-                  <Card 
-                    key={prompt.id} 
-                    className="cursor-pointer hover:shadow-md transition-shadow"
-                    onClick={() => loadPromptDetails(prompt.id)}
-                  >
+                  <Card key={prompt.id}>
                     <CardContent className="p-4">
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <h3 className="font-medium mb-1 truncate">
-                            "{prompt.text}"
-                          </h3>
-                          <p className="text-sm text-gray-600">
-                            {formatDate(prompt.created_at)}
-                          </p>
-                        </div>
-                        <Button variant="ghost" size="sm">
-                          View Details →
-                        </Button>
-                      </div>
+                      <h3 className="font-medium mb-1 truncate">
+                        "{prompt.text}"
+                      </h3>
+                      <p className="text-sm text-gray-600 mb-3">
+                        First asked {formatDate(prompt.created_at)} · {prompt.runs.length} {prompt.runs.length === 1 ? 'run' : 'runs'}
+                      </p>
+                      {/* Run timeline */}
+                      <ol className="border-l-2 border-gray-200 ml-1 space-y-1">
+                        {prompt.runs.map(run => (
+                          <li
+                            key={run.id}
+                            className="relative pl-4 py-1 flex flex-wrap items-center justify-between gap-2 cursor-pointer rounded hover:bg-gray-50"
+                            onClick={() => loadRunDetails(run.id)}
+                          >
+                            <span className="absolute -left-[5px] top-3 h-2 w-2 rounded-full bg-gray-400" />
+                            <div className="text-sm text-gray-700">
+                              {formatDate(run.created_at)}
+                              <Badge variant={RUN_STATUS_BADGES[run.status].variant} className="ml-2">
+                                {RUN_STATUS_BADGES[run.status].label}
+                              </Badge>
+                              <span className="ml-2 text-gray-500">
+                                {run.model_ids.length} {run.model_ids.length === 1 ? 'model' : 'models'}
+                                {(run.generation_settings?.samples ?? 1) > 1 && ` · ${run.generation_settings!.samples} samples`}
+                              </span>
+                              {(run.tags || []).map(tag => (
+                                <Badge key={tag} variant="secondary" className="ml-1">{tag}</Badge>
+                              ))}
+                            </div>
+                            <Button variant="ghost" size="sm">
+                              View Details →
+                            </Button>
+                          </li>
+                        ))}
+                      </ol>
                     </CardContent>
                   </Card>
                 ))}
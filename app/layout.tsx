@@ -54,12 +54,36 @@ export default function RootLayout({
                     >
                       Benchmark
                     </a>
+                    <a
+                      href="/suites"
+                      className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Suites
+                    </a>
                     <a
                       href="/history"
                       className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
                     >
                       History
                     </a>
+                    <a
+                      href="/leaderboard"
+                      className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Leaderboard
+                    </a>
+                    <a
+                      href="/agreement"
+                      className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Agreement
+                    </a>
+                    <a
+                      href="/drift"
+                      className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      Drift
+                    </a>
                     <a
                       href="/setup"
                       className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
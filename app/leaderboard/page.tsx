@@ -0,0 +1,252 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { createAuthHeaders } from '@/lib/credentials'
+import { formatPercentage, formatTime } from '@/lib/utils'
+import { formatCost } from '@/lib/pricing'
+import type { Leaderboard, LeaderboardEntry } from '@/lib/leaderboard'
+
+type SortKey = 'name' | 'provider' | 'prompts' | 'majorityAgreement' | 'accuracy' | 'medianLatencyMs' | 'p95LatencyMs' | 'failureRate' | 'costUsd'
+
+const COLUMNS: Array<{ key: SortKey; label: string; format: (entry: LeaderboardEntry) => string }> = [
+  { key: 'name', label: 'Model', format: entry => entry.name },
+  { key: 'provider', label: 'Provider', format: entry => entry.provider },
+  { key: 'prompts', label: 'Prompts', format: entry => String(entry.prompts) },
+  {
+    key: 'majorityAgreement',
+    label: 'Agrees with Majority',
+    format: entry => (entry.majorityAgreement === null ? '—' : formatPercentage(entry.majorityAgreement))
+  },
+  {
+    key: 'accuracy',
+    label: 'Accuracy',
+    format: entry => (entry.accuracy === null ? '—' : `${formatPercentage(entry.accuracy)} (${entry.scored})`)
+  },
+  {
+    key: 'medianLatencyMs',
+    label: 'Median Latency',
+    format: entry => (entry.medianLatencyMs === null ? '—' : formatTime(Math.round(entry.medianLatencyMs)))
+  },
+  {
+    key: 'p95LatencyMs',
+    label: 'p95 Latency',
+    format: entry => (entry.p95LatencyMs === null ? '—' : formatTime(Math.round(entry.p95LatencyMs)))
+  },
+  {
+    key: 'failureRate',
+    label: 'Failure Rate',
+    format: entry => (entry.failureRate === null ? '—' : formatPercentage(entry.failureRate))
+  },
+  {
+    key: 'costUsd',
+    label: 'Cost',
+    format: entry => formatCost(entry.costUsd)
+  }
+]
+
+// Columns where a lower value ranks first
+const ASCENDING_BY_DEFAULT: SortKey[] = ['name', 'provider', 'medianLatencyMs', 'p95LatencyMs', 'failureRate', 'costUsd']
+
+function sortEntries(entries: LeaderboardEntry[], key: SortKey, ascending: boolean): LeaderboardEntry[] {
+  return [...entries].sort((a, b) => {
+    const left = a[key]
+    const right = b[key]
+    // Missing values always sort last
+    if (left === null && right === null) return 0
+    if (left === null) return 1
+    if (right === null) return -1
+    const order = typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number)
+    return ascending ? order : -order
+  })
+}
+
+export default function LeaderboardPage() {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [provider, setProvider] = useState('')
+  const [tag, setTag] = useState('')
+
+  const [sortKey, setSortKey] = useState<SortKey>('majorityAgreement')
+  const [ascending, setAscending] = useState(false)
+
+  const loadLeaderboard = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (provider) params.set('provider', provider)
+      if (tag) params.set('tag', tag)
+
+      const headers = createAuthHeaders()
+      const response = await fetch(`/api/leaderboard?${params}`, { headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load leaderboard')
+
+      setLeaderboard(data.leaderboard)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load leaderboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [from, to, provider, tag])
+
+  useEffect(() => {
+    loadLeaderboard()
+  }, [loadLeaderboard])
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending)
+    } else {
+      setSortKey(key)
+      setAscending(ASCENDING_BY_DEFAULT.includes(key))
+    }
+  }
+
+  const clearFilters = () => {
+    setFrom('')
+    setTo('')
+    setProvider('')
+    setTag('')
+  }
+
+  const entries = leaderboard ? sortEntries(leaderboard.entries, sortKey, ascending) : []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          Leaderboard
+        </h1>
+        <p className="text-xl text-gray-600">
+          Models ranked across every saved run
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 mb-6">
+          <CardContent className="pt-6">
+            <p className="text-red-700">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Models</CardTitle>
+              <CardDescription>
+                {leaderboard
+                  ? `${leaderboard.prompts} prompts. Click a column to sort.`
+                  : 'Click a column to sort.'}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={loadLeaderboard} disabled={isLoading}>
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor="leaderboard-from" className="text-gray-600">From:</label>
+            <Input
+              id="leaderboard-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-40 h-8"
+            />
+            <label htmlFor="leaderboard-to" className="text-gray-600">To:</label>
+            <Input
+              id="leaderboard-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-40 h-8"
+            />
+            <select
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">All providers</option>
+              {leaderboard?.providers.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="">All tags</option>
+              {leaderboard?.tags.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            {(from || to || provider || tag) && (
+              <Button variant="outline" size="sm" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          {isLoading && !leaderboard ? (
+            <p className="text-gray-500">Loading leaderboard...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-500">No responses match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm border-collapse">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium text-gray-700">#</th>
+                    {COLUMNS.map(column => (
+                      <th key={column.key} className="text-left p-2 font-medium text-gray-700 whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => handleSort(column.key)}
+                          className="hover:text-gray-900"
+                        >
+                          {column.label}
+                          {sortKey === column.key && (ascending ? ' ▲' : ' ▼')}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry, index) => (
+                    <tr key={entry.modelId} className="border-b">
+                      <td className="p-2 text-gray-500">{index + 1}</td>
+                      {COLUMNS.map(column => (
+                        <td key={column.key} className="p-2 whitespace-nowrap">
+                          {column.format(entry)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                Failure rate counts requests that failed after all retries. Cost totals the responses that could be priced.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,6 +6,11 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { createAuthHeaders, getStoredCredentials } from '@/lib/credentials'
+import { ModelProfileEditor } from '@/components/benchmark/model-profile-editor'
+import { ModelPricingEditor } from '@/components/benchmark/model-pricing-editor'
+import { RateLimitEditor } from '@/components/benchmark/rate-limit-editor'
+import { BudgetSettings, loadBudgetSettings } from '@/lib/budget'
+import { formatCost } from '@/lib/pricing'
 
 export default function SettingsPage() {
   const [apiKeys, setApiKeys] = useState({
@@ -21,6 +26,9 @@ export default function SettingsPage() {
     saveHistory: true
   })
 
+  // Set on the server, shown here read-only
+  const [budget, setBudget] = useState<BudgetSettings | null>(null)
+
   const [isSaving, setIsSaving] = useState(false)
   const [isTesting, setIsTesting] = useState(false)
   const [message, setMessage] = useState('')
@@ -39,6 +47,7 @@ export default function SettingsPage() {
       setApiKeys(migratedApiKeys)
       setPreferences(stored.preferences)
     }
+    loadBudgetSettings().then(setBudget)
   }, [])
 
   const handleSaveApiKeys = async () => {
@@ -250,6 +259,92 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Budget */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Budget</CardTitle>
+            <CardDescription>
+              Runs are estimated before they start and checked on the server against these limits
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Per-Run Budget</h4>
+                <p className="text-lg text-gray-900">
+                  {budget?.perRunUsd != null ? formatCost(budget.perRunUsd) : 'No limit'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  A suite run counts as one run
+                </p>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Monthly Budget</h4>
+                <p className="text-lg text-gray-900">
+                  {budget?.monthlyUsd != null ? formatCost(budget.monthlyUsd) : 'No limit'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Includes the cost of responses saved since the start of the month (UTC)
+                </p>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Over-Budget Runs</h4>
+                <p className="text-lg text-gray-900">
+                  {budget?.requireConfirmation === false ? 'Blocked' : 'Ask to confirm'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Confirming lets that one run go over
+                </p>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Set <code>BUDGET_PER_RUN_USD</code>, <code>BUDGET_MONTHLY_USD</code> and <code>BUDGET_REQUIRE_CONFIRMATION</code> in the server environment to change these limits.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Model Profiles */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Model Profiles</CardTitle>
+            <CardDescription>
+              Per-model overrides applied automatically whenever the model is benchmarked
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ModelProfileEditor />
+          </CardContent>
+        </Card>
+
+        {/* Model Pricing */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Model Pricing</CardTitle>
+            <CardDescription>
+              Prices used to compute the cost of each response, stored in this browser
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ModelPricingEditor />
+          </CardContent>
+        </Card>
+
+        {/* Rate Limits */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Rate Limits</CardTitle>
+            <CardDescription>
+              Per-provider limits the request pool stays within, on top of the concurrency setting
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RateLimitEditor />
+          </CardContent>
+        </Card>
+
         {/* Data Management */}
         <Card>
           <CardHeader>
@@ -4,12 +4,25 @@ import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
 import { createAuthHeaders } from '@/lib/credentials'
 
+interface MigrationState {
+  version: number
+  name: string
+  applied: boolean
+  appliedAt: string | null
+}
+
 interface SetupStatus {
   setupRequired: boolean
   message: string
+  backend?: 'supabase' | 'local'
   modelCount?: number
+  migrations?: MigrationState[]
+  unknownVersions?: number[]
+  pendingSql?: string
+  execSqlFunction?: string
   error?: string
 }
 
@@ -18,6 +31,8 @@ export default function SetupPage() {
   const [isChecking, setIsChecking] = useState(false)
   const [isSettingUp, setIsSettingUp] = useState(false)
   const [setupResult, setSetupResult] = useState<any>(null)
+  // Sent as a bearer token; kept only while the page is open
+  const [setupSecret, setSetupSecret] = useState('')
 
   useEffect(() => {
     checkSetupStatus()
@@ -41,22 +56,25 @@ export default function SetupPage() {
     }
   }
 
-  const runSetup = async () => {
+  const runSetup = async (action: 'apply' | 'rollback') => {
+    if (action === 'rollback' && !confirm('Roll back the latest migration? Data in the tables it created will be lost.')) {
+      return
+    }
+
     setIsSettingUp(true)
     setSetupResult(null)
     try {
-      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const headers = createAuthHeaders({
+        'Content-Type': 'application/json',
+        ...(setupSecret && { Authorization: `Bearer ${setupSecret}` })
+      })
       const response = await fetch('/api/setup', {
         method: 'POST',
-        headers
+        headers,
+        body: JSON.stringify({ action })
       })
       const data = await response.json()
       setSetupResult(data)
-      
-      // Refresh status after setup
-      if (data.success) {
-        await checkSetupStatus()
-      }
     } catch (error) {
       setSetupResult({
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -64,6 +82,8 @@ export default function SetupPage() {
       })
     } finally {
       setIsSettingUp(false)
+      // Refresh status after setup, including after a partial failure
+      await checkSetupStatus()
     }
   }
 
@@ -76,108 +96,9 @@ export default function SetupPage() {
     }
   }
 
-  const schemaSQL = `-- BMarkApp Database Schema
--- Copy and paste this into your Supabase SQL Editor
-
--- Enable necessary extensions
-CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
-
--- Models table
-CREATE TABLE IF NOT EXISTS models (
-    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-    name VARCHAR(255) NOT NULL,
-    provider VARCHAR(100) NOT NULL,
-    model_id VARCHAR(255) UNIQUE NOT NULL,
-    enabled BOOLEAN DEFAULT true,
-    context_length INTEGER DEFAULT 4096,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Prompts table
-CREATE TABLE IF NOT EXISTS prompts (
-    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-    text TEXT NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Responses table
-CREATE TABLE IF NOT EXISTS responses (
-    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-    prompt_id UUID REFERENCES prompts(id) ON DELETE CASCADE,
-    model_id UUID REFERENCES models(id) ON DELETE CASCADE,
-    response_text TEXT NOT NULL,
-    response_time_ms INTEGER NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Consensus groups table
-CREATE TABLE IF NOT EXISTS consensus_groups (
-    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-    prompt_id UUID REFERENCES prompts(id) ON DELETE CASCADE,
-    group_name TEXT NOT NULL,
-    count INTEGER NOT NULL,
-    percentage DECIMAL(5,2),
-    color VARCHAR(7) NOT NULL,
-    models TEXT[],
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
-
--- Create indexes for better performance
-CREATE INDEX IF NOT EXISTS idx_models_model_id ON models(model_id);
-CREATE INDEX IF NOT EXISTS idx_models_enabled ON models(enabled);
-CREATE INDEX IF NOT EXISTS idx_responses_prompt_id ON responses(prompt_id);
-CREATE INDEX IF NOT EXISTS idx_responses_model_id ON responses(model_id);
-CREATE INDEX IF NOT EXISTS idx_consensus_groups_prompt_id ON consensus_groups(prompt_id);
-CREATE INDEX IF NOT EXISTS idx_prompts_created_at ON prompts(created_at DESC);
-
--- Enable Row Level Security (RLS)
-ALTER TABLE models ENABLE ROW LEVEL SECURITY;
-ALTER TABLE prompts ENABLE ROW LEVEL SECURITY;
-ALTER TABLE responses ENABLE ROW LEVEL SECURITY;
-ALTER TABLE consensus_groups ENABLE ROW LEVEL SECURITY;
-
--- Create policies for public access
-CREATE POLICY "Enable read access for all users" ON models FOR SELECT USING (true);
-CREATE POLICY "Enable insert access for all users" ON models FOR INSERT WITH CHECK (true);
-CREATE POLICY "Enable update access for all users" ON models FOR UPDATE USING (true);
-CREATE POLICY "Enable delete access for all users" ON models FOR DELETE USING (true);
-
-CREATE POLICY "Enable read access for all users" ON prompts FOR SELECT USING (true);
-CREATE POLICY "Enable insert access for all users" ON prompts FOR INSERT WITH CHECK (true);
-CREATE POLICY "Enable update access for all users" ON prompts FOR UPDATE USING (true);
-CREATE POLICY "Enable delete access for all users" ON prompts FOR DELETE USING (true);
-
-CREATE POLICY "Enable read access for all users" ON responses FOR SELECT USING (true);
-CREATE POLICY "Enable insert access for all users" ON responses FOR INSERT WITH CHECK (true);
-CREATE POLICY "Enable update access for all users" ON responses FOR UPDATE USING (true);
-CREATE POLICY "Enable delete access for all users" ON responses FOR DELETE USING (true);
-
-CREATE POLICY "Enable read access for all users" ON consensus_groups FOR SELECT USING (true);
-CREATE POLICY "Enable insert access for all users" ON consensus_groups FOR INSERT WITH CHECK (true);
-CREATE POLICY "Enable update access for all users" ON consensus_groups FOR UPDATE USING (true);
-CREATE POLICY "Enable delete access for all users" ON consensus_groups FOR DELETE USING (true);
-
--- Create updated_at trigger function
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Create triggers for updated_at
-CREATE TRIGGER update_models_updated_at BEFORE UPDATE ON models FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_prompts_updated_at BEFORE UPDATE ON prompts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
--- Insert some example data
-INSERT INTO models (name, provider, model_id, enabled, context_length) VALUES
-    ('GPT-4o', 'OpenAI', 'openai/gpt-4o', true, 128000),
-    ('Claude 3.5 Sonnet', 'Anthropic', 'anthropic/claude-3-5-sonnet', true, 200000),
-    ('Gemini Pro 1.5', 'Google', 'google/gemini-pro-1.5', true, 2000000)
-ON CONFLICT (model_id) DO NOTHING;`
+  const isLocal = status?.backend === 'local'
+  const migrations = status?.migrations || []
+  const hasApplied = migrations.some(migration => migration.applied)
 
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -186,7 +107,7 @@ ON CONFLICT (model_id) DO NOTHING;`
           Database Setup
         </h1>
         <p className="text-xl text-gray-600">
-          Set up your Supabase database for BMarkApp
+          Set up and migrate the database for BMarkApp
         </p>
       </div>
 
@@ -215,6 +136,11 @@ ON CONFLICT (model_id) DO NOTHING;`
                   <Badge variant={status.setupRequired ? "destructive" : "default"}>
                     {status.setupRequired ? "Setup Required" : "Ready"}
                   </Badge>
+                  {status.backend && (
+                    <Badge variant="outline">
+                      {status.backend === 'local' ? 'Local database' : 'Supabase'}
+                    </Badge>
+                  )}
                   {status.modelCount !== undefined && (
                     <Badge variant="secondary">
                       {status.modelCount} models
@@ -234,87 +160,159 @@ ON CONFLICT (model_id) DO NOTHING;`
           </CardContent>
         </Card>
 
-        {/* Automatic Setup */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Option 1: Automatic Setup</CardTitle>
-            <CardDescription>Try to set up the database automatically</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <p className="text-sm text-gray-600">
-              This will attempt to create all required tables and policies automatically.
-            </p>
-            
-            <Button 
-              onClick={runSetup}
-              disabled={isSettingUp || (!status?.setupRequired)}
-              className="w-full"
-            >
-              {isSettingUp ? 'Setting up...' : 'Run Automatic Setup'}
-            </Button>
-
-            {setupResult && (
-              <div className="mt-4 p-4 rounded-lg border">
-                {setupResult.success ? (
-                  <div className="text-green-700 bg-green-50 p-3 rounded">
-                    <p className="font-medium">✅ {setupResult.message}</p>
-                    {setupResult.tablesCreated && (
-                      <p className="text-sm mt-2">
-                        Created tables: {setupResult.tablesCreated.join(', ')}
-                      </p>
-                    )}
+        {!isLocal && (
+          <>
+            {/* Migrations */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Option 1: Apply Migrations</CardTitle>
+                <CardDescription>Bring the database schema up to date automatically</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {migrations.length > 0 && (
+                  <div className="border rounded-lg divide-y">
+                    {migrations.map(migration => (
+                      <div key={migration.version} className="flex items-center justify-between p-3 text-sm">
+                        <div>
+                          <span className="font-mono text-gray-500 mr-3">
+                            {String(migration.version).padStart(3, '0')}
+                          </span>
+                          <span className="font-medium">{migration.name}</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {migration.appliedAt && (
+                            <span className="text-xs text-gray-500">
+                              {new Date(migration.appliedAt).toLocaleString()}
+                            </span>
+                          )}
+                          <Badge variant={migration.applied ? "default" : "secondary"}>
+                            {migration.applied ? 'Applied' : 'Pending'}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ) : (
-                  <div className="text-red-700 bg-red-50 p-3 rounded">
-                    <p className="font-medium">❌ Setup Failed</p>
-                    <p className="text-sm mt-2">{setupResult.error}</p>
-                    {setupResult.instructions && (
-                      <p className="text-sm mt-2">{setupResult.instructions}</p>
+                )}
+                {status?.unknownVersions && status.unknownVersions.length > 0 && (
+                  <p className="text-sm text-amber-700 bg-amber-50 p-2 rounded">
+                    The database has migrations this version of the app does not know about: {status.unknownVersions.join(', ')}
+                  </p>
+                )}
+                <p className="text-sm text-gray-600">
+                  Migrations run through the <code>exec_sql</code> database function, which has to be created once (see Option 2).
+                </p>
+
+                <div className="space-y-1">
+                  <Input
+                    type="password"
+                    placeholder="Setup secret"
+                    value={setupSecret}
+                    onChange={(e) => setSetupSecret(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    The value of <code>SETUP_SECRET</code> on the server. Without it set, migrations can only be run from a development server.
+                  </p>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button 
+                    onClick={() => runSetup('apply')}
+                    disabled={isSettingUp || !status?.setupRequired}
+                    className="flex-1"
+                  >
+                    {isSettingUp ? 'Running...' : 'Apply Pending Migrations'}
+                  </Button>
+                  <Button 
+                    variant="outline"
+                    onClick={() => runSetup('rollback')}
+                    disabled={isSettingUp || !hasApplied}
+                  >
+                    Roll Back Latest
+                  </Button>
+                </div>
+
+                {setupResult && (
+                  <div className="mt-4 p-4 rounded-lg border">
+                    {setupResult.success ? (
+                      <div className="text-green-700 bg-green-50 p-3 rounded">
+                        <p className="font-medium">✅ {setupResult.message}</p>
+                      </div>
+                    ) : (
+                      <div className="text-red-700 bg-red-50 p-3 rounded">
+                        <p className="font-medium">❌ Migration Failed</p>
+                        <p className="text-sm mt-2">{setupResult.error}</p>
+                        {setupResult.instructions && (
+                          <p className="text-sm mt-2">{setupResult.instructions}</p>
+                        )}
+                      </div>
                     )}
                   </div>
                 )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
 
-        {/* Manual Setup */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Option 2: Manual Setup</CardTitle>
-            <CardDescription>Copy and run the SQL manually in your Supabase dashboard</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <h4 className="font-medium">Steps:</h4>
-              <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
-                <li>Go to your <a href="https://app.supabase.com" className="text-blue-600 underline" target="_blank" rel="noopener noreferrer">Supabase Dashboard</a></li>
-                <li>Select your project</li>
-                <li>Go to "SQL Editor" in the left sidebar</li>
-                <li>Click "New Query"</li>
-                <li>Copy the SQL below and paste it into the editor</li>
-                <li>Click "Run" to execute the query</li>
-                <li>Come back and click "Check Status" to verify</li>
-              </ol>
-            </div>
+            {/* Manual Setup */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Option 2: Manual Setup</CardTitle>
+                <CardDescription>Run the SQL yourself in your Supabase dashboard</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <h4 className="font-medium">Steps:</h4>
+                  <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+                    <li>Go to your <a href="https://app.supabase.com" className="text-blue-600 underline" target="_blank" rel="noopener noreferrer">Supabase Dashboard</a></li>
+                    <li>Select your project</li>
+                    <li>Go to "SQL Editor" in the left sidebar</li>
+                    <li>Click "New Query"</li>
+                    <li>Copy the SQL below and paste it into the editor</li>
+                    <li>Click "Run" to execute the query</li>
+                    <li>Come back and click "Check Status" to verify</li>
+                  </ol>
+                </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <h4 className="font-medium">Database Schema SQL:</h4>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => copyToClipboard(schemaSQL)}
-                >
-                  Copy SQL
-                </Button>
-              </div>
-              <pre className="bg-gray-100 p-4 rounded-lg text-xs overflow-x-auto max-h-96">
-                {schemaSQL}
-              </pre>
-            </div>
-          </CardContent>
-        </Card>
+                {status?.execSqlFunction && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium">Enable automatic migrations (once):</h4>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => copyToClipboard(status.execSqlFunction!)}
+                      >
+                        Copy SQL
+                      </Button>
+                    </div>
+                    <pre className="bg-gray-100 p-4 rounded-lg text-xs overflow-x-auto max-h-96">
+                      {status.execSqlFunction}
+                    </pre>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Pending migrations SQL:</h4>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => copyToClipboard(status?.pendingSql || '')}
+                      disabled={!status?.pendingSql}
+                    >
+                      Copy SQL
+                    </Button>
+                  </div>
+                  {status?.pendingSql ? (
+                    <pre className="bg-gray-100 p-4 rounded-lg text-xs overflow-x-auto max-h-96">
+                      {status.pendingSql}
+                    </pre>
+                  ) : (
+                    <p className="text-sm text-gray-500">No pending migrations.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
 
         {/* Next Steps */}
         <Card>
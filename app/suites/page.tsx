@@ -0,0 +1,520 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { createAuthHeaders } from '@/lib/credentials'
+import { formatPercentage } from '@/lib/utils'
+import { describeKappa } from '@/lib/agreement-statistics'
+import { formatCost, getLocalPricingOverrides } from '@/lib/pricing'
+import { BUDGET_EXCEEDED, CostEstimate, estimateBenchmarkCost } from '@/lib/budget'
+import { toProfileOverrides } from '@/lib/model-profiles'
+import { getLocalRateLimits } from '@/lib/rate-limiter'
+import { useModelsStore } from '@/store/models-store'
+import { useBenchmarkStore } from '@/store/benchmark-store'
+import type { Suite, SuitePrompt, SuiteRun } from '@/lib/database-types'
+import type { RunMatrix } from '@/lib/suite-matrix'
+
+// How often a running suite is polled for progress
+const POLL_INTERVAL_MS = 3000
+
+export default function SuitesPage() {
+  const { models, selectedModelIds, profiles, syncModels, loadProfiles } = useModelsStore()
+  const { clusteringMode, similarityStrategy, similarityThreshold, generationSettings, voteWeighting } = useBenchmarkStore()
+
+  const [suites, setSuites] = useState<Suite[]>([])
+  const [runs, setRuns] = useState<SuiteRun[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const [name, setName] = useState('')
+  const [format, setFormat] = useState<'auto' | 'json' | 'jsonl' | 'csv'>('auto')
+  const [content, setContent] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+
+  const [activeRun, setActiveRun] = useState<SuiteRun | null>(null)
+  const [matrix, setMatrix] = useState<RunMatrix | null>(null)
+
+  // Keyed by suite id
+  const [estimates, setEstimates] = useState<Record<string, CostEstimate>>({})
+  // Run refused for going over budget that the user may still confirm
+  const [overBudgetSuiteId, setOverBudgetSuiteId] = useState<string | null>(null)
+
+  const loadSuites = useCallback(async () => {
+    try {
+      const headers = createAuthHeaders()
+      const [suitesResponse, runsResponse] = await Promise.all([
+        fetch('/api/suites', { headers }),
+        fetch('/api/runs', { headers })
+      ])
+      const suitesData = await suitesResponse.json()
+      const runsData = await runsResponse.json()
+
+      if (!suitesResponse.ok) throw new Error(suitesData.error || 'Failed to load suites')
+      if (!runsResponse.ok) throw new Error(runsData.error || 'Failed to load runs')
+
+      setSuites(suitesData.suites || [])
+      setRuns(runsData.runs || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load suites')
+    }
+  }, [])
+
+  const loadRun = useCallback(async (runId: string) => {
+    try {
+      const headers = createAuthHeaders()
+      const response = await fetch(`/api/runs?id=${runId}`, { headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load run')
+
+      setActiveRun(data.run)
+      setMatrix(data.matrix)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load run')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSuites()
+    loadProfiles()
+    if (models.length === 0) {
+      syncModels()
+    }
+  }, [loadSuites, loadProfiles, models.length, syncModels])
+
+  // Poll the active run until it finishes
+  useEffect(() => {
+    if (!activeRun || activeRun.status !== 'running') return
+
+    const timer = setTimeout(() => loadRun(activeRun.id), POLL_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [activeRun, loadRun])
+
+  const importSuite = async () => {
+    setIsImporting(true)
+    setError(null)
+
+    try {
+      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const response = await fetch('/api/suites', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          name: name.trim(),
+          format: format === 'auto' ? undefined : format,
+          content
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to import suite')
+
+      setName('')
+      setContent('')
+      await loadSuites()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import suite')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const loadFile = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase()
+    if (extension === 'json' || extension === 'jsonl' || extension === 'csv') {
+      setFormat(extension)
+    }
+    if (!name) {
+      setName(file.name.replace(/\.[^.]+$/, ''))
+    }
+    setContent(await file.text())
+  }
+
+  const estimateSuite = async (suiteId: string) => {
+    setError(null)
+
+    try {
+      const headers = createAuthHeaders()
+      const response = await fetch(`/api/suites?id=${suiteId}`, { headers })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error || 'Failed to load suite prompts')
+
+      const selectedModels = models.filter(model => selectedModelIds.includes(model.id))
+      const estimate = estimateBenchmarkCost({
+        prompts: (data.prompts as SuitePrompt[]).map(prompt => prompt.text),
+        models: selectedModels,
+        generation: generationSettings,
+        profiles: Object.fromEntries(selectedModels
+          .filter(model => profiles[model.id])
+          .map(model => [model.model_id, toProfileOverrides(profiles[model.id])])),
+        pricing: getLocalPricingOverrides()
+      })
+      setEstimates(prev => ({ ...prev, [suiteId]: estimate }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate suite')
+    }
+  }
+
+  const startRun = async (suiteId: string, confirmOverBudget = false) => {
+    setError(null)
+    setOverBudgetSuiteId(null)
+
+    try {
+      const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+      const response = await fetch('/api/runs', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          suiteId,
+          modelIds: selectedModelIds,
+          similarity: {
+            mode: clusteringMode,
+            strategy: similarityStrategy,
+            threshold: similarityThreshold ?? undefined
+          },
+          generation: generationSettings,
+          weighting: voteWeighting,
+          pricing: getLocalPricingOverrides(),
+          confirmOverBudget,
+          rateLimits: getLocalRateLimits()
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (data.code === BUDGET_EXCEEDED && data.confirmable) {
+          setOverBudgetSuiteId(suiteId)
+        }
+        throw new Error(data.error || 'Failed to start run')
+      }
+
+      setActiveRun(data.run)
+      setMatrix(null)
+      await loadSuites()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start run')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const getStatusVariant = (status: SuiteRun['status']) => {
+    switch (status) {
+      case 'completed': return 'secondary'
+      case 'failed': return 'destructive'
+      default: return 'outline'
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          Prompt Suites
+        </h1>
+        <p className="text-xl text-gray-600">
+          Run a whole dataset of prompts against the selected models
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 mb-6">
+          <CardContent className="pt-6">
+            <p className="text-red-700">{error}</p>
+            {overBudgetSuiteId && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => startRun(overBudgetSuiteId, true)}
+              >
+                Run Anyway
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-6">
+        {/* Import */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Suite</CardTitle>
+            <CardDescription>
+              JSON array, JSON Lines or CSV with a prompt column and optional expected answers
+              (&quot;answer&quot;, &quot;|&quot;-separated), &quot;pattern&quot; and comma-separated &quot;tags&quot; columns
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Input
+                placeholder="Suite name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="max-w-xs"
+                disabled={isImporting}
+              />
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as typeof format)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+                disabled={isImporting}
+              >
+                <option value="auto">Detect format</option>
+                <option value="json">JSON</option>
+                <option value="jsonl">JSON Lines</option>
+                <option value="csv">CSV</option>
+              </select>
+              <input
+                type="file"
+                accept=".json,.jsonl,.csv"
+                onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+                className="text-sm"
+                disabled={isImporting}
+              />
+            </div>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={'prompt,answer\nWhat is the capital of France?,Paris'}
+              className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              disabled={isImporting}
+            />
+            <Button onClick={importSuite} disabled={isImporting || !name.trim() || !content.trim()}>
+              {isImporting ? 'Importing...' : 'Import Suite'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Suites */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Suites</CardTitle>
+            <CardDescription>
+              Runs use the {selectedModelIds.length} models and the grouping and generation settings selected on the benchmark page
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {suites.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No suites imported yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {suites.map((suite) => (
+                  <div key={suite.id} className="flex items-center justify-between border rounded-lg p-4">
+                    <div>
+                      <h3 className="font-medium">{suite.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {suite.prompt_count} prompts{suite.description ? ` · ${suite.description}` : ''}
+                      </p>
+                      {estimates[suite.id] && (
+                        <p className="text-xs text-gray-500" title="Output is estimated at the full max tokens">
+                          Estimate: {estimates[suite.id].requests} requests,
+                          ~{(estimates[suite.id].inputTokens + estimates[suite.id].outputTokens).toLocaleString()} tokens,
+                          up to {formatCost(estimates[suite.id].costUsd)}
+                          {estimates[suite.id].unpricedModels.length > 0 && ` (${estimates[suite.id].unpricedModels.length} unpriced models)`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => estimateSuite(suite.id)}
+                        disabled={selectedModelIds.length === 0}
+                      >
+                        Estimate
+                      </Button>
+                      <Button
+                        onClick={() => startRun(suite.id)}
+                        disabled={selectedModelIds.length === 0 || activeRun?.status === 'running'}
+                      >
+                        Run
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Runs */}
+        {runs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Runs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {runs.map((run) => (
+                  <div
+                    key={run.id}
+                    className="flex items-center justify-between border rounded-lg p-3 cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => loadRun(run.id)}
+                  >
+                    <div>
+                      <span className="font-medium">{run.suite?.name || 'Suite'}</span>
+                      <span className="text-sm text-gray-600 ml-2">{formatDate(run.created_at)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm text-gray-600">
+                        {run.completed_prompts}/{run.total_prompts} prompts · {run.model_ids.length} models
+                      </span>
+                      <Badge variant={getStatusVariant(run.status)}>{run.status}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Active run */}
+        {activeRun && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{activeRun.suite?.name || 'Suite Run'}</CardTitle>
+                  <CardDescription>Started {formatDate(activeRun.created_at)}</CardDescription>
+                </div>
+                <Badge variant={getStatusVariant(activeRun.status)}>{activeRun.status}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Progress</span>
+                  <span>{activeRun.completed_prompts}/{activeRun.total_prompts} prompts</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{ width: `${activeRun.total_prompts > 0 ? (activeRun.completed_prompts / activeRun.total_prompts) * 100 : 0}%` }}
+                  />
+                </div>
+                {activeRun.error && (
+                  <p className="text-sm text-red-600 mt-2">{activeRun.error}</p>
+                )}
+              </div>
+
+              {matrix && matrix.rows.length > 0 && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <h4 className="font-medium text-gray-700">Prompts Completed</h4>
+                      <p className="text-sm text-gray-600">{matrix.rows.length}</p>
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-gray-700">Average Consensus</h4>
+                      <p className="text-sm text-gray-600">{formatPercentage(matrix.averageConsensus)}</p>
+                    </div>
+                    {matrix.totalCostUsd !== null && (
+                      <div>
+                        <h4 className="font-medium text-gray-700">Total Cost</h4>
+                        <p className="text-sm text-gray-600">{formatCost(matrix.totalCostUsd)}</p>
+                      </div>
+                    )}
+                    {matrix.averageAccuracy !== null && (
+                      <div>
+                        <h4 className="font-medium text-gray-700">Average Accuracy</h4>
+                        <p className="text-sm text-gray-600">{formatPercentage(matrix.averageAccuracy)}</p>
+                      </div>
+                    )}
+                    {matrix.fleissKappa && (
+                      <div>
+                        <h4 className="font-medium text-gray-700">Fleiss' Kappa</h4>
+                        <p
+                          className="text-sm text-gray-600"
+                          title={`Observed agreement ${matrix.fleissKappa.observedAgreement.toFixed(3)}, expected by chance ${matrix.fleissKappa.expectedAgreement.toFixed(3)}, over ${matrix.fleissKappa.subjects} prompts`}
+                        >
+                          {matrix.fleissKappa.kappa.toFixed(3)} ({describeKappa(matrix.fleissKappa.kappa)})
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm border-collapse">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2 font-medium text-gray-700">Prompt</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Consensus</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Accuracy</th>
+                          {matrix.models.map(model => (
+                            <th key={model.id} className="text-left p-2 font-medium text-gray-700 whitespace-nowrap">
+                              {model.name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {matrix.rows.map(row => (
+                          <tr key={row.runId} className="border-b">
+                            <td className="p-2 max-w-xs truncate" title={row.text}>{row.text}</td>
+                            <td className="p-2 whitespace-nowrap">{formatPercentage(row.consensusLevel, 0)}</td>
+                            <td className="p-2 whitespace-nowrap">
+                              {row.accuracy !== undefined ? formatPercentage(row.accuracy, 0) : '—'}
+                            </td>
+                            {matrix.models.map(model => {
+                              const cell = row.cells[model.id]
+                              if (!cell) {
+                                return <td key={model.id} className="p-2 text-gray-400">—</td>
+                              }
+                              return (
+                                <td
+                                  key={model.id}
+                                  className={`p-2 whitespace-nowrap ${
+                                    cell.isCorrect === true ? 'bg-green-50 text-green-800'
+                                      : cell.isCorrect === false ? 'bg-red-50 text-red-800'
+                                      : ''
+                                  } ${cell.agreesWithMajority ? 'font-medium' : 'text-gray-500'}`}
+                                  title={cell.agreesWithMajority ? 'Agrees with majority' : 'Outside the majority'}
+                                >
+                                  {cell.answer}
+                                  {cell.consistency !== undefined && cell.consistency < 100 && (
+                                    <span className="ml-1 text-xs text-amber-600" title="Self-consistency across samples">
+                                      ({formatPercentage(cell.consistency, 0)})
+                                    </span>
+                                  )}
+                                </td>
+                              )
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr>
+                          <td className="p-2 font-medium text-gray-700" colSpan={3}>Agreement / Accuracy</td>
+                          {matrix.models.map(model => (
+                            <td key={model.id} className="p-2 whitespace-nowrap text-gray-700">
+                              {formatPercentage(model.agreementRate, 0)}
+                              {model.accuracy !== null && ` / ${formatPercentage(model.accuracy, 0)}`}
+                            </td>
+                          ))}
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Bold answers agree with the majority; green and red mark answers scored against the expected answer.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
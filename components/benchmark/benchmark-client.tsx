@@ -1,8 +1,8 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useState, useEffect } from 'react'
 import { useModelsStore } from '@/store/models-store'
-import { useBenchmarkStore } from '@/store/benchmark-store'
+import { useBenchmarkStore, getSampleKey } from '@/store/benchmark-store'
 import { PromptForm } from './prompt-form'
 import { ModelSelector } from './model-selector'
 import { ResponseGrid } from './response-grid'
@@ -10,11 +10,15 @@ import { ConsensusView } from './consensus-view'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { PricingOverrides, sumCosts, formatCost, getLocalPricingOverrides } from '@/lib/pricing'
+import { BudgetSettings, DEFAULT_BUDGET_SETTINGS, estimateBenchmarkCost, checkBudget, loadBudgetSettings } from '@/lib/budget'
+import { toProfileOverrides } from '@/lib/model-profiles'
 
 export function BenchmarkClient() {
   const {
     models,
     selectedModelIds,
+    profiles,
     isLoading: modelsLoading,
     error: modelsError,
     syncModels,
@@ -25,15 +29,28 @@ export function BenchmarkClient() {
     prompt,
     isProcessing,
     responses,
+    modelStatuses,
+    partialTexts,
+    modelAttempts,
+    samplesPerModel,
     consensusGroups,
+    sampleConsensusGroups,
+    selfConsistency,
     insights,
+    generationSettings,
     error: benchmarkError,
+    budgetConfirmation,
+    runCancelled,
     selectedTab,
     setSelectedTab,
     clearResults,
     submitPrompt
   } = useBenchmarkStore()
 
+  // Pricing is stored in the browser and the budget on the server, so both are read after mount
+  const [pricing, setPricing] = useState<PricingOverrides>({})
+  const [budget, setBudget] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS)
+
   // Load models on mount
   useEffect(() => {
     if (models.length === 0) {
@@ -41,6 +58,11 @@ export function BenchmarkClient() {
     }
   }, [models.length, syncModels])
 
+  useEffect(() => {
+    setPricing(getLocalPricingOverrides())
+    loadBudgetSettings().then(setBudget)
+  }, [])
+
   const handleSubmit = async () => {
     if (selectedModelIds.length === 0) {
       return
@@ -51,6 +73,39 @@ export function BenchmarkClient() {
   const selectedModels = getSelectedModels()
   const hasResults = responses.length > 0
 
+  // Pre-flight estimate for the prompt as typed; the monthly budget is checked on submit
+  const estimate = prompt.trim() && selectedModels.length > 0
+    ? estimateBenchmarkCost({
+        prompts: [prompt],
+        models: selectedModels,
+        generation: generationSettings,
+        profiles: Object.fromEntries(selectedModels
+          .filter(model => profiles[model.id])
+          .map(model => [model.model_id, toProfileOverrides(profiles[model.id])])),
+        pricing
+      })
+    : null
+  const budgetCheck = estimate ? checkBudget(estimate, budget) : null
+
+  // Samples of the current run that have not answered yet
+  const pendingModels = selectedModels
+    .flatMap(model => Array.from({ length: samplesPerModel }, (_, sampleIndex) => ({
+      key: getSampleKey(model.id, sampleIndex),
+      id: model.id,
+      name: model.name,
+      provider: model.provider,
+      sampleIndex
+    })))
+    .filter(({ key }) => modelStatuses[key] === 'pending' || modelStatuses[key] === 'streaming')
+    .map(({ key, ...model }) => ({
+      ...model,
+      status: modelStatuses[key],
+      text: partialTexts[key],
+      attempt: modelAttempts[key]
+    }))
+  const totalCost = sumCosts(responses.map(response => response.cost_usd))
+  const answeredCount = Object.values(modelStatuses).filter(status => status === 'done' || status === 'failed').length
+
   return (
     <div className="space-y-8">
       {/* Error Display */}
@@ -67,6 +122,16 @@ export function BenchmarkClient() {
                 {modelsError || benchmarkError}
               </p>
             </div>
+            {budgetConfirmation && !isProcessing && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => submitPrompt(selectedModelIds, { confirmOverBudget: true })}
+              >
+                Run Anyway
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
@@ -91,6 +156,15 @@ export function BenchmarkClient() {
               <Badge variant="secondary">
                 {selectedModelIds.length}
               </Badge>
+              {estimate && (
+                <span
+                  className={`text-sm ${budgetCheck?.exceeded ? 'text-red-600' : 'text-gray-500'}`}
+                  title={budgetCheck?.exceeded ? budgetCheck.reasons.join('. ') : 'Output is estimated at the full max tokens'}
+                >
+                  · Estimate: {estimate.requests} requests, ~{(estimate.inputTokens + estimate.outputTokens).toLocaleString()} tokens, up to {formatCost(estimate.costUsd)}
+                  {estimate.unpricedModels.length > 0 && ` (${estimate.unpricedModels.length} unpriced)`}
+                </span>
+              )}
             </div>
             {hasResults && (
               <Button
@@ -132,7 +206,7 @@ export function BenchmarkClient() {
       </Card>
 
       {/* Results Section */}
-      {hasResults && (
+      {(hasResults || pendingModels.length > 0) && (
         <>
           {/* Tab Navigation */}
           <div className="flex space-x-1 border-b">
@@ -176,10 +250,12 @@ export function BenchmarkClient() {
                   <CardTitle>Model Responses</CardTitle>
                   <CardDescription>
                     Individual responses from each selected model
+                    {totalCost !== null && ` · Total cost ${formatCost(totalCost)}`}
+                    {runCancelled && ' · Run cancelled, responses received before that were saved'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ResponseGrid responses={responses} />
+                  <ResponseGrid responses={responses} pendingModels={pendingModels} samplesPerModel={samplesPerModel} />
                 </CardContent>
               </Card>
             )}
@@ -195,6 +271,8 @@ export function BenchmarkClient() {
                 <CardContent>
                   <ConsensusView 
                     groups={consensusGroups}
+                    sampleGroups={sampleConsensusGroups}
+                    selfConsistency={selfConsistency}
                     responses={responses}
                   />
                 </CardContent>
@@ -236,7 +314,7 @@ export function BenchmarkClient() {
               <div>
                 <p className="text-lg font-medium">Processing your prompt...</p>
                 <p className="text-sm text-gray-600">
-                  Querying {selectedModelIds.length} models simultaneously
+                  {answeredCount} of {Object.keys(modelStatuses).length} {samplesPerModel > 1 ? 'samples' : 'models'} answered
                 </p>
               </div>
             </div>
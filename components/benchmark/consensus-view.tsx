@@ -1,23 +1,39 @@
 'use client'
 
 import { useEffect, useRef } from 'react'
-import { ConsensusGroup } from '@/lib/consensus-analyzer'
+import { ConsensusGroup, ModelConsistency } from '@/lib/consensus-analyzer'
 import { BenchmarkResponse } from '@/store/benchmark-store'
 import { useBenchmarkStore } from '@/store/benchmark-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { formatPercentage } from '@/lib/utils'
+import { getModelAccuracy } from '@/lib/accuracy-scorer'
+import { getVoteWeightingLabel } from '@/lib/vote-weights'
+import {
+  shannonEntropy,
+  normalizedEntropy,
+  bootstrapConsensus,
+  classifyMajority,
+  formatInterval
+} from '@/lib/agreement-statistics'
 
 interface ConsensusViewProps {
+  // One vote per model
   groups: ConsensusGroup[]
+  // One vote per sample, used when models were sampled more than once
+  sampleGroups?: ConsensusGroup[]
+  selfConsistency?: ModelConsistency[] | null
   responses: BenchmarkResponse[]
 }
 
-export function ConsensusView({ groups, responses }: ConsensusViewProps) {
+export function ConsensusView({ groups: modelGroups, sampleGroups = [], selfConsistency, responses }: ConsensusViewProps) {
   const chartRef = useRef<HTMLCanvasElement>(null)
   const chartInstanceRef = useRef<any>(null)
-  const { exportResults } = useBenchmarkStore()
+  const { exportResults, consensusVoting, setConsensusVoting, consensusWeighting } = useBenchmarkStore()
+  const perSample = consensusVoting === 'sample' && !!selfConsistency && sampleGroups.length > 0
+  const groups = perSample ? sampleGroups : modelGroups
+  const voters = perSample ? 'samples' : 'models'
 
   // Chart.js integration
   useEffect(() => {
@@ -84,20 +100,61 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
     )
   }
 
-  const totalResponses = responses.length
+  const totalResponses = perSample
+    ? groups.reduce((sum, group) => sum + group.count, 0)
+    : new Set(responses.map(response => response.model.id)).size
   const largestGroup = groups[0]
   const consensusLevel = largestGroup?.percentage || 0
+  // Recomputed from the shown groups so the figures follow the voting toggle
+  const counts = groups.map(group => group.count)
+  const entropy = shannonEntropy(counts)
+  const spread = normalizedEntropy(counts)
+  const { interval, topStability } = bootstrapConsensus(counts)
+  const majority = classifyMajority(interval)
+  // The heaviest group wins the weighted vote; ties go to the larger group
+  const weightedTop = groups.reduce((best, group) => (group.weight > best.weight ? group : best))
+  const isWeighted = consensusWeighting !== 'equal'
+  const modelAccuracy = getModelAccuracy(responses.map(response => ({
+    model_id: response.model.id,
+    is_correct: response.error ? null : response.is_correct,
+    model: response.model
+  })))
+  const scoredCount = modelAccuracy.reduce((sum, entry) => sum + entry.total, 0)
+  const accuracy = scoredCount > 0
+    ? (modelAccuracy.reduce((sum, entry) => sum + entry.correct, 0) / scoredCount) * 100
+    : null
 
   return (
     <div className="space-y-6">
+      {/* Voting Mode */}
+      {selfConsistency && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-600">Count votes:</span>
+          <Button
+            variant={perSample ? 'outline' : 'default'}
+            size="sm"
+            onClick={() => setConsensusVoting('model')}
+          >
+            One per model
+          </Button>
+          <Button
+            variant={perSample ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setConsensusVoting('sample')}
+          >
+            One per sample
+          </Button>
+        </div>
+      )}
+
       {/* Summary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className={`grid grid-cols-1 gap-4 ${accuracy !== null ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
               <div>
-                <p className="text-xs text-gray-500">Total Models</p>
+                <p className="text-xs text-gray-500">{perSample ? 'Total Samples' : 'Total Models'}</p>
                 <p className="text-lg font-semibold">{totalResponses}</p>
               </div>
             </div>
@@ -111,11 +168,31 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
               <div>
                 <p className="text-xs text-gray-500">Consensus Level</p>
                 <p className="text-lg font-semibold">{formatPercentage(consensusLevel)}</p>
+                <p className="text-xs text-gray-500">{formatInterval(interval)}</p>
+                {isWeighted && (
+                  <p className="text-xs text-gray-500">
+                    Weighted: {formatPercentage(weightedTop.weightedPercentage)}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {accuracy !== null && (
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 bg-emerald-500 rounded-full"></div>
+                <div>
+                  <p className="text-xs text-gray-500">Accuracy</p>
+                  <p className="text-lg font-semibold">{formatPercentage(accuracy)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center space-x-2">
@@ -123,6 +200,9 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
               <div>
                 <p className="text-xs text-gray-500">Unique Responses</p>
                 <p className="text-lg font-semibold">{groups.length}</p>
+                <p className="text-xs text-gray-500" title="Shannon entropy of the groups, and its share of the maximum">
+                  {entropy.toFixed(2)} bits · {formatPercentage(spread * 100, 0)} spread
+                </p>
               </div>
             </div>
           </CardContent>
@@ -137,6 +217,11 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
                 <p className="text-lg font-semibold truncate">
                   {largestGroup?.groupName || 'N/A'}
                 </p>
+                {isWeighted && (
+                  <p className={`text-xs truncate ${weightedTop !== largestGroup ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                    Weighted: {weightedTop.groupName}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -167,6 +252,7 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
                 <CardTitle className="text-lg">Response Groups</CardTitle>
                 <CardDescription>
                   Detailed breakdown by response
+                  {isWeighted && ` · weighted by ${getVoteWeightingLabel(consensusWeighting).toLowerCase()}`}
                 </CardDescription>
               </div>
               <Button
@@ -190,19 +276,36 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-sm truncate">
                         "{group.groupName}"
+                        {group.isCorrect !== undefined && (
+                          <span className={`ml-2 text-xs ${group.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                            {group.isCorrect ? '✓ correct' : '✗ incorrect'}
+                          </span>
+                        )}
                       </p>
                       <p className="text-xs text-gray-500 truncate">
                         {group.models.join(', ')}
                       </p>
+                      {group.cohesion !== undefined && (
+                        <p className="text-xs text-gray-400">
+                          Cohesion: {group.cohesion.toFixed(2)}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 ml-3">
                     <Badge variant="secondary" className="text-xs">
                       {group.count}
                     </Badge>
-                    <span className="text-sm font-medium">
-                      {formatPercentage(group.percentage)}
-                    </span>
+                    <div className="text-right">
+                      <span className="text-sm font-medium">
+                        {formatPercentage(group.percentage)}
+                      </span>
+                      {isWeighted && (
+                        <p className="text-xs text-gray-500" title={`Weight ${group.weight.toFixed(2)}`}>
+                          {formatPercentage(group.weightedPercentage)} weighted
+                        </p>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -211,6 +314,57 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
         </Card>
       </div>
 
+      {/* Per-model Accuracy */}
+      {modelAccuracy.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Accuracy by Model</CardTitle>
+            <CardDescription>
+              Responses scored against the expected answer
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+              {modelAccuracy.map(entry => (
+                <div key={entry.modelId} className="flex items-center justify-between p-2 rounded border border-gray-200 text-sm">
+                  <span className="truncate">{entry.modelName}</span>
+                  <Badge variant={entry.correct === entry.total ? 'secondary' : 'destructive'} className="text-xs ml-2">
+                    {entry.correct}/{entry.total} · {formatPercentage(entry.accuracy, 0)}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Self-consistency */}
+      {selfConsistency && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Self-consistency by Model</CardTitle>
+            <CardDescription>
+              Share of each model's samples that match its own majority answer
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+              {selfConsistency.map(entry => (
+                <div key={entry.modelId} className="flex items-center justify-between p-2 rounded border border-gray-200 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">{entry.modelName}</p>
+                    <p className="text-xs text-gray-500 truncate">"{entry.majorityAnswer}"</p>
+                  </div>
+                  <Badge variant={entry.consistency === 100 ? 'secondary' : 'outline'} className="text-xs ml-2">
+                    {Math.round((entry.consistency / 100) * entry.samples)}/{entry.samples} · {formatPercentage(entry.consistency, 0)}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Consensus Analysis */}
       <Card>
         <CardHeader>
@@ -221,32 +375,41 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {consensusLevel >= 80 && (
+            {majority === 'clear' && (
               <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                <h4 className="font-medium text-green-800 mb-1">Strong Consensus</h4>
+                <h4 className="font-medium text-green-800 mb-1">Clear Majority</h4>
                 <p className="text-sm text-green-700">
-                  {formatPercentage(consensusLevel)} of models agreed on "{largestGroup.groupName}". 
-                  This indicates a high level of agreement across different AI systems.
+                  {formatPercentage(consensusLevel)} of {voters} agreed on "{largestGroup.groupName}" ({formatInterval(interval)}). 
+                  Even the lower bound is above half, so the majority is unlikely to be an accident of which {voters} were asked.
                 </p>
               </div>
             )}
 
-            {consensusLevel >= 50 && consensusLevel < 80 && (
+            {majority === 'uncertain' && (
               <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <h4 className="font-medium text-yellow-800 mb-1">Moderate Consensus</h4>
+                <h4 className="font-medium text-yellow-800 mb-1">Uncertain Majority</h4>
                 <p className="text-sm text-yellow-700">
-                  {formatPercentage(consensusLevel)} of models agreed on "{largestGroup.groupName}". 
-                  There's some agreement, but also notable diversity in responses.
+                  {formatPercentage(consensusLevel)} of {voters} agreed on "{largestGroup.groupName}", but the {formatInterval(interval)} spans 50%. 
+                  A different set of {voters} could have split the other way.
                 </p>
               </div>
             )}
 
-            {consensusLevel < 50 && (
+            {majority === 'none' && (
               <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
-                <h4 className="font-medium text-red-800 mb-1">Low Consensus</h4>
+                <h4 className="font-medium text-red-800 mb-1">No Majority</h4>
                 <p className="text-sm text-red-700">
-                  Only {formatPercentage(consensusLevel)} of models agreed on the top response. 
-                  This indicates high diversity and potential ambiguity in the prompt.
+                  Only {formatPercentage(consensusLevel)} of {voters} agreed on the top response ({formatInterval(interval)}). 
+                  This indicates high spread and potential ambiguity in the prompt.
+                </p>
+              </div>
+            )}
+
+            {groups.length > 1 && topStability < 95 && (
+              <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+                <h4 className="font-medium text-orange-800 mb-1">Close Competition</h4>
+                <p className="text-sm text-orange-700">
+                  "{largestGroup.groupName}" stays strictly ahead of "{groups[1].groupName}" in only {formatPercentage(topStability, 0)} of bootstrap resamples.
                 </p>
               </div>
             )}
@@ -255,7 +418,7 @@ export function ConsensusView({ groups, responses }: ConsensusViewProps) {
               <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                 <h4 className="font-medium text-blue-800 mb-1">Perfect Agreement</h4>
                 <p className="text-sm text-blue-700">
-                  All models provided the same response: "{largestGroup.groupName}". 
+                  All {voters} provided the same response: "{largestGroup.groupName}". 
                   This suggests the prompt has a clear, unambiguous answer.
                 </p>
               </div>
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useModelsStore } from '@/store/models-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { getLocalPricingOverrides, saveLocalPricingOverrides } from '@/lib/pricing'
+import type { PricingOverrides } from '@/lib/pricing'
+
+const EMPTY_FORM = {
+  inputPerMillion: '',
+  outputPerMillion: ''
+}
+
+export function ModelPricingEditor() {
+  const { models, syncModels } = useModelsStore()
+
+  const [overrides, setOverrides] = useState<PricingOverrides>({})
+  const [modelId, setModelId] = useState('')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (models.length === 0) {
+      syncModels()
+    }
+    setOverrides(getLocalPricingOverrides())
+  }, [models.length, syncModels])
+
+  // Overrides are keyed by gateway model id so they survive a model resync
+  const selectedModel = models.find(model => model.model_id === modelId)
+
+  useEffect(() => {
+    const override = overrides[modelId]
+    setForm(override ? {
+      inputPerMillion: String(override.inputPerMillion),
+      outputPerMillion: String(override.outputPerMillion)
+    } : EMPTY_FORM)
+    setMessage('')
+  }, [modelId, overrides])
+
+  const updateOverrides = (next: PricingOverrides) => {
+    saveLocalPricingOverrides(next)
+    setOverrides(next)
+  }
+
+  const handleSave = () => {
+    const inputPerMillion = parseFloat(form.inputPerMillion)
+    const outputPerMillion = parseFloat(form.outputPerMillion)
+
+    if (isNaN(inputPerMillion) || isNaN(outputPerMillion) || inputPerMillion < 0 || outputPerMillion < 0) {
+      setMessage('❌ Enter both prices as non-negative numbers')
+      return
+    }
+
+    updateOverrides({ ...overrides, [modelId]: { inputPerMillion, outputPerMillion } })
+    setMessage('✅ Pricing saved')
+  }
+
+  const handleReset = () => {
+    const { [modelId]: _removed, ...rest } = overrides
+    updateOverrides(rest)
+    setMessage('✅ Using list price')
+  }
+
+  const overriddenModels = models.filter(model => overrides[model.model_id])
+
+  return (
+    <div className="space-y-6">
+      {overriddenModels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {overriddenModels.map(model => (
+            <button key={model.id} type="button" onClick={() => setModelId(model.model_id)}>
+              <Badge variant={model.model_id === modelId ? 'default' : 'outline'}>
+                {model.name}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="pricing-model" className="block text-sm font-medium text-gray-700 mb-2">
+          Model
+        </label>
+        <select
+          id="pricing-model"
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+        >
+          <option value="">Select a model...</option>
+          {models.map(model => (
+            <option key={model.id} value={model.model_id}>
+              {model.provider} / {model.name}{overrides[model.model_id] ? ' (custom)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selectedModel && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="pricing-input" className="block text-sm font-medium text-gray-700 mb-2">
+                Input Price (USD / 1M tokens)
+              </label>
+              <Input
+                id="pricing-input"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.inputPerMillion}
+                onChange={(e) => setForm(prev => ({ ...prev, inputPerMillion: e.target.value }))}
+                placeholder={selectedModel.input_price_per_million != null ? String(selectedModel.input_price_per_million) : 'Unknown'}
+              />
+            </div>
+            <div>
+              <label htmlFor="pricing-output" className="block text-sm font-medium text-gray-700 mb-2">
+                Output Price (USD / 1M tokens)
+              </label>
+              <Input
+                id="pricing-output"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.outputPerMillion}
+                onChange={(e) => setForm(prev => ({ ...prev, outputPerMillion: e.target.value }))}
+                placeholder={selectedModel.output_price_per_million != null ? String(selectedModel.output_price_per_million) : 'Unknown'}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Placeholders show the list price from the gateway; a custom price can raise it but not lower it. Responses from a model without any price are shown without a cost.
+          </p>
+
+          <div className="flex items-center justify-between">
+            <p className={`text-sm ${message.includes('✅') ? 'text-green-600' : 'text-red-600'}`}>
+              {message}
+            </p>
+            <div className="flex gap-3">
+              {overrides[modelId] && (
+                <Button variant="outline" onClick={handleReset}>
+                  Use List Price
+                </Button>
+              )}
+              <Button onClick={handleSave}>
+                Save Pricing
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
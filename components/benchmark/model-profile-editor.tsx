@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useModelsStore } from '@/store/models-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { PROMPT_PLACEHOLDER } from '@/lib/model-profiles'
+
+const EMPTY_FORM = {
+  systemPrompt: '',
+  temperature: '',
+  maxTokens: '',
+  promptTemplate: '',
+  trustWeight: ''
+}
+
+export function ModelProfileEditor() {
+  const { models, profiles, syncModels, loadProfiles, saveProfile, deleteProfile } = useModelsStore()
+
+  const [modelId, setModelId] = useState('')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (models.length === 0) {
+      syncModels()
+    }
+    loadProfiles()
+  }, [models.length, syncModels, loadProfiles])
+
+  // Load the selected model's profile into the form
+  useEffect(() => {
+    const profile = profiles[modelId]
+    setForm(profile ? {
+      systemPrompt: profile.system_prompt || '',
+      temperature: profile.temperature != null ? String(profile.temperature) : '',
+      maxTokens: profile.max_tokens != null ? String(profile.max_tokens) : '',
+      promptTemplate: profile.prompt_template || '',
+      trustWeight: profile.trust_weight != null ? String(profile.trust_weight) : ''
+    } : EMPTY_FORM)
+    setMessage('')
+  }, [modelId, profiles])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage('')
+
+    try {
+      const temperature = parseFloat(form.temperature)
+      const maxTokens = parseInt(form.maxTokens)
+      const trustWeight = parseFloat(form.trustWeight)
+      await saveProfile({
+        model_id: modelId,
+        system_prompt: form.systemPrompt.trim() || null,
+        temperature: isNaN(temperature) ? null : temperature,
+        max_tokens: isNaN(maxTokens) ? null : maxTokens,
+        prompt_template: form.promptTemplate.trim() || null,
+        trust_weight: isNaN(trustWeight) ? null : trustWeight
+      })
+      setMessage('✅ Profile saved')
+    } catch (error) {
+      setMessage(`❌ ${error instanceof Error ? error.message : 'Failed to save profile'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsSaving(true)
+    setMessage('')
+
+    try {
+      await deleteProfile(modelId)
+      setMessage('✅ Profile removed')
+    } catch (error) {
+      setMessage(`❌ ${error instanceof Error ? error.message : 'Failed to remove profile'}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const profiledModels = models.filter(model => profiles[model.id])
+
+  return (
+    <div className="space-y-6">
+      {profiledModels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {profiledModels.map(model => (
+            <button key={model.id} type="button" onClick={() => setModelId(model.id)}>
+              <Badge variant={model.id === modelId ? 'default' : 'outline'}>
+                {model.name}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="profile-model" className="block text-sm font-medium text-gray-700 mb-2">
+          Model
+        </label>
+        <select
+          id="profile-model"
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+        >
+          <option value="">Select a model...</option>
+          {models.map(model => (
+            <option key={model.id} value={model.id}>
+              {model.provider} / {model.name}{profiles[model.id] ? ' (custom)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {modelId && (
+        <>
+          <div>
+            <label htmlFor="profile-system-prompt" className="block text-sm font-medium text-gray-700 mb-2">
+              System Prompt Override
+            </label>
+            <textarea
+              id="profile-system-prompt"
+              value={form.systemPrompt}
+              onChange={(e) => setForm(prev => ({ ...prev, systemPrompt: e.target.value }))}
+              placeholder="Leave empty to use the run's system prompt"
+              className="w-full h-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              maxLength={4000}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="profile-temperature" className="block text-sm font-medium text-gray-700 mb-2">
+                Temperature
+              </label>
+              <Input
+                id="profile-temperature"
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                value={form.temperature}
+                onChange={(e) => setForm(prev => ({ ...prev, temperature: e.target.value }))}
+                placeholder="Run default"
+              />
+            </div>
+            <div>
+              <label htmlFor="profile-max-tokens" className="block text-sm font-medium text-gray-700 mb-2">
+                Max Tokens
+              </label>
+              <Input
+                id="profile-max-tokens"
+                type="number"
+                min="1"
+                max="8192"
+                step="1"
+                value={form.maxTokens}
+                onChange={(e) => setForm(prev => ({ ...prev, maxTokens: e.target.value }))}
+                placeholder="Run default"
+              />
+            </div>
+            <div>
+              <label htmlFor="profile-trust-weight" className="block text-sm font-medium text-gray-700 mb-2">
+                Trust Weight
+              </label>
+              <Input
+                id="profile-trust-weight"
+                type="number"
+                min="0"
+                max="10"
+                step="0.1"
+                value={form.trustWeight}
+                onChange={(e) => setForm(prev => ({ ...prev, trustWeight: e.target.value }))}
+                placeholder="1"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Scales this model's vote when consensus is weighted by trust
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="profile-template" className="block text-sm font-medium text-gray-700 mb-2">
+              Prompt Template
+            </label>
+            <textarea
+              id="profile-template"
+              value={form.promptTemplate}
+              onChange={(e) => setForm(prev => ({ ...prev, promptTemplate: e.target.value }))}
+              placeholder={`e.g. Answer with exactly one word.\n\n${PROMPT_PLACEHOLDER}`}
+              className="w-full h-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              maxLength={4000}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              <code className="bg-gray-100 px-1 rounded">{PROMPT_PLACEHOLDER}</code> is replaced by the benchmark prompt; without it the prompt is appended
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className={`text-sm ${message.includes('✅') ? 'text-green-600' : 'text-red-600'}`}>
+              {message}
+            </p>
+            <div className="flex gap-3">
+              {profiles[modelId] && (
+                <Button variant="outline" onClick={handleDelete} disabled={isSaving}>
+                  Remove Profile
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Profile'}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
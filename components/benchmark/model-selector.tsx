@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useModelsStore } from '@/store/models-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -87,9 +87,15 @@ export function ModelSelector() {
     selectRecommendedModels,
     getFilteredModels,
     getProviders,
-    updateModelEnabled
+    updateModelEnabled,
+    profiles,
+    loadProfiles
   } = useModelsStore()
 
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
   const filteredModels = getFilteredModels().filter(model => {
     if (categoryFilter === 'all') return true
     const metadata = MODEL_METADATA[model.model_id]
@@ -275,6 +281,15 @@ export function ModelSelector() {
                               ⭐
                             </Badge>
                           )}
+                          {profiles[model.id] && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs px-1.5 py-0.5 border-blue-300 text-blue-700"
+                              title="This model has a custom profile (see Settings)"
+                            >
+                              Custom profile
+                            </Badge>
+                          )}
                         </div>
                         
                         <div className="flex items-center space-x-2 mt-1">
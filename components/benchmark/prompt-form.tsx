@@ -4,6 +4,15 @@ import { useState } from 'react'
 import { useBenchmarkStore, EXAMPLE_PROMPTS } from '@/store/benchmark-store'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import {
+  SIMILARITY_STRATEGY_NAMES,
+  SimilarityStrategyName,
+  getDefaultThreshold,
+  getSimilarityStrategyLabel
+} from '@/lib/similarity-strategies'
+import { DEFAULT_SEMANTIC_THRESHOLD } from '@/lib/vectorizers'
+import { DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings'
+import { VOTE_WEIGHTINGS, VoteWeighting, getVoteWeightingLabel } from '@/lib/vote-weights'
 
 interface PromptFormProps {
   onSubmit: () => void
@@ -15,11 +24,40 @@ export function PromptForm({ onSubmit, isProcessing, disabled }: PromptFormProps
   const { 
     prompt, 
     setPrompt, 
+    expectedAnswer,
+    setExpectedAnswer,
+    promptTags,
+    setPromptTags,
     showExamples, 
-    setShowExamples 
+    setShowExamples,
+    clusteringMode,
+    similarityStrategy,
+    similarityThreshold,
+    setClusteringMode,
+    setSimilarityStrategy,
+    setSimilarityThreshold,
+    generationSettings,
+    setGenerationSettings,
+    resetGenerationSettings,
+    voteWeighting,
+    setVoteWeighting,
+    isCancelling,
+    cancelRun
   } = useBenchmarkStore()
   
   const [localPrompt, setLocalPrompt] = useState(prompt)
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const hasCustomGeneration = Object.values(generationSettings).some(value => value !== undefined)
+
+  // Empty number fields fall back to the server defaults
+  const parseOptionalNumber = (value: string): number | undefined => {
+    const parsed = parseFloat(value)
+    return isNaN(parsed) ? undefined : parsed
+  }
+
+  const defaultThreshold = clusteringMode === 'semantic'
+    ? DEFAULT_SEMANTIC_THRESHOLD
+    : getDefaultThreshold(similarityStrategy)
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -29,9 +67,10 @@ export function PromptForm({ onSubmit, isProcessing, disabled }: PromptFormProps
     onSubmit()
   }
 
-  const handleExampleClick = (examplePrompt: string) => {
-    setLocalPrompt(examplePrompt)
-    setPrompt(examplePrompt)
+  const handleExampleClick = (example: { text: string; expected: string }) => {
+    setLocalPrompt(example.text)
+    setPrompt(example.text)
+    setExpectedAnswer(example.expected)
     setShowExamples(false)
   }
 
@@ -54,16 +93,126 @@ export function PromptForm({ onSubmit, isProcessing, disabled }: PromptFormProps
         >
           {isProcessing ? 'Processing...' : 'Submit'}
         </Button>
+        {isProcessing && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={cancelRun}
+            disabled={isCancelling}
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </Button>
+        )}
       </form>
 
-      <div className="flex items-center justify-between">
-        <button
-          type="button"
-          onClick={() => setShowExamples(!showExamples)}
-          className="text-sm text-blue-600 hover:text-blue-800 underline"
+      <div className="flex items-center gap-2 text-sm">
+        <label htmlFor="expected-answer" className="text-gray-600 whitespace-nowrap">
+          Expected answer:
+        </label>
+        <Input
+          id="expected-answer"
+          type="text"
+          value={expectedAnswer}
+          onChange={(e) => setExpectedAnswer(e.target.value)}
+          placeholder="Optional, e.g. Paris | Paris, France or /^paris/"
+          className="flex-1 h-8"
+          disabled={isProcessing}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <label htmlFor="prompt-tags" className="text-gray-600 whitespace-nowrap">
+          Tags:
+        </label>
+        <Input
+          id="prompt-tags"
+          type="text"
+          value={promptTags}
+          onChange={(e) => setPromptTags(e.target.value)}
+          placeholder="Optional, comma-separated, e.g. geography, trivia"
+          className="flex-1 h-8"
+          disabled={isProcessing}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="similarity-strategy" className="text-gray-600">
+          Group answers by:
+        </label>
+        <select
+          id="similarity-strategy"
+          value={clusteringMode === 'semantic' ? 'semantic' : similarityStrategy}
+          onChange={(e) => {
+            if (e.target.value === 'semantic') {
+              setClusteringMode('semantic')
+            } else {
+              setClusteringMode('pairwise')
+              setSimilarityStrategy(e.target.value as SimilarityStrategyName)
+            }
+            setSimilarityThreshold(null)
+          }}
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          disabled={isProcessing}
+        >
+          {SIMILARITY_STRATEGY_NAMES.map(name => (
+            <option key={name} value={name}>
+              {getSimilarityStrategyLabel(name)}
+            </option>
+          ))}
+          <option value="semantic">Semantic clustering (TF-IDF)</option>
+        </select>
+        <label htmlFor="similarity-threshold" className="text-gray-600">
+          Threshold:
+        </label>
+        <Input
+          id="similarity-threshold"
+          type="number"
+          min="0"
+          max="1"
+          step="0.05"
+          value={similarityThreshold ?? defaultThreshold}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value)
+            setSimilarityThreshold(isNaN(value) ? null : Math.min(1, Math.max(0, value)))
+          }}
+          className="w-20 h-8"
+          disabled={isProcessing}
+        />
+        <label htmlFor="vote-weighting" className="text-gray-600">
+          Weight votes by:
+        </label>
+        <select
+          id="vote-weighting"
+          value={voteWeighting}
+          onChange={(e) => setVoteWeighting(e.target.value as VoteWeighting)}
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+          disabled={isProcessing}
         >
-          {showExamples ? 'Hide' : 'Show'} example prompts
-        </button>
+          {VOTE_WEIGHTINGS.map(weighting => (
+            <option key={weighting} value={weighting}>
+              {getVoteWeightingLabel(weighting)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => setShowExamples(!showExamples)}
+            className="text-sm text-blue-600 hover:text-blue-800 underline"
+          >
+            {showExamples ? 'Hide' : 'Show'} example prompts
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="text-sm text-blue-600 hover:text-blue-800 underline"
+          >
+            {showAdvanced ? 'Hide' : 'Show'} generation settings{hasCustomGeneration && ' (customized)'}
+          </button>
+        </div>
         
         {localPrompt.length > 0 && (
           <span className="text-xs text-gray-500">
@@ -72,6 +221,190 @@ export function PromptForm({ onSubmit, isProcessing, disabled }: PromptFormProps
         )}
       </div>
 
+      {showAdvanced && (
+        <div className="p-4 bg-gray-50 rounded-lg border space-y-3 text-sm">
+          <div>
+            <label htmlFor="system-prompt" className="block text-gray-600 mb-1">
+              System prompt
+            </label>
+            <textarea
+              id="system-prompt"
+              value={generationSettings.systemPrompt ?? DEFAULT_GENERATION_SETTINGS.systemPrompt}
+              onChange={(e) => setGenerationSettings({ systemPrompt: e.target.value })}
+              className="w-full h-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              maxLength={4000}
+              disabled={isProcessing}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label htmlFor="temperature" className="block text-gray-600 mb-1">Temperature</label>
+              <Input
+                id="temperature"
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                value={generationSettings.temperature ?? ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.temperature)}
+                onChange={(e) => setGenerationSettings({ temperature: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="top-p" className="block text-gray-600 mb-1">Top P</label>
+              <Input
+                id="top-p"
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                value={generationSettings.topP ?? ''}
+                placeholder="Provider default"
+                onChange={(e) => setGenerationSettings({ topP: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="max-tokens" className="block text-gray-600 mb-1">Max tokens</label>
+              <Input
+                id="max-tokens"
+                type="number"
+                min="1"
+                max="8192"
+                step="1"
+                value={generationSettings.maxTokens ?? ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.maxTokens)}
+                onChange={(e) => setGenerationSettings({ maxTokens: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="seed" className="block text-gray-600 mb-1">Seed</label>
+              <Input
+                id="seed"
+                type="number"
+                step="1"
+                value={generationSettings.seed ?? ''}
+                placeholder="Random"
+                onChange={(e) => setGenerationSettings({ seed: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="stop-sequences" className="block text-gray-600 mb-1">Stop sequences (comma separated)</label>
+              <Input
+                id="stop-sequences"
+                type="text"
+                value={generationSettings.stopSequences?.join(', ') ?? ''}
+                placeholder="None"
+                onChange={(e) => {
+                  const sequences = e.target.value.split(',').map(s => s.trim()).filter(Boolean)
+                  setGenerationSettings({ stopSequences: sequences.length > 0 ? sequences : undefined })
+                }}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="connect-timeout" className="block text-gray-600 mb-1">Connect timeout (s)</label>
+              <Input
+                id="connect-timeout"
+                type="number"
+                min="0.5"
+                max="60"
+                step="0.5"
+                value={generationSettings.connectTimeout !== undefined ? generationSettings.connectTimeout / 1000 : ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.connectTimeout / 1000)}
+                onChange={(e) => {
+                  const seconds = parseOptionalNumber(e.target.value)
+                  setGenerationSettings({ connectTimeout: seconds !== undefined ? Math.round(seconds * 1000) : undefined })
+                }}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="timeout" className="block text-gray-600 mb-1">Generation timeout (s)</label>
+              <Input
+                id="timeout"
+                type="number"
+                min="1"
+                max="300"
+                step="1"
+                value={generationSettings.timeout !== undefined ? generationSettings.timeout / 1000 : ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.timeout / 1000)}
+                onChange={(e) => {
+                  const seconds = parseOptionalNumber(e.target.value)
+                  setGenerationSettings({ timeout: seconds !== undefined ? Math.round(seconds * 1000) : undefined })
+                }}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="max-attempts" className="block text-gray-600 mb-1">Attempts</label>
+              <Input
+                id="max-attempts"
+                type="number"
+                min="1"
+                max="6"
+                step="1"
+                value={generationSettings.maxAttempts ?? ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.maxAttempts)}
+                onChange={(e) => setGenerationSettings({ maxAttempts: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="concurrency" className="block text-gray-600 mb-1">Concurrency</label>
+              <Input
+                id="concurrency"
+                type="number"
+                min="1"
+                max="20"
+                step="1"
+                value={generationSettings.concurrency ?? ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.concurrency)}
+                onChange={(e) => setGenerationSettings({ concurrency: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="samples" className="block text-gray-600 mb-1">Samples per model</label>
+              <Input
+                id="samples"
+                type="number"
+                min="1"
+                max="10"
+                step="1"
+                value={generationSettings.samples ?? ''}
+                placeholder={String(DEFAULT_GENERATION_SETTINGS.samples)}
+                onChange={(e) => setGenerationSettings({ samples: parseOptionalNumber(e.target.value) })}
+                className="h-8"
+                disabled={isProcessing}
+              />
+            </div>
+          </div>
+          {hasCustomGeneration && (
+            <button
+              type="button"
+              onClick={resetGenerationSettings}
+              className="text-sm text-blue-600 hover:text-blue-800 underline"
+              disabled={isProcessing}
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+
       {showExamples && (
         <div className="p-4 bg-gray-50 rounded-lg border">
           <h3 className="text-sm font-medium text-gray-700 mb-3">
@@ -85,7 +418,7 @@ export function PromptForm({ onSubmit, isProcessing, disabled }: PromptFormProps
                 className="text-sm bg-white px-3 py-2 rounded border border-gray-300 hover:bg-gray-100 hover:border-blue-300 transition-colors"
                 disabled={isProcessing}
               >
-                {example}
+                {example.text}
               </button>
             ))}
           </div>
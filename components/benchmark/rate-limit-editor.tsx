@@ -0,0 +1,115 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useModelsStore } from '@/store/models-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getLocalRateLimits, saveLocalRateLimits, getProviderKey } from '@/lib/rate-limiter'
+import type { RateLimits } from '@/lib/rate-limiter'
+
+type RateLimitForm = Record<string, { requestsPerMinute: string; tokensPerMinute: string }>
+
+const EMPTY_LIMIT = { requestsPerMinute: '', tokensPerMinute: '' }
+
+export function RateLimitEditor() {
+  const { models, syncModels } = useModelsStore()
+
+  const [form, setForm] = useState<RateLimitForm>({})
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (models.length === 0) {
+      syncModels()
+    }
+    const stored = getLocalRateLimits()
+    setForm(Object.fromEntries(Object.entries(stored).map(([provider, limit]) => [provider, {
+      requestsPerMinute: limit.requestsPerMinute != null ? String(limit.requestsPerMinute) : '',
+      tokensPerMinute: limit.tokensPerMinute != null ? String(limit.tokensPerMinute) : ''
+    }])))
+  }, [models.length, syncModels])
+
+  // Limits are keyed by the provider prefix of the gateway model id
+  const providers = Array.from(new Set([
+    ...models.map(model => getProviderKey(model.model_id)),
+    ...Object.keys(form)
+  ])).sort()
+
+  const updateField = (provider: string, field: 'requestsPerMinute' | 'tokensPerMinute', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [provider]: { ...(prev[provider] || EMPTY_LIMIT), [field]: value }
+    }))
+    setMessage('')
+  }
+
+  const handleSave = () => {
+    const rateLimits: RateLimits = {}
+
+    for (const [provider, limit] of Object.entries(form)) {
+      const requestsPerMinute = limit.requestsPerMinute.trim() ? parseInt(limit.requestsPerMinute, 10) : null
+      const tokensPerMinute = limit.tokensPerMinute.trim() ? parseInt(limit.tokensPerMinute, 10) : null
+
+      if ((requestsPerMinute !== null && !(requestsPerMinute > 0)) || (tokensPerMinute !== null && !(tokensPerMinute > 0))) {
+        setMessage(`❌ Limits for ${provider} must be positive whole numbers`)
+        return
+      }
+      if (requestsPerMinute !== null || tokensPerMinute !== null) {
+        rateLimits[provider] = { requestsPerMinute, tokensPerMinute }
+      }
+    }
+
+    saveLocalRateLimits(rateLimits)
+    setMessage('✅ Rate limits saved')
+  }
+
+  return (
+    <div className="space-y-4">
+      {providers.length === 0 ? (
+        <p className="text-sm text-gray-500">Sync models to list their providers.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-4 text-xs font-medium text-gray-500">
+            <span>Provider</span>
+            <span>Requests / min</span>
+            <span>Tokens / min</span>
+          </div>
+          {providers.map(provider => (
+            <div key={provider} className="grid grid-cols-3 gap-4 items-center">
+              <span className="text-sm font-medium text-gray-700">{provider}</span>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                aria-label={`${provider} requests per minute`}
+                value={form[provider]?.requestsPerMinute ?? ''}
+                onChange={(e) => updateField(provider, 'requestsPerMinute', e.target.value)}
+                placeholder="No limit"
+              />
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                aria-label={`${provider} tokens per minute`}
+                value={form[provider]?.tokensPerMinute ?? ''}
+                onChange={(e) => updateField(provider, 'tokensPerMinute', e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Token limits count the prompt and the maximum output up front, corrected with the actual usage once a response arrives.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <p className={`text-sm ${message.includes('✅') ? 'text-green-600' : 'text-red-600'}`}>
+          {message}
+        </p>
+        <Button onClick={handleSave} disabled={providers.length === 0}>
+          Save Rate Limits
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,35 @@
 'use client'
 
-import { BenchmarkResponse } from '@/store/benchmark-store'
+import { BenchmarkResponse, ModelRunStatus } from '@/store/benchmark-store'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { formatTime } from '@/lib/utils'
+import { formatCost } from '@/lib/pricing'
+import { AttemptRecord, describeAttempts } from '@/lib/resilience'
+import { getErrorCategoryLabel } from '@/lib/error-taxonomy'
+
+interface PendingModel {
+  id: string
+  name: string
+  provider: string
+  status: ModelRunStatus
+  sampleIndex?: number
+  // Tokens received so far while streaming
+  text?: string
+  // Above 1 while the request is being retried
+  attempt?: number
+}
 
 interface ResponseGridProps {
   responses: BenchmarkResponse[]
+  // Models still waiting for an answer, shown as placeholder cards
+  pendingModels?: PendingModel[]
+  // When above 1, cards are labelled with their sample number
+  samplesPerModel?: number
 }
 
-export function ResponseGrid({ responses }: ResponseGridProps) {
-  if (responses.length === 0) {
+export function ResponseGrid({ responses, pendingModels = [], samplesPerModel = 1 }: ResponseGridProps) {
+  if (responses.length === 0 && pendingModels.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500">
         <p>No responses available yet.</p>
@@ -22,17 +41,97 @@ export function ResponseGrid({ responses }: ResponseGridProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
       {responses.map((response, index) => (
-        <ResponseCard key={index} response={response} />
+        <ResponseCard key={index} response={response} samplesPerModel={samplesPerModel} />
+      ))}
+      {pendingModels.map(model => (
+        <PendingResponseCard key={`${model.id}:${model.sampleIndex ?? 0}`} model={model} samplesPerModel={samplesPerModel} />
       ))}
     </div>
   )
 }
 
+function SampleLabel({ sampleIndex = 0, samplesPerModel }: { sampleIndex?: number; samplesPerModel: number }) {
+  if (samplesPerModel <= 1) return null
+
+  return (
+    <p className="text-xs text-gray-400">
+      Sample {sampleIndex + 1} of {samplesPerModel}
+    </p>
+  )
+}
+
+function PendingResponseCard({ model, samplesPerModel = 1 }: { model: PendingModel; samplesPerModel?: number }) {
+  const isStreaming = model.status === 'streaming'
+
+  return (
+    <Card className="border-dashed border-gray-300 bg-gray-50">
+      <CardContent className="p-4">
+        <div className="flex justify-between items-start mb-3">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-gray-900 truncate">
+              {model.name}
+            </h3>
+            <p className="text-sm text-gray-500 truncate">
+              {model.provider}
+            </p>
+            <SampleLabel sampleIndex={model.sampleIndex} samplesPerModel={samplesPerModel} />
+          </div>
+          <Badge variant="outline" className="text-xs ml-2">
+            {isStreaming ? (model.attempt && model.attempt > 1 ? `Retry ${model.attempt - 1}` : 'Streaming') : 'Pending'}
+          </Badge>
+        </div>
+
+        <div className="min-h-16 flex items-center justify-center p-4 mb-3 bg-white rounded border border-gray-100">
+          {model.text ? (
+            <p className="text-xl font-medium break-words whitespace-pre-wrap">
+              {model.text}
+              <span className="inline-block w-2 h-5 ml-0.5 align-middle bg-blue-600 animate-pulse"></span>
+            </p>
+          ) : isStreaming ? (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          ) : (
+            <p className="text-sm text-gray-400">Waiting in queue...</p>
+          )}
+        </div>
+
+        <div className="text-xs text-gray-500 text-right">
+          {model.text ? 'Receiving tokens' : isStreaming ? 'Waiting for first token' : 'Not started'}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 interface ResponseCardProps {
   response: BenchmarkResponse
+  samplesPerModel?: number
+}
+
+function AttemptLog({ attempts }: { attempts: AttemptRecord[] }) {
+  // A first-try success needs no details
+  if (attempts.length === 1 && attempts[0].outcome === 'success') {
+    return <div className="mt-1">{describeAttempts(attempts)}</div>
+  }
+
+  return (
+    <details className="mt-1 text-left">
+      <summary className="cursor-pointer text-right">{describeAttempts(attempts)}</summary>
+      <ol className="mt-1 space-y-0.5">
+        {attempts.map(attempt => (
+          <li key={attempt.attempt} className={attempt.outcome === 'success' ? 'text-green-700' : 'text-red-600'}>
+            #{attempt.attempt} {attempt.outcome}
+            {attempt.statusCode != null && ` (${attempt.statusCode})`}
+            {attempt.outcome !== 'skipped' && ` after ${attempt.durationMs}ms`}
+            {attempt.error && ` · ${attempt.error}`}
+            {attempt.retryInMs != null && ` · retried in ${attempt.retryInMs}ms`}
+          </li>
+        ))}
+      </ol>
+    </details>
+  )
 }
 
-function ResponseCard({ response }: ResponseCardProps) {
+function ResponseCard({ response, samplesPerModel = 1 }: ResponseCardProps) {
   const hasError = !!response.error
   const borderColor = hasError ? 'border-red-300' : 'border-blue-300'
   const bgColor = hasError ? 'bg-red-50' : 'bg-blue-50'
@@ -49,11 +148,23 @@ function ResponseCard({ response }: ResponseCardProps) {
             <p className="text-sm text-gray-500 truncate">
               {response.model.provider}
             </p>
+            <SampleLabel sampleIndex={response.sample_index} samplesPerModel={samplesPerModel} />
           </div>
-          {!hasError && (
-            <Badge variant="outline" className="ml-2 text-xs">
-              {formatTime(response.response_time_ms)}
+          {hasError ? (
+            <Badge variant="destructive" className="text-xs ml-2">
+              {response.error_category ? getErrorCategoryLabel(response.error_category) : 'Failed'}
             </Badge>
+          ) : (
+            <div className="flex flex-col items-end gap-1 ml-2">
+              <Badge variant="outline" className="text-xs">
+                {formatTime(response.response_time_ms)}
+              </Badge>
+              {response.is_correct !== undefined && response.is_correct !== null && (
+                <Badge variant={response.is_correct ? 'secondary' : 'destructive'} className="text-xs">
+                  {response.is_correct ? '✓ Correct' : '✗ Incorrect'}
+                </Badge>
+              )}
+            </div>
           )}
         </div>
 
@@ -71,24 +182,52 @@ function ResponseCard({ response }: ResponseCardProps) {
               </p>
             </div>
           ) : (
-            <p className="text-xl font-medium text-center break-words">
-              "{response.response_text}"
-            </p>
+            <div className="text-center">
+              <p className="text-xl font-medium break-words">
+                "{response.response_text}"
+              </p>
+              {response.canonical_text && response.canonical_text !== response.response_text.trim().toLowerCase() && (
+                <p className="text-xs text-gray-500 mt-1 break-words">
+                  Canonical: {response.canonical_text}
+                </p>
+              )}
+            </div>
           )}
         </div>
 
         {/* Footer Info */}
         <div className="text-xs text-gray-500 text-right">
           {hasError ? (
-            <span className="text-red-500">Failed</span>
+            <>
+              <span className="text-red-500">Failed</span>
+              {response.attempts && <AttemptLog attempts={response.attempts} />}
+            </>
           ) : (
             <>
               <span>Response time: {response.response_time_ms}ms</span>
-              {response.usage && (
+              {response.time_to_first_token_ms != null && (
+                <div className="mt-1">
+                  <span>First token: {response.time_to_first_token_ms}ms</span>
+                  {response.tokens_per_second != null && (
+                    <span> · {response.tokens_per_second.toFixed(1)} tok/s</span>
+                  )}
+                </div>
+              )}
+              {response.usage?.totalTokens != null && (
+                <div className="mt-1">
+                  <span>
+                    Tokens: {response.usage.totalTokens}
+                    {response.usage.inputTokens != null && response.usage.outputTokens != null &&
+                      ` (${response.usage.inputTokens} in / ${response.usage.outputTokens} out)`}
+                  </span>
+                </div>
+              )}
+              {response.cost_usd != null && (
                 <div className="mt-1">
-                  <span>Tokens: {response.usage.total_tokens || 'N/A'}</span>
+                  <span>Cost: {formatCost(response.cost_usd)}</span>
                 </div>
               )}
+              {response.attempts && <AttemptLog attempts={response.attempts} />}
             </>
           )}
         </div>
@@ -97,4 +236,5 @@ function ResponseCard({ response }: ResponseCardProps) {
   )
 }
 
-export { ResponseCard }
\ No newline at end of file
+export { ResponseCard, PendingResponseCard }
+export type { PendingModel }
\ No newline at end of file
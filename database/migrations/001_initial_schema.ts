@@ -0,0 +1,217 @@
+import { publicAccessPolicies } from '../../lib/migrations'
+import type { Migration } from '../../lib/migrations'
+
+const TABLES = ['models', 'prompts', 'responses', 'consensus_groups', 'suites', 'suite_prompts', 'suite_runs', 'model_profiles']
+
+// The schema as of the first versioned release. Written to be re-runnable, so
+// databases created from the old schema.sql can adopt it as their baseline.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+-- Enable necessary extensions
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Models table
+CREATE TABLE IF NOT EXISTS models (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    provider VARCHAR(100) NOT NULL,
+    model_id VARCHAR(255) UNIQUE NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+    context_length INTEGER DEFAULT 4096,
+    input_price_per_million DECIMAL(12,6),
+    output_price_per_million DECIMAL(12,6),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Prompts table
+CREATE TABLE IF NOT EXISTS prompts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    text TEXT NOT NULL,
+    similarity_strategy VARCHAR(50) DEFAULT 'levenshtein',
+    similarity_threshold DECIMAL(4,3) DEFAULT 0.8,
+    clustering_mode VARCHAR(20) DEFAULT 'pairwise',
+    canonicalization JSONB,
+    expected_answers TEXT[],
+    expected_pattern TEXT,
+    generation_settings JSONB,
+    vote_weighting VARCHAR(20) DEFAULT 'equal',
+    vote_weights JSONB,
+    tags TEXT[],
+    status VARCHAR(20) DEFAULT 'completed',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Responses table
+CREATE TABLE IF NOT EXISTS responses (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    prompt_id UUID REFERENCES prompts(id) ON DELETE CASCADE,
+    model_id UUID REFERENCES models(id) ON DELETE CASCADE,
+    response_text TEXT NOT NULL,
+    canonical_text TEXT,
+    is_correct BOOLEAN,
+    response_time_ms INTEGER NOT NULL,
+    time_to_first_token_ms INTEGER,
+    tokens_per_second DECIMAL(10,2),
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    cost_usd DECIMAL(12,8),
+    attempts JSONB,
+    status VARCHAR(20) DEFAULT 'success',
+    error_category VARCHAR(30),
+    error_message TEXT,
+    attempt_count INTEGER,
+    sample_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Consensus groups table
+CREATE TABLE IF NOT EXISTS consensus_groups (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    prompt_id UUID REFERENCES prompts(id) ON DELETE CASCADE,
+    group_name TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    percentage DECIMAL(5,2),
+    color VARCHAR(7) NOT NULL,
+    models TEXT[],
+    model_ids UUID[],
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Prompt suites: named collections of prompts with optional expected answers
+CREATE TABLE IF NOT EXISTS suites (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS suite_prompts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    suite_id UUID REFERENCES suites(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    expected_answers TEXT[],
+    expected_pattern TEXT,
+    tags TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One execution of a suite against a set of models
+CREATE TABLE IF NOT EXISTS suite_runs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    suite_id UUID REFERENCES suites(id) ON DELETE CASCADE,
+    model_ids UUID[] NOT NULL,
+    status VARCHAR(20) DEFAULT 'running',
+    total_prompts INTEGER NOT NULL,
+    completed_prompts INTEGER DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Per-model overrides applied on top of a run's generation settings
+CREATE TABLE IF NOT EXISTS model_profiles (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    model_id UUID UNIQUE REFERENCES models(id) ON DELETE CASCADE,
+    system_prompt TEXT,
+    temperature DECIMAL(3,2),
+    max_tokens INTEGER,
+    prompt_template TEXT,
+    trust_weight DECIMAL(5,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add columns introduced after the initial release to existing databases
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS similarity_strategy VARCHAR(50) DEFAULT 'levenshtein';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS similarity_threshold DECIMAL(4,3) DEFAULT 0.8;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS clustering_mode VARCHAR(20) DEFAULT 'pairwise';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS canonicalization JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS expected_answers TEXT[];
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS expected_pattern TEXT;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS generation_settings JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS vote_weighting VARCHAR(20) DEFAULT 'equal';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS vote_weights JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS suite_run_id UUID REFERENCES suite_runs(id) ON DELETE SET NULL;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS tags TEXT[];
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'completed';
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS canonical_text TEXT;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS is_correct BOOLEAN;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS time_to_first_token_ms INTEGER;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS tokens_per_second DECIMAL(10,2);
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS cost_usd DECIMAL(12,8);
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS attempts JSONB;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'success';
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS error_category VARCHAR(30);
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS attempt_count INTEGER;
+ALTER TABLE models ADD COLUMN IF NOT EXISTS input_price_per_million DECIMAL(12,6);
+ALTER TABLE models ADD COLUMN IF NOT EXISTS output_price_per_million DECIMAL(12,6);
+ALTER TABLE model_profiles ADD COLUMN IF NOT EXISTS trust_weight DECIMAL(5,2);
+ALTER TABLE suite_prompts ADD COLUMN IF NOT EXISTS tags TEXT[];
+ALTER TABLE consensus_groups ADD COLUMN IF NOT EXISTS models TEXT[];
+ALTER TABLE consensus_groups ADD COLUMN IF NOT EXISTS model_ids UUID[];
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_models_model_id ON models(model_id);
+CREATE INDEX IF NOT EXISTS idx_models_enabled ON models(enabled);
+CREATE INDEX IF NOT EXISTS idx_responses_prompt_id ON responses(prompt_id);
+CREATE INDEX IF NOT EXISTS idx_responses_model_id ON responses(model_id);
+CREATE INDEX IF NOT EXISTS idx_consensus_groups_prompt_id ON consensus_groups(prompt_id);
+CREATE INDEX IF NOT EXISTS idx_prompts_created_at ON prompts(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_prompts_suite_run_id ON prompts(suite_run_id);
+CREATE INDEX IF NOT EXISTS idx_prompts_tags ON prompts USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_responses_created_at ON responses(created_at);
+CREATE INDEX IF NOT EXISTS idx_suite_prompts_suite_id ON suite_prompts(suite_id);
+
+-- Row level security with public access (adjust as needed for your security requirements)
+${publicAccessPolicies(TABLES)}
+
+-- Create updated_at trigger function
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers for updated_at
+DROP TRIGGER IF EXISTS update_models_updated_at ON models;
+CREATE TRIGGER update_models_updated_at BEFORE UPDATE ON models FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+DROP TRIGGER IF EXISTS update_prompts_updated_at ON prompts;
+CREATE TRIGGER update_prompts_updated_at BEFORE UPDATE ON prompts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+DROP TRIGGER IF EXISTS update_suites_updated_at ON suites;
+CREATE TRIGGER update_suites_updated_at BEFORE UPDATE ON suites FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+DROP TRIGGER IF EXISTS update_model_profiles_updated_at ON model_profiles;
+CREATE TRIGGER update_model_profiles_updated_at BEFORE UPDATE ON model_profiles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Example models
+INSERT INTO models (name, provider, model_id, enabled, context_length) VALUES
+    ('GPT-4o', 'OpenAI', 'openai/gpt-4o', true, 128000),
+    ('Claude 3.5 Sonnet', 'Anthropic', 'anthropic/claude-3-5-sonnet', true, 200000),
+    ('Gemini Pro 1.5', 'Google', 'google/gemini-pro-1.5', true, 2000000)
+ON CONFLICT (model_id) DO NOTHING;
+`,
+  down: `
+DROP TABLE IF EXISTS model_profiles;
+DROP TABLE IF EXISTS consensus_groups;
+DROP TABLE IF EXISTS responses;
+DROP TABLE IF EXISTS prompts;
+DROP TABLE IF EXISTS suite_runs;
+DROP TABLE IF EXISTS suite_prompts;
+DROP TABLE IF EXISTS suites;
+DROP TABLE IF EXISTS models;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+`
+}
+
+export default migration
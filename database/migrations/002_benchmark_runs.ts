@@ -0,0 +1,162 @@
+import { publicAccessPolicies } from '../../lib/migrations'
+import type { Migration } from '../../lib/migrations'
+
+const RUN_SETTINGS = [
+  'similarity_strategy',
+  'similarity_threshold',
+  'clustering_mode',
+  'canonicalization',
+  'expected_answers',
+  'expected_pattern',
+  'generation_settings',
+  'vote_weighting',
+  'vote_weights',
+  'suite_run_id',
+  'tags'
+].join(', ')
+
+// Splits each prompt submission into a deduplicated prompt and a benchmark run
+// holding the models, settings and status. Every existing prompt becomes a run
+// with the same id, so responses and consensus groups keep pointing at it.
+const migration: Migration = {
+  version: 2,
+  name: 'benchmark_runs',
+  up: `
+-- Benchmark runs: one submission of a prompt to a set of models
+CREATE TABLE IF NOT EXISTS benchmark_runs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    model_ids UUID[] NOT NULL DEFAULT '{}',
+    similarity_strategy VARCHAR(50) DEFAULT 'levenshtein',
+    similarity_threshold DECIMAL(4,3) DEFAULT 0.8,
+    clustering_mode VARCHAR(20) DEFAULT 'pairwise',
+    canonicalization JSONB,
+    expected_answers TEXT[],
+    expected_pattern TEXT,
+    generation_settings JSONB,
+    vote_weighting VARCHAR(20) DEFAULT 'equal',
+    vote_weights JSONB,
+    suite_run_id UUID REFERENCES suite_runs(id) ON DELETE SET NULL,
+    tags TEXT[],
+    status VARCHAR(20) DEFAULT 'running',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One run per existing prompt, with the models that answered it
+INSERT INTO benchmark_runs (id, prompt_id, model_ids, ${RUN_SETTINGS}, status, created_at, completed_at)
+SELECT
+    p.id,
+    p.id,
+    COALESCE((SELECT ARRAY_AGG(DISTINCT r.model_id) FROM responses r WHERE r.prompt_id = p.id AND r.model_id IS NOT NULL), '{}'),
+    ${RUN_SETTINGS.split(', ').map(column => `p.${column}`).join(', ')},
+    COALESCE(p.status, 'completed'),
+    p.created_at,
+    COALESCE(p.updated_at, p.created_at)
+FROM prompts p
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES benchmark_runs(id) ON DELETE CASCADE;
+ALTER TABLE consensus_groups ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES benchmark_runs(id) ON DELETE CASCADE;
+UPDATE responses SET run_id = prompt_id WHERE run_id IS NULL;
+UPDATE consensus_groups SET run_id = prompt_id WHERE run_id IS NULL;
+
+-- Merge prompts with the same text into the oldest one. updated_at becomes the
+-- time of the latest run, so the trigger is held off while rows are rewritten.
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS text_hash CHAR(32);
+ALTER TABLE prompts DISABLE TRIGGER update_prompts_updated_at;
+UPDATE prompts SET text_hash = md5(text) WHERE text_hash IS NULL;
+
+CREATE TEMP TABLE prompt_merges AS
+SELECT id, FIRST_VALUE(id) OVER (PARTITION BY text_hash ORDER BY created_at, id) AS keep_id
+FROM prompts;
+DELETE FROM prompt_merges WHERE id = keep_id;
+
+UPDATE benchmark_runs b SET prompt_id = m.keep_id FROM prompt_merges m WHERE b.prompt_id = m.id;
+UPDATE responses r SET prompt_id = m.keep_id FROM prompt_merges m WHERE r.prompt_id = m.id;
+UPDATE consensus_groups g SET prompt_id = m.keep_id FROM prompt_merges m WHERE g.prompt_id = m.id;
+DELETE FROM prompts WHERE id IN (SELECT id FROM prompt_merges);
+DROP TABLE prompt_merges;
+
+UPDATE prompts p SET updated_at = latest.created_at
+FROM (SELECT prompt_id, MAX(created_at) AS created_at FROM benchmark_runs GROUP BY prompt_id) latest
+WHERE latest.prompt_id = p.id;
+ALTER TABLE prompts ENABLE TRIGGER update_prompts_updated_at;
+
+ALTER TABLE prompts ALTER COLUMN text_hash SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompts_text_hash ON prompts(text_hash);
+
+-- Settings now live on the run
+ALTER TABLE prompts
+    DROP COLUMN IF EXISTS similarity_strategy,
+    DROP COLUMN IF EXISTS similarity_threshold,
+    DROP COLUMN IF EXISTS clustering_mode,
+    DROP COLUMN IF EXISTS canonicalization,
+    DROP COLUMN IF EXISTS expected_answers,
+    DROP COLUMN IF EXISTS expected_pattern,
+    DROP COLUMN IF EXISTS generation_settings,
+    DROP COLUMN IF EXISTS vote_weighting,
+    DROP COLUMN IF EXISTS vote_weights,
+    DROP COLUMN IF EXISTS suite_run_id,
+    DROP COLUMN IF EXISTS tags,
+    DROP COLUMN IF EXISTS status;
+
+CREATE INDEX IF NOT EXISTS idx_prompts_updated_at ON prompts(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_benchmark_runs_prompt_id ON benchmark_runs(prompt_id);
+CREATE INDEX IF NOT EXISTS idx_benchmark_runs_created_at ON benchmark_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_benchmark_runs_suite_run_id ON benchmark_runs(suite_run_id);
+CREATE INDEX IF NOT EXISTS idx_benchmark_runs_tags ON benchmark_runs USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_responses_run_id ON responses(run_id);
+CREATE INDEX IF NOT EXISTS idx_consensus_groups_run_id ON consensus_groups(run_id);
+
+${publicAccessPolicies(['benchmark_runs'])}
+`,
+  down: `
+DROP INDEX IF EXISTS idx_prompts_text_hash;
+DROP INDEX IF EXISTS idx_prompts_updated_at;
+ALTER TABLE prompts DROP COLUMN IF EXISTS text_hash;
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS similarity_strategy VARCHAR(50) DEFAULT 'levenshtein';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS similarity_threshold DECIMAL(4,3) DEFAULT 0.8;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS clustering_mode VARCHAR(20) DEFAULT 'pairwise';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS canonicalization JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS expected_answers TEXT[];
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS expected_pattern TEXT;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS generation_settings JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS vote_weighting VARCHAR(20) DEFAULT 'equal';
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS vote_weights JSONB;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS suite_run_id UUID REFERENCES suite_runs(id) ON DELETE SET NULL;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS tags TEXT[];
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'completed';
+
+-- One prompt per run again, reusing the run id
+INSERT INTO prompts (id, text, ${RUN_SETTINGS}, status, created_at, updated_at)
+SELECT
+    b.id,
+    p.text,
+    ${RUN_SETTINGS.split(', ').map(column => `b.${column}`).join(', ')},
+    CASE WHEN b.status = 'cancelled' THEN 'cancelled' ELSE 'completed' END,
+    b.created_at,
+    COALESCE(b.completed_at, b.created_at)
+FROM benchmark_runs b
+JOIN prompts p ON p.id = b.prompt_id
+ON CONFLICT (id) DO UPDATE SET
+    ${RUN_SETTINGS.split(', ').map(column => `${column} = EXCLUDED.${column}`).join(',\n    ')},
+    status = EXCLUDED.status,
+    created_at = EXCLUDED.created_at;
+
+UPDATE responses SET prompt_id = run_id WHERE run_id IS NOT NULL;
+UPDATE consensus_groups SET prompt_id = run_id WHERE run_id IS NOT NULL;
+ALTER TABLE responses DROP COLUMN IF EXISTS run_id;
+ALTER TABLE consensus_groups DROP COLUMN IF EXISTS run_id;
+
+-- Deduplicated prompts are not needed once every run has its own
+DELETE FROM prompts WHERE id NOT IN (SELECT id FROM benchmark_runs);
+DROP TABLE IF EXISTS benchmark_runs;
+
+CREATE INDEX IF NOT EXISTS idx_prompts_suite_run_id ON prompts(suite_run_id);
+CREATE INDEX IF NOT EXISTS idx_prompts_tags ON prompts USING GIN(tags);
+`
+}
+
+export default migration
@@ -0,0 +1,38 @@
+import { publicAccessPolicies } from '../../lib/migrations'
+import type { Migration } from '../../lib/migrations'
+
+// Pinned prompt sets for drift detection: a suite re-run against fixed models
+// and settings, on demand or every interval_hours
+const migration: Migration = {
+  version: 3,
+  name: 'drift_schedules',
+  up: `
+CREATE TABLE IF NOT EXISTS drift_schedules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    suite_id UUID NOT NULL REFERENCES suites(id) ON DELETE CASCADE,
+    model_ids UUID[] NOT NULL,
+    settings JSONB NOT NULL,
+    interval_hours INTEGER,
+    enabled BOOLEAN DEFAULT true,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Runs made for a schedule stay as plain suite runs when it is deleted
+ALTER TABLE suite_runs ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES drift_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_suite_runs_schedule_id ON suite_runs(schedule_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_drift_schedules_updated_at ON drift_schedules;
+CREATE TRIGGER update_drift_schedules_updated_at BEFORE UPDATE ON drift_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+${publicAccessPolicies(['drift_schedules'])}
+`,
+  down: `
+ALTER TABLE suite_runs DROP COLUMN IF EXISTS schedule_id;
+DROP TABLE IF EXISTS drift_schedules;
+`
+}
+
+export default migration
@@ -0,0 +1,14 @@
+import type { Migration } from '../../lib/migrations'
+import initialSchema from './001_initial_schema'
+import benchmarkRuns from './002_benchmark_runs'
+import driftSchedules from './003_drift_schedules'
+
+// Every schema change, in order. Add a new numbered file for each change
+// instead of editing one that has been released.
+const MIGRATIONS: Migration[] = [
+  initialSchema,
+  benchmarkRuns,
+  driftSchedules
+]
+
+export { MIGRATIONS }
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  formatGroundTruth,
+  getModelAccuracy,
+  hasGroundTruth,
+  parseGroundTruthInput,
+  scoreResponse
+} from '../accuracy-scorer'
+import { Canonicalizer } from '../canonicalizer'
+
+const canonicalizer = new Canonicalizer()
+
+describe('scoreResponse', () => {
+  it('matches accepted answers after canonicalization', () => {
+    const groundTruth = { answers: ['Paris'] }
+    expect(scoreResponse('The answer is Paris.', groundTruth, canonicalizer)).toBe(true)
+    expect(scoreResponse('Lyon', groundTruth, canonicalizer)).toBe(false)
+  })
+
+  it('accepts any of several answers', () => {
+    const groundTruth = { answers: ['United States', 'America'] }
+    expect(scoreResponse('USA', groundTruth, canonicalizer)).toBe(true)
+  })
+
+  it('tests a pattern against the raw and the canonical reply, ignoring case', () => {
+    expect(scoreResponse('Jupiter.\n\nIt is the largest planet.', { pattern: '^jupiter$' }, canonicalizer)).toBe(true)
+    expect(scoreResponse('Twenty-one', { pattern: '^21$' }, canonicalizer)).toBe(true)
+    expect(scoreResponse('Saturn', { pattern: 'jupiter' }, canonicalizer)).toBe(false)
+  })
+})
+
+describe('ground truth input', () => {
+  it('reads slashes as a pattern and anything else as answers', () => {
+    expect(parseGroundTruthInput('/^4$/')).toEqual({ pattern: '^4$' })
+    expect(parseGroundTruthInput(' Paris | paris, France |')).toEqual({ answers: ['Paris', 'paris, France'] })
+    expect(parseGroundTruthInput('   ')).toBeNull()
+  })
+
+  it('formats answers and pattern back into the input syntax', () => {
+    expect(formatGroundTruth({ answers: ['Paris', 'Lutetia'], pattern: 'par.s' })).toBe('Paris | Lutetia | /par.s/')
+  })
+
+  it('only counts non-empty ground truth', () => {
+    expect(hasGroundTruth(null)).toBe(false)
+    expect(hasGroundTruth({ answers: [] })).toBe(false)
+    expect(hasGroundTruth({ pattern: 'x' })).toBe(true)
+  })
+})
+
+describe('getModelAccuracy', () => {
+  it('aggregates scored responses per model, most accurate first', () => {
+    const accuracy = getModelAccuracy([
+      { model_id: 'a', is_correct: true, model: { name: 'A' } },
+      { model_id: 'a', is_correct: false, model: { name: 'A' } },
+      { model_id: 'b', is_correct: true, model: { name: 'B' } },
+      { model_id: 'b', is_correct: null, model: { name: 'B' } },
+      { model_id: 'c' }
+    ])
+
+    expect(accuracy).toEqual([
+      { modelId: 'b', modelName: 'B', correct: 1, total: 1, accuracy: 100 },
+      { modelId: 'a', modelName: 'A', correct: 1, total: 2, accuracy: 50 }
+    ])
+  })
+})
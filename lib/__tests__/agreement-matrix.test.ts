@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { buildAgreementMatrix, getCachedAgreementMatrix, hierarchicalOrder } from '../agreement-matrix'
+import { ConsensusAnalyzer } from '../consensus-analyzer'
+import { LocalRepository } from '../local-repository'
+import { setRepository } from '../repository'
+
+const MODELS = [
+  { id: 'a1', name: 'A1', provider: 'Alpha' },
+  { id: 'a2', name: 'A2', provider: 'Alpha' },
+  { id: 'b1', name: 'B1', provider: 'Beta' }
+]
+
+describe('hierarchicalOrder', () => {
+  it('places the closest items next to each other', () => {
+    // 0 and 2 are close, 1 is far from both
+    const order = hierarchicalOrder([
+      [0, 0.9, 0.1],
+      [0.9, 0, 0.8],
+      [0.1, 0.8, 0]
+    ])
+
+    expect(order).toHaveLength(3)
+    expect(Math.abs(order.indexOf(0) - order.indexOf(2))).toBe(1)
+  })
+})
+
+describe('buildAgreementMatrix', () => {
+  it('counts shared prompts and agreement per pair of models', () => {
+    const matrix = buildAgreementMatrix([
+      { runId: 'r1', groups: [['a1', 'a2'], ['b1']] },
+      { runId: 'r2', groups: [['a1', 'a2', 'b1']] },
+      { runId: 'r3', groups: [['a1'], ['b1']] }
+    ], MODELS)
+
+    const at = (x: string, y: string) => {
+      const ids = matrix.models.map(model => model.id)
+      return { agreement: matrix.agreement[ids.indexOf(x)][ids.indexOf(y)], shared: matrix.shared[ids.indexOf(x)][ids.indexOf(y)] }
+    }
+
+    expect(matrix.prompts).toBe(3)
+    expect(at('a1', 'a2')).toEqual({ agreement: 100, shared: 2 })
+    expect(at('a1', 'b1').agreement).toBeCloseTo(100 / 3)
+    expect(at('a1', 'b1').shared).toBe(3)
+    expect(at('a1', 'a1').agreement).toBe(100)
+    expect(matrix.sameProviderAgreement).toBe(100)
+    expect(matrix.providers.find(entry => entry.provider === 'Alpha')).toEqual({
+      provider: 'Alpha',
+      models: 2,
+      withinAgreement: 100,
+      crossAgreement: 40
+    })
+  })
+
+  it('leaves pairs that never met empty', () => {
+    const matrix = buildAgreementMatrix([{ runId: 'r1', groups: [['a1']] }, { runId: 'r2', groups: [['b1']] }], MODELS)
+    expect(matrix.agreement[0][1]).toBeNull()
+    expect(matrix.crossProviderAgreement).toBeNull()
+  })
+})
+
+describe('agreement history for insights', () => {
+  const response = (id: string, modelId: string, provider: string, text: string) => ({
+    id,
+    model_id: modelId,
+    response_text: text,
+    response_time_ms: 100,
+    model: { name: modelId, provider }
+  })
+
+  it('is only needed when the top group is several models of one provider', () => {
+    const sameProvider = ConsensusAnalyzer.analyzeConsensus([
+      response('1', 'a1', 'Alpha', 'Paris'),
+      response('2', 'a2', 'Alpha', 'Paris'),
+      response('3', 'b1', 'Beta', 'Lyon')
+    ])
+    const mixed = ConsensusAnalyzer.analyzeConsensus([
+      response('1', 'a1', 'Alpha', 'Paris'),
+      response('2', 'b1', 'Beta', 'Paris')
+    ])
+
+    expect(ConsensusAnalyzer.needsAgreementHistory(sameProvider)).toBe(true)
+    expect(ConsensusAnalyzer.needsAgreementHistory(mixed)).toBe(false)
+  })
+
+  describe('getCachedAgreementMatrix', () => {
+    let repository: LocalRepository
+
+    beforeEach(() => {
+      repository = new LocalRepository(null)
+      setRepository(repository)
+    })
+
+    afterEach(() => {
+      setRepository(null)
+      jest.restoreAllMocks()
+    })
+
+    it('reads the history once until the cache expires', async () => {
+      const history = jest.spyOn(repository, 'getConsensusGroupHistory')
+
+      await getCachedAgreementMatrix(0)
+      await getCachedAgreementMatrix(60 * 1000)
+      expect(history).toHaveBeenCalledTimes(1)
+
+      await getCachedAgreementMatrix(60 * 60 * 1000)
+      expect(history).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not keep a failed build', async () => {
+      const now = 24 * 60 * 60 * 1000
+      jest.spyOn(repository, 'getConsensusGroupHistory').mockRejectedValueOnce(new Error('Connection lost'))
+
+      await expect(getCachedAgreementMatrix(now)).rejects.toThrow('Connection lost')
+      await expect(getCachedAgreementMatrix(now)).resolves.toMatchObject({ prompts: 0 })
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  bootstrapConsensus,
+  classifyMajority,
+  createSeededRandom,
+  describeKappa,
+  fleissKappa,
+  formatInterval,
+  normalizedEntropy,
+  shannonEntropy
+} from '../agreement-statistics'
+
+describe('entropy', () => {
+  it('is zero for full agreement and maximal when every answer differs', () => {
+    expect(shannonEntropy([4])).toBe(0)
+    expect(shannonEntropy([1, 1])).toBe(1)
+    expect(shannonEntropy([1, 1, 1, 1])).toBe(2)
+    expect(shannonEntropy([])).toBe(0)
+  })
+
+  it('normalizes by the maximum for the number of responses', () => {
+    expect(normalizedEntropy([4])).toBe(0)
+    expect(normalizedEntropy([1, 1, 1, 1])).toBe(1)
+    expect(normalizedEntropy([2, 2])).toBeCloseTo(0.5)
+    expect(normalizedEntropy([1])).toBe(0)
+  })
+})
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const first = createSeededRandom(7)
+    const second = createSeededRandom(7)
+    const values = Array.from({ length: 5 }, () => first())
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values)
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+})
+
+describe('bootstrapConsensus', () => {
+  it('gives a point interval when every response agrees', () => {
+    expect(bootstrapConsensus([5])).toEqual({
+      interval: { lower: 100, upper: 100, confidence: 0.95 },
+      topStability: 100
+    })
+  })
+
+  it('gives a wide interval around an even split', () => {
+    const { interval, topStability } = bootstrapConsensus([5, 5])
+
+    expect(interval.lower).toBeLessThan(50)
+    expect(interval.upper).toBeGreaterThan(50)
+    expect(topStability).toBeLessThan(50)
+    expect(classifyMajority(interval)).toBe('uncertain')
+  })
+
+  it('returns the same interval every time for the same groups', () => {
+    expect(bootstrapConsensus([6, 3, 1])).toEqual(bootstrapConsensus([6, 3, 1]))
+  })
+
+  it('returns an empty interval without responses', () => {
+    expect(bootstrapConsensus([]).interval).toEqual({ lower: 0, upper: 0, confidence: 0.95 })
+  })
+})
+
+describe('classifyMajority', () => {
+  it('reads the interval against 50%', () => {
+    expect(classifyMajority({ lower: 60, upper: 90, confidence: 0.95 })).toBe('clear')
+    expect(classifyMajority({ lower: 10, upper: 40, confidence: 0.95 })).toBe('none')
+    expect(formatInterval({ lower: 60, upper: 90.25, confidence: 0.95 })).toBe('95% CI 60.0–90.3%')
+  })
+})
+
+describe('fleissKappa', () => {
+  it('is 1 when raters agree on every subject beyond chance', () => {
+    const result = fleissKappa([{ paris: 3 }, { rome: 3 }])
+
+    expect(result?.kappa).toBe(1)
+    expect(result?.observedAgreement).toBe(1)
+    expect(result?.expectedAgreement).toBe(0.5)
+  })
+
+  it('is negative when raters split on every subject', () => {
+    expect(fleissKappa([{ paris: 1, lyon: 1 }, { paris: 1, lyon: 1 }])?.kappa).toBe(-1)
+  })
+
+  it('matches the published worked example', () => {
+    // The worked example of the Wikipedia article: 10 subjects, 14 raters, 5 categories
+    const table = [
+      [0, 0, 0, 0, 14], [0, 2, 6, 4, 2], [0, 0, 3, 5, 6], [0, 3, 9, 2, 0], [2, 2, 8, 1, 1],
+      [7, 7, 0, 0, 0], [3, 2, 6, 3, 0], [2, 5, 3, 2, 2], [6, 5, 2, 1, 0], [0, 2, 2, 3, 7]
+    ]
+    const subjects = table.map(row => Object.fromEntries(row.map((count, category) => [`c${category}`, count])))
+
+    expect(fleissKappa(subjects)?.kappa).toBeCloseTo(0.21, 2)
+  })
+
+  it('skips subjects with fewer than two raters', () => {
+    expect(fleissKappa([{ paris: 1 }])).toBeNull()
+    expect(fleissKappa([{ paris: 1 }, { paris: 2 }])?.subjects).toBe(1)
+  })
+
+  it('reads kappa on the Landis and Koch scale', () => {
+    expect(describeKappa(-0.1)).toBe('worse than chance')
+    expect(describeKappa(0.5)).toBe('moderate')
+    expect(describeKappa(0.9)).toBe('almost perfect')
+  })
+})
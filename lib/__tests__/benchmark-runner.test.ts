@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { LocalRepository } from '../local-repository'
+import { setRepository } from '../repository'
+import { runPromptBenchmark, runSuiteInBackground } from '../benchmark-runner'
+import type { BenchmarkSettings } from '../benchmark-runner'
+import { DEFAULT_GENERATION_SETTINGS } from '../generation-settings'
+import { CompletionError } from '../resilience'
+import VercelAIGatewayClient from '../vercel-ai-gateway'
+import type { CompletionOptions, CompletionResult } from '../vercel-ai-gateway'
+import type { Model } from '../database-types'
+
+// Collects the work handed to waitUntil, through the request context the
+// Vercel runtime provides, so tests can wait for it
+const backgroundWork: Array<Promise<unknown>> = []
+const REQUEST_CONTEXT = Symbol.for('@vercel/request-context')
+
+const SETTINGS: BenchmarkSettings = {
+  similarity: { mode: 'pairwise', strategy: 'levenshtein' },
+  canonicalization: {},
+  generation: DEFAULT_GENERATION_SETTINGS,
+  weighting: 'equal'
+}
+
+// Answers from a table instead of the gateway; models without an answer fail
+// the way a rejected API key does
+class FakeGateway extends VercelAIGatewayClient {
+  constructor(private answers: Record<string, string>) {
+    super('test-key')
+  }
+
+  async getCompletion(modelId: string, _prompt: string, options: CompletionOptions = {}): Promise<CompletionResult> {
+    if (options.abortSignal?.aborted) {
+      throw new CompletionError('Cancelled', { statusCode: null, retryAfterMs: null, retryable: false, cancelled: true })
+    }
+    const text = this.answers[modelId]
+    if (text === undefined) {
+      throw new CompletionError('Failed to get completion: Unauthorized', { statusCode: 401, retryAfterMs: null, retryable: false })
+    }
+    return { text, timeMs: 10, usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } }
+  }
+
+  async streamCompletion(
+    modelId: string,
+    prompt: string,
+    options: CompletionOptions & { onDelta?: (delta: string) => void } = {}
+  ): Promise<CompletionResult> {
+    const result = await this.getCompletion(modelId, prompt, options)
+    options.onDelta?.(result.text)
+    return result
+  }
+}
+
+describe('runPromptBenchmark', () => {
+  let repository: LocalRepository
+  let models: Model[]
+
+  beforeEach(async () => {
+    repository = new LocalRepository(null)
+    setRepository(repository)
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    models = await repository.upsertModels([
+      { name: 'A', provider: 'OpenAI', model_id: 'openai/a', enabled: true, context_length: 8000, input_price_per_million: 1, output_price_per_million: 2 },
+      { name: 'B', provider: 'Anthropic', model_id: 'anthropic/b', enabled: true, context_length: 8000 },
+      { name: 'C', provider: 'Mistral', model_id: 'mistral/c', enabled: true, context_length: 8000 }
+    ])
+  })
+
+  afterEach(() => {
+    setRepository(null)
+    jest.restoreAllMocks()
+  })
+
+  it('saves the run, its responses and consensus groups under the prompt', async () => {
+    const aiGateway = new FakeGateway({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Lyon' })
+
+    const outcome = await runPromptBenchmark({
+      aiGateway,
+      text: 'What is the capital of France?',
+      models,
+      settings: SETTINGS,
+      groundTruth: { answers: ['Paris'] },
+      tags: ['geography']
+    })
+
+    expect(outcome.run.status).toBe('completed')
+    expect(outcome.successfulResponses).toBe(3)
+    expect(outcome.analysis.groups[0].count).toBe(2)
+    expect(outcome.results.map(result => result.is_correct)).toEqual([true, true, false])
+
+    const saved = await repository.getRunWithResults(outcome.run.id)
+    expect(saved?.run.status).toBe('completed')
+    expect(saved?.run.tags).toEqual(['geography'])
+    expect(saved?.responses).toHaveLength(3)
+    expect(saved?.consensusGroups.map(group => group.count).sort()).toEqual([1, 2])
+  })
+
+  it('prices responses from the model metadata', async () => {
+    const aiGateway = new FakeGateway({ 'openai/a': 'Paris' })
+
+    const outcome = await runPromptBenchmark({ aiGateway, text: 'Capital of France?', models: [models[0]], settings: SETTINGS })
+
+    // 10 input tokens at $1 and 5 output tokens at $2 per million
+    expect(outcome.totalCostUsd).toBeCloseTo(0.00002)
+  })
+
+  it('adds a run to the existing prompt when the text is asked again', async () => {
+    const aiGateway = new FakeGateway({ 'openai/a': 'Paris' })
+
+    const first = await runPromptBenchmark({ aiGateway, text: 'Capital of France?', models: [models[0]], settings: SETTINGS })
+    const second = await runPromptBenchmark({ aiGateway, text: 'Capital of France?', models: [models[0]], settings: SETTINGS })
+
+    expect(second.prompt.id).toBe(first.prompt.id)
+    expect(second.run.id).not.toBe(first.run.id)
+    expect((await repository.getPromptHistory())[0].runs).toHaveLength(2)
+  })
+
+  it('saves failed requests with their error category without counting them as answers', async () => {
+    const aiGateway = new FakeGateway({ 'openai/a': 'Paris', 'anthropic/b': 'Paris' })
+
+    const outcome = await runPromptBenchmark({ aiGateway, text: 'Capital of France?', models, settings: SETTINGS })
+
+    expect(outcome.successfulResponses).toBe(2)
+    expect(outcome.analysis.groups).toHaveLength(1)
+    const failed = (await repository.getRunWithResults(outcome.run.id))!.responses.filter(response => response.status === 'failed')
+    expect(failed).toHaveLength(1)
+    expect(failed[0].model_id).toBe(models[2].id)
+    expect(failed[0].error_category).toBe('auth')
+  })
+
+  it('marks the run cancelled when its signal is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const outcome = await runPromptBenchmark({
+      aiGateway: new FakeGateway({ 'openai/a': 'Paris' }),
+      text: 'Capital of France?',
+      models: [models[0]],
+      settings: SETTINGS,
+      signal: controller.signal
+    })
+
+    expect(outcome.cancelled).toBe(true)
+    expect((await repository.getRunWithResults(outcome.run.id))?.run.status).toBe('cancelled')
+  })
+
+  it('reports the run and each result as progress', async () => {
+    const events: string[] = []
+
+    await runPromptBenchmark({
+      aiGateway: new FakeGateway({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Paris' }),
+      text: 'Capital of France?',
+      models,
+      settings: SETTINGS,
+      onProgress: event => events.push(event.type)
+    })
+
+    expect(events[0]).toBe('run')
+    expect(events.filter(type => type === 'start')).toHaveLength(3)
+    expect(events.filter(type => type === 'delta')).toHaveLength(3)
+    expect(events.filter(type => type === 'result')).toHaveLength(3)
+  })
+})
+
+describe('runSuiteInBackground', () => {
+  let repository: LocalRepository
+
+  beforeEach(() => {
+    repository = new LocalRepository(null)
+    setRepository(repository)
+    backgroundWork.length = 0
+    Object.assign(globalThis, {
+      [REQUEST_CONTEXT]: { get: () => ({ waitUntil: (promise: Promise<unknown>) => backgroundWork.push(promise) }) }
+    })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    delete (globalThis as Record<symbol, unknown>)[REQUEST_CONTEXT]
+    setRepository(null)
+    jest.restoreAllMocks()
+  })
+
+  it('keeps the suite running after the response and completes it', async () => {
+    const [model] = await repository.upsertModels([
+      { name: 'A', provider: 'OpenAI', model_id: 'openai/a', enabled: true, context_length: 8000 }
+    ])
+    const suite = await repository.createSuite('Capitals', null, [{ text: 'Capital of France?' }, { text: 'Capital of Spain?' }])
+    const run = await repository.createSuiteRun(suite.id, [model.id], 2)
+
+    runSuiteInBackground({
+      aiGateway: new FakeGateway({ 'openai/a': 'Paris' }),
+      run,
+      prompts: await repository.getSuitePrompts(suite.id),
+      models: [model],
+      settings: SETTINGS
+    })
+
+    expect(backgroundWork).toHaveLength(1)
+    await Promise.all(backgroundWork)
+    const [saved] = await repository.getSuiteRuns()
+    expect(saved.status).toBe('completed')
+    expect(saved.completed_prompts).toBe(2)
+  })
+
+  it('marks the run failed when the suite could not record its own outcome', async () => {
+    const suite = await repository.createSuite('Capitals', null, [{ text: 'Capital of France?' }])
+    const run = await repository.createSuiteRun(suite.id, [], 0)
+    const updateSuiteRun = repository.updateSuiteRun.bind(repository)
+    // The completed and the failed update inside runSuite both fail
+    jest.spyOn(repository, 'updateSuiteRun')
+      .mockRejectedValueOnce(new Error('Connection lost'))
+      .mockRejectedValueOnce(new Error('Connection lost'))
+      .mockImplementation(updateSuiteRun)
+
+    runSuiteInBackground({ aiGateway: new FakeGateway({}), run, prompts: [], models: [], settings: SETTINGS })
+
+    await Promise.all(backgroundWork)
+    const [saved] = await repository.getSuiteRuns()
+    expect(saved.status).toBe('failed')
+    expect(saved.error).toBe('Connection lost')
+  })
+})
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { checkBudget, estimateBenchmarkCost, estimateTokens, getBudgetSettings, getMonthStart } from '../budget'
+import { checkRunBudget } from '../benchmark-runner'
+import { DEFAULT_GENERATION_SETTINGS } from '../generation-settings'
+import { LocalRepository } from '../local-repository'
+import { setRepository } from '../repository'
+
+// $1 per million input and $2 per million output tokens
+const PRICED = { model_id: 'openai/a', name: 'A', input_price_per_million: 1, output_price_per_million: 2 }
+const UNPRICED = { model_id: 'mistral/b', name: 'B' }
+
+describe('estimateBenchmarkCost', () => {
+  it('counts every prompt, model and sample at the full max tokens', () => {
+    const estimate = estimateBenchmarkCost({
+      prompts: ['x'.repeat(40), 'y'.repeat(40)],
+      models: [PRICED, UNPRICED],
+      generation: { maxTokens: 100, samples: 2, systemPrompt: undefined }
+    })
+
+    // (10 prompt + 8 overhead tokens) per request, 2 samples, 2 prompts, 2 models
+    expect(estimate.requests).toBe(8)
+    expect(estimate.inputTokens).toBe(144)
+    expect(estimate.outputTokens).toBe(800)
+    expect(estimate.costUsd).toBeCloseTo((72 * 1 + 400 * 2) / 1_000_000)
+    expect(estimate.unpricedModels).toEqual(['B'])
+  })
+
+  it('leaves the cost empty when no model is priced', () => {
+    expect(estimateBenchmarkCost({ prompts: ['hi'], models: [UNPRICED] }).costUsd).toBeNull()
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+})
+
+describe('checkBudget', () => {
+  const estimate = { requests: 1, inputTokens: 0, outputTokens: 0, costUsd: 0.5, unpricedModels: [] }
+
+  it('flags the per-run and the monthly limit', () => {
+    const check = checkBudget(estimate, { perRunUsd: 0.25, monthlyUsd: 10, requireConfirmation: true }, 9.75)
+
+    expect(check.exceeded).toBe(true)
+    expect(check.reasons).toHaveLength(2)
+    expect(check.confirmable).toBe(true)
+  })
+
+  it('passes without limits and reports whether going over can be confirmed', () => {
+    expect(checkBudget(estimate, { perRunUsd: null, monthlyUsd: null, requireConfirmation: true }).exceeded).toBe(false)
+    expect(checkBudget(estimate, { perRunUsd: 0.1, monthlyUsd: null, requireConfirmation: false }).confirmable).toBe(false)
+  })
+})
+
+describe('getBudgetSettings', () => {
+  it('reads positive limits from the environment', () => {
+    expect(getBudgetSettings({ BUDGET_PER_RUN_USD: '1.5', BUDGET_MONTHLY_USD: '50', BUDGET_REQUIRE_CONFIRMATION: 'false' }))
+      .toEqual({ perRunUsd: 1.5, monthlyUsd: 50, requireConfirmation: false })
+  })
+
+  it('treats unset or invalid limits as no limit and asks to confirm by default', () => {
+    expect(getBudgetSettings({ BUDGET_PER_RUN_USD: '0', BUDGET_MONTHLY_USD: 'lots' }))
+      .toEqual({ perRunUsd: null, monthlyUsd: null, requireConfirmation: true })
+  })
+})
+
+describe('getMonthStart', () => {
+  it('returns the first of the month in UTC', () => {
+    expect(getMonthStart(new Date('2024-03-15T12:00:00Z'))).toBe('2024-03-01T00:00:00.000Z')
+  })
+})
+
+describe('checkRunBudget', () => {
+  const env = { ...process.env }
+  let repository: LocalRepository
+
+  beforeEach(() => {
+    repository = new LocalRepository(null)
+    setRepository(repository)
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+    setRepository(null)
+  })
+
+  it('checks against the server limits, whatever pricing the request sends', async () => {
+    process.env.BUDGET_PER_RUN_USD = '0.00001'
+    const [model] = await repository.upsertModels([
+      { ...PRICED, provider: 'OpenAI', enabled: true, context_length: 8000 }
+    ])
+
+    const check = await checkRunBudget({
+      prompts: ['Capital of France?'],
+      models: [model],
+      settings: {
+        generation: DEFAULT_GENERATION_SETTINGS,
+        pricing: { 'openai/a': { inputPerMillion: 0, outputPerMillion: 0 } }
+      }
+    })
+
+    expect(check.exceeded).toBe(true)
+    expect(check.estimate.costUsd).toBeGreaterThan(0.00001)
+  })
+
+  it('adds the spend of the month to the monthly limit', async () => {
+    process.env.BUDGET_MONTHLY_USD = '1'
+    const prompt = await repository.findOrCreatePrompt('Earlier prompt')
+    const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [] })
+    const [model] = await repository.upsertModels([{ ...PRICED, provider: 'OpenAI', enabled: true, context_length: 8000 }])
+    await repository.saveResponses([
+      { prompt_id: prompt.id, run_id: run.id, model_id: model.id, sample_index: 0, response_text: 'x', response_time_ms: 1, cost_usd: 1 }
+    ])
+
+    const check = await checkRunBudget({
+      prompts: ['Capital of France?'],
+      models: [model],
+      settings: { generation: DEFAULT_GENERATION_SETTINGS }
+    })
+
+    expect(check.monthSpentUsd).toBe(1)
+    expect(check.exceeded).toBe(true)
+  })
+})
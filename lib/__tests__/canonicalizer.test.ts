@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals'
+import { Canonicalizer } from '../canonicalizer'
+import { ConsensusAnalyzer } from '../consensus-analyzer'
+
+const canonicalizer = new Canonicalizer()
+const canonicalize = (text: string) => canonicalizer.canonicalize(text)
+
+describe('Canonicalizer', () => {
+  it('lowercases, folds diacritics and strips punctuation', () => {
+    expect(canonicalize('Paris.')).toBe('paris')
+    expect(canonicalize('São Paulo!')).toBe('sao paulo')
+    expect(canonicalize('  New   York ')).toBe('new york')
+  })
+
+  it('keeps decimal and thousands separators between digits', () => {
+    expect(canonicalize('3.5')).toBe('3.5')
+    expect(canonicalize('35')).toBe('35')
+    expect(canonicalize('1,000.')).toBe('1,000')
+    expect(canonicalize('It is 3.5.')).toBe('3.5')
+  })
+
+  it('strips answer prefixes, articles and confidence notes', () => {
+    expect(canonicalize('The answer is Paris')).toBe('paris')
+    expect(canonicalize('The Pacific Ocean')).toBe('pacific ocean')
+    expect(canonicalize('Paris (confidence: 90%)')).toBe('paris')
+  })
+
+  it('turns number words into digits', () => {
+    expect(canonicalize('Twenty-one')).toBe('21')
+    expect(canonicalize('three hundred apples')).toBe('300 apples')
+  })
+
+  it('applies aliases to the whole answer', () => {
+    expect(canonicalize('USA')).toBe('united states')
+    expect(canonicalize('UK')).toBe('united kingdom')
+    expect(new Canonicalizer({ aliases: { 'Big Apple': 'New York' } }).canonicalize('big apple')).toBe('new york')
+  })
+
+  it('reads "US" as the country only when written in capitals', () => {
+    expect(canonicalize('US')).toBe('united states')
+    expect(canonicalize('U.S.')).toBe('united states')
+    expect(canonicalize('Us')).toBe('us')
+    expect(canonicalize('us')).toBe('us')
+  })
+
+  describe('final answer extraction', () => {
+    it('prefers an explicit answer marker, then bold text', () => {
+      expect(canonicalize('Let me think.\nFinal answer: Paris\nThanks')).toBe('paris')
+      expect(canonicalize('The largest planet is **Jupiter** by far.')).toBe('jupiter')
+    })
+
+    it('falls back to the first line, not the explanation after it', () => {
+      expect(canonicalize('Jupiter.\n\nJupiter is the largest planet because it formed first.')).toBe('jupiter')
+    })
+
+    it('takes the first sentence when the explanation follows on the same line', () => {
+      expect(canonicalize('Jupiter. It is the largest planet in the solar system.')).toBe('jupiter')
+      expect(canonicalize('Mt. Everest. It is the tallest mountain on Earth.')).toBe('mount everest')
+    })
+
+    it('leaves the reply alone when extraction is off', () => {
+      const plain = new Canonicalizer({ extractFinalAnswer: false })
+      expect(plain.canonicalize('Jupiter.\nSaturn')).toBe('jupiter saturn')
+    })
+  })
+})
+
+describe('numeric consensus', () => {
+  it('keeps 3.5 and 35 in separate groups', () => {
+    const responses = ['3.5', '35', '3.50'].map((text, i) => ({
+      id: `r${i}`,
+      model_id: `m${i}`,
+      response_text: text,
+      response_time_ms: 100,
+      model: { name: `Model ${i}`, provider: 'Test' }
+    }))
+
+    const analysis = ConsensusAnalyzer.analyzeConsensus(responses, { strategy: 'numeric' })
+
+    expect(analysis.groups.map(group => group.responses.map(response => response.id).sort())).toEqual([['r0', 'r2'], ['r1']])
+  })
+})
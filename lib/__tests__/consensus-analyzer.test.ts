@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@jest/globals'
+import { ConsensusAnalyzer } from '../consensus-analyzer'
+import type { Response } from '../consensus-analyzer'
+
+const response = (id: string, text: string, provider = 'Test'): Response => ({
+  id,
+  model_id: `model-${id}`,
+  response_text: text,
+  response_time_ms: 100,
+  model: { name: `Model ${id}`, provider }
+})
+
+const RESPONSES = [
+  response('a', 'Paris'),
+  response('b', 'paris.'),
+  response('c', 'Lyon'),
+  response('d', 'Paris'),
+  response('e', 'Marseille')
+]
+
+// Every order of the given items
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items]
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  )
+}
+
+// What a reader sees of the grouping: labels, members and colors
+const summarize = (responses: Response[]) => ConsensusAnalyzer.analyzeConsensus(responses).groups.map(group => ({
+  label: group.groupName,
+  members: group.responses.map(member => member.id).sort(),
+  color: group.color
+}))
+
+describe('ConsensusAnalyzer grouping', () => {
+  it('returns an empty analysis without responses', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus([])
+    expect(analysis.groups).toEqual([])
+    expect(analysis.consensusLevel).toBe(0)
+  })
+
+  it('groups similar answers and reports the consensus level', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus(RESPONSES)
+
+    expect(analysis.groups.map(group => group.count)).toEqual([3, 1, 1])
+    expect(analysis.topResponse).toBe('paris')
+    expect(analysis.consensusLevel).toBe(60)
+  })
+
+  it('gives the same groups, labels and colors in every input order', () => {
+    const expected = summarize(RESPONSES)
+
+    permutations(RESPONSES).forEach(order => {
+      expect(summarize(order)).toEqual(expected)
+    })
+  })
+
+  it('joins chains of similar answers regardless of which arrived first', () => {
+    // At 0.85 the middle answer is close to both ends, which are not close
+    // to each other (0.8)
+    const chain = [response('x', 'abcdefghij'), response('y', 'abcdefghix'), response('z', 'abcdefghxx')]
+
+    permutations(chain).forEach(order => {
+      expect(ConsensusAnalyzer.analyzeConsensus(order, { threshold: 0.85 }).groups.map(group => group.count)).toEqual([3])
+    })
+  })
+
+  it('breaks ties between equally large groups by label', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus([response('a', 'Venus'), response('b', 'Mars')], { strategy: 'exact' })
+    expect(analysis.groups.map(group => group.groupName)).toEqual(['mars', 'venus'])
+  })
+})
+
+describe('repeated sampling', () => {
+  // Model a answers Paris twice and Lyon once; model b always answers Lyon
+  const samples = (modelId: string, texts: string[]): Response[] => texts.map((text, i) => ({
+    ...response(`${modelId}${i}`, text),
+    model_id: modelId,
+    sample_index: i,
+    model: { name: `Model ${modelId}`, provider: 'Test' }
+  }))
+  const SAMPLES = [...samples('a', ['Paris', 'Paris', 'Lyon']), ...samples('b', ['Lyon', 'Lyon', 'Lyon'])]
+
+  it('measures how often each model repeats its own majority answer', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus(SAMPLES)
+
+    expect(analysis.selfConsistency).toEqual([
+      { modelId: 'a', modelName: 'Model a', samples: 3, majorityAnswer: 'paris', consistency: (2 / 3) * 100 },
+      { modelId: 'b', modelName: 'Model b', samples: 3, majorityAnswer: 'lyon', consistency: 100 }
+    ])
+  })
+
+  it('counts one vote per model by default and every sample on request', () => {
+    const perModel = ConsensusAnalyzer.analyzeConsensus(SAMPLES)
+    expect(perModel.totalResponses).toBe(2)
+    expect(perModel.groups.map(group => group.count)).toEqual([1, 1])
+
+    const perSample = ConsensusAnalyzer.analyzeConsensus(SAMPLES, { voting: 'sample' })
+    expect(perSample.totalResponses).toBe(6)
+    expect(perSample.topResponse).toBe('lyon')
+    expect(perSample.groups.map(group => group.count)).toEqual([4, 2])
+  })
+
+  it('leaves self-consistency out when every model answered once', () => {
+    expect(ConsensusAnalyzer.analyzeConsensus(RESPONSES).selfConsistency).toBeUndefined()
+  })
+})
+
+describe('ConsensusAnalyzer.generateInsights', () => {
+  it('notes agreement across providers', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus([
+      response('a', 'Paris', 'OpenAI'),
+      response('b', 'Paris', 'Anthropic'),
+      response('c', 'Paris', 'Google')
+    ])
+
+    const insights = ConsensusAnalyzer.generateInsights(analysis)
+    expect(insights.some(insight => insight.startsWith('Cross-provider agreement'))).toBe(true)
+    expect(insights.some(insight => insight.startsWith('No spread'))).toBe(true)
+  })
+
+  it('exports the groups as CSV', () => {
+    const csv = ConsensusAnalyzer.exportToCsv(ConsensusAnalyzer.analyzeConsensus(RESPONSES), 'Capital of "France"?')
+    expect(csv).toContain('# Prompt: "Capital of ""France""?"')
+    expect(csv).toContain('"paris",3,60.0')
+  })
+})
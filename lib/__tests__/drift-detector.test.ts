@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import { LocalRepository } from '../local-repository'
+import { setRepository } from '../repository'
+import { runSuite } from '../benchmark-runner'
+import type { BenchmarkSettings } from '../benchmark-runner'
+import { buildDriftReport } from '../drift-detector'
+import { DEFAULT_GENERATION_SETTINGS } from '../generation-settings'
+import VercelAIGatewayClient from '../vercel-ai-gateway'
+import type { CompletionResult } from '../vercel-ai-gateway'
+import type { DriftSchedule, Model } from '../database-types'
+
+const SETTINGS: BenchmarkSettings = {
+  similarity: { mode: 'pairwise', strategy: 'levenshtein' },
+  canonicalization: {},
+  generation: DEFAULT_GENERATION_SETTINGS,
+  weighting: 'equal'
+}
+
+// Each model gives the same answer to every prompt, after a fixed time
+class FakeGateway extends VercelAIGatewayClient {
+  constructor(private answers: Record<string, { text: string; timeMs: number }>) {
+    super('test-key')
+  }
+
+  async getCompletion(modelId: string): Promise<CompletionResult> {
+    const { text, timeMs } = this.answers[modelId]
+    return { text, timeMs, usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } }
+  }
+}
+
+describe('buildDriftReport', () => {
+  let repository: LocalRepository
+  let models: Model[]
+  let schedule: DriftSchedule
+
+  // Runs the pinned suite once with the given answers per model
+  const runSchedule = async (answers: Record<string, string>, timeMs = 100) => {
+    const prompts = await repository.getSuitePrompts(schedule.suite_id)
+    const run = await repository.createSuiteRun(schedule.suite_id, schedule.model_ids, prompts.length, schedule.id)
+    const gateway = new FakeGateway(Object.fromEntries(
+      Object.entries(answers).map(([modelId, text]) => [modelId, { text, timeMs }])
+    ))
+    await runSuite({ aiGateway: gateway, run, prompts, models, settings: SETTINGS })
+  }
+
+  const report = async () => buildDriftReport((await repository.getDriftHistory(schedule.id))!)
+
+  beforeEach(async () => {
+    repository = new LocalRepository(null)
+    setRepository(repository)
+    models = await repository.upsertModels([
+      { name: 'A', provider: 'OpenAI', model_id: 'openai/a', enabled: true, context_length: 8000 },
+      { name: 'B', provider: 'Anthropic', model_id: 'anthropic/b', enabled: true, context_length: 8000 },
+      { name: 'C', provider: 'Mistral', model_id: 'mistral/c', enabled: true, context_length: 8000 }
+    ])
+    const suite = await repository.createSuite('Capitals', null, [{ text: 'Capital of France?' }, { text: 'Largest city of France?' }])
+    schedule = await repository.createDriftSchedule({
+      suite_id: suite.id,
+      model_ids: models.map(model => model.id),
+      settings: SETTINGS,
+      interval_hours: 24,
+      enabled: true
+    })
+  })
+
+  afterEach(() => {
+    setRepository(null)
+  })
+
+  it('flags a model whose answers and agreement changed since its previous run', async () => {
+    await runSchedule({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Paris' })
+    await runSchedule({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Lyon' })
+
+    const { runs, models: drift } = await report()
+    expect(runs).toHaveLength(2)
+    expect(drift.map(model => model.name)).toEqual(['C', 'B', 'A'])
+
+    const [c, , a] = drift
+    expect(c.flagged).toBe(true)
+    expect(c.points[1]).toMatchObject({ compared: 2, answerChangeRate: 100, agreementRate: 0, agreementChange: -100, flags: ['answers', 'agreement'] })
+    expect(c.points[1].changes[0]).toMatchObject({ previousAnswer: 'paris', answer: 'lyon' })
+
+    expect(a.flagged).toBe(false)
+    expect(a.points[1]).toMatchObject({ answerChangeRate: 0, agreementChange: 0, flags: [] })
+  })
+
+  it('leaves the first run without comparisons', async () => {
+    await runSchedule({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Paris' })
+
+    const [first] = (await report()).models[0].points
+    expect(first).toMatchObject({ answered: 2, compared: 0, answerChangeRate: null, agreementChange: null, flags: [] })
+  })
+
+  it('compares median latency of the latest run with the first', async () => {
+    await runSchedule({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Paris' }, 100)
+    await runSchedule({ 'openai/a': 'Paris', 'anthropic/b': 'Paris', 'mistral/c': 'Paris' }, 150)
+
+    expect((await report()).models.every(model => model.latencyChangePercent === 50)).toBe(true)
+  })
+})
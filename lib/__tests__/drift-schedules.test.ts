@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { LocalRepository } from '../local-repository'
+import { setRepository } from '../repository'
+import { isScheduleDue, startDriftRun, startDueDriftRuns } from '../drift-schedules'
+import type { BenchmarkSettings } from '../benchmark-runner'
+import { BudgetExceededError } from '../budget'
+import { DEFAULT_GENERATION_SETTINGS } from '../generation-settings'
+import VercelAIGatewayClient from '../vercel-ai-gateway'
+import type { CompletionResult } from '../vercel-ai-gateway'
+import type { DriftSchedule } from '../database-types'
+
+// Collects the work handed to waitUntil, through the request context the
+// Vercel runtime provides, so tests can wait for it
+const backgroundWork: Array<Promise<unknown>> = []
+const REQUEST_CONTEXT = Symbol.for('@vercel/request-context')
+
+const SETTINGS: BenchmarkSettings = {
+  similarity: { mode: 'pairwise', strategy: 'levenshtein' },
+  canonicalization: {},
+  generation: DEFAULT_GENERATION_SETTINGS,
+  weighting: 'equal'
+}
+
+// Every model answers Paris
+class FakeGateway extends VercelAIGatewayClient {
+  constructor() {
+    super('test-key')
+  }
+
+  async getCompletion(): Promise<CompletionResult> {
+    return { text: 'Paris', timeMs: 10, usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } }
+  }
+}
+
+describe('isScheduleDue', () => {
+  const schedule = (overrides: Partial<DriftSchedule>): DriftSchedule => ({
+    id: 's1',
+    suite_id: 'suite',
+    model_ids: [],
+    settings: SETTINGS,
+    interval_hours: 24,
+    enabled: true,
+    last_run_at: '2026-01-01T00:00:00Z',
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  it('is due once the interval has passed since the last run, give or take the cron hour', () => {
+    expect(isScheduleDue(schedule({}), new Date('2026-01-01T22:59:00Z'))).toBe(false)
+    expect(isScheduleDue(schedule({}), new Date('2026-01-01T23:30:00Z'))).toBe(true)
+    expect(isScheduleDue(schedule({}), new Date('2026-01-02T00:00:00Z'))).toBe(true)
+    expect(isScheduleDue(schedule({ last_run_at: null }))).toBe(true)
+  })
+
+  it('is never due when paused or run only on demand', () => {
+    const later = new Date('2026-02-01T00:00:00Z')
+    expect(isScheduleDue(schedule({ enabled: false }), later)).toBe(false)
+    expect(isScheduleDue(schedule({ interval_hours: null }), later)).toBe(false)
+  })
+})
+
+describe('starting drift runs', () => {
+  const env = { ...process.env }
+  let repository: LocalRepository
+  let schedule: DriftSchedule
+
+  beforeEach(async () => {
+    repository = new LocalRepository(null)
+    setRepository(repository)
+    backgroundWork.length = 0
+    Object.assign(globalThis, {
+      [REQUEST_CONTEXT]: { get: () => ({ waitUntil: (promise: Promise<unknown>) => backgroundWork.push(promise) }) }
+    })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    delete process.env.BUDGET_PER_RUN_USD
+    delete process.env.BUDGET_MONTHLY_USD
+    delete process.env.BUDGET_REQUIRE_CONFIRMATION
+
+    const models = await repository.upsertModels([
+      { name: 'A', provider: 'OpenAI', model_id: 'openai/a', enabled: true, context_length: 8000, input_price_per_million: 1, output_price_per_million: 2 }
+    ])
+    const suite = await repository.createSuite('Capitals', null, [{ text: 'Capital of France?' }])
+    schedule = await repository.createDriftSchedule({
+      suite_id: suite.id,
+      model_ids: models.map(model => model.id),
+      settings: SETTINGS,
+      interval_hours: 24,
+      enabled: true
+    })
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+    delete (globalThis as Record<symbol, unknown>)[REQUEST_CONTEXT]
+    setRepository(null)
+    jest.restoreAllMocks()
+  })
+
+  it('runs the pinned suite in the background and records when it ran', async () => {
+    const run = await startDriftRun(new FakeGateway(), schedule)
+    await Promise.all(backgroundWork)
+
+    const [saved] = await repository.getSuiteRuns()
+    expect(saved).toMatchObject({ id: run.id, schedule_id: schedule.id, status: 'completed', completed_prompts: 1 })
+    expect((await repository.getDriftSchedules())[0].last_run_at).toBe(run.created_at)
+  })
+
+  it('refuses a run over budget unless the user confirms it', async () => {
+    process.env.BUDGET_PER_RUN_USD = '0.00001'
+
+    await expect(startDriftRun(new FakeGateway(), schedule)).rejects.toBeInstanceOf(BudgetExceededError)
+    expect(await repository.getSuiteRuns()).toEqual([])
+
+    await expect(startDriftRun(new FakeGateway(), schedule, { confirmOverBudget: true })).resolves.toMatchObject({ schedule_id: schedule.id })
+    await Promise.all(backgroundWork)
+  })
+
+  it('refuses a confirmed run over budget when confirmation is turned off', async () => {
+    process.env.BUDGET_PER_RUN_USD = '0.00001'
+    process.env.BUDGET_REQUIRE_CONFIRMATION = 'false'
+
+    await expect(startDriftRun(new FakeGateway(), schedule, { confirmOverBudget: true }))
+      .rejects.toThrow('exceeds the per-run budget')
+  })
+
+  it('starts due schedules and skips the ones over budget', async () => {
+    await expect(startDueDriftRuns(new FakeGateway())).resolves.toHaveLength(1)
+    await Promise.all(backgroundWork)
+
+    // Not due again until the interval has passed
+    await expect(startDueDriftRuns(new FakeGateway())).resolves.toEqual([])
+
+    process.env.BUDGET_PER_RUN_USD = '0.00001'
+    await expect(startDueDriftRuns(new FakeGateway(), new Date(Date.now() + 25 * 60 * 60 * 1000))).resolves.toEqual([])
+    expect(await repository.getSuiteRuns()).toHaveLength(1)
+  })
+})
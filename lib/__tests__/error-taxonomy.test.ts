@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals'
+import { categorizeError, getErrorCategoryLabel, summarizeFailures } from '../error-taxonomy'
+import { CircuitOpenError, ConnectTimeoutError, RunCancelledError } from '../resilience'
+
+describe('categorizeError', () => {
+  it('reads the status code first', () => {
+    expect(categorizeError({ statusCode: 401 })).toBe('auth')
+    expect(categorizeError({ statusCode: 429 })).toBe('rate_limit')
+    expect(categorizeError({ statusCode: 451 })).toBe('content_filter')
+    expect(categorizeError({ statusCode: 503 })).toBe('provider_outage')
+    expect(categorizeError({ statusCode: 408 })).toBe('timeout')
+  })
+
+  it('tells timeouts, cancellations and paused providers apart', () => {
+    expect(categorizeError(new ConnectTimeoutError(100))).toBe('timeout')
+    expect(categorizeError(new DOMException('Timed out', 'TimeoutError'))).toBe('timeout')
+    expect(categorizeError(new RunCancelledError())).toBe('cancelled')
+    expect(categorizeError(new CircuitOpenError('openai', 0))).toBe('provider_outage')
+  })
+
+  it('falls back to the error name and message', () => {
+    expect(categorizeError(new Error('Invalid API key provided'))).toBe('auth')
+    expect(categorizeError(new Error('The response was flagged by the content filter'))).toBe('content_filter')
+    expect(categorizeError(Object.assign(new Error('No output'), { name: 'AI_NoContentGeneratedError' }))).toBe('malformed_output')
+    expect(categorizeError(new Error('fetch failed'))).toBe('provider_outage')
+    expect(categorizeError(new Error('Something else'))).toBe('unknown')
+  })
+})
+
+describe('getErrorCategoryLabel', () => {
+  it('labels missing categories as other', () => {
+    expect(getErrorCategoryLabel('rate_limit')).toBe('Rate limit')
+    expect(getErrorCategoryLabel(null)).toBe('Other')
+  })
+})
+
+describe('summarizeFailures', () => {
+  it('counts failures per model and category, most failing first', () => {
+    const model = (name: string) => ({ name, provider: 'Test' })
+    const summary = summarizeFailures([
+      { model_id: 'a', status: 'success', response_time_ms: 100, model: model('A') },
+      { model_id: 'a', status: 'failed', error_category: 'timeout', response_time_ms: 3000, model: model('A') },
+      { model_id: 'b', status: 'failed', error_category: 'rate_limit', response_time_ms: 200, model: model('B') },
+      { model_id: 'b', status: 'failed', response_time_ms: 400, model: model('B') },
+      { model_id: 'c', status: 'success', response_time_ms: 100, model: model('C') }
+    ])
+
+    expect(summary.map(entry => entry.name)).toEqual(['B', 'A', 'C'])
+    expect(summary[0]).toMatchObject({
+      requests: 2,
+      failures: 2,
+      failureRate: 100,
+      categories: { rate_limit: 1, unknown: 1 },
+      averageFailureMs: 300
+    })
+    expect(summary[1].failureRate).toBe(50)
+    expect(summary[2]).toMatchObject({ failures: 0, failureRate: 0, averageFailureMs: null })
+  })
+})
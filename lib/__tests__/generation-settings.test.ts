@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals'
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettingsSchema, describeGenerationSettings } from '../generation-settings'
+
+describe('GenerationSettingsSchema', () => {
+  it('fills in the defaults', () => {
+    expect(GenerationSettingsSchema.parse({ temperature: 0 })).toEqual({ ...DEFAULT_GENERATION_SETTINGS, temperature: 0 })
+    expect(DEFAULT_GENERATION_SETTINGS).toMatchObject({ temperature: 0.7, maxTokens: 10, samples: 1 })
+  })
+
+  it('rejects values outside the supported ranges', () => {
+    expect(GenerationSettingsSchema.safeParse({ temperature: 3 }).success).toBe(false)
+    expect(GenerationSettingsSchema.safeParse({ topP: 1.5 }).success).toBe(false)
+    expect(GenerationSettingsSchema.safeParse({ maxTokens: 1.5 }).success).toBe(false)
+    expect(GenerationSettingsSchema.safeParse({ stopSequences: ['a', 'b', 'c', 'd', 'e'] }).success).toBe(false)
+  })
+})
+
+describe('describeGenerationSettings', () => {
+  it('lists the defaults in short', () => {
+    expect(describeGenerationSettings({})).toBe('temperature 0.7, max 10 tokens')
+  })
+
+  it('mentions the optional settings that are set', () => {
+    expect(describeGenerationSettings({ temperature: 0, topP: 0.9, seed: 42, stopSequences: ['\n'], samples: 3 }))
+      .toBe('temperature 0, top_p 0.9, max 10 tokens, seed 42, stop "\\n", 3 samples per model')
+  })
+})
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { buildLeaderboard, percentile } from '../leaderboard'
+import { LocalRepository } from '../local-repository'
+import type { Model } from '../database-types'
+
+describe('percentile', () => {
+  it('interpolates between neighbouring values', () => {
+    expect(percentile([100, 200, 300, 400], 50)).toBe(250)
+    expect(percentile([100, 200, 300], 95)).toBeCloseTo(290)
+    expect(percentile([], 50)).toBeNull()
+  })
+})
+
+describe('buildLeaderboard', () => {
+  let repository: LocalRepository
+  let models: Model[]
+
+  // Saves one run of a prompt with one answer per model; null saves a failed request
+  const saveRun = async (text: string, answers: Array<string | null>, tags: string[] = []) => {
+    const prompt = await repository.findOrCreatePrompt(text)
+    const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: models.map(model => model.id), tags })
+    await repository.saveResponses(answers.map((answer, i) => ({
+      prompt_id: prompt.id,
+      run_id: run.id,
+      model_id: models[i].id,
+      sample_index: 0,
+      response_text: answer ?? '',
+      response_time_ms: (i + 1) * 100,
+      status: answer === null ? 'failed' : 'success',
+      cost_usd: answer === null ? null : 0.01,
+      is_correct: answer === null ? null : answer === 'Paris'
+    })))
+  }
+
+  beforeEach(async () => {
+    repository = new LocalRepository(null)
+    models = await repository.upsertModels([
+      { name: 'A', provider: 'Alpha', model_id: 'alpha/a', enabled: true, context_length: 8000 },
+      { name: 'B', provider: 'Beta', model_id: 'beta/b', enabled: true, context_length: 8000 },
+      { name: 'C', provider: 'Gamma', model_id: 'gamma/c', enabled: true, context_length: 8000 }
+    ])
+  })
+
+  it('ranks models by agreement with the majority', async () => {
+    await saveRun('Capital of France?', ['Paris', 'Paris', 'Lyon'], ['geo'])
+    await saveRun('Capital of France, again?', ['Paris', 'Paris', null])
+
+    const leaderboard = buildLeaderboard(await repository.getResponseHistory())
+
+    expect(leaderboard.prompts).toBe(2)
+    expect(leaderboard.tags).toEqual(['geo'])
+    expect(leaderboard.entries.map(entry => entry.name)).toEqual(['A', 'B', 'C'])
+
+    const [a, , c] = leaderboard.entries
+    expect(a).toMatchObject({ prompts: 2, responses: 2, majorityAgreement: 100, accuracy: 100, medianLatencyMs: 100 })
+    expect(a.costUsd).toBeCloseTo(0.02)
+    expect(c).toMatchObject({ prompts: 1, majorityAgreement: 0, accuracy: 0, failures: 1, failureRate: 50 })
+  })
+
+  it('filters by provider and by tag', async () => {
+    await saveRun('Capital of France?', ['Paris', 'Paris', 'Lyon'], ['geo'])
+    await saveRun('2 + 2?', ['4', '5', '4'], ['math'])
+    const responses = await repository.getResponseHistory()
+
+    expect(buildLeaderboard(responses, { provider: 'Beta' }).entries.map(entry => entry.name)).toEqual(['B'])
+
+    const math = buildLeaderboard(responses, { tag: 'math' })
+    expect(math.prompts).toBe(1)
+    expect(math.entries.find(entry => entry.name === 'B')?.majorityAgreement).toBe(0)
+  })
+
+  it('leaves agreement empty for models that never answered alongside another', async () => {
+    await saveRun('Capital of France?', ['Paris', null, null])
+
+    const [a] = buildLeaderboard(await repository.getResponseHistory()).entries
+    expect(a.majorityAgreement).toBeNull()
+  })
+})
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LocalRepository } from '../local-repository'
+import type { NewModel } from '../database-types'
+
+const MODELS: NewModel[] = [
+  { name: 'GPT-4o', provider: 'OpenAI', model_id: 'openai/gpt-4o', enabled: true, context_length: 128000 },
+  { name: 'Claude 3.5 Sonnet', provider: 'Anthropic', model_id: 'anthropic/claude-3-5-sonnet', enabled: true, context_length: 200000 }
+]
+
+describe('LocalRepository', () => {
+  let repository: LocalRepository
+
+  beforeEach(() => {
+    repository = new LocalRepository(null)
+  })
+
+  describe('models', () => {
+    it('orders models by provider, then name', async () => {
+      await repository.upsertModels(MODELS)
+
+      const models = await repository.getModels()
+      expect(models.map(model => model.provider)).toEqual(['Anthropic', 'OpenAI'])
+      expect(models[0].id).toBeTruthy()
+    })
+
+    it('updates existing models by gateway model id', async () => {
+      const [created] = await repository.upsertModels([MODELS[0]])
+      const [updated] = await repository.upsertModels([{ ...MODELS[0], name: 'GPT-4o (2024)' }])
+
+      expect(updated.id).toBe(created.id)
+      expect(await repository.getModels()).toHaveLength(1)
+    })
+
+    it('rejects enabling a model that does not exist', async () => {
+      await expect(repository.updateModelEnabled('missing', true)).rejects.toThrow('no model with id missing')
+    })
+
+    it('keeps one profile per model', async () => {
+      const [model] = await repository.upsertModels([MODELS[0]])
+      await repository.upsertModelProfile({ model_id: model.id, temperature: 0.2 })
+      await repository.upsertModelProfile({ model_id: model.id, temperature: 0.5 })
+
+      const profiles = await repository.getModelProfiles()
+      expect(profiles).toHaveLength(1)
+      expect(profiles[0].temperature).toBe(0.5)
+
+      await repository.deleteModelProfile(model.id)
+      expect(await repository.getModelProfiles()).toEqual([])
+    })
+  })
+
+  describe('prompts and runs', () => {
+    it('stores each prompt text once', async () => {
+      const first = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const second = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const other = await repository.findOrCreatePrompt('What is 3 + 3?')
+
+      expect(second.id).toBe(first.id)
+      expect(other.id).not.toBe(first.id)
+    })
+
+    it('starts runs as running with the schema defaults', async () => {
+      const prompt = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [] })
+
+      expect(run.status).toBe('running')
+      expect(run.similarity_strategy).toBe('levenshtein')
+      expect(run.clustering_mode).toBe('pairwise')
+      expect(run.completed_at).toBeNull()
+    })
+
+    it('rejects runs of unknown prompts', async () => {
+      await expect(repository.createBenchmarkRun({ prompt_id: 'missing', model_ids: [] }))
+        .rejects.toThrow('no prompt with id missing')
+    })
+
+    it('saves responses with their model joined in', async () => {
+      const [model] = await repository.upsertModels([MODELS[0]])
+      const prompt = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [model.id] })
+
+      const [saved] = await repository.saveResponses([{
+        prompt_id: prompt.id,
+        run_id: run.id,
+        model_id: model.id,
+        sample_index: 0,
+        response_text: '4',
+        response_time_ms: 120
+      }])
+
+      expect(saved.status).toBe('success')
+      expect(saved.model?.name).toBe('GPT-4o')
+    })
+
+    it('returns a run with its prompt, responses and consensus groups', async () => {
+      const [model] = await repository.upsertModels([MODELS[0]])
+      const prompt = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [model.id] })
+      await repository.saveResponses([
+        { prompt_id: prompt.id, run_id: run.id, model_id: model.id, sample_index: 0, response_text: '4', response_time_ms: 100 }
+      ])
+      await repository.saveConsensusGroups([
+        { prompt_id: prompt.id, run_id: run.id, group_name: '4', count: 1, percentage: 100, color: '#000', model_ids: [model.id] }
+      ])
+      await repository.updateBenchmarkRun(run.id, { status: 'completed' })
+
+      const result = await repository.getRunWithResults(run.id)
+      expect(result?.prompt.text).toBe('What is 2 + 2?')
+      expect(result?.run.status).toBe('completed')
+      expect(result?.responses).toHaveLength(1)
+      expect(result?.consensusGroups).toHaveLength(1)
+      expect(await repository.getRunWithResults('missing')).toBeNull()
+    })
+
+    it('lists the most recently run prompts first, each with its runs', async () => {
+      const older = await repository.findOrCreatePrompt('Older')
+      const newer = await repository.findOrCreatePrompt('Newer')
+      await repository.createBenchmarkRun({ prompt_id: older.id, model_ids: [] })
+      await repository.createBenchmarkRun({ prompt_id: newer.id, model_ids: [] })
+      await repository.createBenchmarkRun({ prompt_id: newer.id, model_ids: [] })
+
+      const history = await repository.getPromptHistory()
+      expect(history.map(entry => entry.text)).toEqual(['Newer', 'Older'])
+      expect(history[0].runs).toHaveLength(2)
+    })
+
+    it('sums spend and reads scored responses per model', async () => {
+      const [model] = await repository.upsertModels([MODELS[0]])
+      const prompt = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [model.id] })
+      await repository.saveResponses([
+        { prompt_id: prompt.id, run_id: run.id, model_id: model.id, sample_index: 0, response_text: '4', response_time_ms: 1, cost_usd: 0.25, is_correct: true },
+        { prompt_id: prompt.id, run_id: run.id, model_id: model.id, sample_index: 1, response_text: '5', response_time_ms: 1, cost_usd: 0.5, is_correct: false },
+        { prompt_id: prompt.id, run_id: run.id, model_id: model.id, sample_index: 2, response_text: '', response_time_ms: 1, status: 'failed' }
+      ])
+
+      expect(await repository.getSpendSince('1970-01-01T00:00:00.000Z')).toBeCloseTo(0.75)
+      expect(await repository.getSpendSince('2999-01-01T00:00:00.000Z')).toBe(0)
+      expect(await repository.getScoredResponses([model.id])).toEqual([
+        { model_id: model.id, is_correct: true },
+        { model_id: model.id, is_correct: false }
+      ])
+    })
+
+    it('returns copies that do not change the store', async () => {
+      const prompt = await repository.findOrCreatePrompt('What is 2 + 2?')
+      const run = await repository.createBenchmarkRun({ prompt_id: prompt.id, model_ids: [], tags: ['math'] })
+
+      const result = await repository.getRunWithResults(run.id)
+      result!.run.status = 'failed'
+      result!.run.tags!.push('changed')
+
+      const reread = await repository.getRunWithResults(run.id)
+      expect(reread?.run.status).toBe('running')
+      expect(reread?.run.tags).toEqual(['math'])
+    })
+  })
+
+  describe('suites and drift schedules', () => {
+    it('keeps suite prompts in order and tracks suite runs', async () => {
+      const suite = await repository.createSuite('Arithmetic', null, [
+        { text: 'What is 2 + 2?', expected_answers: ['4'] },
+        { text: 'What is 3 + 3?', expected_answers: ['6'] }
+      ])
+      expect(suite.prompt_count).toBe(2)
+      expect((await repository.getSuitePrompts(suite.id)).map(prompt => prompt.position)).toEqual([0, 1])
+
+      const suiteRun = await repository.createSuiteRun(suite.id, [], 2)
+      await repository.updateSuiteRun(suiteRun.id, { completed_prompts: 2, status: 'completed' })
+
+      const [listed] = await repository.getSuiteRuns()
+      expect(listed.suite?.name).toBe('Arithmetic')
+      expect(listed.completed_prompts).toBe(2)
+      await expect(repository.createSuiteRun('missing', [], 1)).rejects.toThrow('no suite with id missing')
+    })
+
+    it('keeps the runs of a deleted drift schedule as plain suite runs', async () => {
+      const suite = await repository.createSuite('Arithmetic', null, [{ text: 'What is 2 + 2?' }])
+      const schedule = await repository.createDriftSchedule({
+        suite_id: suite.id,
+        model_ids: [],
+        settings: {} as never,
+        interval_hours: 24,
+        enabled: true
+      })
+      await repository.createSuiteRun(suite.id, [], 1, schedule.id)
+
+      const history = await repository.getDriftHistory(schedule.id)
+      expect(history?.suiteRuns).toHaveLength(1)
+
+      await repository.deleteDriftSchedule(schedule.id)
+      expect(await repository.getDriftSchedules()).toEqual([])
+      expect(await repository.getDriftHistory(schedule.id)).toBeNull()
+      expect((await repository.getSuiteRuns())[0].schedule_id).toBeNull()
+    })
+  })
+
+  describe('saving to a file', () => {
+    let directory: string
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'local-repository-'))
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+      rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('batches writes and loads them back', async () => {
+      const file = join(directory, 'nested', 'benchmark.json')
+      const saved = new LocalRepository(file)
+      for (let i = 0; i < 20; i++) {
+        await saved.findOrCreatePrompt(`Prompt ${i}`)
+      }
+      await saved.flush()
+
+      expect(JSON.parse(readFileSync(file, 'utf8')).prompts).toHaveLength(20)
+      expect(await new LocalRepository(file).getPromptHistory(100)).toHaveLength(20)
+    })
+
+    it('reports a failed save on flush', async () => {
+      // A file where the directory should be
+      const blocker = join(directory, 'blocker')
+      writeFileSync(blocker, '')
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const saved = new LocalRepository(join(blocker, 'benchmark.json'))
+      await saved.findOrCreatePrompt('What is 2 + 2?')
+
+      await expect(saved.flush()).rejects.toThrow('Failed to write local database')
+    })
+  })
+})
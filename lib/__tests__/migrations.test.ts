@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@jest/globals'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { applyMigrations, buildPendingSql, getMigrationStatus, rollbackMigration } from '../migrations'
+import type { Migration } from '../migrations'
+import { MIGRATIONS } from '../../database/migrations'
+
+const migrations: Migration[] = [
+  { version: 1, name: 'create prompts', up: 'CREATE TABLE prompts ();', down: 'DROP TABLE prompts;' },
+  { version: 2, name: "add owner's column", up: 'ALTER TABLE prompts ADD owner TEXT;', down: 'ALTER TABLE prompts DROP owner;' },
+  { version: 3, name: 'add index', up: 'CREATE INDEX ON prompts (owner);', down: 'DROP INDEX prompts_owner_idx;' }
+]
+
+/**
+ * Stand-in for the Supabase client: schema_migrations holds the applied
+ * versions, and exec_sql records the SQL it was given, failing when it
+ * contains `failOn`
+ */
+function createFakeClient(appliedVersions: number[], { failOn, readError }: { failOn?: string; readError?: string } = {}) {
+  const executed: string[] = []
+  const client = {
+    from: () => ({
+      select: () => ({
+        order: async () => readError
+          ? { data: null, error: { message: readError } }
+          : { data: appliedVersions.map(version => ({ version, applied_at: '2026-01-01T00:00:00Z' })), error: null }
+      })
+    }),
+    rpc: async (_name: string, { sql_query }: { sql_query: string }) => {
+      if (failOn && sql_query.includes(failOn)) return { error: { message: 'syntax error' } }
+      executed.push(sql_query)
+      return { error: null }
+    }
+  }
+  return { client: client as unknown as SupabaseClient, executed }
+}
+
+describe('migrations', () => {
+  it('are numbered from 1 without gaps', async () => {
+    const { client } = createFakeClient([])
+    const status = await getMigrationStatus(client, MIGRATIONS)
+
+    expect(status.pending).toBe(MIGRATIONS.length)
+    await expect(getMigrationStatus(client, [migrations[0], migrations[2]]))
+      .rejects.toThrow('Migration "add index" has version 3, expected 2')
+  })
+
+  it('reports applied, pending and unknown versions', async () => {
+    const { client } = createFakeClient([1, 7])
+    const status = await getMigrationStatus(client, migrations)
+
+    expect(status.migrations.map(state => state.applied)).toEqual([true, false, false])
+    expect(status.migrations[0].appliedAt).toBe('2026-01-01T00:00:00Z')
+    expect(status.pending).toBe(2)
+    expect(status.unknownVersions).toEqual([7])
+  })
+
+  it('treats an unreadable history as nothing applied', async () => {
+    const { client } = createFakeClient([], { readError: 'relation "schema_migrations" does not exist' })
+    const status = await getMigrationStatus(client, migrations)
+
+    expect(status.pending).toBe(3)
+    expect(status.error).toBe('relation "schema_migrations" does not exist')
+  })
+
+  it('builds the SQL of the pending migrations, recording each one', async () => {
+    const { client } = createFakeClient([1])
+    const sql = buildPendingSql(migrations, await getMigrationStatus(client, migrations))
+
+    expect(sql).not.toContain('CREATE TABLE prompts ();')
+    expect(sql).toContain('ALTER TABLE prompts ADD owner TEXT;')
+    expect(sql).toContain("VALUES (2, 'add owner''s column')")
+    expect(sql.indexOf('-- Migration 2')).toBeLessThan(sql.indexOf('-- Migration 3'))
+  })
+
+  it('applies pending migrations in order up to the target', async () => {
+    const { client, executed } = createFakeClient([1])
+
+    await expect(applyMigrations(client, migrations, 2)).resolves.toEqual([2])
+    expect(executed).toHaveLength(1)
+    expect(executed[0]).toContain('CREATE TABLE IF NOT EXISTS schema_migrations')
+  })
+
+  it('stops at the first failing migration', async () => {
+    const { client, executed } = createFakeClient([], { failOn: 'ADD owner' })
+
+    await expect(applyMigrations(client, migrations))
+      .rejects.toThrow("Failed to apply migration 2 (add owner's column): syntax error")
+    expect(executed).toHaveLength(1)
+  })
+
+  it('rolls back the latest applied migration', async () => {
+    const { client, executed } = createFakeClient([1, 2])
+
+    await expect(rollbackMigration(client, migrations)).resolves.toBe(2)
+    expect(executed[0]).toContain('ALTER TABLE prompts DROP owner;')
+    expect(executed[0]).toContain('DELETE FROM schema_migrations WHERE version = 2;')
+
+    await expect(rollbackMigration(createFakeClient([]).client, migrations)).resolves.toBeNull()
+  })
+
+  it('refuses to roll back past versions it does not know', async () => {
+    const { client } = createFakeClient([1, 2, 3, 4])
+    await expect(rollbackMigration(client, migrations)).rejects.toThrow('migrations this build does not know about: 4')
+  })
+})
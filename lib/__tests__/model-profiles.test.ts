@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals'
+import { applyModelProfile, renderPromptTemplate, toProfileOverrides } from '../model-profiles'
+import type { ModelProfile } from '../database-types'
+
+describe('renderPromptTemplate', () => {
+  it('puts the prompt where the placeholder is', () => {
+    expect(renderPromptTemplate('Question: {{prompt}}\nAnswer in one word.', 'Capital of France?'))
+      .toBe('Question: Capital of France?\nAnswer in one word.')
+  })
+
+  it('appends the prompt to templates without a placeholder', () => {
+    expect(renderPromptTemplate('Answer in one word.', 'Capital of France?')).toBe('Answer in one word.\n\nCapital of France?')
+  })
+})
+
+describe('applyModelProfile', () => {
+  const options = { systemPrompt: 'Be brief.', temperature: 0.7, maxTokens: 10, seed: 1 }
+
+  it('overrides only the fields the profile sets', () => {
+    expect(applyModelProfile('Capital of France?', options, { temperature: 1, promptTemplate: 'Q: {{prompt}}' })).toEqual({
+      prompt: 'Q: Capital of France?',
+      options: { ...options, temperature: 1 }
+    })
+  })
+
+  it('leaves the request unchanged without a profile', () => {
+    expect(applyModelProfile('Capital of France?', options)).toEqual({ prompt: 'Capital of France?', options })
+  })
+})
+
+describe('toProfileOverrides', () => {
+  it('skips empty and unset fields', () => {
+    const profile: ModelProfile = {
+      id: 'p1',
+      model_id: 'm1',
+      system_prompt: '',
+      temperature: 0.2,
+      max_tokens: null,
+      prompt_template: 'Q: {{prompt}}'
+    }
+
+    expect(toProfileOverrides(profile)).toEqual({ temperature: 0.2, promptTemplate: 'Q: {{prompt}}' })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals'
+import { computeCost, formatCost, normalizeUsage, parseGatewayPricing, resolvePricing, sumCosts } from '../pricing'
+
+describe('parseGatewayPricing', () => {
+  it('converts USD per token to USD per million tokens', () => {
+    expect(parseGatewayPricing({ prompt: '0.0000025', completion: '0.00001' })).toEqual({
+      inputPerMillion: 2.5,
+      outputPerMillion: 10
+    })
+  })
+
+  it('returns null for missing or invalid prices', () => {
+    expect(parseGatewayPricing(null)).toBeNull()
+    expect(parseGatewayPricing({ prompt: 'free', completion: '0' })).toBeNull()
+    expect(parseGatewayPricing({ prompt: '-1', completion: '0' })).toBeNull()
+  })
+})
+
+describe('normalizeUsage', () => {
+  it('reads current and older field names', () => {
+    expect(normalizeUsage({ inputTokens: 10, outputTokens: 5, totalTokens: 15 })).toEqual({ inputTokens: 10, outputTokens: 5, totalTokens: 15 })
+    expect(normalizeUsage({ prompt_tokens: 10, completion_tokens: 5 })).toEqual({ inputTokens: 10, outputTokens: 5, totalTokens: 15 })
+  })
+
+  it('leaves unreported counts empty', () => {
+    expect(normalizeUsage(undefined)).toEqual({ inputTokens: null, outputTokens: null, totalTokens: null })
+  })
+})
+
+describe('computeCost', () => {
+  it('prices input and output tokens separately', () => {
+    const usage = { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 }
+    expect(computeCost(usage, { inputPerMillion: 2, outputPerMillion: 8 })).toBeCloseTo(0.006)
+  })
+
+  it('returns null without a price or token counts', () => {
+    expect(computeCost({ inputTokens: 10, outputTokens: 5, totalTokens: 15 }, null)).toBeNull()
+    expect(computeCost({ inputTokens: null, outputTokens: 5, totalTokens: null }, { inputPerMillion: 1, outputPerMillion: 1 })).toBeNull()
+  })
+})
+
+describe('resolvePricing', () => {
+  const model = { model_id: 'openai/gpt-4o', input_price_per_million: 2.5, output_price_per_million: 10 }
+
+  it('uses the saved model pricing without overrides', () => {
+    expect(resolvePricing(model)).toEqual({ inputPerMillion: 2.5, outputPerMillion: 10 })
+    expect(resolvePricing({ model_id: 'x/unpriced' })).toBeNull()
+  })
+
+  it('lets overrides price unpriced models and raise a saved price, never lower it', () => {
+    expect(resolvePricing({ model_id: 'x/unpriced' }, { 'x/unpriced': { inputPerMillion: 1, outputPerMillion: 2 } }))
+      .toEqual({ inputPerMillion: 1, outputPerMillion: 2 })
+    expect(resolvePricing(model, { 'openai/gpt-4o': { inputPerMillion: 0, outputPerMillion: 12 } }))
+      .toEqual({ inputPerMillion: 2.5, outputPerMillion: 12 })
+  })
+})
+
+describe('sumCosts and formatCost', () => {
+  it('sums the known costs only', () => {
+    expect(sumCosts([0.5, null, 0.25, undefined])).toBe(0.75)
+    expect(sumCosts([null, undefined])).toBeNull()
+  })
+
+  it('shows fractions of a cent with more digits', () => {
+    expect(formatCost(0.000123)).toBe('$0.000123')
+    expect(formatCost(1.5)).toBe('$1.5000')
+    expect(formatCost(null)).toBe('—')
+  })
+})
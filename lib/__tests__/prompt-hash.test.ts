@@ -0,0 +1,14 @@
+import { describe, expect, it } from '@jest/globals'
+import { hashPromptText } from '../prompt-hash'
+
+describe('hashPromptText', () => {
+  it('matches Postgres md5 of the text', () => {
+    // SELECT md5('hello')
+    expect(hashPromptText('hello')).toBe('5d41402abc4b2a76b9719d911017c592')
+  })
+
+  it('tells texts apart that differ only in case or whitespace', () => {
+    expect(hashPromptText('Capital of France?')).not.toBe(hashPromptText('capital of france?'))
+    expect(hashPromptText('Capital of France?')).not.toBe(hashPromptText('Capital of France? '))
+  })
+})
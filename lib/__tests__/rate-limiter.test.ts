@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { RateLimiter, RequestScheduler, getProviderKey, runPool } from '../rate-limiter'
+import { RunCancelledError } from '../resilience'
+
+// A task the test finishes by hand
+const deferred = <T = string>() => {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(done => { resolve = done })
+  return { promise, resolve }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve))
+
+describe('getProviderKey', () => {
+  it('takes the provider part of the model id', () => {
+    expect(getProviderKey('openai/gpt-4o')).toBe('openai')
+  })
+})
+
+describe('RateLimiter', () => {
+  it('waits for the oldest request to leave the window', () => {
+    const limiter = new RateLimiter()
+    limiter.reserve('openai', 0, 0)
+    limiter.reserve('openai', 0, 10000)
+
+    expect(limiter.getWaitMs('openai', 0, { requestsPerMinute: 2 }, 20000)).toBe(40000)
+    expect(limiter.getWaitMs('openai', 0, { requestsPerMinute: 3 }, 20000)).toBe(0)
+    expect(limiter.getWaitMs('openai', 0, undefined, 20000)).toBe(0)
+  })
+
+  it('waits until enough tokens have left the window', () => {
+    const limiter = new RateLimiter()
+    limiter.reserve('openai', 600, 0)
+    limiter.reserve('openai', 300, 30000)
+
+    expect(limiter.getWaitMs('openai', 200, { tokensPerMinute: 1000 }, 40000)).toBe(20000)
+    expect(limiter.getWaitMs('openai', 100, { tokensPerMinute: 1000 }, 40000)).toBe(0)
+  })
+
+  it('corrects the estimate with the reported usage', () => {
+    const limiter = new RateLimiter()
+    const reservation = limiter.reserve('openai', 900, 0)
+
+    expect(limiter.getWaitMs('openai', 200, { tokensPerMinute: 1000 }, 0)).toBe(60000)
+    limiter.settle(reservation, 100)
+    expect(limiter.getWaitMs('openai', 200, { tokensPerMinute: 1000 }, 0)).toBe(0)
+  })
+
+  it('lets a request larger than the whole limit through once the window is empty', () => {
+    const limiter = new RateLimiter()
+    expect(limiter.getWaitMs('openai', 5000, { tokensPerMinute: 1000 }, 0)).toBe(0)
+  })
+})
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('keeps at most the concurrency in flight', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2, limiter: new RateLimiter() })
+    const tasks = [deferred(), deferred(), deferred()]
+    const started: number[] = []
+
+    const results = tasks.map((task, i) => scheduler.schedule('openai', 0, () => {
+      started.push(i)
+      return task.promise
+    }))
+    expect(started).toEqual([0, 1])
+
+    tasks[1].resolve('second')
+    await flush()
+    expect(started).toEqual([0, 1, 2])
+
+    tasks[0].resolve('first')
+    tasks[2].resolve('third')
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third'])
+  })
+
+  it('lets other providers pass a throttled one and starts it once the window frees up', async () => {
+    jest.useFakeTimers({ now: 0 })
+    const limiter = new RateLimiter()
+    limiter.reserve('slow', 0)
+    const scheduler = new RequestScheduler({ concurrency: 2, rateLimits: { slow: { requestsPerMinute: 1 } }, limiter })
+    const started: string[] = []
+
+    const slow = scheduler.schedule('slow', 0, async () => { started.push('slow') })
+    const fast = scheduler.schedule('fast', 0, async () => { started.push('fast') })
+    await fast
+    expect(started).toEqual(['fast'])
+
+    jest.advanceTimersByTime(60000)
+    await slow
+    expect(started).toEqual(['fast', 'slow'])
+  })
+
+  it('drops a queued request when its run is cancelled', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, limiter: new RateLimiter() })
+    const first = deferred()
+    const controller = new AbortController()
+    const task = jest.fn(async () => 'queued')
+
+    const running = scheduler.schedule('openai', 0, () => first.promise)
+    const queued = scheduler.schedule('openai', 0, task, { signal: controller.signal })
+    controller.abort()
+
+    await expect(queued).rejects.toBeInstanceOf(RunCancelledError)
+    first.resolve('done')
+    await running
+    expect(task).not.toHaveBeenCalled()
+  })
+
+  it('records the reported usage instead of the estimate', async () => {
+    const limiter = new RateLimiter()
+    const scheduler = new RequestScheduler({ limiter })
+
+    await scheduler.schedule('openai', 900, async () => ({ tokens: 100 }), { getTokens: result => result.tokens })
+    expect(limiter.getWaitMs('openai', 800, { tokensPerMinute: 1000 })).toBe(0)
+  })
+
+  it('frees the slot when a request fails', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, limiter: new RateLimiter() })
+
+    await expect(scheduler.schedule('openai', 0, async () => { throw new Error('Failed') })).rejects.toThrow('Failed')
+    await expect(scheduler.schedule('openai', 0, async () => 'next')).resolves.toBe('next')
+  })
+})
+
+describe('runPool', () => {
+  it('keeps the order of the items with limited concurrency', async () => {
+    let inFlight = 0
+    let peak = 0
+
+    const results = await runPool([30, 10, 20, 0], 2, async (delay, index) => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise(resolve => setTimeout(resolve, delay))
+      inFlight--
+      return index
+    })
+
+    expect(results).toEqual([0, 1, 2, 3])
+    expect(peak).toBe(2)
+  })
+
+  it('handles an empty list', async () => {
+    await expect(runPool([], 3, async () => 1)).resolves.toEqual([])
+  })
+})
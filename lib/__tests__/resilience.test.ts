@@ -0,0 +1,208 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  CompletionError,
+  ConnectTimeoutError,
+  RunCancelledError,
+  backoffDelay,
+  classifyError,
+  parseRetryAfter,
+  withRetry
+} from '../resilience'
+import type { AttemptRecord, FailureInfo } from '../resilience'
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, maxRetryAfterMs: 5000 }
+
+const fail = (failure: Partial<FailureInfo>) => new CompletionError('Failed', {
+  statusCode: null,
+  retryAfterMs: null,
+  retryable: false,
+  ...failure
+})
+
+// Runs one attempt against the breaker and swallows its failure
+const attempt = (breaker: CircuitBreaker, operation: () => Promise<unknown>) => withRetry(operation, {
+  policy: { ...POLICY, maxAttempts: 1 },
+  attempts: [],
+  label: 'test',
+  breaker,
+  breakerKey: 'alpha'
+}).catch(() => undefined)
+
+describe('parseRetryAfter', () => {
+  it('reads seconds, HTTP dates and milliseconds', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000)
+    expect(parseRetryAfter({ 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }, now)).toBe(5000)
+    expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '2' })).toBe(250)
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeNull()
+    expect(parseRetryAfter(undefined)).toBeNull()
+  })
+})
+
+describe('classifyError', () => {
+  it('retries rate limits, server errors and network failures only', () => {
+    expect(classifyError({ statusCode: 429, responseHeaders: { 'retry-after': '1' } })).toEqual({
+      statusCode: 429,
+      retryAfterMs: 1000,
+      retryable: true
+    })
+    expect(classifyError({ statusCode: 503 }).retryable).toBe(true)
+    expect(classifyError({ statusCode: 400 }).retryable).toBe(false)
+    expect(classifyError(new Error('fetch failed')).retryable).toBe(true)
+  })
+
+  it('finds the status code along the cause chain', () => {
+    const error = Object.assign(new Error('Gateway error'), { cause: { status: 502 } })
+    expect(classifyError(error).statusCode).toBe(502)
+  })
+
+  it('tells connect timeouts, generation timeouts and cancellations apart', () => {
+    expect(classifyError(new ConnectTimeoutError(100))).toMatchObject({ retryable: true, timeout: 'connect' })
+    expect(classifyError(new DOMException('Timed out', 'TimeoutError'))).toMatchObject({ retryable: false, timeout: 'generation' })
+
+    const cancelled = new DOMException('Aborted', 'AbortError')
+    Object.assign(cancelled, { cause: new RunCancelledError() })
+    expect(classifyError(cancelled)).toMatchObject({ retryable: false, cancelled: true })
+    expect(classifyError(new CircuitOpenError('alpha', 0)).retryable).toBe(false)
+  })
+})
+
+describe('backoffDelay', () => {
+  it('doubles the ceiling per attempt up to the maximum', () => {
+    expect(backoffDelay(1, POLICY, () => 1)).toBe(100)
+    expect(backoffDelay(3, POLICY, () => 1)).toBe(400)
+    expect(backoffDelay(10, POLICY, () => 1)).toBe(1000)
+    expect(backoffDelay(3, POLICY, () => 0.5)).toBe(200)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  it('opens after the threshold and lets a single probe through after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 })
+
+    breaker.recordFailure('alpha', 0)
+    expect(breaker.getState('alpha', 0)).toBe('closed')
+    breaker.recordFailure('alpha', 0)
+    expect(breaker.getState('alpha', 500)).toBe('open')
+    expect(breaker.tryAcquire('alpha', 500)).toBe(false)
+    expect(breaker.getRetryAt('alpha')).toBe(1000)
+
+    expect(breaker.getState('alpha', 1000)).toBe('half-open')
+    expect(breaker.tryAcquire('alpha', 1000)).toBe(true)
+    expect(breaker.tryAcquire('alpha', 1000)).toBe(false)
+  })
+
+  it('closes on a successful probe and reopens on a failed one', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+    breaker.recordFailure('alpha', 0)
+    breaker.tryAcquire('alpha', 1000)
+    breaker.recordFailure('alpha', 1000)
+    expect(breaker.getState('alpha', 1500)).toBe('open')
+
+    breaker.tryAcquire('alpha', 2000)
+    breaker.recordSuccess('alpha')
+    expect(breaker.getState('alpha', 2000)).toBe('closed')
+  })
+
+  it('frees the probe slot on release without closing the circuit', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+    breaker.recordFailure('alpha', 0)
+    breaker.tryAcquire('alpha', 1000)
+    breaker.release('alpha')
+
+    expect(breaker.getState('alpha', 1000)).toBe('half-open')
+    expect(breaker.tryAcquire('alpha', 1000)).toBe(true)
+  })
+})
+
+describe('withRetry', () => {
+  it('retries retryable failures with backoff and records every attempt', async () => {
+    const attempts: AttemptRecord[] = []
+    const waits: number[] = []
+    let calls = 0
+
+    const value = await withRetry(async () => {
+      if (++calls < 3) throw fail({ statusCode: 503, retryable: true })
+      return 'ok'
+    }, { policy: POLICY, attempts, label: 'test', wait: async ms => { waits.push(ms) } })
+
+    expect(value).toBe('ok')
+    expect(attempts.map(record => record.outcome)).toEqual(['failed', 'failed', 'success'])
+    expect(waits).toHaveLength(2)
+  })
+
+  it('honours Retry-After and gives up when it is too long', async () => {
+    const waits: number[] = []
+    const wait = async (ms: number) => { waits.push(ms) }
+    let calls = 0
+
+    await withRetry(async () => {
+      if (++calls === 1) throw fail({ statusCode: 429, retryAfterMs: 2000, retryable: true })
+      return 'ok'
+    }, { policy: POLICY, attempts: [], label: 'test', wait })
+    expect(waits).toEqual([2000])
+
+    const attempts: AttemptRecord[] = []
+    await expect(withRetry(async () => {
+      throw fail({ statusCode: 429, retryAfterMs: 60000, retryable: true })
+    }, { policy: POLICY, attempts, label: 'test', wait })).rejects.toThrow()
+    expect(attempts).toHaveLength(1)
+  })
+
+  it('does not retry client errors', async () => {
+    const attempts: AttemptRecord[] = []
+    await expect(withRetry(async () => {
+      throw fail({ statusCode: 400 })
+    }, { policy: POLICY, attempts, label: 'test', wait: async () => undefined })).rejects.toThrow()
+
+    expect(attempts).toHaveLength(1)
+  })
+
+  it('counts server errors and timeouts towards the circuit', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+    await attempt(breaker, async () => { throw fail({ statusCode: 500, retryable: true }) })
+    await attempt(breaker, async () => { throw fail({ timeout: 'generation' }) })
+
+    expect(breaker.getState('alpha')).toBe('open')
+  })
+
+  it('leaves the circuit alone on client errors and cancellations', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+    await attempt(breaker, async () => { throw fail({ statusCode: 500, retryable: true }) })
+    await attempt(breaker, async () => { throw fail({ statusCode: 400 }) })
+    await attempt(breaker, async () => { throw fail({ cancelled: true }) })
+    expect(breaker.getState('alpha')).toBe('closed')
+
+    // The earlier server error still counts
+    await attempt(breaker, async () => { throw fail({ statusCode: 500, retryable: true }) })
+    expect(breaker.getState('alpha')).toBe('open')
+  })
+
+  it('releases the probe slot when the probe is cancelled', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 })
+    breaker.recordFailure('alpha')
+
+    await attempt(breaker, async () => { throw fail({ cancelled: true }) })
+    expect(breaker.getState('alpha')).toBe('half-open')
+
+    await attempt(breaker, async () => 'ok')
+    expect(breaker.getState('alpha')).toBe('closed')
+  })
+
+  it('skips the request while the circuit is open', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 })
+    const attempts: AttemptRecord[] = []
+    breaker.recordFailure('alpha')
+
+    await expect(withRetry(async () => 'ok', { attempts, label: 'test', breaker, breakerKey: 'alpha' }))
+      .rejects.toBeInstanceOf(CircuitOpenError)
+    expect(attempts[0].outcome).toBe('skipped')
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals'
+import { cancelRun, registerRun, unregisterRun } from '../run-registry'
+import { RunCancelledError } from '../resilience'
+
+describe('run registry', () => {
+  it('aborts a registered run with a cancellation reason', () => {
+    const signal = registerRun('run-1')
+
+    expect(cancelRun('run-1')).toBe(true)
+    expect(signal.aborted).toBe(true)
+    expect(signal.reason).toBeInstanceOf(RunCancelledError)
+  })
+
+  it('does not cancel unknown or finished runs', () => {
+    const signal = registerRun('run-2')
+    unregisterRun('run-2')
+
+    expect(cancelRun('run-2')).toBe(false)
+    expect(cancelRun('unknown')).toBe(false)
+    expect(signal.aborted).toBe(false)
+  })
+
+  it('cancels the run when a linked signal aborts, e.g. the client disconnecting', () => {
+    const request = new AbortController()
+    const signal = registerRun(undefined, [request.signal, undefined])
+
+    request.abort()
+    expect(signal.aborted).toBe(true)
+    expect(signal.reason).toBeInstanceOf(RunCancelledError)
+
+    const gone = new AbortController()
+    gone.abort()
+    expect(registerRun('run-4', [gone.signal]).aborted).toBe(true)
+    unregisterRun('run-4')
+  })
+
+  it('forgets a run once it is cancelled', () => {
+    registerRun('run-3')
+    cancelRun('run-3')
+    expect(cancelRun('run-3')).toBe(false)
+  })
+})
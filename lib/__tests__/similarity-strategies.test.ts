@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  createSimilarityStrategy,
+  describeSimilarityStrategy,
+  getDefaultThreshold,
+  getSimilarityStrategy,
+  parseNumber
+} from '../similarity-strategies'
+
+describe('parseNumber', () => {
+  it('reads digits with thousands separators and decimals', () => {
+    expect(parseNumber('1,000')).toBe(1000)
+    expect(parseNumber('3.5')).toBe(3.5)
+    expect(parseNumber('-42')).toBe(-42)
+  })
+
+  it('reads numbers written as words', () => {
+    expect(parseNumber('twenty one')).toBe(21)
+    expect(parseNumber('twenty-one')).toBe(21)
+    expect(parseNumber('three hundred and five')).toBe(305)
+    expect(parseNumber('two thousand twenty four')).toBe(2024)
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseNumber('')).toBeNull()
+    expect(parseNumber('paris')).toBeNull()
+    expect(parseNumber('about 4')).toBeNull()
+  })
+})
+
+describe('built-in strategies', () => {
+  it('scores edit distance relative to the longer text', () => {
+    const levenshtein = getSimilarityStrategy('levenshtein')
+    expect(levenshtein.compare('paris', 'paris')).toBe(1)
+    expect(levenshtein.compare('paris', 'pariss')).toBeCloseTo(5 / 6)
+    expect(levenshtein.compare('', '')).toBe(1)
+  })
+
+  it('only matches identical texts exactly', () => {
+    const exact = getSimilarityStrategy('exact')
+    expect(exact.compare('paris', 'paris')).toBe(1)
+    expect(exact.compare('paris', 'paris france')).toBe(0)
+  })
+
+  it('scores token-set overlap regardless of order', () => {
+    const jaccard = getSimilarityStrategy('jaccard')
+    expect(jaccard.compare('new york city', 'city new york')).toBe(1)
+    expect(jaccard.compare('new york', 'new jersey')).toBeCloseTo(1 / 3)
+  })
+
+  it('matches numbers by value', () => {
+    const numeric = getSimilarityStrategy('numeric')
+    expect(numeric.compare('1,000', 'one thousand')).toBe(1)
+    expect(numeric.compare('3.5', '35')).toBe(0)
+    expect(numeric.compare('paris', 'paris')).toBe(1)
+    expect(numeric.compare('4', 'paris')).toBe(0)
+  })
+})
+
+describe('strategy helpers', () => {
+  it('falls back to the edit distance threshold for custom strategies', () => {
+    expect(getDefaultThreshold('exact')).toBe(1)
+    expect(getDefaultThreshold('custom')).toBe(getDefaultThreshold('levenshtein'))
+  })
+
+  it('describes built-in and custom strategies', () => {
+    const custom = createSimilarityStrategy('length', (a, b) => (a.length === b.length ? 1 : 0))
+    expect(custom.compare('ab', 'cd')).toBe(1)
+    expect(describeSimilarityStrategy('jaccard', 0.5)).toBe('Token-set overlap (Jaccard), threshold 0.50')
+    expect(describeSimilarityStrategy('length', 1)).toBe('Custom (length), threshold 1.00')
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { createSseResponse, formatSseEvent, readSseStream } from '../sse'
+import type { SseEvent } from '../sse'
+
+// Response whose body arrives in the given pieces
+const chunkedResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  }))
+}
+
+describe('formatSseEvent', () => {
+  it('writes the event name and JSON data', () => {
+    expect(formatSseEvent('result', { model: 'a' })).toBe('event: result\ndata: {"model":"a"}\n\n')
+  })
+})
+
+describe('readSseStream', () => {
+  it('reads events split across chunks', async () => {
+    const events: SseEvent[] = []
+    await readSseStream(chunkedResponse(['event: start\ndata: {"runId"', ':"r1"}\n\nevent: done\nda', 'ta: {}\n\n']), event => events.push(event))
+
+    expect(events).toEqual([
+      { event: 'start', data: { runId: 'r1' } },
+      { event: 'done', data: {} }
+    ])
+  })
+
+  it('defaults the event name and skips events without data', async () => {
+    const events: SseEvent[] = []
+    await readSseStream(chunkedResponse([': keep-alive\n\ndata: 1\n\n']), event => events.push(event))
+
+    expect(events).toEqual([{ event: 'message', data: 1 }])
+  })
+
+  it('fails without a body', async () => {
+    await expect(readSseStream(new Response(null), () => undefined)).rejects.toThrow('Response has no body to stream')
+  })
+})
+
+describe('createSseResponse', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('streams the events sent by the handler', async () => {
+    const response = createSseResponse(async send => {
+      send('start', { runId: 'r1' })
+      send('done', { ok: true })
+    })
+    const events: SseEvent[] = []
+    await readSseStream(response, event => events.push(event))
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(events.map(event => event.event)).toEqual(['start', 'done'])
+  })
+
+  it('aborts the handler signal and drops events once the client goes away', async () => {
+    let signal: AbortSignal | undefined
+    let finish!: () => void
+    const finished = new Promise<void>(resolve => { finish = resolve })
+    const response = createSseResponse(async (send, disconnected) => {
+      signal = disconnected
+      await new Promise(resolve => disconnected.addEventListener('abort', resolve))
+      send('complete', {})
+      finish()
+    })
+
+    await response.body!.cancel()
+    await finished
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('reports a failing handler as a final error event', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const response = createSseResponse(async send => {
+      send('start', {})
+      throw new Error('Gateway unavailable')
+    })
+    const events: SseEvent[] = []
+    await readSseStream(response, event => events.push(event))
+
+    expect(events[events.length - 1]).toEqual({ event: 'error', data: { error: 'Gateway unavailable' } })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals'
+import { detectSuiteFormat, parseSuite } from '../suite-parser'
+
+describe('detectSuiteFormat', () => {
+  it('tells JSON, JSON Lines and CSV apart', () => {
+    expect(detectSuiteFormat('[{"text": "a"}]')).toBe('json')
+    expect(detectSuiteFormat('{"text": "a"}\n{"text": "b"}')).toBe('jsonl')
+    expect(detectSuiteFormat('text,expected\na,b')).toBe('csv')
+  })
+})
+
+describe('parseSuite', () => {
+  it('reads a JSON object with a name and prompts', () => {
+    const suite = parseSuite(JSON.stringify({
+      name: 'Capitals',
+      description: 'European capitals',
+      prompts: [
+        { prompt: 'Capital of France?', answers: ['Paris', 'paris'], tags: ['Geo', 'geo'] },
+        'Capital of Spain?'
+      ]
+    }))
+
+    expect(suite.name).toBe('Capitals')
+    expect(suite.prompts).toEqual([
+      { text: 'Capital of France?', expected_answers: ['Paris', 'paris'], expected_pattern: null, tags: ['geo'] },
+      { text: 'Capital of Spain?', expected_answers: null, expected_pattern: null, tags: null }
+    ])
+  })
+
+  it('reads JSON Lines with "|"-separated answers and a pattern', () => {
+    const suite = parseSuite('{"question": "2 + 2?", "expected": "4 | four"}\n\n{"text": "Largest planet?", "pattern": "^jupiter$"}')
+
+    expect(suite.prompts.map(prompt => prompt.expected_answers)).toEqual([['4', 'four'], null])
+    expect(suite.prompts[1].expected_pattern).toBe('^jupiter$')
+  })
+
+  it('reads CSV with quoted fields, escaped quotes and embedded newlines', () => {
+    const suite = parseSuite('Text,Expected,Tags\r\n"Say ""hi""\nplease",hi,"greeting, test"\nCapital of Italy?,Rome,\n')
+
+    expect(suite.prompts).toEqual([
+      { text: 'Say "hi"\nplease', expected_answers: ['hi'], expected_pattern: null, tags: ['greeting', 'test'] },
+      { text: 'Capital of Italy?', expected_answers: ['Rome'], expected_pattern: null, tags: null }
+    ])
+  })
+
+  it('names the entry that is invalid', () => {
+    expect(() => parseSuite('[{"text": "ok"}, {"answer": "4"}]')).toThrow('Entry 2: prompt text is required')
+    expect(() => parseSuite('{"text": "ok"}\n{"text": ')).toThrow('Line 2: invalid JSON')
+    expect(() => parseSuite('text,pattern\nQuestion?,([a-z]')).toThrow('Entry 2: invalid regular expression')
+    expect(() => parseSuite(JSON.stringify(['x'.repeat(1001)]))).toThrow('prompt too long')
+  })
+
+  it('rejects suites without prompts', () => {
+    expect(() => parseSuite('[]')).toThrow('Suite contains no prompts')
+    expect(() => parseSuite('{"name": "Empty"}')).toThrow('"prompts" array')
+    expect(() => parseSuite('text\n')).toThrow('Suite contains no prompts')
+  })
+})
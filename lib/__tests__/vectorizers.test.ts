@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals'
+import { TfIdfVectorizer, cosineSimilarity, createEmbeddingVectorizer, meanVector } from '../vectorizers'
+import { ConsensusAnalyzer } from '../consensus-analyzer'
+
+const responses = (texts: string[]) => texts.map((text, i) => ({
+  id: `r${i}`,
+  model_id: `m${i}`,
+  response_text: text,
+  response_time_ms: 100,
+  model: { name: `Model ${i}`, provider: 'Test' }
+}))
+
+describe('cosineSimilarity', () => {
+  it('measures the angle between vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1)
+  })
+
+  it('treats two zero vectors as identical and one as unrelated', () => {
+    expect(cosineSimilarity([0, 0], [0, 0])).toBe(1)
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+})
+
+describe('meanVector', () => {
+  it('averages element-wise', () => {
+    expect(meanVector([[1, 2], [3, 4]])).toEqual([2, 3])
+    expect(meanVector([])).toEqual([])
+  })
+})
+
+describe('TfIdfVectorizer', () => {
+  it('produces vectors of equal length over a shared vocabulary', () => {
+    const vectors = new TfIdfVectorizer().vectorize(['jupiter', 'the planet jupiter', 'saturn'])
+    expect(new Set(vectors.map(vector => vector.length)).size).toBe(1)
+  })
+
+  it('scores texts sharing a word above unrelated ones', () => {
+    const [jupiter, planetJupiter, saturn] = new TfIdfVectorizer().vectorize(['jupiter', 'the planet jupiter', 'saturn'])
+    expect(cosineSimilarity(jupiter, planetJupiter)).toBeGreaterThan(cosineSimilarity(jupiter, saturn))
+  })
+})
+
+describe('semantic clustering', () => {
+  it('groups paraphrases that edit distance keeps apart', () => {
+    const texts = ['Jupiter', 'The planet Jupiter', 'Saturn']
+
+    const pairwise = ConsensusAnalyzer.analyzeConsensus(responses(texts))
+    const semantic = ConsensusAnalyzer.analyzeConsensus(responses(texts), { mode: 'semantic' })
+
+    expect(pairwise.groups[0].count).toBe(1)
+    expect(semantic.groups.map(group => group.count)).toEqual([2, 1])
+    expect(semantic.groups[0].cohesion).toBeGreaterThan(0)
+    expect(semantic.strategy).toBe('tfidf')
+  })
+
+  it('uses a custom local embedding when given one', () => {
+    // Embeds by whether the answer mentions a gas giant
+    const vectorizer = createEmbeddingVectorizer('giants', text => [/jupiter|saturn/.test(text) ? 1 : 0, /mars/.test(text) ? 1 : 0])
+
+    const analysis = ConsensusAnalyzer.analyzeConsensus(responses(['Jupiter', 'Saturn', 'Mars']), { mode: 'semantic', vectorizer, threshold: 0.9 })
+
+    expect(analysis.strategy).toBe('giants')
+    expect(analysis.groups.map(group => group.count)).toEqual([2, 1])
+  })
+})
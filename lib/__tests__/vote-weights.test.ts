@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals'
+import { accuracyWeights, parseConfidence, stripConfidence } from '../vote-weights'
+import { ConsensusAnalyzer } from '../consensus-analyzer'
+
+const responses = (texts: string[]) => texts.map((text, i) => ({
+  id: `r${i}`,
+  model_id: `m${i}`,
+  response_text: text,
+  response_time_ms: 100,
+  model: { name: `Model ${i}`, provider: 'Test' }
+}))
+
+describe('parseConfidence', () => {
+  it('reads percentages, fractions and words', () => {
+    expect(parseConfidence('Paris (confidence: 85%)')).toBeCloseTo(0.85)
+    expect(parseConfidence('Paris. Confidence 0.8')).toBeCloseTo(0.8)
+    expect(parseConfidence('Paris, 90% confident')).toBeCloseTo(0.9)
+    expect(parseConfidence('Confidence level: very high')).toBe(0.95)
+  })
+
+  it('clamps to 1 and returns null without a statement', () => {
+    expect(parseConfidence('confidence: 150')).toBe(1)
+    expect(parseConfidence('Paris')).toBeNull()
+  })
+})
+
+describe('stripConfidence', () => {
+  it('removes the statement and leaves the answer', () => {
+    expect(stripConfidence('Paris (confidence: 85%)')).toBe('Paris')
+    expect(stripConfidence('Paris [90% confident] indeed')).toBe('Paris indeed')
+  })
+})
+
+describe('accuracyWeights', () => {
+  it('smooths accuracy towards an even weight', () => {
+    expect(accuracyWeights([
+      { modelId: 'new', modelName: 'New', correct: 0, total: 0, accuracy: 0 },
+      { modelId: 'good', modelName: 'Good', correct: 9, total: 10, accuracy: 90 }
+    ])).toEqual({ new: 0.5, good: 10 / 12 })
+  })
+})
+
+describe('weighted consensus', () => {
+  it('lets heavier votes outweigh a larger group', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus(responses(['Lyon', 'Lyon', 'Paris']), {
+      strategy: 'exact',
+      weighting: 'trust',
+      weights: { m0: 1, m1: 1, m2: 3 }
+    })
+
+    expect(analysis.topResponse).toBe('lyon')
+    expect(analysis.weightedTopResponse).toBe('paris')
+    expect(analysis.weightedConsensusLevel).toBeCloseTo(60)
+  })
+
+  it('weights by stated confidence, counting unstated confidence as neutral', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus(
+      responses(['Lyon (confidence: 10%)', 'Lyon (confidence: 20%)', 'Paris']),
+      { strategy: 'exact', weighting: 'confidence' }
+    )
+
+    expect(analysis.groups.map(group => group.groupName)).toEqual(['lyon', 'paris'])
+    expect(analysis.weightedTopResponse).toBe('paris')
+    expect(analysis.groups[1].weight).toBe(0.5)
+  })
+
+  it('matches the plain consensus with equal weights', () => {
+    const analysis = ConsensusAnalyzer.analyzeConsensus(responses(['Lyon', 'Lyon', 'Paris']), { strategy: 'exact' })
+    expect(analysis.weightedTopResponse).toBe(analysis.topResponse)
+    expect(analysis.weightedConsensusLevel).toBeCloseTo(analysis.consensusLevel)
+  })
+})
@@ -0,0 +1,93 @@
+import { Canonicalizer } from './canonicalizer'
+
+interface GroundTruth {
+  // Any of these answers counts as correct after canonicalization
+  answers?: string[]
+  // Regular expression tested (case-insensitively) against the raw and canonical reply
+  pattern?: string
+}
+
+interface ModelAccuracy {
+  modelId: string
+  modelName: string
+  correct: number
+  total: number
+  accuracy: number
+}
+
+function hasGroundTruth(groundTruth?: GroundTruth | null): groundTruth is GroundTruth {
+  return !!groundTruth && ((groundTruth.answers?.length ?? 0) > 0 || !!groundTruth.pattern)
+}
+
+/**
+ * Score a reply against the expected answer(s), using the same canonicalizer
+ * that consensus grouping uses so "The answer is Paris." matches "paris"
+ */
+function scoreResponse(responseText: string, groundTruth: GroundTruth, canonicalizer: Canonicalizer): boolean {
+  const canonical = canonicalizer.canonicalize(responseText)
+
+  if (groundTruth.answers?.some(answer => canonicalizer.canonicalize(answer) === canonical)) {
+    return true
+  }
+
+  if (groundTruth.pattern) {
+    const pattern = new RegExp(groundTruth.pattern, 'i')
+    return pattern.test(responseText.trim()) || pattern.test(canonical)
+  }
+
+  return false
+}
+
+/**
+ * Parse the expected-answer field of the prompt form: "/regex/" is a pattern,
+ * anything else is a "|"-separated list of accepted answers
+ */
+function parseGroundTruthInput(input: string): GroundTruth | null {
+  const trimmed = input.trim()
+  if (trimmed === '') return null
+
+  const regex = trimmed.match(/^\/(.+)\/$/)
+  if (regex) {
+    return { pattern: regex[1] }
+  }
+
+  return { answers: trimmed.split('|').map(answer => answer.trim()).filter(Boolean) }
+}
+
+function formatGroundTruth(groundTruth: GroundTruth): string {
+  const parts = [...(groundTruth.answers || [])]
+  if (groundTruth.pattern) parts.push(`/${groundTruth.pattern}/`)
+  return parts.join(' | ')
+}
+
+/**
+ * Aggregate scored responses into accuracy per model
+ */
+function getModelAccuracy(responses: Array<{
+  model_id: string
+  is_correct?: boolean | null
+  model?: { name: string }
+}>): ModelAccuracy[] {
+  const byModel = new Map<string, ModelAccuracy>()
+
+  responses.forEach(response => {
+    if (response.is_correct === undefined || response.is_correct === null) return
+
+    const entry = byModel.get(response.model_id) || {
+      modelId: response.model_id,
+      modelName: response.model?.name || 'Unknown',
+      correct: 0,
+      total: 0,
+      accuracy: 0
+    }
+    entry.total++
+    if (response.is_correct) entry.correct++
+    entry.accuracy = (entry.correct / entry.total) * 100
+    byModel.set(response.model_id, entry)
+  })
+
+  return Array.from(byModel.values()).sort((a, b) => b.accuracy - a.accuracy || a.modelName.localeCompare(b.modelName))
+}
+
+export { hasGroundTruth, scoreResponse, parseGroundTruthInput, formatGroundTruth, getModelAccuracy }
+export type { GroundTruth, ModelAccuracy }
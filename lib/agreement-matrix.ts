@@ -0,0 +1,247 @@
+import { getRepository } from './repository'
+import { Model } from './database-types'
+import { analyzeSavedRun } from './benchmark-runner'
+
+// Which models' answers fell in the same consensus group on one run of a prompt
+interface PromptAssignment {
+  runId: string
+  // Model ids per group
+  groups: string[][]
+}
+
+interface AgreementMatrixModel {
+  id: string
+  name: string
+  provider: string
+  // Prompts the model answered
+  prompts: number
+}
+
+interface ProviderAgreement {
+  provider: string
+  models: number
+  // Pooled agreement in percent between two models of the provider, and
+  // between one of its models and a model from elsewhere; null without a
+  // shared prompt
+  withinAgreement: number | null
+  crossAgreement: number | null
+}
+
+interface AgreementMatrix {
+  // Hierarchically ordered, so models that tend to agree sit next to each other
+  models: AgreementMatrixModel[]
+  // Percentage of shared prompts on which two models gave the same answer,
+  // null for pairs that never answered the same prompt
+  agreement: (number | null)[][]
+  // Number of prompts both models answered
+  shared: number[][]
+  prompts: number
+  sameProviderAgreement: number | null
+  crossProviderAgreement: number | null
+  providers: ProviderAgreement[]
+}
+
+// Consensus group rows read from history; a run has one row per group
+const DEFAULT_HISTORY_LIMIT = 5000
+// Legacy runs are re-analyzed in chunks to keep id lists in the query short
+const REANALYSIS_CHUNK_SIZE = 100
+// How long the matrix behind the per-run insights is reused before rebuilding
+const HISTORY_CACHE_TTL_MS = 5 * 60 * 1000
+
+// Kept on globalThis so every route bundle shares one cached matrix
+const globalForAgreement = globalThis as unknown as {
+  agreementHistory?: { matrix: Promise<AgreementMatrix>; expiresAt: number }
+}
+
+function toPercentage(agreed: number, shared: number): number | null {
+  return shared > 0 ? (agreed / shared) * 100 : null
+}
+
+/**
+ * Average-linkage agglomerative clustering over a distance matrix, returning
+ * the leaf order of the resulting dendrogram. When two clusters merge they are
+ * flipped so that their closest ends meet.
+ */
+function hierarchicalOrder(distance: number[][]): number[] {
+  let clusters = distance.map((_, index) => [index])
+
+  const linkage = (a: number[], b: number[]) =>
+    a.reduce((sum, i) => sum + b.reduce((inner, j) => inner + distance[i][j], 0), 0) / (a.length * b.length)
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity }
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const d = linkage(clusters[a], clusters[b])
+        if (d < best.distance) best = { a, b, distance: d }
+      }
+    }
+
+    const left = clusters[best.a]
+    const right = clusters[best.b]
+    const candidates = [
+      [...left, ...right],
+      [...left, ...[...right].reverse()],
+      [...[...left].reverse(), ...right],
+      [...[...left].reverse(), ...[...right].reverse()]
+    ]
+    const seam = (order: number[]) => distance[order[left.length - 1]][order[left.length]]
+    const merged = candidates.reduce((a, b) => (seam(b) < seam(a) ? b : a))
+
+    clusters = clusters.filter((_, index) => index !== best.a && index !== best.b)
+    clusters.splice(best.a, 0, merged)
+  }
+
+  return clusters[0] || []
+}
+
+/**
+ * Build the pairwise agreement matrix: for every pair of models, the share of
+ * prompts both answered on which their answers landed in the same group
+ */
+function buildAgreementMatrix(
+  assignments: PromptAssignment[],
+  models: Pick<Model, 'id' | 'name' | 'provider'>[]
+): AgreementMatrix {
+  const modelIds = Array.from(new Set(assignments.flatMap(assignment => assignment.groups.flat())))
+  const details = modelIds
+    .map(id => {
+      const model = models.find(m => m.id === id)
+      return { id, name: model?.name || 'Unknown', provider: model?.provider || 'Unknown' }
+    })
+    // Deterministic starting order, so ties in the clustering resolve the same way
+    .sort((a, b) => a.provider.localeCompare(b.provider) || a.name.localeCompare(b.name))
+
+  const index = new Map(details.map((model, i) => [model.id, i]))
+  const size = details.length
+  const shared = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+  const agreed = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+
+  assignments.forEach(assignment => {
+    const members = assignment.groups.flatMap((group, groupIndex) =>
+      Array.from(new Set(group)).map(id => ({ position: index.get(id)!, groupIndex }))
+    )
+    members.forEach(a => {
+      members.forEach(b => {
+        shared[a.position][b.position]++
+        if (a.groupIndex === b.groupIndex) agreed[a.position][b.position]++
+      })
+    })
+  })
+
+  const agreement = shared.map((row, i) => row.map((count, j) => toPercentage(agreed[i][j], count)))
+
+  // Pairs that never met count as maximally distant
+  const order = hierarchicalOrder(agreement.map(row => row.map(value => (value === null ? 1 : 1 - value / 100))))
+
+  // Pool agreement over model pairs, within and across providers
+  const pool = (include: (a: number, b: number) => boolean) => {
+    let agreedTotal = 0
+    let sharedTotal = 0
+    for (let i = 0; i < size; i++) {
+      for (let j = i + 1; j < size; j++) {
+        if (!include(i, j)) continue
+        agreedTotal += agreed[i][j]
+        sharedTotal += shared[i][j]
+      }
+    }
+    return toPercentage(agreedTotal, sharedTotal)
+  }
+  const sameProvider = (i: number, j: number) => details[i].provider === details[j].provider
+
+  const providers = Array.from(new Set(details.map(model => model.provider))).map(provider => {
+    const inProvider = (i: number) => details[i].provider === provider
+    return {
+      provider,
+      models: details.filter(model => model.provider === provider).length,
+      withinAgreement: pool((i, j) => inProvider(i) && inProvider(j)),
+      crossAgreement: pool((i, j) => inProvider(i) !== inProvider(j))
+    }
+  })
+
+  return {
+    models: order.map(i => ({ ...details[i], prompts: shared[i][i] })),
+    agreement: order.map(i => order.map(j => agreement[i][j])),
+    shared: order.map(i => order.map(j => shared[i][j])),
+    prompts: assignments.length,
+    sameProviderAgreement: pool(sameProvider),
+    crossProviderAgreement: pool((i, j) => !sameProvider(i, j)),
+    providers
+  }
+}
+
+/**
+ * Build the agreement matrix over the saved history. Groups saved before model
+ * ids were recorded are rebuilt by re-analyzing their run, unless
+ * includeLegacy is false.
+ */
+async function getAgreementMatrix({
+  limit = DEFAULT_HISTORY_LIMIT,
+  includeLegacy = true
+}: { limit?: number; includeLegacy?: boolean } = {}): Promise<AgreementMatrix> {
+  const [consensusGroups, models] = await Promise.all([
+    getRepository().getConsensusGroupHistory(limit),
+    getRepository().getModels()
+  ])
+
+  // The oldest run may have been cut off by the limit
+  const oldestRunId = consensusGroups.length === limit ? consensusGroups[consensusGroups.length - 1].run_id : null
+
+  const saved = new Map<string, string[][]>()
+  const legacy = new Set<string>()
+  consensusGroups.forEach(group => {
+    if (group.run_id === oldestRunId) return
+    if (!group.model_ids) {
+      legacy.add(group.run_id)
+      return
+    }
+    saved.set(group.run_id, [...(saved.get(group.run_id) || []), group.model_ids])
+  })
+
+  const assignments: PromptAssignment[] = Array.from(saved.entries())
+    .filter(([runId]) => !legacy.has(runId))
+    .map(([runId, groups]) => ({ runId, groups }))
+
+  if (includeLegacy && legacy.size > 0) {
+    const legacyIds = Array.from(legacy)
+    for (let start = 0; start < legacyIds.length; start += REANALYSIS_CHUNK_SIZE) {
+      const { runs, responses } = await getRepository().getRunsWithResponses(
+        legacyIds.slice(start, start + REANALYSIS_CHUNK_SIZE)
+      )
+      runs.forEach(run => {
+        const analysis = analyzeSavedRun(run, responses.filter(response => response.run_id === run.id))
+        assignments.push({
+          runId: run.id,
+          groups: analysis.groups.map(group => group.responses.map(response => response.model_id))
+        })
+      })
+    }
+  }
+
+  return buildAgreementMatrix(assignments, models)
+}
+
+/**
+ * The agreement matrix behind the per-run provider insights, without legacy
+ * re-analysis, rebuilt at most every few minutes instead of for every run.
+ * A failed build is not kept.
+ */
+function getCachedAgreementMatrix(now: number = Date.now()): Promise<AgreementMatrix> {
+  const cached = globalForAgreement.agreementHistory
+  if (cached && cached.expiresAt > now) {
+    return cached.matrix
+  }
+
+  const matrix = getAgreementMatrix({ includeLegacy: false })
+  globalForAgreement.agreementHistory = { matrix, expiresAt: now + HISTORY_CACHE_TTL_MS }
+  matrix.catch(() => {
+    if (globalForAgreement.agreementHistory?.matrix === matrix) {
+      globalForAgreement.agreementHistory = undefined
+    }
+  })
+
+  return matrix
+}
+
+export { hierarchicalOrder, buildAgreementMatrix, getAgreementMatrix, getCachedAgreementMatrix }
+export type { PromptAssignment, AgreementMatrix, AgreementMatrixModel, ProviderAgreement }
@@ -0,0 +1,192 @@
+// Inter-rater statistics over consensus groups. Every function works on plain
+// group sizes so results can be recomputed from saved groups alone.
+
+interface ConfidenceInterval {
+  // Bounds in percent
+  lower: number
+  upper: number
+  // Coverage, e.g. 0.95
+  confidence: number
+}
+
+interface BootstrapResult {
+  interval: ConfidenceInterval
+  // Percentage of resamples in which the largest group stays strictly largest
+  topStability: number
+}
+
+interface FleissKappa {
+  kappa: number
+  // Mean pairwise agreement within a subject, and what chance alone would give
+  observedAgreement: number
+  expectedAgreement: number
+  subjects: number
+}
+
+// Whether the largest group holds a majority, judged by its confidence interval
+type MajorityVerdict = 'clear' | 'uncertain' | 'none'
+
+const DEFAULT_BOOTSTRAP_ITERATIONS = 1000
+// Fixed so the same groups always produce the same interval
+const DEFAULT_BOOTSTRAP_SEED = 42
+
+/**
+ * Small deterministic PRNG (mulberry32) returning values in [0, 1)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Shannon entropy of a group distribution, in bits
+ */
+function shannonEntropy(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return 0
+
+  return counts.reduce((entropy, count) => {
+    if (count === 0) return entropy
+    const p = count / total
+    return entropy - p * Math.log2(p)
+  }, 0)
+}
+
+/**
+ * Entropy as a fraction of its maximum, reached when every response differs.
+ * Unlike the number of groups per response this is comparable across runs with
+ * different model counts: 0 is full agreement and 1 full disagreement.
+ */
+function normalizedEntropy(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total <= 1) return 0
+  return shannonEntropy(counts) / Math.log2(total)
+}
+
+/**
+ * Percentile bootstrap of the consensus level: responses are resampled with
+ * replacement and the share of the originally largest group is recomputed.
+ * Counts must be sorted largest first.
+ */
+function bootstrapConsensus(
+  counts: number[],
+  {
+    iterations = DEFAULT_BOOTSTRAP_ITERATIONS,
+    confidence = 0.95,
+    seed = DEFAULT_BOOTSTRAP_SEED
+  }: { iterations?: number; confidence?: number; seed?: number } = {}
+): BootstrapResult {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total === 0) {
+    return { interval: { lower: 0, upper: 0, confidence }, topStability: 0 }
+  }
+
+  // One entry per response holding its group index
+  const labels = counts.flatMap((count, group) => Array<number>(count).fill(group))
+  const random = createSeededRandom(seed)
+  const shares: number[] = []
+  let topWins = 0
+
+  for (let i = 0; i < iterations; i++) {
+    const resampled = new Array<number>(counts.length).fill(0)
+    for (let j = 0; j < total; j++) {
+      resampled[labels[Math.floor(random() * total)]]++
+    }
+
+    shares.push((resampled[0] / total) * 100)
+    if (resampled.every((count, group) => group === 0 || count < resampled[0])) topWins++
+  }
+
+  shares.sort((a, b) => a - b)
+  const tail = (1 - confidence) / 2
+
+  return {
+    interval: {
+      lower: shares[Math.floor(tail * iterations)],
+      upper: shares[Math.min(iterations - 1, Math.ceil((1 - tail) * iterations) - 1)],
+      confidence
+    },
+    topStability: (topWins / iterations) * 100
+  }
+}
+
+function classifyMajority(interval: ConfidenceInterval): MajorityVerdict {
+  if (interval.lower > 50) return 'clear'
+  if (interval.upper < 50) return 'none'
+  return 'uncertain'
+}
+
+/**
+ * Fleiss' kappa over several subjects (prompts), each given as the number of
+ * raters (models) per category (answer). Subjects may have different numbers of
+ * raters; those with fewer than two are skipped. Returns null when no subject
+ * can be scored.
+ */
+function fleissKappa(subjects: Array<Record<string, number>>): FleissKappa | null {
+  const scored = subjects
+    .map(subject => ({ subject, raters: Object.values(subject).reduce((sum, count) => sum + count, 0) }))
+    .filter(({ raters }) => raters >= 2)
+
+  if (scored.length === 0) return null
+
+  const categoryTotals: Record<string, number> = {}
+  let totalRatings = 0
+  let agreementSum = 0
+
+  scored.forEach(({ subject, raters }) => {
+    const squares = Object.entries(subject).reduce((sum, [category, count]) => {
+      categoryTotals[category] = (categoryTotals[category] || 0) + count
+      return sum + count * count
+    }, 0)
+    agreementSum += (squares - raters) / (raters * (raters - 1))
+    totalRatings += raters
+  })
+
+  const observedAgreement = agreementSum / scored.length
+  const expectedAgreement = Object.values(categoryTotals)
+    .reduce((sum, count) => sum + (count / totalRatings) ** 2, 0)
+
+  return {
+    // Every rating in one category leaves nothing to correct for chance
+    kappa: expectedAgreement === 1 ? 1 : (observedAgreement - expectedAgreement) / (1 - expectedAgreement),
+    observedAgreement,
+    expectedAgreement,
+    subjects: scored.length
+  }
+}
+
+/**
+ * Landis & Koch reading of a kappa value
+ */
+function describeKappa(kappa: number): string {
+  if (kappa < 0) return 'worse than chance'
+  if (kappa <= 0.2) return 'slight'
+  if (kappa <= 0.4) return 'fair'
+  if (kappa <= 0.6) return 'moderate'
+  if (kappa <= 0.8) return 'substantial'
+  return 'almost perfect'
+}
+
+function formatInterval(interval: ConfidenceInterval): string {
+  return `${Math.round(interval.confidence * 100)}% CI ${interval.lower.toFixed(1)}–${interval.upper.toFixed(1)}%`
+}
+
+export {
+  DEFAULT_BOOTSTRAP_ITERATIONS,
+  DEFAULT_BOOTSTRAP_SEED,
+  createSeededRandom,
+  shannonEntropy,
+  normalizedEntropy,
+  bootstrapConsensus,
+  classifyMajority,
+  fleissKappa,
+  describeKappa,
+  formatInterval
+}
+export type { ConfidenceInterval, BootstrapResult, FleissKappa, MajorityVerdict }
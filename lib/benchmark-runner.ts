@@ -0,0 +1,587 @@
+import { z } from 'zod'
+import { waitUntil } from '@vercel/functions'
+import { getRepository } from './repository'
+import { BenchmarkRun, Model, Prompt, Response as SavedResponse, SuitePrompt, SuiteRun } from './database-types'
+import VercelAIGatewayClient, { BatchCompletionResult } from './vercel-ai-gateway'
+import { ConsensusAnalyzer, ConsensusAnalysis, VotingMode } from './consensus-analyzer'
+import { SIMILARITY_STRATEGY_NAMES, SimilarityStrategyName, getDefaultThreshold } from './similarity-strategies'
+import { DEFAULT_SEMANTIC_THRESHOLD } from './vectorizers'
+import { Canonicalizer } from './canonicalizer'
+import { GroundTruth, hasGroundTruth, scoreResponse, getModelAccuracy } from './accuracy-scorer'
+import { GenerationSettings } from './generation-settings'
+import { ModelProfileOverrides, toProfileOverrides } from './model-profiles'
+import { VOTE_WEIGHTINGS, VoteWeighting, accuracyWeights } from './vote-weights'
+import { PricingOverrides, TokenUsage, normalizeUsage, computeCost, resolvePricing, sumCosts } from './pricing'
+import { BudgetCheck, estimateBenchmarkCost, checkBudget, getMonthStart, getBudgetSettings } from './budget'
+import { AttemptRecord } from './resilience'
+import { RateLimits, RequestScheduler, runPool } from './rate-limiter'
+import { ErrorCategory } from './error-taxonomy'
+
+// Validation schemas shared by the prompt and suite run routes
+const SimilaritySchema = z.object({
+  mode: z.enum(['pairwise', 'semantic']).default('pairwise'),
+  strategy: z.enum(SIMILARITY_STRATEGY_NAMES as [SimilarityStrategyName, ...SimilarityStrategyName[]]).default('levenshtein'),
+  threshold: z.number().min(0).max(1).optional(),
+}).default({})
+
+const CanonicalizationSchema = z.object({
+  stripConfidence: z.boolean().optional(),
+  extractFinalAnswer: z.boolean().optional(),
+  foldUnicode: z.boolean().optional(),
+  stripPrefixes: z.boolean().optional(),
+  stripArticles: z.boolean().optional(),
+  numberWordsToDigits: z.boolean().optional(),
+  aliases: z.record(z.string()).optional(),
+}).default({})
+
+const GroundTruthSchema = z.object({
+  answers: z.array(z.string().min(1)).optional(),
+  pattern: z.string().min(1).refine(pattern => {
+    try {
+      new RegExp(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, 'Invalid regular expression').optional(),
+})
+
+const VoteWeightingSchema = z.enum(VOTE_WEIGHTINGS as [VoteWeighting, ...VoteWeighting[]]).default('equal')
+
+interface BenchmarkSettings {
+  similarity: z.infer<typeof SimilaritySchema>
+  canonicalization: z.infer<typeof CanonicalizationSchema>
+  generation: GenerationSettings
+  weighting: VoteWeighting
+  // Local prices that take precedence over the pricing saved with each model
+  pricing?: PricingOverrides
+  // Requests and tokens per minute, keyed by provider
+  rateLimits?: RateLimits
+}
+
+interface BenchmarkResult {
+  model: {
+    id: string
+    name: string
+    provider: string
+  }
+  sample_index: number
+  response_text: string
+  canonical_text?: string
+  is_correct?: boolean | null
+  response_time_ms: number
+  time_to_first_token_ms?: number | null
+  tokens_per_second?: number | null
+  error?: string
+  error_category?: ErrorCategory
+  usage?: TokenUsage
+  cost_usd?: number | null
+  attempts?: AttemptRecord[]
+}
+
+// Emitted while a prompt runs so callers can stream partial results
+type BenchmarkProgressEvent =
+  | { type: 'run'; run: BenchmarkRun }
+  | { type: 'start'; model: BenchmarkResult['model']; sampleIndex: number; attempt: number }
+  | { type: 'delta'; modelId: string; sampleIndex: number; delta: string }
+  | { type: 'result'; result: BenchmarkResult; analysis: ConsensusAnalysis }
+
+interface PromptBenchmarkOutcome {
+  prompt: Prompt
+  run: BenchmarkRun
+  results: BenchmarkResult[]
+  // One vote per model, which is what gets saved as consensus groups
+  analysis: ConsensusAnalysis
+  // One vote per sample; the same as analysis when each model answered once
+  sampleAnalysis: ConsensusAnalysis
+  successfulResponses: number
+  // Null when no response could be priced
+  totalCostUsd: number | null
+  // The run was cancelled; results cover the responses received before that
+  cancelled: boolean
+}
+
+/**
+ * Load per-model profiles keyed by gateway model id, and trust weights keyed
+ * by model id. A missing table should not block the run.
+ */
+async function loadModelProfiles(models: Model[]): Promise<{
+  profiles: Record<string, ModelProfileOverrides>
+  trustWeights: Record<string, number>
+}> {
+  const profiles: Record<string, ModelProfileOverrides> = {}
+  const trustWeights: Record<string, number> = {}
+  try {
+    const savedProfiles = await getRepository().getModelProfiles()
+    savedProfiles.forEach(profile => {
+      const model = models.find(m => m.id === profile.model_id)
+      if (model) profiles[model.model_id] = toProfileOverrides(profile)
+      if (profile.trust_weight != null) trustWeights[profile.model_id] = Number(profile.trust_weight)
+    })
+  } catch (error) {
+    console.error('Failed to load model profiles, continuing without them:', error)
+  }
+
+  return { profiles, trustWeights }
+}
+
+/**
+ * Estimate a run and compare it with the server's budget. The month's spend
+ * is only read when a monthly limit is set.
+ */
+async function checkRunBudget({
+  prompts,
+  models,
+  settings
+}: {
+  prompts: string[]
+  models: Model[]
+  settings: Pick<BenchmarkSettings, 'generation' | 'pricing'>
+}): Promise<BudgetCheck> {
+  const budget = getBudgetSettings()
+  const { profiles } = await loadModelProfiles(models)
+  const estimate = estimateBenchmarkCost({
+    prompts,
+    models,
+    generation: settings.generation,
+    profiles,
+    pricing: settings.pricing
+  })
+  const monthSpentUsd = budget.monthlyUsd != null ? await getRepository().getSpendSince(getMonthStart()) : null
+
+  return checkBudget(estimate, budget, monthSpentUsd)
+}
+
+/**
+ * Send one prompt to every model, save the run with its responses and
+ * consensus groups under the prompt, and return the analysis
+ */
+async function runPromptBenchmark({
+  aiGateway,
+  text,
+  models,
+  settings,
+  groundTruth,
+  tags,
+  suiteRunId,
+  scheduler,
+  signal,
+  onProgress
+}: {
+  aiGateway: VercelAIGatewayClient
+  text: string
+  models: Model[]
+  settings: BenchmarkSettings
+  groundTruth?: GroundTruth | null
+  // Labels for filtering history, e.g. on the leaderboard
+  tags?: string[] | null
+  suiteRunId?: string
+  // Shared with other prompts of the same run
+  scheduler?: RequestScheduler
+  // Aborts outstanding requests when the run is cancelled
+  signal?: AbortSignal
+  onProgress?: (event: BenchmarkProgressEvent) => void
+}): Promise<PromptBenchmarkOutcome> {
+  const { similarity, canonicalization, generation, weighting, pricing, rateLimits } = settings
+  const similarityThreshold = similarity.threshold ??
+    (similarity.mode === 'semantic' ? DEFAULT_SEMANTIC_THRESHOLD : getDefaultThreshold(similarity.strategy))
+
+  const { profiles, trustWeights } = await loadModelProfiles(models)
+  const voteWeights = await resolveVoteWeights(weighting, models, trustWeights)
+  const analysisOptions = {
+    mode: similarity.mode,
+    strategy: similarity.strategy,
+    threshold: similarityThreshold,
+    canonicalization,
+    groundTruth,
+    weighting,
+    weights: voteWeights || undefined
+  }
+
+  // Asking the same text again adds a run to the existing prompt
+  const savedPrompt = await getRepository().findOrCreatePrompt(text)
+  const run = await getRepository().createBenchmarkRun({
+    prompt_id: savedPrompt.id,
+    model_ids: models.map(model => model.id),
+    similarity_strategy: similarity.mode === 'semantic' ? 'tfidf' : similarity.strategy,
+    similarity_threshold: similarityThreshold,
+    clustering_mode: similarity.mode,
+    canonicalization,
+    expected_answers: groundTruth?.answers || null,
+    expected_pattern: groundTruth?.pattern || null,
+    generation_settings: generation,
+    vote_weighting: weighting,
+    vote_weights: voteWeights,
+    suite_run_id: suiteRunId || null,
+    tags: tags && tags.length > 0 ? tags : null
+  })
+  onProgress?.({ type: 'run', run: { ...run, prompt: savedPrompt } })
+
+  try {
+    // Process results and prepare responses as they arrive
+    const canonicalizer = new Canonicalizer(canonicalization)
+    const responses: Array<Omit<SavedResponse, 'id' | 'created_at'>> = []
+    // Saved alongside the answers so history keeps the failure rates
+    const failedResponses: Array<Omit<SavedResponse, 'id' | 'created_at'>> = []
+    const resultsBySample = new Map<string, BenchmarkResult>()
+    const sampleKey = (modelId: string, sampleIndex: number) => `${modelId}:${sampleIndex}`
+
+    const processResult = (batchResult: BatchCompletionResult): BenchmarkResult => {
+      const model = models.find(m => m.model_id === batchResult.modelId)
+
+      if (batchResult.error || !batchResult.result || !model) {
+        const errorCategory = batchResult.errorCategory || 'unknown'
+        // Time lost to the request across all of its attempts
+        const failedTimeMs = batchResult.attempts.reduce((sum, attempt) => sum + attempt.durationMs, 0)
+
+        // A cancelled request says nothing about the model, so it is not kept
+        if (model && errorCategory !== 'cancelled') {
+          failedResponses.push({
+            prompt_id: savedPrompt.id,
+            run_id: run.id,
+            model_id: model.id,
+            sample_index: batchResult.sampleIndex,
+            response_text: '',
+            response_time_ms: failedTimeMs,
+            status: 'failed',
+            error_category: errorCategory,
+            error_message: batchResult.error || 'Unknown error',
+            attempt_count: batchResult.attempts.length,
+            attempts: batchResult.attempts
+          })
+        }
+
+        return {
+          model: model || { id: 'unknown', name: 'Unknown', provider: 'Unknown' },
+          sample_index: batchResult.sampleIndex,
+          response_text: batchResult.error || 'Error',
+          response_time_ms: failedTimeMs,
+          error: batchResult.error || 'Unknown error',
+          error_category: errorCategory,
+          attempts: batchResult.attempts
+        }
+      }
+
+      // Add to database responses
+      const canonicalText = canonicalizer.canonicalize(batchResult.result.text)
+      const isCorrect = hasGroundTruth(groundTruth)
+        ? scoreResponse(batchResult.result.text, groundTruth, canonicalizer)
+        : null
+      const usage = normalizeUsage(batchResult.result.usage)
+      const cost = computeCost(usage, resolvePricing(model, pricing))
+      responses.push({
+        prompt_id: savedPrompt.id,
+        run_id: run.id,
+        model_id: model.id,
+        sample_index: batchResult.sampleIndex,
+        response_text: batchResult.result.text,
+        canonical_text: canonicalText,
+        is_correct: isCorrect,
+        response_time_ms: batchResult.result.timeMs,
+        time_to_first_token_ms: batchResult.result.timeToFirstTokenMs ?? null,
+        tokens_per_second: batchResult.result.tokensPerSecond ?? null,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        cost_usd: cost,
+        attempts: batchResult.attempts,
+        status: 'success',
+        attempt_count: batchResult.attempts.length
+      })
+
+      return {
+        model: {
+          id: model.id,
+          name: model.name,
+          provider: model.provider
+        },
+        sample_index: batchResult.sampleIndex,
+        response_text: batchResult.result.text,
+        canonical_text: canonicalText,
+        is_correct: isCorrect,
+        response_time_ms: batchResult.result.timeMs,
+        time_to_first_token_ms: batchResult.result.timeToFirstTokenMs ?? null,
+        tokens_per_second: batchResult.result.tokensPerSecond ?? null,
+        usage,
+        cost_usd: cost,
+        attempts: batchResult.attempts
+      }
+    }
+
+    // Send requests to all models through the pool
+    const batchResults = await aiGateway.batchCompletion(
+      models.map(model => model.model_id),
+      text,
+      {
+        ...generation,
+        rateLimits,
+        scheduler,
+        abortSignal: signal,
+        profiles,
+        // Stream tokens only when someone is listening for them
+        onDelta: onProgress
+          ? (modelId, delta, sampleIndex) => {
+              const model = models.find(m => m.model_id === modelId)
+              if (model) onProgress({ type: 'delta', modelId: model.id, sampleIndex, delta })
+            }
+          : undefined,
+        onStart: (modelId, sampleIndex, attempt) => {
+          const model = models.find(m => m.model_id === modelId)
+          if (model) {
+            onProgress?.({ type: 'start', model: { id: model.id, name: model.name, provider: model.provider }, sampleIndex, attempt })
+          }
+        },
+        onResult: batchResult => {
+          const result = processResult(batchResult)
+          resultsBySample.set(sampleKey(batchResult.modelId, batchResult.sampleIndex), result)
+
+          if (onProgress) {
+            // Recompute consensus over the answers received so far; the model
+            // and sample index stand in for the not yet saved response id
+            const partialAnalysis = ConsensusAnalyzer.analyzeConsensus(
+              responses.map(response => ({
+                id: sampleKey(response.model_id, response.sample_index),
+                model_id: response.model_id,
+                sample_index: response.sample_index,
+                response_text: response.response_text,
+                response_time_ms: response.response_time_ms,
+                model: models.find(m => m.id === response.model_id)
+              })),
+              analysisOptions
+            )
+            onProgress({ type: 'result', result, analysis: partialAnalysis })
+          }
+        }
+      }
+    )
+
+    // Report results in model order rather than arrival order
+    const results = batchResults.map(batchResult => resultsBySample.get(sampleKey(batchResult.modelId, batchResult.sampleIndex))!)
+
+    // Keep what arrived before a cancellation, marking the run so history can tell
+    const cancelled = signal?.aborted ?? false
+
+    // Save answers and failures to database
+    let savedResponses: SavedResponse[] = []
+    if (responses.length + failedResponses.length > 0) {
+      savedResponses = await getRepository().saveResponses([...responses, ...failedResponses])
+    }
+
+    // Analyze consensus, counting each model once and each sample once
+    const analyzedResponses = savedResponses.filter(response => response.status !== 'failed').map(response => ({
+      id: response.id,
+      model_id: response.model_id,
+      sample_index: response.sample_index,
+      response_text: response.response_text,
+      response_time_ms: response.response_time_ms,
+      model: response.model
+    }))
+    const analysis = ConsensusAnalyzer.analyzeConsensus(analyzedResponses, { ...analysisOptions, voting: 'model' })
+    const sampleAnalysis = ConsensusAnalyzer.analyzeConsensus(analyzedResponses, { ...analysisOptions, voting: 'sample' })
+
+    // Save consensus groups to database
+    if (analysis.groups.length > 0) {
+      const consensusGroupsToSave = analysis.groups.map(group => ({
+        prompt_id: savedPrompt.id,
+        run_id: run.id,
+        group_name: group.groupName,
+        count: group.count,
+        percentage: group.percentage,
+        color: group.color,
+        models: group.models,
+        // Kept so model-to-model agreement can be computed without re-analysis
+        model_ids: Array.from(new Set(group.responses.map(response => response.model_id)))
+      }))
+
+      try {
+        await getRepository().saveConsensusGroups(consensusGroupsToSave)
+      } catch (error) {
+        console.error('Failed to save consensus groups, continuing without saving:', error)
+        // Continue without saving consensus groups to database
+      }
+    }
+
+    const runUpdate = {
+      status: cancelled ? 'cancelled' as const : 'completed' as const,
+      completed_at: new Date().toISOString()
+    }
+    await getRepository().updateBenchmarkRun(run.id, runUpdate)
+
+    return {
+      prompt: savedPrompt,
+      run: { ...run, ...runUpdate },
+      results,
+      analysis,
+      sampleAnalysis,
+      successfulResponses: responses.length,
+      totalCostUsd: sumCosts(responses.map(response => response.cost_usd)),
+      cancelled
+    }
+  } catch (error) {
+    // Leave no run stuck as running after an unexpected failure
+    await getRepository()
+      .updateBenchmarkRun(run.id, { status: 'failed', completed_at: new Date().toISOString() })
+      .catch(updateError => console.error('Failed to mark benchmark run as failed:', updateError))
+    throw error
+  }
+}
+
+/**
+ * Look up the per-model vote weights a weighting needs. Confidence and equal
+ * weighting are derived from the replies alone, so they need none.
+ */
+async function resolveVoteWeights(
+  weighting: VoteWeighting,
+  models: Model[],
+  trustWeights: Record<string, number>
+): Promise<Record<string, number> | null> {
+  if (weighting === 'trust') {
+    return Object.fromEntries(models.map(model => [model.id, trustWeights[model.id] ?? 1]))
+  }
+
+  if (weighting === 'accuracy') {
+    try {
+      const scored = await getRepository().getScoredResponses(models.map(model => model.id))
+      const weights = accuracyWeights(getModelAccuracy(scored))
+      // Models without any scored history get the smoothed even weight
+      return Object.fromEntries(models.map(model => [model.id, weights[model.id] ?? 0.5]))
+    } catch (error) {
+      console.error('Failed to load historical accuracy, weighting votes equally:', error)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Run every prompt of a suite against the models, recording progress on the
+ * suite run as each prompt completes. Prompts overlap and share one request
+ * pool, so the concurrency and rate limits apply to the suite as a whole.
+ */
+async function runSuite({
+  aiGateway,
+  run,
+  prompts,
+  models,
+  settings
+}: {
+  aiGateway: VercelAIGatewayClient
+  run: SuiteRun
+  prompts: SuitePrompt[]
+  models: Model[]
+  settings: BenchmarkSettings
+}): Promise<void> {
+  const { concurrency } = settings.generation
+  const scheduler = new RequestScheduler({ concurrency, rateLimits: settings.rateLimits })
+  let completed = 0
+  // Progress updates are written one after another so counts never go back
+  let progressUpdate = Promise.resolve()
+
+  try {
+    await runPool(prompts, concurrency, async suitePrompt => {
+      await runPromptBenchmark({
+        aiGateway,
+        text: suitePrompt.text,
+        models,
+        settings,
+        groundTruth: {
+          answers: suitePrompt.expected_answers || undefined,
+          pattern: suitePrompt.expected_pattern || undefined
+        },
+        tags: suitePrompt.tags,
+        suiteRunId: run.id,
+        scheduler
+      })
+      completed++
+      const completedPrompts = completed
+      progressUpdate = progressUpdate.then(() =>
+        getRepository().updateSuiteRun(run.id, { completed_prompts: completedPrompts })
+      )
+      await progressUpdate
+    })
+
+    await getRepository().updateSuiteRun(run.id, {
+      status: 'completed',
+      completed_at: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error(`Suite run ${run.id} failed:`, error)
+    await getRepository().updateSuiteRun(run.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      completed_at: new Date().toISOString()
+    })
+  }
+}
+
+/**
+ * Run a suite after the response is sent. The function is kept alive until
+ * the run settles, and a failure runSuite could not record itself is logged
+ * and recorded here so the run never stays "running".
+ */
+function runSuiteInBackground(options: Parameters<typeof runSuite>[0]): void {
+  const { run } = options
+
+  waitUntil(runSuite(options).catch(async error => {
+    console.error(`Suite run ${run.id} failed:`, error)
+    try {
+      await getRepository().updateSuiteRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString()
+      })
+    } catch (updateError) {
+      console.error(`Failed to mark suite run ${run.id} as failed:`, updateError)
+    }
+  }))
+}
+
+/**
+ * Re-run the analysis of a saved run with the settings it was saved with;
+ * grouping is deterministic so this reproduces the original groups and colors
+ */
+function analyzeSavedRun(
+  run: BenchmarkRun,
+  responses: SavedResponse[],
+  voting: VotingMode = 'model'
+): ConsensusAnalysis {
+  // Failed requests are saved for failure rates but have no answer to group
+  return ConsensusAnalyzer.analyzeConsensus(
+    responses.filter(response => response.status !== 'failed').map(response => ({
+      id: response.id,
+      model_id: response.model_id,
+      sample_index: response.sample_index,
+      response_text: response.response_text,
+      response_time_ms: response.response_time_ms,
+      model: response.model
+    })),
+    {
+      mode: run.clustering_mode || 'pairwise',
+      strategy: SIMILARITY_STRATEGY_NAMES.includes(run.similarity_strategy as SimilarityStrategyName)
+        ? run.similarity_strategy as SimilarityStrategyName
+        : undefined,
+      threshold: run.similarity_threshold != null ? Number(run.similarity_threshold) : undefined,
+      canonicalization: run.canonicalization || undefined,
+      groundTruth: {
+        answers: run.expected_answers || undefined,
+        pattern: run.expected_pattern || undefined
+      },
+      voting,
+      weighting: run.vote_weighting || 'equal',
+      weights: run.vote_weights || undefined
+    }
+  )
+}
+
+export {
+  SimilaritySchema,
+  CanonicalizationSchema,
+  GroundTruthSchema,
+  VoteWeightingSchema,
+  loadModelProfiles,
+  checkRunBudget,
+  runPromptBenchmark,
+  runSuite,
+  runSuiteInBackground,
+  analyzeSavedRun
+}
+export type { BenchmarkSettings, BenchmarkResult, BenchmarkProgressEvent, PromptBenchmarkOutcome }
@@ -0,0 +1,196 @@
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettings } from './generation-settings'
+import { ModelProfileOverrides, applyModelProfile } from './model-profiles'
+import { PricingOverrides, computeCost, resolvePricing, formatCost } from './pricing'
+
+// Limits in USD; null means no limit. Set on the server through the
+// environment, so requests cannot raise or skip them.
+interface BudgetSettings {
+  perRunUsd: number | null
+  monthlyUsd: number | null
+  // Ask before going over budget instead of refusing to run
+  requireConfirmation: boolean
+}
+
+interface CostEstimate {
+  requests: number
+  inputTokens: number
+  // Upper bound: every completion is assumed to use its full max tokens
+  outputTokens: number
+  // Covers the priced models only; null when none of them has a price
+  costUsd: number | null
+  unpricedModels: string[]
+}
+
+interface BudgetCheck {
+  estimate: CostEstimate
+  // Spent since the start of the month (UTC), when a monthly budget is set
+  monthSpentUsd: number | null
+  exceeded: boolean
+  reasons: string[]
+  // Whether the user may confirm going over the limits for this one run
+  confirmable: boolean
+}
+
+// Error code of the 402 reply when a run would go over budget
+const BUDGET_EXCEEDED = 'BUDGET_EXCEEDED'
+
+// A run that was refused because it would go over budget
+class BudgetExceededError extends Error {
+  readonly check: BudgetCheck
+
+  constructor(check: BudgetCheck) {
+    super(`${check.reasons.join('. ')}.`)
+    this.name = 'BudgetExceededError'
+    this.check = check
+  }
+}
+
+const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  perRunUsd: null,
+  monthlyUsd: null,
+  requireConfirmation: true
+}
+
+// Rough average for English text; real counts depend on each provider's tokenizer
+const CHARS_PER_TOKEN = 4
+// Chat formatting added around the system and user messages
+const MESSAGE_OVERHEAD_TOKENS = 8
+
+function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0
+}
+
+/**
+ * Estimate the tokens and cost of sending every prompt to every model, with
+ * each model's profile applied and repeated samples counted
+ */
+function estimateBenchmarkCost({
+  prompts,
+  models,
+  generation,
+  profiles,
+  pricing
+}: {
+  prompts: string[]
+  models: Array<{
+    model_id: string
+    name: string
+    input_price_per_million?: number | null
+    output_price_per_million?: number | null
+  }>
+  generation?: Partial<GenerationSettings>
+  // Keyed by gateway model id
+  profiles?: Record<string, ModelProfileOverrides>
+  pricing?: PricingOverrides | null
+}): CostEstimate {
+  const settings = { ...DEFAULT_GENERATION_SETTINGS, ...generation }
+  const estimate: CostEstimate = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: null, unpricedModels: [] }
+
+  models.forEach(model => {
+    const modelPricing = resolvePricing(model, pricing)
+    if (!modelPricing) estimate.unpricedModels.push(model.name)
+
+    prompts.forEach(prompt => {
+      const { prompt: text, options } = applyModelProfile(
+        prompt,
+        { systemPrompt: settings.systemPrompt, maxTokens: settings.maxTokens },
+        profiles?.[model.model_id]
+      )
+      const inputTokens = (estimateTokens(options.systemPrompt) + estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS) * settings.samples
+      const outputTokens = options.maxTokens * settings.samples
+      const cost = computeCost({ inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }, modelPricing)
+
+      estimate.requests += settings.samples
+      estimate.inputTokens += inputTokens
+      estimate.outputTokens += outputTokens
+      if (cost !== null) estimate.costUsd = (estimate.costUsd ?? 0) + cost
+    })
+  })
+
+  return estimate
+}
+
+/**
+ * Compare an estimate with the per-run and monthly limits. Unpriced models
+ * count as free, so a run of only unpriced models never exceeds a budget.
+ */
+function checkBudget(
+  estimate: CostEstimate,
+  budget: Partial<BudgetSettings> | null | undefined,
+  monthSpentUsd: number | null = null
+): BudgetCheck {
+  const cost = estimate.costUsd ?? 0
+  const reasons: string[] = []
+
+  if (budget?.perRunUsd != null && cost > budget.perRunUsd) {
+    reasons.push(`Estimated cost ${formatCost(cost)} exceeds the per-run budget of ${formatCost(budget.perRunUsd)}`)
+  }
+
+  if (budget?.monthlyUsd != null && monthSpentUsd !== null && monthSpentUsd + cost > budget.monthlyUsd) {
+    reasons.push(`${formatCost(monthSpentUsd)} spent this month plus an estimated ${formatCost(cost)} exceeds the monthly budget of ${formatCost(budget.monthlyUsd)}`)
+  }
+
+  return {
+    estimate,
+    monthSpentUsd,
+    exceeded: reasons.length > 0,
+    reasons,
+    confirmable: budget?.requireConfirmation ?? DEFAULT_BUDGET_SETTINGS.requireConfirmation
+  }
+}
+
+/**
+ * Start of the current calendar month in UTC, as an ISO timestamp
+ */
+function getMonthStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+}
+
+/**
+ * Read the limits from BUDGET_PER_RUN_USD, BUDGET_MONTHLY_USD and
+ * BUDGET_REQUIRE_CONFIRMATION. Unset or non-positive limits mean no limit;
+ * over-budget runs may be confirmed unless confirmation is set to "false".
+ */
+function getBudgetSettings(env: Record<string, string | undefined> = process.env): BudgetSettings {
+  const limit = (value: string | undefined): number | null => {
+    const parsed = parseFloat(value ?? '')
+    return parsed > 0 ? parsed : null
+  }
+
+  return {
+    perRunUsd: limit(env.BUDGET_PER_RUN_USD),
+    monthlyUsd: limit(env.BUDGET_MONTHLY_USD),
+    requireConfirmation: env.BUDGET_REQUIRE_CONFIRMATION?.trim().toLowerCase() !== 'false'
+  }
+}
+
+/**
+ * Load the server's limits for the pre-flight estimate in the browser. Falls
+ * back to no limits, since the server checks every run again anyway.
+ */
+async function loadBudgetSettings(): Promise<BudgetSettings> {
+  try {
+    const response = await fetch('/api/budget')
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load budget')
+    }
+    return data.budget
+  } catch (error) {
+    console.error('Error loading budget:', error)
+    return DEFAULT_BUDGET_SETTINGS
+  }
+}
+
+export {
+  BUDGET_EXCEEDED,
+  BudgetExceededError,
+  DEFAULT_BUDGET_SETTINGS,
+  estimateTokens,
+  estimateBenchmarkCost,
+  checkBudget,
+  getMonthStart,
+  getBudgetSettings,
+  loadBudgetSettings
+}
+export type { BudgetSettings, CostEstimate, BudgetCheck }
@@ -0,0 +1,176 @@
+import { parseNumber } from './similarity-strategies'
+import { stripConfidence } from './vote-weights'
+
+interface CanonicalizationOptions {
+  // Drop self-reported confidence such as "(confidence: 80%)"
+  stripConfidence?: boolean
+  extractFinalAnswer?: boolean
+  foldUnicode?: boolean
+  stripPrefixes?: boolean
+  stripArticles?: boolean
+  numberWordsToDigits?: boolean
+  // Maps an alias to its canonical form, e.g. { usa: 'united states' }
+  aliases?: Record<string, string>
+}
+
+const DEFAULT_ALIASES: Record<string, string> = {
+  'usa': 'united states',
+  'united states of america': 'united states',
+  'america': 'united states',
+  'uk': 'united kingdom',
+  'great britain': 'united kingdom',
+  'britain': 'united kingdom',
+  'uae': 'united arab emirates',
+  'nyc': 'new york city',
+  'mt everest': 'mount everest',
+  'everest': 'mount everest'
+}
+
+// Phrases models put in front of the actual answer
+const ANSWER_PREFIXES = [
+  'the final answer is',
+  'the correct answer is',
+  'the answer is',
+  'final answer',
+  'answer is',
+  'answer',
+  'i think it is',
+  'i think',
+  'i believe',
+  'it is',
+  'its',
+  'that would be',
+  'that is'
+]
+
+const ARTICLES = ['the', 'a', 'an']
+
+// "US" only names the country in capitals; lowercased it is the pronoun, so it
+// is matched before normalizing and handed on as "USA"
+const US_ACRONYM = /^U\.?S\.?$/
+
+// Words ending in a period that do not end a sentence, e.g. "Mt. Everest"
+const ABBREVIATIONS = ['mt', 'st', 'dr', 'mr', 'mrs', 'ms', 'jr', 'sr', 'vs', 'no', 'approx', 'ca', 'eg', 'ie', 'etc']
+
+const NUMBER_WORD_PATTERN = /\b(?:(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand|million|billion)(?:\s+(?:and\s+)?|\b))+/g
+
+/**
+ * Reduces a model reply to a canonical answer before consensus grouping. Each
+ * step can be switched off; all steps run by default.
+ */
+export class Canonicalizer {
+  private options: Required<Omit<CanonicalizationOptions, 'aliases'>>
+  private aliases: Record<string, string>
+
+  constructor(options: CanonicalizationOptions = {}) {
+    this.options = {
+      stripConfidence: options.stripConfidence ?? true,
+      extractFinalAnswer: options.extractFinalAnswer ?? true,
+      foldUnicode: options.foldUnicode ?? true,
+      stripPrefixes: options.stripPrefixes ?? true,
+      stripArticles: options.stripArticles ?? true,
+      numberWordsToDigits: options.numberWordsToDigits ?? true
+    }
+
+    // User aliases are normalized the same way as answers so they match reliably
+    this.aliases = {}
+    Object.entries({ ...DEFAULT_ALIASES, ...options.aliases }).forEach(([alias, canonical]) => {
+      this.aliases[this.normalize(alias)] = this.normalize(canonical)
+    })
+  }
+
+  canonicalize(text: string): string {
+    let result = text
+
+    if (this.options.stripConfidence) {
+      result = stripConfidence(result)
+    }
+
+    if (this.options.extractFinalAnswer) {
+      result = this.extractFinalAnswer(result)
+    }
+
+    if (US_ACRONYM.test(result.trim())) {
+      result = 'USA'
+    }
+
+    result = this.normalize(result)
+
+    if (this.options.stripPrefixes) {
+      const prefix = ANSWER_PREFIXES.find(p => result === p || result.startsWith(`${p} `))
+      if (prefix && result !== prefix) {
+        result = result.slice(prefix.length).trim()
+      }
+    }
+
+    if (this.options.stripArticles) {
+      const [first, ...rest] = result.split(' ')
+      if (ARTICLES.includes(first) && rest.length > 0) {
+        result = rest.join(' ')
+      }
+    }
+
+    if (this.options.numberWordsToDigits) {
+      result = result.replace(NUMBER_WORD_PATTERN, match => {
+        const value = parseNumber(match.trim())
+        return value === null ? match : `${value}${match.endsWith(' ') ? ' ' : ''}`
+      }).trim()
+    }
+
+    return this.aliases[result] ?? result
+  }
+
+  /**
+   * Lowercase, optionally fold diacritics, and strip punctuation except
+   * decimal and thousands separators between digits ("3.5", "1,000")
+   */
+  private normalize(text: string): string {
+    let result = text.toLowerCase().trim()
+
+    if (this.options.foldUnicode) {
+      result = result.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    }
+
+    return result
+      .replace(/[-_]/g, ' ') // Hyphenated words ("twenty-one") become separate tokens
+      .replace(/(?!(?<=\d)[.,]\d)[^\p{L}\p{N}\s]/gu, '') // Remove punctuation
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim()
+  }
+
+  /**
+   * Pull the final answer out of a longer reply: an explicit "answer:" marker,
+   * then bold text, then the first sentence of the first non-empty line.
+   * Replies lead with the answer and follow with the explanation.
+   */
+  private extractFinalAnswer(text: string): string {
+    const marker = text.match(/(?:final answer|answer)\s*(?:is)?\s*[:=-]\s*(.+)/i)
+    if (marker) {
+      return marker[1].split('\n')[0]
+    }
+
+    const bold = text.match(/\*\*(.+?)\*\*/)
+    if (bold) {
+      return bold[1]
+    }
+
+    const firstLine = text.split('\n').map(line => line.trim()).find(Boolean)
+    if (!firstLine) {
+      return text
+    }
+
+    // Sentences end at . ! or ? before a capitalized word, except after an abbreviation
+    const sentenceEnd = /([.!?])\s+(?=\p{Lu})/gu
+    for (const match of firstLine.matchAll(sentenceEnd)) {
+      const sentence = firstLine.slice(0, match.index! + 1)
+      const lastWord = sentence.slice(0, -1).split(/\s+/).pop()!.toLowerCase().replace(/\./g, '')
+      if (match[1] !== '.' || !ABBREVIATIONS.includes(lastWord)) {
+        return sentence
+      }
+    }
+
+    return firstLine
+  }
+}
+
+export type { CanonicalizationOptions }
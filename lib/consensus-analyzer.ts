@@ -1,8 +1,41 @@
+import {
+  SimilarityStrategy,
+  SimilarityStrategyName,
+  getSimilarityStrategy,
+  getDefaultThreshold,
+  describeSimilarityStrategy
+} from './similarity-strategies'
+import {
+  Vectorizer,
+  TfIdfVectorizer,
+  cosineSimilarity,
+  meanVector,
+  DEFAULT_SEMANTIC_THRESHOLD
+} from './vectorizers'
+import { Canonicalizer, CanonicalizationOptions } from './canonicalizer'
+import { GroundTruth, hasGroundTruth, scoreResponse } from './accuracy-scorer'
+import { VoteWeighting, NEUTRAL_CONFIDENCE, parseConfidence, getVoteWeightingLabel } from './vote-weights'
+import {
+  ConfidenceInterval,
+  FleissKappa,
+  shannonEntropy,
+  normalizedEntropy,
+  bootstrapConsensus,
+  classifyMajority,
+  fleissKappa,
+  formatInterval
+} from './agreement-statistics'
+import type { AgreementMatrix } from './agreement-matrix'
+
 interface Response {
   id: string
   model_id: string
   response_text: string
+  canonical_text?: string
+  is_correct?: boolean | null
   response_time_ms: number
+  // Position among repeated samples of the same model for one prompt
+  sample_index?: number
   model?: {
     name: string
     provider: string
@@ -16,18 +49,74 @@ interface ConsensusGroup {
   color: string
   models: string[]
   responses: Response[]
+  // Only set in semantic mode
+  centroid?: number[]
+  cohesion?: number
+  // Only set when the prompt has a ground truth
+  isCorrect?: boolean
+  // Sum of the group's vote weights and its share of all weight
+  weight: number
+  weightedPercentage: number
+}
+
+type ClusteringMode = 'pairwise' | 'semantic'
+
+// Whether each model counts once (its own majority answer) or every sample counts
+type VotingMode = 'model' | 'sample'
+
+interface ModelConsistency {
+  modelId: string
+  modelName: string
+  samples: number
+  majorityAnswer: string
+  // Percentage of the model's samples that match its own majority answer
+  consistency: number
 }
 
 interface ConsensusAnalysis {
   groups: ConsensusGroup[]
   totalResponses: number
   consensusLevel: number
+  // Groups per response; kept for older clients, prefer normalizedEntropy
   diversity: number
+  // Shannon entropy of the group distribution in bits, and as a fraction of
+  // its maximum for this many responses
+  entropy: number
+  normalizedEntropy: number
+  // Bootstrap interval around consensusLevel
+  consensusInterval: ConfidenceInterval
+  // Percentage of bootstrap resamples in which the top group stays on top
+  topResponseStability: number
   topResponse: string
+  mode: ClusteringMode
+  strategy: string
+  threshold: number
+  // Percentage of correct responses, when the prompt has a ground truth
+  accuracy?: number
+  voting: VotingMode
+  // Only set when at least one model answered more than once
+  selfConsistency?: ModelConsistency[]
+  weighting: VoteWeighting
+  // Share of the total vote weight behind the heaviest group, and its label
+  weightedConsensusLevel: number
+  weightedTopResponse: string
+}
+
+interface ConsensusOptions {
+  mode?: ClusteringMode
+  strategy?: SimilarityStrategyName | SimilarityStrategy
+  vectorizer?: Vectorizer
+  threshold?: number
+  canonicalization?: CanonicalizationOptions
+  groundTruth?: GroundTruth | null
+  voting?: VotingMode
+  weighting?: VoteWeighting
+  // Vote weight per model id, used by the accuracy and trust weightings;
+  // models without an entry count 1
+  weights?: Record<string, number>
 }
 
 export class ConsensusAnalyzer {
-  private static readonly SIMILARITY_THRESHOLD = 0.8
   private static readonly COLORS = [
     '#3B82F6', // Blue
     '#EF4444', // Red
@@ -41,180 +130,365 @@ export class ConsensusAnalyzer {
     '#6B7280', // Gray
   ]
 
+  // Percentage points by which a provider's models must agree with each other
+  // more than with other providers before their agreement is called clustering
+  private static readonly PROVIDER_CLUSTERING_MARGIN = 10
+
   /**
    * Analyze responses to find consensus groups
    */
-  static analyzeConsensus(responses: Response[]): ConsensusAnalysis {
+  static analyzeConsensus(responses: Response[], options: ConsensusOptions = {}): ConsensusAnalysis {
+    const mode = options.mode || 'pairwise'
+    const strategy = typeof options.strategy === 'object'
+      ? options.strategy
+      : getSimilarityStrategy(options.strategy || 'levenshtein')
+    const vectorizer = options.vectorizer || new TfIdfVectorizer()
+    const strategyName = mode === 'semantic' ? vectorizer.name : strategy.name
+    const threshold = options.threshold ??
+      (mode === 'semantic' ? DEFAULT_SEMANTIC_THRESHOLD : getDefaultThreshold(strategy.name))
+    const voting = options.voting || 'model'
+    const weighting = options.weighting || 'equal'
+
     if (responses.length === 0) {
       return {
         groups: [],
         totalResponses: 0,
         consensusLevel: 0,
         diversity: 0,
-        topResponse: ''
+        entropy: 0,
+        normalizedEntropy: 0,
+        consensusInterval: { lower: 0, upper: 0, confidence: 0.95 },
+        topResponseStability: 0,
+        topResponse: '',
+        mode,
+        strategy: strategyName,
+        threshold,
+        voting,
+        weighting,
+        weightedConsensusLevel: 0,
+        weightedTopResponse: ''
       }
     }
 
+    // Canonicalize answers, keeping the raw text alongside
+    const canonicalizer = new Canonicalizer(options.canonicalization)
+    const groundTruth = hasGroundTruth(options.groundTruth) ? options.groundTruth : null
+    const canonicalized = responses.map(response => ({
+      ...response,
+      canonical_text: canonicalizer.canonicalize(response.response_text),
+      ...(groundTruth && { is_correct: scoreResponse(response.response_text, groundTruth, canonicalizer) })
+    }))
+
+    const group = (members: Response[]) => this.sortGroups(mode === 'semantic'
+      ? this.clusterResponses(this.canonicalOrder(members), vectorizer, threshold)
+      : this.groupSimilarResponses(this.canonicalOrder(members), strategy, threshold))
+
+    // Group each model's samples by themselves to find its own majority answer
+    const byModel = new Map<string, Response[]>()
+    canonicalized.forEach(response => {
+      byModel.set(response.model_id, [...(byModel.get(response.model_id) || []), response])
+    })
+    const hasRepeats = Array.from(byModel.values()).some(samples => samples.length > 1)
+    const modelMajorities = hasRepeats
+      ? Array.from(byModel.entries()).map(([modelId, samples]) => ({ modelId, samples, groups: group(samples) }))
+      : []
+    const selfConsistency = hasRepeats
+      ? modelMajorities.map(({ modelId, samples, groups }) => ({
+          modelId,
+          modelName: samples[0].model?.name || modelId,
+          samples: samples.length,
+          majorityAnswer: groups[0].groupName,
+          consistency: (groups[0].count / samples.length) * 100
+        })).sort((a, b) => a.modelName.localeCompare(b.modelName))
+      : undefined
+
+    // With one vote per model, each model is represented by a sample from its
+    // majority group
+    const voters = voting === 'model' && hasRepeats
+      ? modelMajorities.map(({ groups }) => groups[0].responses[0])
+      : canonicalized
+
     // Group similar responses
-    const groups = this.groupSimilarResponses(responses)
-    
-    // Sort groups by count (descending)
-    groups.sort((a, b) => b.count - a.count)
+    const groups = group(voters)
+
+    const voteWeight = (response: Response): number => {
+      switch (weighting) {
+        case 'confidence':
+          return parseConfidence(response.response_text) ?? NEUTRAL_CONFIDENCE
+        case 'accuracy':
+        case 'trust':
+          return options.weights?.[response.model_id] ?? 1
+        default:
+          return 1
+      }
+    }
+    const totalWeight = voters.reduce((sum, response) => sum + voteWeight(response), 0)
     
-    // Assign colors
+    // Assign colors and weights
     groups.forEach((group, index) => {
       group.color = this.COLORS[index % this.COLORS.length]
+      if (groundTruth) {
+        group.isCorrect = group.responses.some(response => response.is_correct)
+      }
+      group.weight = group.responses.reduce((sum, response) => sum + voteWeight(response), 0)
+      group.weightedPercentage = totalWeight > 0 ? (group.weight / totalWeight) * 100 : 0
     })
 
+    // Ties go to the larger group, as groups are already sorted by count
+    const weightedTop = groups.reduce<ConsensusGroup | null>(
+      (best, group) => (!best || group.weight > best.weight ? group : best),
+      null
+    )
+
     // Calculate metrics
-    const totalResponses = responses.length
+    const totalResponses = voters.length
     const consensusLevel = groups.length > 0 ? (groups[0].count / totalResponses) * 100 : 0
     const diversity = groups.length / totalResponses
+    const counts = groups.map(group => group.count)
+    const bootstrap = bootstrapConsensus(counts)
     const topResponse = groups.length > 0 ? groups[0].groupName : ''
+    const accuracy = groundTruth
+      ? (voters.filter(response => response.is_correct).length / totalResponses) * 100
+      : undefined
 
     return {
       groups,
       totalResponses,
       consensusLevel,
       diversity,
-      topResponse
+      entropy: shannonEntropy(counts),
+      normalizedEntropy: normalizedEntropy(counts),
+      consensusInterval: bootstrap.interval,
+      topResponseStability: bootstrap.topStability,
+      topResponse,
+      mode,
+      strategy: strategyName,
+      threshold,
+      accuracy,
+      voting,
+      selfConsistency,
+      weighting,
+      weightedConsensusLevel: weightedTop?.weightedPercentage ?? 0,
+      weightedTopResponse: weightedTop?.groupName ?? ''
     }
   }
 
   /**
-   * Group responses by similarity
+   * Sort groups by count (descending), then label, so colors are stable
    */
-  private static groupSimilarResponses(responses: Response[]): ConsensusGroup[] {
-    const groups: ConsensusGroup[] = []
+  private static sortGroups(groups: ConsensusGroup[]): ConsensusGroup[] {
+    return groups.sort((a, b) => b.count - a.count || (a.groupName < b.groupName ? -1 : a.groupName > b.groupName ? 1 : 0))
+  }
 
-    for (const response of responses) {
-      const normalizedText = this.normalizeText(response.response_text)
-      
-      // Find existing group or create new one
-      let group = groups.find(g => 
-        this.calculateSimilarity(g.groupName, normalizedText) >= this.SIMILARITY_THRESHOLD
-      )
-
-      if (!group) {
-        group = {
-          groupName: normalizedText,
-          count: 0,
-          percentage: 0,
-          color: '',
-          models: [],
-          responses: []
-        }
-        groups.push(group)
+  /**
+   * Group responses by similarity. Every pair of responses is compared and
+   * similar pairs are joined with union-find, so the result does not depend on
+   * the order in which the models answered.
+   */
+  private static groupSimilarResponses(
+    responses: Response[],
+    strategy: SimilarityStrategy,
+    threshold: number
+  ): ConsensusGroup[] {
+    const texts = responses.map(response => response.canonical_text!)
+    const similarity = texts.map(a => texts.map(b => strategy.compare(a, b)))
+    const parent = responses.map((_, i) => i)
+
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]]
+        i = parent[i]
       }
+      return i
+    }
 
-      // Add response to group
-      group.count++
-      group.responses.push(response)
-      
-      if (response.model) {
-        group.models.push(response.model.name)
+    for (let i = 0; i < responses.length; i++) {
+      for (let j = i + 1; j < responses.length; j++) {
+        if (similarity[i][j] >= threshold) {
+          const rootI = find(i)
+          const rootJ = find(j)
+          if (rootI !== rootJ) parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ)
+        }
       }
     }
 
-    // Calculate percentages
-    const total = responses.length
-    groups.forEach(group => {
-      group.percentage = (group.count / total) * 100
+    const clusters = new Map<number, number[]>()
+    responses.forEach((_, i) => {
+      const root = find(i)
+      clusters.set(root, [...(clusters.get(root) || []), i])
     })
 
-    return groups
+    return Array.from(clusters.values()).map(members => {
+      // Label the group with its medoid: the member most similar to all others
+      const scores = members.map(i => members.reduce((sum, j) => sum + similarity[i][j], 0))
+      const labelIndex = members[scores.indexOf(Math.max(...scores))]
+
+      return this.buildGroup(texts[labelIndex], members.map(i => responses[i]), responses.length)
+    })
   }
 
   /**
-   * Normalize text for comparison
+   * Group responses by average-linkage agglomerative clustering over vectors
+   * produced by a local vectorizer
    */
-  private static normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
+  private static clusterResponses(
+    responses: Response[],
+    vectorizer: Vectorizer,
+    threshold: number
+  ): ConsensusGroup[] {
+    const texts = responses.map(response => response.canonical_text!)
+    const vectors = vectorizer.vectorize(texts)
+    const similarity = vectors.map(a => vectors.map(b => cosineSimilarity(a, b)))
+
+    // Start with one cluster per response and merge the closest pair until no
+    // pair is similar enough
+    let clusters = responses.map((_, i) => [i])
+
+    while (clusters.length > 1) {
+      let best = { score: -1, a: -1, b: -1 }
+
+      for (let a = 0; a < clusters.length; a++) {
+        for (let b = a + 1; b < clusters.length; b++) {
+          let sum = 0
+          clusters[a].forEach(i => clusters[b].forEach(j => { sum += similarity[i][j] }))
+          const score = sum / (clusters[a].length * clusters[b].length)
+          if (score > best.score) best = { score, a, b }
+        }
+      }
+
+      if (best.score < threshold) break
+
+      clusters[best.a] = clusters[best.a].concat(clusters[best.b])
+      clusters = clusters.filter((_, index) => index !== best.b)
+    }
+
+    return clusters.map(members => {
+      const centroid = meanVector(members.map(i => vectors[i]))
+      const centroidSimilarity = members.map(i => cosineSimilarity(vectors[i], centroid))
+
+      // Label the group with the member closest to its centroid
+      const labelIndex = members[centroidSimilarity.indexOf(Math.max(...centroidSimilarity))]
+      const group = this.buildGroup(texts[labelIndex], members.map(i => responses[i]), responses.length)
+
+      return {
+        ...group,
+        centroid,
+        cohesion: centroidSimilarity.reduce((sum, value) => sum + value, 0) / members.length
+      }
+    })
+  }
+
+  private static buildGroup(groupName: string, responses: Response[], total: number): ConsensusGroup {
+    return {
+      groupName,
+      count: responses.length,
+      percentage: (responses.length / total) * 100,
+      color: '',
+      models: responses.filter(r => r.model).map(r => r.model!.name),
+      responses,
+      weight: 0,
+      weightedPercentage: 0
+    }
   }
 
   /**
-   * Calculate similarity between two texts using Levenshtein distance
+   * Sort responses by content and identity so that grouping, labels and colors
+   * are identical however the input was ordered
    */
-  private static calculateSimilarity(text1: string, text2: string): number {
-    const normalized1 = this.normalizeText(text1)
-    const normalized2 = this.normalizeText(text2)
-    
-    if (normalized1 === normalized2) return 1.0
-    
-    const distance = this.levenshteinDistance(normalized1, normalized2)
-    const maxLength = Math.max(normalized1.length, normalized2.length)
-    
-    return maxLength === 0 ? 1.0 : 1 - (distance / maxLength)
+  private static canonicalOrder(responses: Response[]): Response[] {
+    const key = (response: Response) => [
+      response.canonical_text!,
+      response.model_id,
+      String(response.sample_index ?? 0).padStart(4, '0'),
+      response.id
+    ]
+
+    return [...responses].sort((a, b) => {
+      const keyA = key(a)
+      const keyB = key(b)
+      for (let i = 0; i < keyA.length; i++) {
+        if (keyA[i] !== keyB[i]) return keyA[i] < keyB[i] ? -1 : 1
+      }
+      return 0
+    })
   }
 
   /**
-   * Calculate Levenshtein distance between two strings
+   * Explain how groups were formed, for display next to saved results
    */
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null))
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        )
-      }
+  static describeGrouping(mode: ClusteringMode, strategy: string, threshold: number): string {
+    if (mode === 'semantic') {
+      return `Semantic clustering (${strategy}), cosine threshold ${threshold.toFixed(2)}`
     }
+    return describeSimilarityStrategy(strategy, threshold)
+  }
+
+  /**
+   * Whether generateInsights compares the analysis against the agreement
+   * history: only when the top group is several models of one provider
+   */
+  static needsAgreementHistory(analysis: ConsensusAnalysis): boolean {
+    const topGroup = analysis.groups[0]
+    if (!topGroup || topGroup.count < 2) return false
 
-    return matrix[str2.length][str1.length]
+    const providers = new Set(topGroup.responses.map(r => r.model?.provider).filter(Boolean))
+    return providers.size === 1
   }
 
   /**
-   * Generate insights about the consensus
+   * Generate insights about the consensus. Provider insights draw on the
+   * agreement matrix over past prompts when one is given.
    */
-  static generateInsights(analysis: ConsensusAnalysis): string[] {
+  static generateInsights(analysis: ConsensusAnalysis, history?: AgreementMatrix | null): string[] {
     const insights: string[] = []
-    const { groups, totalResponses, consensusLevel, diversity } = analysis
+    const { groups, totalResponses, consensusLevel, consensusInterval } = analysis
 
     if (totalResponses === 0) {
       return ['No responses to analyze.']
     }
 
-    // Consensus level insights
-    if (consensusLevel >= 80) {
-      insights.push(`Strong consensus: ${consensusLevel.toFixed(1)}% of models agreed on "${analysis.topResponse}".`)
-    } else if (consensusLevel >= 60) {
-      insights.push(`Moderate consensus: ${consensusLevel.toFixed(1)}% of models agreed on "${analysis.topResponse}".`)
-    } else if (consensusLevel >= 40) {
-      insights.push(`Weak consensus: Only ${consensusLevel.toFixed(1)}% of models agreed on "${analysis.topResponse}".`)
+    // Votes are cast by samples only when models were sampled more than once
+    const voters = analysis.voting === 'sample' && analysis.selfConsistency ? 'samples' : 'models'
+
+    // Consensus level insights, judged by whether the bootstrap interval
+    // clears a simple majority
+    const interval = formatInterval(consensusInterval)
+    if (totalResponses === 1) {
+      insights.push(`Single response: Agreement cannot be measured from one answer ("${analysis.topResponse}").`)
     } else {
-      insights.push(`No clear consensus: Responses were highly diverse with the top response only getting ${consensusLevel.toFixed(1)}% agreement.`)
+      switch (classifyMajority(consensusInterval)) {
+        case 'clear':
+          insights.push(`Clear majority: ${consensusLevel.toFixed(1)}% of ${voters} agreed on "${analysis.topResponse}" (${interval}); the majority holds across resamples of the ${voters}.`)
+          break
+        case 'uncertain':
+          insights.push(`Uncertain majority: ${consensusLevel.toFixed(1)}% of ${voters} agreed on "${analysis.topResponse}", but the ${interval} spans 50%, so another set of ${voters} could split differently.`)
+          break
+        case 'none':
+          insights.push(`No majority: The top response "${analysis.topResponse}" drew only ${consensusLevel.toFixed(1)}% of ${voters} (${interval}), below half even at the upper bound.`)
+          break
+      }
     }
 
-    // Diversity insights
-    if (diversity >= 0.8) {
-      insights.push('Very high diversity: Most models gave different responses.')
-    } else if (diversity >= 0.6) {
-      insights.push('High diversity: Many different responses were given.')
-    } else if (diversity >= 0.4) {
-      insights.push('Moderate diversity: Some variation in responses.')
-    } else {
-      insights.push('Low diversity: Models tended to give similar responses.')
+    // Spread insights; 2^entropy is the number of equally likely answers that
+    // would be as spread out
+    if (totalResponses > 1 && analysis.entropy === 0) {
+      insights.push(`No spread: Every one of the ${totalResponses} ${voters} fell in the same group (entropy 0 bits).`)
+    } else if (totalResponses > 1) {
+      insights.push(`Spread: Answer entropy is ${analysis.entropy.toFixed(2)} bits, ${(analysis.normalizedEntropy * 100).toFixed(0)}% of the maximum for ${totalResponses} ${voters}, as spread out as ${Math.pow(2, analysis.entropy).toFixed(1)} equally likely answers.`)
+    }
+
+    // Accuracy insights
+    if (analysis.accuracy !== undefined && groups.length > 0) {
+      const verdict = groups[0].isCorrect ? 'correct' : 'incorrect'
+      insights.push(`Accuracy: ${analysis.accuracy.toFixed(1)}% of ${voters} gave a correct answer; the consensus answer "${groups[0].groupName}" is ${verdict}.`)
     }
 
     // Group insights
-    if (groups.length >= 2) {
+    if (groups.length >= 2 && groups[0].count === groups[1].count) {
+      insights.push(`Tie: "${groups[0].groupName}" and "${groups[1].groupName}" each drew ${groups[0].percentage.toFixed(1)}% of ${voters}.`)
+    } else if (groups.length >= 2 && analysis.topResponseStability < 95) {
       const secondGroup = groups[1]
-      const gap = groups[0].percentage - secondGroup.percentage
-      
-      if (gap < 10) {
-        insights.push(`Close competition: "${groups[0].groupName}" (${groups[0].percentage.toFixed(1)}%) barely edged out "${secondGroup.groupName}" (${secondGroup.percentage.toFixed(1)}%).`)
-      }
+      insights.push(`Close competition: "${groups[0].groupName}" (${groups[0].percentage.toFixed(1)}%) stays strictly ahead of "${secondGroup.groupName}" (${secondGroup.percentage.toFixed(1)}%) in only ${analysis.topResponseStability.toFixed(0)}% of bootstrap resamples.`)
     }
 
     // Provider insights
@@ -223,25 +497,72 @@ export class ConsensusAnalyzer {
       const providers = topGroup.responses.map(r => r.model?.provider).filter(Boolean)
       const uniqueProviders = [...new Set(providers)]
       
-      if (uniqueProviders.length === 1) {
-        insights.push(`Provider bias: All models agreeing on "${topGroup.groupName}" were from ${uniqueProviders[0]}.`)
+      const record = this.needsAgreementHistory(analysis)
+        ? history?.providers.find(entry => entry.provider === uniqueProviders[0])
+        : undefined
+
+      if (record && record.withinAgreement !== null && record.crossAgreement !== null) {
+        const within = record.withinAgreement.toFixed(0)
+        const cross = record.crossAgreement.toFixed(0)
+        if (record.withinAgreement - record.crossAgreement >= this.PROVIDER_CLUSTERING_MARGIN) {
+          insights.push(`Provider clustering: Every model agreeing on "${topGroup.groupName}" is from ${record.provider}, and across ${history!.prompts} past prompts ${record.provider} models agreed with each other ${within}% of the time versus ${cross}% with other providers, so this agreement is weaker evidence than it looks.`)
+        } else {
+          insights.push(`Same-provider agreement: Every model agreeing on "${topGroup.groupName}" is from ${record.provider}, but across ${history!.prompts} past prompts ${record.provider} models agreed with each other (${within}%) about as often as with other providers (${cross}%).`)
+        }
       } else if (uniqueProviders.length >= 3) {
         insights.push(`Cross-provider agreement: Models from ${uniqueProviders.length} different providers agreed on "${topGroup.groupName}".`)
       }
     }
 
+    // Self-consistency insights
+    if (analysis.selfConsistency) {
+      const inconsistent = analysis.selfConsistency.filter(model => model.consistency < 100)
+      if (inconsistent.length === 0) {
+        insights.push('Self-consistency: Every model gave the same answer across all of its samples.')
+      } else {
+        const least = inconsistent.reduce((a, b) => (b.consistency < a.consistency ? b : a))
+        insights.push(`Self-consistency: ${inconsistent.length} of ${analysis.selfConsistency.length} models changed their answer between samples; ${least.modelName} was the least consistent at ${least.consistency.toFixed(1)}%.`)
+      }
+    }
+
+    // Weighted vote insights
+    if (analysis.weighting !== 'equal' && groups.length > 0) {
+      const weightedBy = getVoteWeightingLabel(analysis.weighting).toLowerCase()
+      if (analysis.weightedTopResponse !== analysis.topResponse) {
+        insights.push(`Weighted vote: Weighting by ${weightedBy} overturns the result; "${analysis.weightedTopResponse}" carries ${analysis.weightedConsensusLevel.toFixed(1)}% of the weight against ${consensusLevel.toFixed(1)}% of ${voters} for "${analysis.topResponse}".`)
+      } else {
+        insights.push(`Weighted vote: Weighting by ${weightedBy} confirms "${analysis.topResponse}" with ${analysis.weightedConsensusLevel.toFixed(1)}% of the weight.`)
+      }
+    }
+
     return insights
   }
 
+  /**
+   * Fleiss' kappa across several analyzed prompts, treating each prompt as a
+   * subject and each answer group label as a category
+   */
+  static fleissKappa(analyses: ConsensusAnalysis[]): FleissKappa | null {
+    return fleissKappa(analyses.map(analysis => {
+      const subject: Record<string, number> = {}
+      analysis.groups.forEach(group => {
+        subject[group.groupName] = (subject[group.groupName] || 0) + group.count
+      })
+      return subject
+    }))
+  }
+
   /**
    * Export consensus data to CSV format
    */
   static exportToCsv(analysis: ConsensusAnalysis, promptText: string): string {
-    const headers = ['Response', 'Count', 'Percentage', 'Models']
+    const headers = ['Response', 'Count', 'Percentage', 'Weight', 'Weighted Percentage', 'Models']
     const rows = analysis.groups.map(group => [
       `"${group.groupName.replace(/"/g, '""')}"`,
       group.count.toString(),
       group.percentage.toFixed(1),
+      group.weight.toFixed(2),
+      group.weightedPercentage.toFixed(1),
       `"${group.models.join(', ').replace(/"/g, '""')}"`
     ])
 
@@ -250,7 +571,15 @@ export class ConsensusAnalyzer {
       `# Prompt: "${promptText.replace(/"/g, '""')}"`,
       `# Generated: ${new Date().toISOString()}`,
       `# Total Responses: ${analysis.totalResponses}`,
-      `# Consensus Level: ${analysis.consensusLevel.toFixed(1)}%`,
+      `# Consensus Level: ${analysis.consensusLevel.toFixed(1)}% (${formatInterval(analysis.consensusInterval)})`,
+      `# Entropy: ${analysis.entropy.toFixed(3)} bits (normalized ${analysis.normalizedEntropy.toFixed(3)})`,
+      `# Top Response: "${analysis.topResponse.replace(/"/g, '""')}"`,
+      `# Weighting: ${getVoteWeightingLabel(analysis.weighting)}`,
+      `# Weighted Consensus Level: ${analysis.weightedConsensusLevel.toFixed(1)}%`,
+      `# Weighted Top Response: "${analysis.weightedTopResponse.replace(/"/g, '""')}"`,
+      ...(analysis.accuracy !== undefined ? [`# Accuracy: ${analysis.accuracy.toFixed(1)}%`] : []),
+      ...(analysis.selfConsistency ? [`# Voting: one vote per ${analysis.voting}`] : []),
+      `# Grouping: ${this.describeGrouping(analysis.mode, analysis.strategy, analysis.threshold)}`,
       ``,
       headers.join(','),
       ...rows.map(row => row.join(','))
@@ -266,21 +595,40 @@ export class ConsensusAnalyzer {
     totalModels: number
     uniqueResponses: number
     consensusLevel: number
+    consensusInterval: ConfidenceInterval
+    entropy: number
+    normalizedEntropy: number
     topResponse: string
-    responseDistribution: { response: string; count: number; percentage: number }[]
+    weightedConsensusLevel: number
+    weightedTopResponse: string
+    responseDistribution: { response: string; count: number; percentage: number; weightedPercentage: number }[]
   } {
     return {
       totalModels: analysis.totalResponses,
       uniqueResponses: analysis.groups.length,
       consensusLevel: analysis.consensusLevel,
+      consensusInterval: analysis.consensusInterval,
+      entropy: analysis.entropy,
+      normalizedEntropy: analysis.normalizedEntropy,
       topResponse: analysis.topResponse,
+      weightedConsensusLevel: analysis.weightedConsensusLevel,
+      weightedTopResponse: analysis.weightedTopResponse,
       responseDistribution: analysis.groups.map(group => ({
         response: group.groupName,
         count: group.count,
-        percentage: group.percentage
+        percentage: group.percentage,
+        weightedPercentage: group.weightedPercentage
       }))
     }
   }
 }
 
-export type { Response, ConsensusGroup, ConsensusAnalysis }
\ No newline at end of file
+export type {
+  Response,
+  ConsensusGroup,
+  ConsensusAnalysis,
+  ConsensusOptions,
+  ClusteringMode,
+  VotingMode,
+  ModelConsistency
+}
\ No newline at end of file
@@ -24,13 +24,18 @@ export function getStoredCredentials(): StoredCredentials | null {
   }
 }
 
-export function getVercelAIGatewayApiKey(): string | null {
+export function getVercelAIGatewayApiKey(request?: Request): string | null {
   // First try environment variable (for production)
   if (process.env.AI_GATEWAY_API_KEY) {
     return process.env.AI_GATEWAY_API_KEY
   }
   
-  // Fall back to localStorage (for development)
+  // On the server, fall back to request headers (for development with settings page)
+  if (request) {
+    return request.headers.get('X-Vercel-AI-Gateway-Key') || null
+  }
+  
+  // In the browser, fall back to localStorage (for development)
   const stored = getStoredCredentials()
   return stored?.apiKeys?.vercelAIGateway || null
 }
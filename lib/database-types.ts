@@ -0,0 +1,280 @@
+import type { CanonicalizationOptions } from './canonicalizer'
+import type { GenerationSettings } from './generation-settings'
+import type { VoteWeighting } from './vote-weights'
+import type { AttemptRecord } from './resilience'
+import type { ErrorCategory } from './error-taxonomy'
+import type { BenchmarkSettings } from './benchmark-runner'
+
+// Database types
+interface Model {
+  id: string
+  name: string
+  provider: string
+  model_id: string
+  enabled: boolean
+  context_length: number
+  // USD per million tokens, from the gateway's pricing metadata
+  input_price_per_million?: number | null
+  output_price_per_million?: number | null
+  created_at?: string
+  updated_at?: string
+}
+
+interface ModelProfile {
+  id: string
+  model_id: string
+  system_prompt?: string | null
+  temperature?: number | null
+  max_tokens?: number | null
+  prompt_template?: string | null
+  // Vote weight used by trust-weighted consensus; 1 when unset
+  trust_weight?: number | null
+  created_at?: string
+  updated_at?: string
+}
+
+// A distinct prompt text; asking the same text again adds a run to it
+interface Prompt {
+  id: string
+  text: string
+  // md5 of the text, unique
+  text_hash: string
+  created_at: string
+  // Bumped whenever the prompt is run again
+  updated_at?: string
+}
+
+type BenchmarkRunStatus = 'running' | 'completed' | 'cancelled' | 'failed'
+
+// One submission of a prompt to a set of models, with the settings it used
+interface BenchmarkRun {
+  id: string
+  prompt_id: string
+  model_ids: string[]
+  similarity_strategy?: string
+  similarity_threshold?: number
+  clustering_mode?: 'pairwise' | 'semantic'
+  canonicalization?: CanonicalizationOptions | null
+  expected_answers?: string[] | null
+  expected_pattern?: string | null
+  generation_settings?: GenerationSettings | null
+  vote_weighting?: VoteWeighting | null
+  // Vote weight per model id resolved when the run started
+  vote_weights?: Record<string, number> | null
+  suite_run_id?: string | null
+  tags?: string[] | null
+  // Cancelled runs keep the responses received before the cancellation
+  status: BenchmarkRunStatus
+  created_at: string
+  completed_at?: string | null
+  prompt?: Prompt
+}
+
+// A prompt with its runs, newest first
+type PromptHistoryEntry = Prompt & { runs: BenchmarkRun[] }
+
+type ResponseStatus = 'success' | 'failed'
+
+interface Response {
+  id: string
+  prompt_id: string
+  run_id: string
+  model_id: string
+  // Position among repeated samples of the same model, starting at 0
+  sample_index: number
+  response_text: string
+  canonical_text?: string | null
+  is_correct?: boolean | null
+  time_to_first_token_ms?: number | null
+  tokens_per_second?: number | null
+  input_tokens?: number | null
+  output_tokens?: number | null
+  cost_usd?: number | null
+  attempts?: AttemptRecord[] | null
+  // Failed requests are saved too, with an empty response text and the time
+  // spent across all attempts as the response time
+  status?: ResponseStatus | null
+  error_category?: ErrorCategory | null
+  error_message?: string | null
+  attempt_count?: number | null
+  response_time_ms: number
+  created_at: string
+  model?: Model
+}
+
+interface ConsensusGroup {
+  id: string
+  prompt_id: string
+  run_id: string
+  group_name: string
+  count: number
+  percentage: number
+  color: string
+  models?: string[] | null
+  // Null for groups saved before model ids were recorded
+  model_ids?: string[] | null
+  created_at: string
+}
+
+interface Suite {
+  id: string
+  name: string
+  description?: string | null
+  prompt_count?: number
+  created_at: string
+  updated_at?: string
+}
+
+interface SuitePrompt {
+  id: string
+  suite_id: string
+  position: number
+  text: string
+  expected_answers?: string[] | null
+  expected_pattern?: string | null
+  tags?: string[] | null
+  created_at: string
+}
+
+type SuiteRunStatus = 'running' | 'completed' | 'failed'
+
+interface SuiteRun {
+  id: string
+  suite_id: string
+  model_ids: string[]
+  status: SuiteRunStatus
+  total_prompts: number
+  completed_prompts: number
+  error?: string | null
+  // Set when the run was started for a drift schedule
+  schedule_id?: string | null
+  created_at: string
+  completed_at?: string | null
+  suite?: Pick<Suite, 'id' | 'name'>
+}
+
+// A pinned prompt set: a suite re-run against the same models with the same
+// settings, so each model's answers can be compared over time
+interface DriftSchedule {
+  id: string
+  suite_id: string
+  model_ids: string[]
+  settings: BenchmarkSettings
+  // Hours between scheduled runs; null when the set only runs on demand
+  interval_hours?: number | null
+  enabled: boolean
+  last_run_at?: string | null
+  created_at: string
+  updated_at?: string
+  suite?: Pick<Suite, 'id' | 'name'>
+}
+
+type NewModel = Omit<Model, 'id' | 'created_at' | 'updated_at'>
+type NewModelProfile = Omit<ModelProfile, 'id' | 'created_at' | 'updated_at'>
+type NewBenchmarkRun = Omit<BenchmarkRun, 'id' | 'status' | 'created_at' | 'completed_at' | 'prompt'>
+type BenchmarkRunUpdate = Partial<Pick<BenchmarkRun, 'status' | 'completed_at'>>
+type NewResponse = Omit<Response, 'id' | 'created_at'>
+type NewConsensusGroup = Omit<ConsensusGroup, 'id' | 'created_at'>
+type NewSuitePrompt = Pick<SuitePrompt, 'text' | 'expected_answers' | 'expected_pattern' | 'tags'>
+type SuiteRunUpdate = Partial<Pick<SuiteRun, 'status' | 'completed_prompts' | 'error' | 'completed_at'>>
+type NewDriftSchedule = Pick<DriftSchedule, 'suite_id' | 'model_ids' | 'settings' | 'interval_hours' | 'enabled'>
+type DriftScheduleUpdate = Partial<Pick<DriftSchedule, 'interval_hours' | 'enabled' | 'last_run_at'>>
+
+/**
+ * Data access used by the API routes and the benchmark runner. Implemented
+ * over Supabase and over a local store; getRepository() picks one from the
+ * environment. Saved responses come back with their model joined in.
+ */
+interface BenchmarkRepository {
+  // Models, ordered by provider then name
+  getModels(): Promise<Model[]>
+  updateModelEnabled(id: string, enabled: boolean): Promise<Model>
+  // Insert or update by gateway model id
+  upsertModels(models: NewModel[]): Promise<Model[]>
+
+  getModelProfiles(): Promise<ModelProfile[]>
+  upsertModelProfile(profile: NewModelProfile): Promise<ModelProfile>
+  deleteModelProfile(modelId: string): Promise<void>
+
+  // The prompt with this exact text, created when it was never asked before
+  findOrCreatePrompt(text: string): Promise<Prompt>
+  // Starts in the running status
+  createBenchmarkRun(run: NewBenchmarkRun): Promise<BenchmarkRun>
+  updateBenchmarkRun(id: string, updates: BenchmarkRunUpdate): Promise<void>
+  saveResponses(responses: NewResponse[]): Promise<Response[]>
+  saveConsensusGroups(groups: NewConsensusGroup[]): Promise<ConsensusGroup[]>
+
+  getScoredResponses(modelIds: string[]): Promise<Pick<Response, 'model_id' | 'is_correct'>[]>
+  // Total cost of the responses saved since the given timestamp
+  getSpendSince(from: string): Promise<number>
+  // Newest first
+  getConsensusGroupHistory(limit?: number): Promise<ConsensusGroup[]>
+  getRunsWithResponses(runIds: string[]): Promise<{ runs: BenchmarkRun[]; responses: Response[] }>
+  // Oldest first, with each response's run joined in
+  getResponseHistory(range?: { from?: string; to?: string }): Promise<Array<Response & { run: BenchmarkRun }>>
+  // Most recently run prompts first
+  getPromptHistory(limit?: number): Promise<PromptHistoryEntry[]>
+  getRunWithResults(runId: string): Promise<{
+    prompt: Prompt
+    run: BenchmarkRun
+    responses: Response[]
+    consensusGroups: ConsensusGroup[]
+  } | null>
+
+  createSuite(name: string, description: string | null, prompts: NewSuitePrompt[]): Promise<Suite>
+  // Newest first, with their prompt counts
+  getSuites(): Promise<Suite[]>
+  getSuitePrompts(suiteId: string): Promise<SuitePrompt[]>
+  createSuiteRun(suiteId: string, modelIds: string[], totalPrompts: number, scheduleId?: string): Promise<SuiteRun>
+  updateSuiteRun(id: string, updates: SuiteRunUpdate): Promise<void>
+  getSuiteRuns(limit?: number): Promise<SuiteRun[]>
+  // The suite run's benchmark runs come with their prompts joined in
+  getSuiteRunWithResults(runId: string): Promise<{
+    run: SuiteRun
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null>
+
+  createDriftSchedule(schedule: NewDriftSchedule): Promise<DriftSchedule>
+  // Newest first, with their suite names
+  getDriftSchedules(): Promise<DriftSchedule[]>
+  updateDriftSchedule(id: string, updates: DriftScheduleUpdate): Promise<void>
+  // Runs already made for the schedule are kept as plain suite runs
+  deleteDriftSchedule(id: string): Promise<void>
+  // The schedule's latest suite runs, oldest first, with their benchmark runs
+  // (prompts joined in) and responses
+  getDriftHistory(scheduleId: string, limit?: number): Promise<{
+    schedule: DriftSchedule
+    suiteRuns: SuiteRun[]
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null>
+}
+
+export type {
+  Model,
+  ModelProfile,
+  Prompt,
+  BenchmarkRunStatus,
+  BenchmarkRun,
+  PromptHistoryEntry,
+  ResponseStatus,
+  Response,
+  ConsensusGroup,
+  Suite,
+  SuitePrompt,
+  SuiteRunStatus,
+  SuiteRun,
+  DriftSchedule,
+  NewModel,
+  NewModelProfile,
+  NewBenchmarkRun,
+  BenchmarkRunUpdate,
+  NewResponse,
+  NewConsensusGroup,
+  NewSuitePrompt,
+  SuiteRunUpdate,
+  NewDriftSchedule,
+  DriftScheduleUpdate,
+  BenchmarkRepository
+}
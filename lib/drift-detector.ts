@@ -0,0 +1,194 @@
+import { BenchmarkRun, Response, SuiteRun } from './database-types'
+import { analyzeSavedRun } from './benchmark-runner'
+import { buildRunMatrix } from './suite-matrix'
+import { percentile } from './leaderboard'
+
+interface DriftThresholds {
+  // Share of prompts, in percent, whose answer may change between a model's
+  // consecutive runs before the model is flagged
+  answerChange: number
+  // Percentage points the model's majority agreement may move between runs
+  agreementChange: number
+}
+
+type DriftFlag = 'answers' | 'agreement'
+
+interface DriftAnswerChange {
+  promptId: string
+  text: string
+  previousAnswer: string
+  answer: string
+}
+
+// One model in one run of a pinned prompt set
+interface DriftPoint {
+  suiteRunId: string
+  createdAt: string
+  // Prompts answered, and requests that failed after all retries
+  answered: number
+  failures: number
+  // Share of prompts on which the model was in the largest consensus group
+  agreementRate: number | null
+  // Percentage points since the model's previous run
+  agreementChange: number | null
+  accuracy: number | null
+  // Prompts the model also answered in an earlier run, and the share of them
+  // on which its answer changed since
+  compared: number
+  answerChangeRate: number | null
+  changes: DriftAnswerChange[]
+  medianLatencyMs: number | null
+  flags: DriftFlag[]
+}
+
+interface ModelDrift {
+  modelId: string
+  name: string
+  provider: string
+  // Oldest first, one per run the model took part in
+  points: DriftPoint[]
+  flagged: boolean
+  // Median latency of the latest run against the first, in percent
+  latencyChangePercent: number | null
+}
+
+interface DriftReport {
+  runs: Array<Pick<SuiteRun, 'id' | 'status' | 'created_at'>>
+  // Flagged models first
+  models: ModelDrift[]
+  thresholds: DriftThresholds
+}
+
+const DEFAULT_DRIFT_THRESHOLDS: DriftThresholds = {
+  answerChange: 20,
+  agreementChange: 15
+}
+
+function answerText(response: Response): string {
+  return response.canonical_text || response.response_text
+}
+
+/**
+ * Whether two answers of a model to the same prompt fall in different groups
+ * under the run's own similarity settings, so rewording alone is no change
+ */
+function answersDiffer(run: BenchmarkRun, previous: Response, current: Response): boolean {
+  // Stand-in model ids make the two answers count as separate votes
+  const analysis = analyzeSavedRun(run, [
+    { ...previous, id: 'previous', model_id: 'previous' },
+    { ...current, id: 'current', model_id: 'current' }
+  ])
+  return analysis.groups.length > 1
+}
+
+/**
+ * Compare each model's answers, majority agreement and latency across the
+ * runs of a pinned prompt set, oldest first. A model is flagged at a run when
+ * its answers or agreement changed by more than the thresholds since its
+ * previous run. Runs still in progress are left out.
+ */
+function buildDriftReport(
+  history: { suiteRuns: SuiteRun[]; runs: BenchmarkRun[]; responses: Response[] },
+  thresholds: Partial<DriftThresholds> = {}
+): DriftReport {
+  const limits = { ...DEFAULT_DRIFT_THRESHOLDS, ...thresholds }
+  const suiteRuns = history.suiteRuns.filter(run => run.status !== 'running')
+  const models = new Map<string, ModelDrift>()
+  // Each model's latest answer per prompt, keyed by model and prompt id
+  const latestAnswers = new Map<string, Response>()
+
+  suiteRuns.forEach(suiteRun => {
+    const runs = history.runs.filter(run => run.suite_run_id === suiteRun.id)
+    const runIds = new Set(runs.map(run => run.id))
+    const responses = history.responses.filter(response => runIds.has(response.run_id))
+    const matrix = buildRunMatrix(runs, responses)
+
+    suiteRun.model_ids.forEach(modelId => {
+      const modelResponses = responses.filter(response => response.model_id === modelId)
+      if (modelResponses.length === 0) return
+
+      const answers = modelResponses.filter(response => response.status !== 'failed')
+      const entry = models.get(modelId) || {
+        modelId,
+        name: modelResponses[0].model?.name || 'Unknown',
+        provider: modelResponses[0].model?.provider || 'Unknown',
+        points: [],
+        flagged: false,
+        latencyChangePercent: null
+      }
+      const changes: DriftAnswerChange[] = []
+      let answered = 0
+      let compared = 0
+
+      runs.forEach(run => {
+        // With repeated samples, the first one stands for the model
+        const response = answers
+          .filter(item => item.run_id === run.id)
+          .sort((a, b) => (a.sample_index ?? 0) - (b.sample_index ?? 0))[0]
+        if (!response) return
+
+        answered++
+        const key = `${modelId}:${run.prompt_id}`
+        const previous = latestAnswers.get(key)
+        latestAnswers.set(key, response)
+        if (!previous) return
+
+        compared++
+        if (answersDiffer(run, previous, response)) {
+          changes.push({
+            promptId: run.prompt_id,
+            text: run.prompt?.text || '',
+            previousAnswer: answerText(previous),
+            answer: answerText(response)
+          })
+        }
+      })
+
+      const matrixModel = matrix.models.find(model => model.id === modelId)
+      const agreementRate = matrixModel && matrixModel.answered > 0 ? matrixModel.agreementRate : null
+      const previousPoint = entry.points[entry.points.length - 1]
+      const agreementChange = agreementRate !== null && previousPoint && previousPoint.agreementRate !== null
+        ? agreementRate - previousPoint.agreementRate
+        : null
+      const answerChangeRate = compared > 0 ? (changes.length / compared) * 100 : null
+
+      const flags: DriftFlag[] = []
+      if (answerChangeRate !== null && answerChangeRate > limits.answerChange) flags.push('answers')
+      if (agreementChange !== null && Math.abs(agreementChange) > limits.agreementChange) flags.push('agreement')
+
+      entry.points.push({
+        suiteRunId: suiteRun.id,
+        createdAt: suiteRun.created_at,
+        answered,
+        failures: modelResponses.length - answers.length,
+        agreementRate,
+        agreementChange,
+        accuracy: matrixModel?.accuracy ?? null,
+        compared,
+        answerChangeRate,
+        changes,
+        medianLatencyMs: percentile(answers.map(response => response.response_time_ms).sort((a, b) => a - b), 50),
+        flags
+      })
+      entry.flagged = entry.flagged || flags.length > 0
+      models.set(modelId, entry)
+    })
+  })
+
+  models.forEach(entry => {
+    const latencies = entry.points.map(point => point.medianLatencyMs).filter((value): value is number => value !== null)
+    entry.latencyChangePercent = latencies.length > 1 && latencies[0] > 0
+      ? ((latencies[latencies.length - 1] - latencies[0]) / latencies[0]) * 100
+      : null
+  })
+
+  return {
+    runs: suiteRuns.map(run => ({ id: run.id, status: run.status, created_at: run.created_at })),
+    models: Array.from(models.values())
+      .sort((a, b) => Number(b.flagged) - Number(a.flagged) || a.provider.localeCompare(b.provider) || a.name.localeCompare(b.name)),
+    thresholds: limits
+  }
+}
+
+export { DEFAULT_DRIFT_THRESHOLDS, buildDriftReport }
+export type { DriftThresholds, DriftFlag, DriftAnswerChange, DriftPoint, ModelDrift, DriftReport }
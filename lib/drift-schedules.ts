@@ -0,0 +1,93 @@
+import { getRepository } from './repository'
+import { checkRunBudget, runSuiteInBackground } from './benchmark-runner'
+import { BudgetExceededError } from './budget'
+import { DriftSchedule, SuiteRun } from './database-types'
+import VercelAIGatewayClient from './vercel-ai-gateway'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// The cron job may fire anywhere within its hour, so a run that is due within
+// the hour is started now rather than a whole cron interval later
+const DUE_LEEWAY_MS = HOUR_MS
+
+/**
+ * Whether a schedule's next run is due. Schedules without an interval only
+ * run on demand.
+ */
+function isScheduleDue(schedule: DriftSchedule, now: Date = new Date()): boolean {
+  if (!schedule.enabled || !schedule.interval_hours) return false
+  if (!schedule.last_run_at) return true
+
+  return now.getTime() - new Date(schedule.last_run_at).getTime() >= schedule.interval_hours * HOUR_MS - DUE_LEEWAY_MS
+}
+
+/**
+ * Start a run of a pinned prompt set with the models and settings it was
+ * pinned with. The prompts are processed in the background, like any suite
+ * run; the returned run can be polled for progress. Throws a
+ * BudgetExceededError when the run would go over budget, unless the user
+ * confirmed it and the budget allows confirming.
+ */
+async function startDriftRun(
+  aiGateway: VercelAIGatewayClient,
+  schedule: DriftSchedule,
+  { confirmOverBudget = false }: { confirmOverBudget?: boolean } = {}
+): Promise<SuiteRun> {
+  const [allModels, prompts] = await Promise.all([
+    getRepository().getModels(),
+    getRepository().getSuitePrompts(schedule.suite_id)
+  ])
+  const models = allModels.filter(model => schedule.model_ids.includes(model.id))
+
+  if (models.length === 0) {
+    throw new Error('None of the pinned models exist anymore')
+  }
+  if (prompts.length === 0) {
+    throw new Error('Suite not found or has no prompts')
+  }
+
+  // The whole set counts as one run against the per-run budget
+  const budgetCheck = await checkRunBudget({
+    prompts: prompts.map(prompt => prompt.text),
+    models,
+    settings: schedule.settings
+  })
+  if (budgetCheck.exceeded && !(budgetCheck.confirmable && confirmOverBudget)) {
+    throw new BudgetExceededError(budgetCheck)
+  }
+
+  const run = await getRepository().createSuiteRun(
+    schedule.suite_id,
+    models.map(model => model.id),
+    prompts.length,
+    schedule.id
+  )
+  await getRepository().updateDriftSchedule(schedule.id, { last_run_at: run.created_at })
+
+  // Runs after the response; progress and failures are recorded on the run
+  runSuiteInBackground({ aiGateway, run, prompts, models, settings: schedule.settings })
+
+  return run
+}
+
+/**
+ * Start every enabled schedule whose interval has passed. A schedule that
+ * cannot start, e.g. because it would go over budget, is logged and skipped
+ * so the others still run; nobody is there to confirm going over budget.
+ */
+async function startDueDriftRuns(aiGateway: VercelAIGatewayClient, now: Date = new Date()): Promise<SuiteRun[]> {
+  const schedules = await getRepository().getDriftSchedules()
+  const started: SuiteRun[] = []
+
+  for (const schedule of schedules.filter(item => isScheduleDue(item, now))) {
+    try {
+      started.push(await startDriftRun(aiGateway, schedule))
+    } catch (error) {
+      console.error(`Failed to start scheduled drift run ${schedule.id}:`, error)
+    }
+  }
+
+  return started
+}
+
+export { isScheduleDue, startDriftRun, startDueDriftRuns }
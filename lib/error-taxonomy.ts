@@ -0,0 +1,126 @@
+import { CircuitOpenError, classifyError, unwrapErrors } from './resilience'
+
+// Why a model request failed, as saved with the failed response
+type ErrorCategory =
+  | 'timeout'
+  | 'rate_limit'
+  | 'auth'
+  | 'content_filter'
+  | 'provider_outage'
+  | 'malformed_output'
+  | 'cancelled'
+  | 'unknown'
+
+const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  timeout: 'Timeout',
+  rate_limit: 'Rate limit',
+  auth: 'Auth',
+  content_filter: 'Content filter',
+  provider_outage: 'Provider outage',
+  malformed_output: 'Malformed output',
+  cancelled: 'Cancelled',
+  unknown: 'Other'
+}
+
+// SDK errors raised when the provider answered with something unusable
+const MALFORMED_OUTPUT_ERRORS = [
+  'AI_NoContentGeneratedError',
+  'AI_InvalidResponseDataError',
+  'AI_JSONParseError',
+  'AI_TypeValidationError',
+  'AI_EmptyResponseBodyError'
+]
+
+const AUTH_PATTERN = /api key|unauthori[sz]ed|forbidden|authenticat|permission denied/i
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|quota/i
+const CONTENT_FILTER_PATTERN = /content.?filter|content policy|safety system|moderation|flagged/i
+const MALFORMED_OUTPUT_PATTERN = /invalid json|malformed|unexpected token|failed to parse|no content generated/i
+
+interface FailureBreakdown {
+  modelId: string
+  name: string
+  provider: string
+  // Responses requested, including the failed ones
+  requests: number
+  failures: number
+  failureRate: number
+  categories: Partial<Record<ErrorCategory, number>>
+  // Average time spent on a failed response, across all of its attempts
+  averageFailureMs: number | null
+}
+
+/**
+ * Sort a failed request into a category, from its status code, timeout kind,
+ * SDK error name or, failing those, its message
+ */
+function categorizeError(error: unknown): ErrorCategory {
+  const failure = classifyError(error)
+  const chain = unwrapErrors(error)
+  const messages = chain.map(item => (typeof item.message === 'string' ? item.message : '')).join(' ')
+  const { statusCode } = failure
+
+  if (failure.cancelled) return 'cancelled'
+  if (failure.timeout || statusCode === 408) return 'timeout'
+  if (chain.some(item => item instanceof CircuitOpenError)) return 'provider_outage'
+  if (statusCode === 401 || statusCode === 403 || AUTH_PATTERN.test(messages)) return 'auth'
+  if (statusCode === 429 || RATE_LIMIT_PATTERN.test(messages)) return 'rate_limit'
+  if (statusCode === 451 || CONTENT_FILTER_PATTERN.test(messages)) return 'content_filter'
+  if (chain.some(item => MALFORMED_OUTPUT_ERRORS.includes(item.name)) || MALFORMED_OUTPUT_PATTERN.test(messages)) {
+    return 'malformed_output'
+  }
+  // Server errors and requests that never got an answer
+  if ((statusCode !== null && statusCode >= 500) || (statusCode === null && failure.retryable)) return 'provider_outage'
+
+  return 'unknown'
+}
+
+function getErrorCategoryLabel(category: ErrorCategory | null | undefined): string {
+  return ERROR_CATEGORY_LABELS[category || 'unknown'] || ERROR_CATEGORY_LABELS.unknown
+}
+
+/**
+ * Failure counts per model and category over saved responses, most failing
+ * model first. Models without any failure are included with a zero rate.
+ */
+function summarizeFailures(responses: Array<{
+  model_id: string
+  status?: string | null
+  error_category?: ErrorCategory | null
+  response_time_ms: number
+  model?: { name: string; provider: string } | null
+}>): FailureBreakdown[] {
+  const models = new Map<string, FailureBreakdown & { failureMs: number }>()
+
+  responses.forEach(response => {
+    const entry = models.get(response.model_id) || {
+      modelId: response.model_id,
+      name: response.model?.name || 'Unknown',
+      provider: response.model?.provider || 'Unknown',
+      requests: 0,
+      failures: 0,
+      failureRate: 0,
+      categories: {},
+      averageFailureMs: null,
+      failureMs: 0
+    }
+    entry.requests++
+    if (response.status === 'failed') {
+      const category = response.error_category || 'unknown'
+      entry.failures++
+      entry.failureMs += response.response_time_ms
+      entry.categories[category] = (entry.categories[category] || 0) + 1
+    }
+    models.set(response.model_id, entry)
+  })
+
+  return Array.from(models.values())
+    .map(({ failureMs, ...entry }) => ({
+      ...entry,
+      failureRate: (entry.failures / entry.requests) * 100,
+      averageFailureMs: entry.failures > 0 ? failureMs / entry.failures : null
+    }))
+    .sort((a, b) => b.failureRate - a.failureRate || a.name.localeCompare(b.name))
+}
+
+export { categorizeError, getErrorCategoryLabel, summarizeFailures }
+export type { ErrorCategory, FailureBreakdown }
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+// Sampling and request settings for one benchmark run; stored with each prompt
+// so the run can be reproduced later
+const GenerationSettingsSchema = z.object({
+  systemPrompt: z.string().max(4000, 'System prompt too long').default('You are a helpful assistant. Respond with a single word only.'),
+  temperature: z.number().min(0).max(2).default(0.7),
+  topP: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().min(1).max(8192).default(10),
+  stopSequences: z.array(z.string().min(1)).max(4, 'At most 4 stop sequences').optional(),
+  seed: z.number().int().optional(),
+  // Per attempt: time to start responding, and time for the whole completion
+  connectTimeout: z.number().int().min(500).max(60000).default(10000),
+  timeout: z.number().int().min(1000).max(300000).default(30000),
+  // Tries per completion when the provider is rate limited or failing
+  maxAttempts: z.number().int().min(1).max(6).default(3),
+  concurrency: z.number().int().min(1).max(20).default(5),
+  // Completions requested from each model, to measure how consistent it is
+  samples: z.number().int().min(1).max(10).default(1),
+}).default({})
+
+type GenerationSettings = z.infer<typeof GenerationSettingsSchema>
+
+const DEFAULT_GENERATION_SETTINGS: GenerationSettings = GenerationSettingsSchema.parse(undefined)
+
+/**
+ * Short one-line summary for history and result views
+ */
+function describeGenerationSettings(settings: Partial<GenerationSettings>): string {
+  const resolved = { ...DEFAULT_GENERATION_SETTINGS, ...settings }
+  const parts = [
+    `temperature ${resolved.temperature}`,
+    resolved.topP !== undefined ? `top_p ${resolved.topP}` : null,
+    `max ${resolved.maxTokens} tokens`,
+    resolved.seed !== undefined ? `seed ${resolved.seed}` : null,
+    resolved.stopSequences?.length ? `stop ${resolved.stopSequences.map(s => JSON.stringify(s)).join(', ')}` : null,
+    resolved.samples > 1 ? `${resolved.samples} samples per model` : null
+  ]
+  return parts.filter(Boolean).join(', ')
+}
+
+export { GenerationSettingsSchema, DEFAULT_GENERATION_SETTINGS, describeGenerationSettings }
+export type { GenerationSettings }
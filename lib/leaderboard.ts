@@ -0,0 +1,153 @@
+import { BenchmarkRun, Response } from './database-types'
+import { analyzeSavedRun } from './benchmark-runner'
+import { sumCosts } from './pricing'
+
+interface LeaderboardFilters {
+  provider?: string
+  tag?: string
+}
+
+interface LeaderboardEntry {
+  modelId: string
+  name: string
+  provider: string
+  // Prompt runs answered, and answers including repeated samples
+  prompts: number
+  responses: number
+  // Share of prompts answered alongside another model on which the model was
+  // in the largest consensus group
+  majorityAgreement: number | null
+  // Share of scored answers that matched the ground truth
+  accuracy: number | null
+  scored: number
+  medianLatencyMs: number | null
+  p95LatencyMs: number | null
+  // Share of requests that failed after all retries; cancelled ones are not saved
+  failureRate: number | null
+  failures: number
+  // Total over the priced responses; null when none could be priced
+  costUsd: number | null
+}
+
+interface Leaderboard {
+  entries: LeaderboardEntry[]
+  prompts: number
+  // Every provider and tag in the period, for the filter options
+  providers: string[]
+  tags: string[]
+}
+
+/**
+ * Linearly interpolated percentile of ascending values
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const position = (sorted.length - 1) * (p / 100)
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Rank models over saved responses. Each run is re-analyzed with the
+ * settings it was saved with, counting one vote per model.
+ */
+function buildLeaderboard(
+  responses: Array<Response & { run: BenchmarkRun }>,
+  { provider, tag }: LeaderboardFilters = {}
+): Leaderboard {
+  const byRun = new Map<string, { run: BenchmarkRun; responses: Response[] }>()
+  responses.forEach(response => {
+    const entry = byRun.get(response.run_id) || { run: response.run, responses: [] }
+    entry.responses.push(response)
+    byRun.set(response.run_id, entry)
+  })
+
+  const providers = Array.from(new Set(responses.map(response => response.model?.provider || 'Unknown'))).sort()
+  const tags = Array.from(new Set(Array.from(byRun.values()).flatMap(({ run }) => run.tags || []))).sort()
+
+  const runs = Array.from(byRun.values()).filter(({ run }) => !tag || (run.tags || []).includes(tag))
+
+  const models = new Map<string, {
+    name: string
+    provider: string
+    prompts: Set<string>
+    latencies: number[]
+    costs: Array<number | null | undefined>
+    compared: number
+    agreed: number
+    scored: number
+    correct: number
+    failures: number
+  }>()
+
+  runs.forEach(({ run, responses: runResponses }) => {
+    runResponses.forEach(response => {
+      const entry = models.get(response.model_id) || {
+        name: response.model?.name || 'Unknown',
+        provider: response.model?.provider || 'Unknown',
+        prompts: new Set<string>(),
+        latencies: [],
+        costs: [],
+        compared: 0,
+        agreed: 0,
+        scored: 0,
+        correct: 0,
+        failures: 0
+      }
+      models.set(response.model_id, entry)
+      if (response.status === 'failed') {
+        entry.failures++
+        return
+      }
+
+      entry.prompts.add(run.id)
+      entry.latencies.push(response.response_time_ms)
+      entry.costs.push(response.cost_usd)
+      if (response.is_correct !== undefined && response.is_correct !== null) {
+        entry.scored++
+        if (response.is_correct) entry.correct++
+      }
+    })
+
+    // A lone model trivially agrees with itself
+    const analysis = analyzeSavedRun(run, runResponses)
+    if (analysis.totalResponses < 2) return
+
+    analysis.groups.forEach((group, groupIndex) => {
+      group.responses.forEach(response => {
+        const entry = models.get(response.model_id)!
+        entry.compared++
+        if (groupIndex === 0) entry.agreed++
+      })
+    })
+  })
+
+  const entries = Array.from(models.entries())
+    .filter(([, entry]) => !provider || entry.provider === provider)
+    .map(([modelId, entry]) => {
+      const latencies = [...entry.latencies].sort((a, b) => a - b)
+      const requests = entry.latencies.length + entry.failures
+      return {
+        modelId,
+        name: entry.name,
+        provider: entry.provider,
+        prompts: entry.prompts.size,
+        responses: entry.latencies.length,
+        majorityAgreement: entry.compared > 0 ? (entry.agreed / entry.compared) * 100 : null,
+        accuracy: entry.scored > 0 ? (entry.correct / entry.scored) * 100 : null,
+        scored: entry.scored,
+        medianLatencyMs: percentile(latencies, 50),
+        p95LatencyMs: percentile(latencies, 95),
+        failureRate: requests > 0 ? (entry.failures / requests) * 100 : null,
+        failures: entry.failures,
+        costUsd: sumCosts(entry.costs)
+      }
+    })
+    .sort((a, b) => (b.majorityAgreement ?? -1) - (a.majorityAgreement ?? -1) || a.name.localeCompare(b.name))
+
+  return { entries, prompts: runs.length, providers, tags }
+}
+
+export { buildLeaderboard, percentile }
+export type { Leaderboard, LeaderboardEntry, LeaderboardFilters }
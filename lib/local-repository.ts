@@ -0,0 +1,525 @@
+import { randomUUID } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { mkdir, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { hashPromptText } from './prompt-hash'
+import type {
+  BenchmarkRepository,
+  BenchmarkRun,
+  BenchmarkRunUpdate,
+  ConsensusGroup,
+  DriftSchedule,
+  DriftScheduleUpdate,
+  Model,
+  ModelProfile,
+  NewConsensusGroup,
+  NewDriftSchedule,
+  NewModel,
+  NewBenchmarkRun,
+  NewModelProfile,
+  NewResponse,
+  NewSuitePrompt,
+  Prompt,
+  PromptHistoryEntry,
+  Response,
+  Suite,
+  SuitePrompt,
+  SuiteRun,
+  SuiteRunUpdate
+} from './database-types'
+
+// Rows as stored, without the relations the queries join in
+interface LocalTables {
+  models: Model[]
+  model_profiles: ModelProfile[]
+  prompts: Prompt[]
+  benchmark_runs: Omit<BenchmarkRun, 'prompt'>[]
+  responses: Omit<Response, 'model'>[]
+  consensus_groups: ConsensusGroup[]
+  suites: Omit<Suite, 'prompt_count'>[]
+  suite_prompts: SuitePrompt[]
+  suite_runs: Omit<SuiteRun, 'suite'>[]
+  drift_schedules: Omit<DriftSchedule, 'suite'>[]
+}
+
+function emptyTables(): LocalTables {
+  return {
+    models: [],
+    model_profiles: [],
+    prompts: [],
+    benchmark_runs: [],
+    responses: [],
+    consensus_groups: [],
+    suites: [],
+    suite_prompts: [],
+    suite_runs: [],
+    drift_schedules: []
+  }
+}
+
+// Callers get copies, so changing a returned row never changes the store
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function byCreatedAtDesc(a: { created_at?: string }, b: { created_at?: string }): number {
+  return (b.created_at || '').localeCompare(a.created_at || '')
+}
+
+/**
+ * Convert a file saved before benchmark runs existed, the same way the
+ * benchmark_runs migration converts a Supabase database: every prompt becomes
+ * a run with the same id, and prompts with the same text are merged.
+ */
+function upgradeLegacyTables(stored: any): LocalTables {
+  const tables: LocalTables = { ...emptyTables(), ...stored }
+  const keepers = new Map<string, Prompt>()
+  const mergedInto = new Map<string, string>()
+
+  tables.benchmark_runs = (stored.prompts || []).map(({ id, text, status, created_at, updated_at, ...settings }: any) => {
+    const textHash = hashPromptText(text)
+    const keeper = keepers.get(textHash) || { id, text, text_hash: textHash, created_at, updated_at }
+    keepers.set(textHash, { ...keeper, updated_at: created_at > (keeper.updated_at || '') ? created_at : keeper.updated_at })
+    mergedInto.set(id, keeper.id)
+
+    return {
+      ...settings,
+      id,
+      prompt_id: keeper.id,
+      model_ids: Array.from(new Set((stored.responses || [])
+        .filter((response: any) => response.prompt_id === id)
+        .map((response: any) => response.model_id))),
+      status: status || 'completed',
+      created_at,
+      completed_at: updated_at || created_at
+    }
+  })
+  tables.prompts = Array.from(keepers.values())
+  tables.responses = tables.responses.map(response => ({ ...response, run_id: response.prompt_id, prompt_id: mergedInto.get(response.prompt_id) || response.prompt_id }))
+  tables.consensus_groups = tables.consensus_groups.map(group => ({ ...group, run_id: group.prompt_id, prompt_id: mergedInto.get(group.prompt_id) || group.prompt_id }))
+
+  return tables
+}
+
+/**
+ * Repository kept in memory and, given a file path, saved to a JSON file
+ * in the background after writes. Needs no database server, so the app runs
+ * offline and tests can use a fresh in-memory instance. Mirrors the Supabase
+ * schema's defaults, unique keys and orderings.
+ */
+class LocalRepository implements BenchmarkRepository {
+  private tables: LocalTables
+  // The save in progress, if any, and whether another one is queued after it
+  private saving: Promise<void> = Promise.resolve()
+  private saveQueued = false
+  private saveError: Error | null = null
+
+  constructor(private filePath: string | null = null) {
+    this.tables = this.load()
+  }
+
+  private load(): LocalTables {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return emptyTables()
+    }
+
+    try {
+      const stored = JSON.parse(readFileSync(this.filePath, 'utf8'))
+      return stored.benchmark_runs ? { ...emptyTables(), ...stored } : upgradeLegacyTables(stored)
+    } catch (error) {
+      throw new Error(`Failed to read local database ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Queue a save of the store. Writes made while a save is queued are batched
+   * into it and saves never overlap, so a run saving many responses writes
+   * the file a few times instead of once per row.
+   */
+  private persist(): void {
+    if (!this.filePath || this.saveQueued) return
+
+    this.saveQueued = true
+    this.saving = this.saving.then(() => this.save(this.filePath!))
+  }
+
+  private async save(filePath: string): Promise<void> {
+    this.saveQueued = false
+    const content = JSON.stringify(this.tables)
+
+    try {
+      // Write to a temporary file first so a crash never leaves half a file
+      const tempPath = `${filePath}.tmp`
+      await mkdir(dirname(filePath), { recursive: true })
+      await writeFile(tempPath, content)
+      await rename(tempPath, filePath)
+      this.saveError = null
+    } catch (error) {
+      console.error('Error writing local database:', error)
+      this.saveError = new Error(`Failed to write local database ${filePath}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Wait until every write so far is saved to the file. Throws when the
+   * latest save failed.
+   */
+  async flush(): Promise<void> {
+    await this.saving
+    if (this.saveError) {
+      throw this.saveError
+    }
+  }
+
+  private now(): string {
+    return new Date().toISOString()
+  }
+
+  private withModel(response: Omit<Response, 'model'>): Response {
+    const model = this.tables.models.find(item => item.id === response.model_id)
+    return copy({ ...response, model })
+  }
+
+  // Responses of the given runs, oldest first
+  private responsesFor(runIds: string[]): Response[] {
+    const ids = new Set(runIds)
+    return this.tables.responses
+      .filter(response => ids.has(response.run_id))
+      .map(response => this.withModel(response))
+  }
+
+  private withPrompt(run: Omit<BenchmarkRun, 'prompt'>): BenchmarkRun {
+    const prompt = this.tables.prompts.find(item => item.id === run.prompt_id)
+    return copy({ ...run, prompt })
+  }
+
+  private withSuite<T extends { suite_id: string }>(row: T): T & { suite?: Pick<Suite, 'id' | 'name'> } {
+    const suite = this.tables.suites.find(item => item.id === row.suite_id)
+    return copy({ ...row, suite: suite ? { id: suite.id, name: suite.name } : undefined })
+  }
+
+  async getModels(): Promise<Model[]> {
+    return copy([...this.tables.models].sort((a, b) =>
+      a.provider.localeCompare(b.provider) || a.name.localeCompare(b.name)
+    ))
+  }
+
+  async updateModelEnabled(id: string, enabled: boolean): Promise<Model> {
+    const model = this.tables.models.find(item => item.id === id)
+    if (!model) {
+      throw new Error(`Failed to update model: no model with id ${id}`)
+    }
+
+    Object.assign(model, { enabled, updated_at: this.now() })
+    this.persist()
+    return copy(model)
+  }
+
+  async upsertModels(models: NewModel[]): Promise<Model[]> {
+    const saved = models.map(model => {
+      const existing = this.tables.models.find(item => item.model_id === model.model_id)
+      if (existing) {
+        return Object.assign(existing, model, { updated_at: this.now() })
+      }
+
+      const created: Model = { ...model, id: randomUUID(), created_at: this.now(), updated_at: this.now() }
+      this.tables.models.push(created)
+      return created
+    })
+
+    this.persist()
+    return copy(saved)
+  }
+
+  async getModelProfiles(): Promise<ModelProfile[]> {
+    return copy(this.tables.model_profiles)
+  }
+
+  async upsertModelProfile(profile: NewModelProfile): Promise<ModelProfile> {
+    if (!this.tables.models.some(model => model.id === profile.model_id)) {
+      throw new Error(`Failed to save model profile: no model with id ${profile.model_id}`)
+    }
+
+    let saved = this.tables.model_profiles.find(item => item.model_id === profile.model_id)
+    if (saved) {
+      Object.assign(saved, profile, { updated_at: this.now() })
+    } else {
+      saved = { ...profile, id: randomUUID(), created_at: this.now(), updated_at: this.now() }
+      this.tables.model_profiles.push(saved)
+    }
+
+    this.persist()
+    return copy(saved)
+  }
+
+  async deleteModelProfile(modelId: string): Promise<void> {
+    this.tables.model_profiles = this.tables.model_profiles.filter(profile => profile.model_id !== modelId)
+    this.persist()
+  }
+
+  async findOrCreatePrompt(text: string): Promise<Prompt> {
+    const textHash = hashPromptText(text)
+    let prompt = this.tables.prompts.find(item => item.text_hash === textHash)
+
+    if (prompt) {
+      prompt.updated_at = this.now()
+    } else {
+      prompt = { id: randomUUID(), text, text_hash: textHash, created_at: this.now(), updated_at: this.now() }
+      this.tables.prompts.push(prompt)
+    }
+
+    this.persist()
+    return copy(prompt)
+  }
+
+  async createBenchmarkRun(run: NewBenchmarkRun): Promise<BenchmarkRun> {
+    if (!this.tables.prompts.some(prompt => prompt.id === run.prompt_id)) {
+      throw new Error(`Failed to create benchmark run: no prompt with id ${run.prompt_id}`)
+    }
+
+    const created: BenchmarkRun = {
+      similarity_strategy: 'levenshtein',
+      similarity_threshold: 0.8,
+      clustering_mode: 'pairwise',
+      vote_weighting: 'equal',
+      ...run,
+      id: randomUUID(),
+      status: 'running',
+      created_at: this.now(),
+      completed_at: null
+    }
+
+    this.tables.benchmark_runs.push(created)
+    this.persist()
+    return copy(created)
+  }
+
+  async updateBenchmarkRun(id: string, updates: BenchmarkRunUpdate): Promise<void> {
+    const run = this.tables.benchmark_runs.find(item => item.id === id)
+    if (run) {
+      Object.assign(run, updates)
+      this.persist()
+    }
+  }
+
+  async saveResponses(responses: NewResponse[]): Promise<Response[]> {
+    const created = responses.map(({ model, ...response }) => ({
+      ...response,
+      status: response.status ?? 'success',
+      sample_index: response.sample_index ?? 0,
+      id: randomUUID(),
+      created_at: this.now()
+    }))
+
+    this.tables.responses.push(...created)
+    this.persist()
+    return created.map(response => this.withModel(response))
+  }
+
+  async saveConsensusGroups(groups: NewConsensusGroup[]): Promise<ConsensusGroup[]> {
+    const created = groups.map(group => ({ ...group, id: randomUUID(), created_at: this.now() }))
+
+    this.tables.consensus_groups.push(...created)
+    this.persist()
+    return copy(created)
+  }
+
+  async getScoredResponses(modelIds: string[]): Promise<Pick<Response, 'model_id' | 'is_correct'>[]> {
+    const ids = new Set(modelIds)
+    return copy(this.tables.responses
+      .filter(response => ids.has(response.model_id) && response.is_correct != null)
+      .map(({ model_id, is_correct }) => ({ model_id, is_correct })))
+  }
+
+  async getSpendSince(from: string): Promise<number> {
+    return this.tables.responses
+      .filter(response => response.created_at >= from && response.cost_usd != null)
+      .reduce((sum, response) => sum + Number(response.cost_usd), 0)
+  }
+
+  async getConsensusGroupHistory(limit = 5000): Promise<ConsensusGroup[]> {
+    return copy([...this.tables.consensus_groups].reverse().sort(byCreatedAtDesc).slice(0, limit))
+  }
+
+  async getRunsWithResponses(runIds: string[]): Promise<{
+    runs: BenchmarkRun[]
+    responses: Response[]
+  }> {
+    const ids = new Set(runIds)
+    return {
+      runs: copy(this.tables.benchmark_runs.filter(run => ids.has(run.id))),
+      responses: this.responsesFor(runIds)
+    }
+  }
+
+  async getResponseHistory({ from, to }: { from?: string; to?: string } = {}): Promise<Array<Response & { run: BenchmarkRun }>> {
+    const runs = new Map(this.tables.benchmark_runs.map(run => [run.id, run]))
+
+    return this.tables.responses
+      .filter(response => (!from || response.created_at >= from) && (!to || response.created_at < to))
+      .map(response => ({ ...this.withModel(response), run: copy(runs.get(response.run_id)!) }))
+  }
+
+  async getPromptHistory(limit = 50): Promise<PromptHistoryEntry[]> {
+    const byUpdatedAtDesc = (a: Prompt, b: Prompt) => (b.updated_at || b.created_at).localeCompare(a.updated_at || a.created_at)
+
+    return [...this.tables.prompts].reverse().sort(byUpdatedAtDesc).slice(0, limit).map(prompt => ({
+      ...copy(prompt),
+      runs: copy([...this.tables.benchmark_runs].reverse().filter(run => run.prompt_id === prompt.id).sort(byCreatedAtDesc))
+    }))
+  }
+
+  async getRunWithResults(runId: string): Promise<{
+    prompt: Prompt
+    run: BenchmarkRun
+    responses: Response[]
+    consensusGroups: ConsensusGroup[]
+  } | null> {
+    const run = this.tables.benchmark_runs.find(item => item.id === runId)
+    if (!run) return null
+
+    return {
+      prompt: copy(this.tables.prompts.find(prompt => prompt.id === run.prompt_id)!),
+      run: copy(run),
+      responses: this.responsesFor([runId]),
+      consensusGroups: copy(this.tables.consensus_groups.filter(group => group.run_id === runId))
+    }
+  }
+
+  async createSuite(name: string, description: string | null, prompts: NewSuitePrompt[]): Promise<Suite> {
+    const suite = { id: randomUUID(), name, description, created_at: this.now(), updated_at: this.now() }
+
+    this.tables.suites.push(suite)
+    this.tables.suite_prompts.push(...prompts.map((prompt, position) => ({
+      ...prompt,
+      id: randomUUID(),
+      suite_id: suite.id,
+      position,
+      created_at: this.now()
+    })))
+    this.persist()
+
+    return { ...copy(suite), prompt_count: prompts.length }
+  }
+
+  async getSuites(): Promise<Suite[]> {
+    return [...this.tables.suites].reverse().sort(byCreatedAtDesc).map(suite => ({
+      ...copy(suite),
+      prompt_count: this.tables.suite_prompts.filter(prompt => prompt.suite_id === suite.id).length
+    }))
+  }
+
+  async getSuitePrompts(suiteId: string): Promise<SuitePrompt[]> {
+    return copy(this.tables.suite_prompts
+      .filter(prompt => prompt.suite_id === suiteId)
+      .sort((a, b) => a.position - b.position))
+  }
+
+  async createSuiteRun(suiteId: string, modelIds: string[], totalPrompts: number, scheduleId?: string): Promise<SuiteRun> {
+    if (!this.tables.suites.some(suite => suite.id === suiteId)) {
+      throw new Error(`Failed to create suite run: no suite with id ${suiteId}`)
+    }
+
+    const run = {
+      id: randomUUID(),
+      suite_id: suiteId,
+      model_ids: modelIds,
+      status: 'running' as const,
+      total_prompts: totalPrompts,
+      completed_prompts: 0,
+      schedule_id: scheduleId || null,
+      created_at: this.now()
+    }
+
+    this.tables.suite_runs.push(run)
+    this.persist()
+    return copy(run)
+  }
+
+  async updateSuiteRun(id: string, updates: SuiteRunUpdate): Promise<void> {
+    const run = this.tables.suite_runs.find(item => item.id === id)
+    if (run) {
+      Object.assign(run, updates)
+      this.persist()
+    }
+  }
+
+  async getSuiteRuns(limit = 20): Promise<SuiteRun[]> {
+    return [...this.tables.suite_runs].reverse().sort(byCreatedAtDesc).slice(0, limit).map(run => this.withSuite(run))
+  }
+
+  async getSuiteRunWithResults(runId: string): Promise<{
+    run: SuiteRun
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null> {
+    const run = this.tables.suite_runs.find(item => item.id === runId)
+    if (!run) return null
+
+    const runs = this.tables.benchmark_runs.filter(item => item.suite_run_id === runId)
+    return {
+      run: this.withSuite(run),
+      runs: runs.map(item => this.withPrompt(item)),
+      responses: this.responsesFor(runs.map(item => item.id))
+    }
+  }
+
+  async createDriftSchedule(schedule: NewDriftSchedule): Promise<DriftSchedule> {
+    if (!this.tables.suites.some(suite => suite.id === schedule.suite_id)) {
+      throw new Error(`Failed to create drift schedule: no suite with id ${schedule.suite_id}`)
+    }
+
+    const saved = { ...schedule, id: randomUUID(), last_run_at: null, created_at: this.now(), updated_at: this.now() }
+    this.tables.drift_schedules.push(saved)
+    this.persist()
+    return this.withSuite(saved)
+  }
+
+  async getDriftSchedules(): Promise<DriftSchedule[]> {
+    return [...this.tables.drift_schedules].reverse().sort(byCreatedAtDesc).map(schedule => this.withSuite(schedule))
+  }
+
+  async updateDriftSchedule(id: string, updates: DriftScheduleUpdate): Promise<void> {
+    const schedule = this.tables.drift_schedules.find(item => item.id === id)
+    if (schedule) {
+      Object.assign(schedule, updates, { updated_at: this.now() })
+      this.persist()
+    }
+  }
+
+  async deleteDriftSchedule(id: string): Promise<void> {
+    this.tables.drift_schedules = this.tables.drift_schedules.filter(schedule => schedule.id !== id)
+    this.tables.suite_runs.forEach(run => {
+      if (run.schedule_id === id) run.schedule_id = null
+    })
+    this.persist()
+  }
+
+  async getDriftHistory(scheduleId: string, limit = 20): Promise<{
+    schedule: DriftSchedule
+    suiteRuns: SuiteRun[]
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null> {
+    const schedule = this.tables.drift_schedules.find(item => item.id === scheduleId)
+    if (!schedule) return null
+
+    const suiteRuns = [...this.tables.suite_runs]
+      .reverse()
+      .filter(run => run.schedule_id === scheduleId)
+      .sort(byCreatedAtDesc)
+      .slice(0, limit)
+      .reverse()
+    const suiteRunIds = new Set(suiteRuns.map(run => run.id))
+    const runs = this.tables.benchmark_runs.filter(run => run.suite_run_id && suiteRunIds.has(run.suite_run_id))
+
+    return {
+      schedule: this.withSuite(schedule),
+      suiteRuns: suiteRuns.map(run => this.withSuite(run)),
+      runs: runs.map(run => this.withPrompt(run)),
+      responses: this.responsesFor(runs.map(run => run.id))
+    }
+  }
+}
+
+export { LocalRepository }
@@ -0,0 +1,217 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// A numbered schema change. `up` applies it and `down` reverts it; both run
+// in a single exec_sql call, so each either applies fully or not at all.
+interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
+
+interface MigrationState {
+  version: number
+  name: string
+  applied: boolean
+  appliedAt: string | null
+}
+
+interface MigrationStatus {
+  migrations: MigrationState[]
+  pending: number
+  // Versions recorded in the database that this build does not know about,
+  // e.g. after deploying an older build
+  unknownVersions: number[]
+  // Set when schema_migrations could not be read, e.g. before the first apply
+  error?: string
+}
+
+// Tracks which migrations have run. Created before every apply, so a fresh
+// database needs nothing beyond the exec_sql function.
+const MIGRATIONS_TABLE_SQL = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable read access for all users" ON schema_migrations;
+CREATE POLICY "Enable read access for all users" ON schema_migrations FOR SELECT USING (true);`
+
+// Lets the setup route run SQL through the Supabase API. Has to be created once
+// in the SQL editor; drop it again if the app should not manage the schema.
+const EXEC_SQL_FUNCTION_SQL = `CREATE OR REPLACE FUNCTION exec_sql(sql_query TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    EXECUTE sql_query;
+END;
+$$;`
+
+/**
+ * Enable row level security on the given tables with policies allowing all
+ * operations, replacing any existing policies of the same names
+ */
+function publicAccessPolicies(tables: string[]): string {
+  const list = tables.map(table => `'${table}'`).join(', ')
+
+  return `DO $$
+DECLARE
+    target TEXT;
+BEGIN
+    FOREACH target IN ARRAY ARRAY[${list}] LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Enable read access for all users" ON %I', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Enable insert access for all users" ON %I', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Enable update access for all users" ON %I', target);
+        EXECUTE format('DROP POLICY IF EXISTS "Enable delete access for all users" ON %I', target);
+        EXECUTE format('CREATE POLICY "Enable read access for all users" ON %I FOR SELECT USING (true)', target);
+        EXECUTE format('CREATE POLICY "Enable insert access for all users" ON %I FOR INSERT WITH CHECK (true)', target);
+        EXECUTE format('CREATE POLICY "Enable update access for all users" ON %I FOR UPDATE USING (true)', target);
+        EXECUTE format('CREATE POLICY "Enable delete access for all users" ON %I FOR DELETE USING (true)', target);
+    END LOOP;
+END $$;`
+}
+
+// Migrations must be numbered from 1 without gaps, in order
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`)
+    }
+  })
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function buildApplySql(migration: Migration): string {
+  return [
+    `-- Migration ${migration.version}: ${migration.name}`,
+    MIGRATIONS_TABLE_SQL,
+    migration.up.trim(),
+    `INSERT INTO schema_migrations (version, name) VALUES (${migration.version}, ${quoteLiteral(migration.name)}) ON CONFLICT (version) DO NOTHING;`
+  ].join('\n\n')
+}
+
+function buildRollbackSql(migration: Migration): string {
+  return [
+    `-- Revert migration ${migration.version}: ${migration.name}`,
+    migration.down.trim(),
+    `DELETE FROM schema_migrations WHERE version = ${migration.version};`
+  ].join('\n\n')
+}
+
+/**
+ * SQL applying every pending migration, for running by hand in the SQL editor
+ */
+function buildPendingSql(migrations: Migration[], status: MigrationStatus): string {
+  const pending = new Set(status.migrations.filter(item => !item.applied).map(item => item.version))
+
+  return migrations
+    .filter(migration => pending.has(migration.version))
+    .map(buildApplySql)
+    .join('\n\n')
+}
+
+async function getMigrationStatus(
+  client: SupabaseClient,
+  migrations: Migration[]
+): Promise<MigrationStatus> {
+  validateMigrations(migrations)
+
+  const { data, error } = await client
+    .from('schema_migrations')
+    .select('version, applied_at')
+    .order('version')
+
+  // Before the first apply the table does not exist, so nothing is applied
+  const applied = new Map<number, string>((data || []).map(row => [row.version, row.applied_at]))
+  const states = migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied: applied.has(migration.version),
+    appliedAt: applied.get(migration.version) ?? null
+  }))
+
+  return {
+    migrations: states,
+    pending: states.filter(state => !state.applied).length,
+    unknownVersions: Array.from(applied.keys()).filter(version => !migrations.some(item => item.version === version)),
+    ...(error ? { error: error.message } : {})
+  }
+}
+
+async function execSql(client: SupabaseClient, sql: string): Promise<void> {
+  const { error } = await client.rpc('exec_sql', { sql_query: sql })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+/**
+ * Apply pending migrations in order, up to and including `target` when given.
+ * Stops at the first failure; the migrations before it stay applied.
+ */
+async function applyMigrations(
+  client: SupabaseClient,
+  migrations: Migration[],
+  target?: number
+): Promise<number[]> {
+  const status = await getMigrationStatus(client, migrations)
+  const pending = new Set(status.migrations.filter(item => !item.applied).map(item => item.version))
+  const applied: number[] = []
+
+  for (const migration of migrations) {
+    if (!pending.has(migration.version)) continue
+    if (target !== undefined && migration.version > target) break
+
+    try {
+      await execSql(client, buildApplySql(migration))
+    } catch (error) {
+      throw new Error(`Failed to apply migration ${migration.version} (${migration.name}): ${error instanceof Error ? error.message : String(error)}`)
+    }
+    applied.push(migration.version)
+  }
+
+  return applied
+}
+
+/**
+ * Revert the most recently applied migration. Returns its version, or null
+ * when nothing is applied.
+ */
+async function rollbackMigration(
+  client: SupabaseClient,
+  migrations: Migration[]
+): Promise<number | null> {
+  const status = await getMigrationStatus(client, migrations)
+  if (status.unknownVersions.length > 0) {
+    throw new Error(`Database has migrations this build does not know about: ${status.unknownVersions.join(', ')}`)
+  }
+
+  const latest = status.migrations.filter(item => item.applied).pop()
+  if (!latest) return null
+
+  const migration = migrations.find(item => item.version === latest.version)!
+  try {
+    await execSql(client, buildRollbackSql(migration))
+  } catch (error) {
+    throw new Error(`Failed to roll back migration ${migration.version} (${migration.name}): ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return migration.version
+}
+
+export {
+  EXEC_SQL_FUNCTION_SQL,
+  publicAccessPolicies,
+  buildPendingSql,
+  getMigrationStatus,
+  applyMigrations,
+  rollbackMigration
+}
+export type { Migration, MigrationState, MigrationStatus }
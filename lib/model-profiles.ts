@@ -0,0 +1,61 @@
+import type { ModelProfile } from './database-types'
+
+// Per-model overrides applied on top of the run's generation settings
+interface ModelProfileOverrides {
+  systemPrompt?: string
+  temperature?: number
+  maxTokens?: number
+  // Wraps the user prompt; "{{prompt}}" marks where it goes
+  promptTemplate?: string
+}
+
+const PROMPT_PLACEHOLDER = '{{prompt}}'
+
+/**
+ * Insert the prompt into a template. Templates without the placeholder get the
+ * prompt appended so a profile can never drop the question.
+ */
+function renderPromptTemplate(template: string, prompt: string): string {
+  if (!template.includes(PROMPT_PLACEHOLDER)) {
+    return `${template}\n\n${prompt}`
+  }
+  return template.split(PROMPT_PLACEHOLDER).join(prompt)
+}
+
+/**
+ * Apply a model's profile to the prompt and completion options
+ */
+function applyModelProfile<T extends { systemPrompt?: string; temperature?: number; maxTokens?: number }>(
+  prompt: string,
+  options: T,
+  profile?: ModelProfileOverrides
+): { prompt: string; options: T } {
+  if (!profile) {
+    return { prompt, options }
+  }
+
+  return {
+    prompt: profile.promptTemplate ? renderPromptTemplate(profile.promptTemplate, prompt) : prompt,
+    options: {
+      ...options,
+      ...(profile.systemPrompt !== undefined && { systemPrompt: profile.systemPrompt }),
+      ...(profile.temperature !== undefined && { temperature: profile.temperature }),
+      ...(profile.maxTokens !== undefined && { maxTokens: profile.maxTokens })
+    }
+  }
+}
+
+/**
+ * Convert a stored profile into overrides, skipping fields that are not set
+ */
+function toProfileOverrides(profile: ModelProfile): ModelProfileOverrides {
+  return {
+    ...(profile.system_prompt != null && profile.system_prompt !== '' && { systemPrompt: profile.system_prompt }),
+    ...(profile.temperature != null && { temperature: Number(profile.temperature) }),
+    ...(profile.max_tokens != null && { maxTokens: profile.max_tokens }),
+    ...(profile.prompt_template != null && profile.prompt_template !== '' && { promptTemplate: profile.prompt_template })
+  }
+}
+
+export { PROMPT_PLACEHOLDER, renderPromptTemplate, applyModelProfile, toProfileOverrides }
+export type { ModelProfileOverrides }
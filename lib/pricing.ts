@@ -0,0 +1,134 @@
+import { z } from 'zod'
+
+// USD per million tokens
+interface ModelPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+interface TokenUsage {
+  inputTokens: number | null
+  outputTokens: number | null
+  totalTokens: number | null
+}
+
+// Local overrides keyed by gateway model id, e.g. 'openai/gpt-4o'
+type PricingOverrides = Record<string, ModelPricing>
+
+const ModelPricingSchema = z.object({
+  inputPerMillion: z.number().min(0),
+  outputPerMillion: z.number().min(0),
+})
+
+const PricingOverridesSchema = z.record(ModelPricingSchema).optional()
+
+const PRICING_STORAGE_KEY = 'llm-benchmark-pricing'
+
+const TOKENS_PER_MILLION = 1_000_000
+
+/**
+ * Convert gateway pricing metadata (USD per token, as strings) to prices per
+ * million tokens. Returns null when either price is missing or not a number.
+ */
+function parseGatewayPricing(pricing?: { prompt: string; completion: string } | null): ModelPricing | null {
+  if (!pricing) return null
+
+  const input = parseFloat(pricing.prompt)
+  const output = parseFloat(pricing.completion)
+  if (isNaN(input) || isNaN(output) || input < 0 || output < 0) return null
+
+  return { inputPerMillion: input * TOKENS_PER_MILLION, outputPerMillion: output * TOKENS_PER_MILLION }
+}
+
+/**
+ * Read token counts from an AI SDK usage object. Older snake_case and
+ * prompt/completion field names are accepted as well.
+ */
+function normalizeUsage(usage: any): TokenUsage {
+  const pick = (...values: unknown[]): number | null => {
+    const value = values.find(candidate => typeof candidate === 'number' && !isNaN(candidate))
+    return value === undefined ? null : (value as number)
+  }
+
+  const inputTokens = pick(usage?.inputTokens, usage?.promptTokens, usage?.prompt_tokens)
+  const outputTokens = pick(usage?.outputTokens, usage?.completionTokens, usage?.completion_tokens)
+  const totalTokens = pick(usage?.totalTokens, usage?.total_tokens) ??
+    (inputTokens !== null && outputTokens !== null ? inputTokens + outputTokens : null)
+
+  return { inputTokens, outputTokens, totalTokens }
+}
+
+/**
+ * Cost of one completion in USD, or null when the model has no price or the
+ * provider did not report token counts
+ */
+function computeCost(usage: TokenUsage, pricing: ModelPricing | null): number | null {
+  if (!pricing || usage.inputTokens === null || usage.outputTokens === null) return null
+
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / TOKENS_PER_MILLION
+}
+
+/**
+ * Local overrides price models saved without a price and may raise a saved
+ * price, but never lower it: they are sent by the browser, and the costs they
+ * produce count against the server's budget
+ */
+function resolvePricing(
+  model: { model_id: string; input_price_per_million?: number | null; output_price_per_million?: number | null },
+  overrides?: PricingOverrides | null
+): ModelPricing | null {
+  const saved = model.input_price_per_million == null || model.output_price_per_million == null
+    ? null
+    : { inputPerMillion: Number(model.input_price_per_million), outputPerMillion: Number(model.output_price_per_million) }
+  const override = overrides?.[model.model_id]
+
+  if (!override || !saved) return override || saved
+  return {
+    inputPerMillion: Math.max(saved.inputPerMillion, override.inputPerMillion),
+    outputPerMillion: Math.max(saved.outputPerMillion, override.outputPerMillion)
+  }
+}
+
+/**
+ * Sum of the known costs, or null when none of them is known
+ */
+function sumCosts(costs: Array<number | null | undefined>): number | null {
+  const known = costs.filter((cost): cost is number => cost !== null && cost !== undefined)
+  return known.length > 0 ? known.reduce((sum, cost) => sum + Number(cost), 0) : null
+}
+
+function formatCost(cost: number | null | undefined): string {
+  if (cost === null || cost === undefined) return '—'
+  // Single completions often cost a fraction of a cent
+  return cost < 0.01 ? `$${Number(cost).toFixed(6)}` : `$${Number(cost).toFixed(4)}`
+}
+
+function getLocalPricingOverrides(): PricingOverrides {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(PRICING_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error parsing stored pricing:', error)
+    return {}
+  }
+}
+
+function saveLocalPricingOverrides(overrides: PricingOverrides): void {
+  localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(overrides))
+}
+
+export {
+  ModelPricingSchema,
+  PricingOverridesSchema,
+  parseGatewayPricing,
+  normalizeUsage,
+  computeCost,
+  resolvePricing,
+  sumCosts,
+  formatCost,
+  getLocalPricingOverrides,
+  saveLocalPricingOverrides
+}
+export type { ModelPricing, TokenUsage, PricingOverrides }
@@ -0,0 +1,11 @@
+import { createHash } from 'crypto'
+
+/**
+ * Key that deduplicates prompts. Matches Postgres' md5(text), which the
+ * migration used to backfill existing prompts.
+ */
+function hashPromptText(text: string): string {
+  return createHash('md5').update(text, 'utf8').digest('hex')
+}
+
+export { hashPromptText }
@@ -0,0 +1,260 @@
+import { z } from 'zod'
+import { RunCancelledError } from './resilience'
+
+// Limits per provider, as published on the provider's rate limit page
+interface ProviderRateLimit {
+  requestsPerMinute?: number | null
+  tokensPerMinute?: number | null
+}
+
+// Keyed by provider prefix of the gateway model id, e.g. 'openai'
+type RateLimits = Record<string, ProviderRateLimit>
+
+interface Reservation {
+  key: string
+  entry: { at: number; tokens: number }
+}
+
+const ProviderRateLimitSchema = z.object({
+  requestsPerMinute: z.number().int().positive().nullable().optional(),
+  tokensPerMinute: z.number().int().positive().nullable().optional(),
+})
+
+const RateLimitsSchema = z.record(ProviderRateLimitSchema).optional()
+
+const RATE_LIMITS_STORAGE_KEY = 'llm-benchmark-rate-limits'
+
+const WINDOW_MS = 60000
+
+/**
+ * Provider part of a gateway model id, e.g. 'openai' for 'openai/gpt-4o'
+ */
+function getProviderKey(modelId: string): string {
+  return modelId.split('/')[0]
+}
+
+/**
+ * Sliding one-minute window of the requests and tokens sent per key. Tokens
+ * are reserved from an estimate when a request starts and corrected with the
+ * reported usage once it finishes.
+ */
+class RateLimiter {
+  private windows = new Map<string, Array<{ at: number; tokens: number }>>()
+
+  private getWindow(key: string, now: number): Array<{ at: number; tokens: number }> {
+    const entries = (this.windows.get(key) || []).filter(entry => now - entry.at < WINDOW_MS)
+    this.windows.set(key, entries)
+    return entries
+  }
+
+  /**
+   * How long until a request of this size fits within the limit; 0 when it can
+   * go now. A request larger than the whole token limit waits for an empty
+   * window rather than forever.
+   */
+  getWaitMs(key: string, tokens: number, limit: ProviderRateLimit | undefined, now = Date.now()): number {
+    if (!limit?.requestsPerMinute && !limit?.tokensPerMinute) return 0
+
+    const entries = this.getWindow(key, now)
+    if (entries.length === 0) return 0
+
+    let wait = 0
+    if (limit.requestsPerMinute && entries.length >= limit.requestsPerMinute) {
+      // The oldest requests have to leave the window first
+      wait = entries[entries.length - limit.requestsPerMinute].at + WINDOW_MS - now
+    }
+
+    if (limit.tokensPerMinute) {
+      let used = entries.reduce((sum, entry) => sum + entry.tokens, 0)
+      for (const entry of entries) {
+        if (used + tokens <= limit.tokensPerMinute) break
+        used -= entry.tokens
+        wait = Math.max(wait, entry.at + WINDOW_MS - now)
+      }
+    }
+
+    return Math.max(0, wait)
+  }
+
+  reserve(key: string, tokens: number, now = Date.now()): Reservation {
+    const entry = { at: now, tokens }
+    this.getWindow(key, now).push(entry)
+    return { key, entry }
+  }
+
+  settle(reservation: Reservation, tokens: number): void {
+    reservation.entry.tokens = tokens
+  }
+}
+
+// Shared by every run in this server process, so concurrent runs add up
+const providerRateLimiter = new RateLimiter()
+
+interface ScheduledJob {
+  key: string
+  tokens: number
+  start: () => void
+}
+
+/**
+ * Pool that keeps up to `concurrency` requests in flight. Whenever a slot
+ * frees up it takes the oldest queued request whose provider is within its
+ * limits, so a throttled or slow provider never holds up the others.
+ */
+class RequestScheduler {
+  private concurrency: number
+  private rateLimits: RateLimits
+  private limiter: RateLimiter
+  private queue: ScheduledJob[] = []
+  private active = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor({
+    concurrency = 5,
+    rateLimits = {},
+    limiter = providerRateLimiter
+  }: {
+    concurrency?: number
+    rateLimits?: RateLimits
+    limiter?: RateLimiter
+  } = {}) {
+    this.concurrency = Math.max(1, concurrency)
+    this.rateLimits = rateLimits
+    this.limiter = limiter
+  }
+
+  /**
+   * Run a request once a slot and the provider's limits allow. `getTokens`
+   * reads the actual usage from the result to correct the estimate; aborting
+   * `signal` drops the request if it has not started yet.
+   */
+  schedule<T>(
+    key: string,
+    estimatedTokens: number,
+    task: () => Promise<T>,
+    {
+      getTokens,
+      signal
+    }: {
+      getTokens?: (result: T) => number | null | undefined
+      signal?: AbortSignal
+    } = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RunCancelledError())
+        return
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(job)
+        if (index !== -1) {
+          this.queue.splice(index, 1)
+          reject(new RunCancelledError())
+        }
+      }
+
+      const job: ScheduledJob = {
+        key,
+        tokens: estimatedTokens,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          const reservation = this.limiter.reserve(key, estimatedTokens)
+          this.active++
+          task().then(
+            result => {
+              const tokens = getTokens?.(result)
+              if (tokens != null) this.limiter.settle(reservation, tokens)
+              this.release()
+              resolve(result)
+            },
+            error => {
+              this.release()
+              reject(error)
+            }
+          )
+        }
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(job)
+      this.pump()
+    })
+  }
+
+  private release(): void {
+    this.active--
+    this.pump()
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+
+    let soonest = Infinity
+    for (let index = 0; index < this.queue.length && this.active < this.concurrency;) {
+      const job = this.queue[index]
+      const wait = this.limiter.getWaitMs(job.key, job.tokens, this.rateLimits[job.key])
+      if (wait === 0) {
+        this.queue.splice(index, 1)
+        job.start()
+      } else {
+        soonest = Math.min(soonest, wait)
+        index++
+      }
+    }
+
+    // Nothing else finishing may be what frees the provider, so check again
+    if (this.queue.length > 0 && this.active < this.concurrency && soonest !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), soonest)
+    }
+  }
+}
+
+/**
+ * Process items with at most `size` in flight, starting the next item as soon
+ * as any finishes. Results keep the order of the items.
+ */
+async function runPool<T, R>(items: T[], size: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, size), items.length) }, runWorker))
+  return results
+}
+
+function getLocalRateLimits(): RateLimits {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(RATE_LIMITS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.error('Error parsing stored rate limits:', error)
+    return {}
+  }
+}
+
+function saveLocalRateLimits(rateLimits: RateLimits): void {
+  localStorage.setItem(RATE_LIMITS_STORAGE_KEY, JSON.stringify(rateLimits))
+}
+
+export {
+  RateLimitsSchema,
+  RateLimiter,
+  RequestScheduler,
+  providerRateLimiter,
+  getProviderKey,
+  runPool,
+  getLocalRateLimits,
+  saveLocalRateLimits
+}
+export type { ProviderRateLimit, RateLimits }
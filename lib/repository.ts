@@ -0,0 +1,56 @@
+import { LocalRepository } from './local-repository'
+import { SupabaseRepository, isSupabaseConfigured } from './supabase'
+import type { BenchmarkRepository } from './database-types'
+
+type DatabaseBackend = 'supabase' | 'local'
+
+const DEFAULT_LOCAL_DATABASE_FILE = '.data/benchmark.json'
+
+// Shared across route bundles and hot reloads, like the run registry, so
+// every route sees the same local data
+const globalForRepository = globalThis as unknown as { benchmarkRepository?: BenchmarkRepository }
+
+/**
+ * DATABASE_BACKEND picks the backend explicitly. Without it, Supabase is used
+ * when its environment variables are set and the local store otherwise.
+ */
+function getDatabaseBackend(): DatabaseBackend {
+  const configured = process.env.DATABASE_BACKEND?.trim().toLowerCase()
+  if (configured === 'supabase' || configured === 'local') {
+    return configured
+  }
+  if (configured) {
+    throw new Error(`Unknown DATABASE_BACKEND "${process.env.DATABASE_BACKEND}", expected "supabase" or "local"`)
+  }
+
+  return isSupabaseConfigured() ? 'supabase' : 'local'
+}
+
+/**
+ * The local store is saved to LOCAL_DATABASE_FILE, .data/benchmark.json by
+ * default; ":memory:" keeps it in memory only
+ */
+function createRepository(backend: DatabaseBackend = getDatabaseBackend()): BenchmarkRepository {
+  if (backend === 'supabase') {
+    return new SupabaseRepository()
+  }
+
+  const file = process.env.LOCAL_DATABASE_FILE || DEFAULT_LOCAL_DATABASE_FILE
+  return new LocalRepository(file === ':memory:' ? null : file)
+}
+
+function getRepository(): BenchmarkRepository {
+  if (!globalForRepository.benchmarkRepository) {
+    globalForRepository.benchmarkRepository = createRepository()
+  }
+  return globalForRepository.benchmarkRepository
+}
+
+// Replace the shared repository, e.g. with a fresh LocalRepository in tests;
+// null goes back to the one configured by the environment
+function setRepository(repository: BenchmarkRepository | null): void {
+  globalForRepository.benchmarkRepository = repository || undefined
+}
+
+export { getRepository, setRepository, getDatabaseBackend, createRepository }
+export type { DatabaseBackend }
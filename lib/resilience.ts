@@ -0,0 +1,390 @@
+// Retry, timeout and circuit-breaker policy for model requests
+
+interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Longer Retry-After waits fail the request instead of holding the run up
+  maxRetryAfterMs: number
+}
+
+// One try at a completion, as shown on the response card
+interface AttemptRecord {
+  attempt: number
+  outcome: 'success' | 'failed' | 'skipped'
+  // Includes any time queued for a free slot or the provider's rate limit
+  durationMs: number
+  statusCode?: number | null
+  error?: string
+  // Wait before the next attempt, from Retry-After or the backoff
+  retryInMs?: number
+}
+
+interface FailureInfo {
+  statusCode: number | null
+  retryAfterMs: number | null
+  retryable: boolean
+  timeout?: 'connect' | 'generation'
+  // The run was cancelled by the user
+  cancelled?: boolean
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60000
+}
+
+// Rate limits, timeouts, conflicts and server errors are worth another try
+const RETRYABLE_STATUS_CODES = [408, 409, 425, 429]
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET']
+
+class ConnectTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response within the ${timeoutMs}ms connect timeout`)
+    this.name = 'ConnectTimeoutError'
+  }
+}
+
+// Abort reason for requests of a run the user cancelled
+class RunCancelledError extends Error {
+  constructor() {
+    super('Cancelled')
+    this.name = 'RunCancelledError'
+  }
+}
+
+// A failed completion with what the retry loop needs to know about it
+class CompletionError extends Error {
+  readonly statusCode: number | null
+  readonly retryAfterMs: number | null
+  readonly retryable: boolean
+  readonly timeout?: 'connect' | 'generation'
+  readonly cancelled?: boolean
+  // The SDK error this wraps, kept for categorizing the failure
+  readonly cause?: unknown
+
+  constructor(message: string, failure: FailureInfo, cause?: unknown) {
+    super(message)
+    this.name = 'CompletionError'
+    this.statusCode = failure.statusCode
+    this.retryAfterMs = failure.retryAfterMs
+    this.retryable = failure.retryable
+    this.timeout = failure.timeout
+    this.cancelled = failure.cancelled
+    this.cause = cause
+  }
+}
+
+class CircuitOpenError extends Error {
+  readonly retryAt: number
+
+  constructor(provider: string, retryAt: number) {
+    super(`Skipped: ${provider} failed repeatedly and is paused until ${new Date(retryAt).toISOString()}`)
+    this.name = 'CircuitOpenError'
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * The SDK and gateway wrap provider errors, so walk the cause chain
+ */
+function unwrapErrors(error: unknown): any[] {
+  const chain: any[] = []
+  let current: any = error
+  while (current && typeof current === 'object' && !chain.includes(current) && chain.length < 10) {
+    chain.push(current)
+    current = current.cause ?? current.lastError
+  }
+  return chain
+}
+
+/**
+ * Wait requested by the server, from Retry-After (seconds or an HTTP date) or
+ * the non-standard retry-after-ms header
+ */
+function parseRetryAfter(headers: Record<string, string> | undefined, now = Date.now()): number | null {
+  if (!headers) return null
+
+  const milliseconds = parseFloat(headers['retry-after-ms'])
+  if (!isNaN(milliseconds) && milliseconds >= 0) return milliseconds
+
+  const value = headers['retry-after']
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return seconds >= 0 ? seconds * 1000 : null
+
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Decide whether a failed request is worth retrying. Generation timeouts are
+ * not: a model that ran out of time will most likely do so again.
+ */
+function classifyError(error: unknown, now = Date.now()): FailureInfo {
+  if (error instanceof CompletionError) {
+    return {
+      statusCode: error.statusCode,
+      retryAfterMs: error.retryAfterMs,
+      retryable: error.retryable,
+      timeout: error.timeout,
+      cancelled: error.cancelled
+    }
+  }
+
+  const chain = unwrapErrors(error)
+  const statusCode = chain.map(item => item.statusCode ?? item.status).find(code => typeof code === 'number') ?? null
+  const retryAfterMs = chain.map(item => parseRetryAfter(item.responseHeaders, now)).find(wait => wait !== null) ?? null
+
+  if (chain.some(item => item instanceof CircuitOpenError)) {
+    return { statusCode, retryAfterMs, retryable: false }
+  }
+  // Checked before timeouts, since aborting a request also raises an AbortError
+  if (chain.some(item => item instanceof RunCancelledError)) {
+    return { statusCode, retryAfterMs, retryable: false, cancelled: true }
+  }
+  if (chain.some(item => item instanceof ConnectTimeoutError)) {
+    return { statusCode, retryAfterMs, retryable: true, timeout: 'connect' }
+  }
+  if (chain.some(item => item.name === 'TimeoutError' || item.name === 'AbortError')) {
+    return { statusCode, retryAfterMs, retryable: false, timeout: 'generation' }
+  }
+
+  if (statusCode !== null) {
+    return { statusCode, retryAfterMs, retryable: statusCode >= 500 || RETRYABLE_STATUS_CODES.includes(statusCode) }
+  }
+
+  const flagged = chain.find(item => typeof item.isRetryable === 'boolean')
+  const networkError = chain.some(item =>
+    NETWORK_ERROR_CODES.includes(item.code) ||
+    (typeof item.message === 'string' && /fetch failed|failed to fetch|socket hang up/i.test(item.message))
+  )
+
+  return { statusCode, retryAfterMs, retryable: networkError || (flagged ? flagged.isRetryable : false) }
+}
+
+/**
+ * Exponential backoff with full jitter, so parallel requests that failed
+ * together do not retry together
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(random() * ceiling)
+}
+
+/**
+ * Fetch that aborts when the server has not started responding in time. The
+ * caller's signal, e.g. the generation timeout, still applies to the body.
+ */
+function createConnectTimeoutFetch(connectTimeoutMs: number, baseFetch: typeof fetch = fetch): typeof fetch {
+  return async (input, init = {}) => {
+    const controller = new AbortController()
+    const callerSignal = init.signal
+    if (callerSignal) {
+      if (callerSignal.aborted) {
+        controller.abort(callerSignal.reason)
+      } else {
+        callerSignal.addEventListener('abort', () => controller.abort(callerSignal.reason), { once: true })
+      }
+    }
+
+    const timer = setTimeout(() => controller.abort(new ConnectTimeoutError(connectTimeoutMs)), connectTimeoutMs)
+    try {
+      return await baseFetch(input, { ...init, signal: controller.signal })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Tracks consecutive failures per key. After the threshold the circuit opens
+ * and requests are skipped until the cooldown ends; then a single probe is let
+ * through, and its outcome closes or reopens the circuit.
+ */
+class CircuitBreaker {
+  private failureThreshold: number
+  private cooldownMs: number
+  private circuits = new Map<string, { failures: number; openedAt: number | null; probing: boolean }>()
+
+  constructor({ failureThreshold = 5, cooldownMs = 30000 }: { failureThreshold?: number; cooldownMs?: number } = {}) {
+    this.failureThreshold = failureThreshold
+    this.cooldownMs = cooldownMs
+  }
+
+  getState(key: string, now = Date.now()): CircuitState {
+    const circuit = this.circuits.get(key)
+    if (!circuit || circuit.openedAt === null) return 'closed'
+    return now - circuit.openedAt >= this.cooldownMs ? 'half-open' : 'open'
+  }
+
+  // When an open circuit lets requests through again
+  getRetryAt(key: string): number | null {
+    const openedAt = this.circuits.get(key)?.openedAt
+    return openedAt != null ? openedAt + this.cooldownMs : null
+  }
+
+  tryAcquire(key: string, now = Date.now()): boolean {
+    const state = this.getState(key, now)
+    if (state === 'closed') return true
+    if (state === 'open') return false
+
+    const circuit = this.circuits.get(key)!
+    if (circuit.probing) return false
+    circuit.probing = true
+    return true
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key)
+  }
+
+  // Frees the probe slot without a verdict, e.g. after a cancelled request, so
+  // the next request probes instead
+  release(key: string): void {
+    const circuit = this.circuits.get(key)
+    if (circuit) circuit.probing = false
+  }
+
+  recordFailure(key: string, now = Date.now()): void {
+    const circuit = this.circuits.get(key) || { failures: 0, openedAt: null, probing: false }
+    circuit.failures++
+    // A failed probe reopens the circuit for another cooldown
+    if (circuit.probing || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = now
+    }
+    circuit.probing = false
+    this.circuits.set(key, circuit)
+  }
+}
+
+// Shared by every request in this server process, keyed by provider
+const providerCircuitBreaker = new CircuitBreaker()
+
+// Ends early when the signal aborts, so a cancelled run does not sit out its backoff
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer)
+    resolve()
+  }, { once: true })
+})
+
+/**
+ * Run an operation until it succeeds, fails with an error that is not worth
+ * retrying, or runs out of attempts. Every attempt is appended to `attempts`,
+ * which the caller keeps whether or not the operation succeeds.
+ */
+async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  {
+    policy = DEFAULT_RETRY_POLICY,
+    attempts,
+    label,
+    breaker,
+    breakerKey,
+    signal,
+    wait = sleep
+  }: {
+    policy?: RetryPolicy
+    attempts: AttemptRecord[]
+    label: string
+    breaker?: CircuitBreaker
+    breakerKey?: string
+    // Stops further attempts once the run is cancelled
+    signal?: AbortSignal
+    wait?: (ms: number, signal?: AbortSignal) => Promise<unknown>
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new RunCancelledError()
+    }
+
+    if (breaker && breakerKey && !breaker.tryAcquire(breakerKey)) {
+      const error = new CircuitOpenError(breakerKey, breaker.getRetryAt(breakerKey) ?? Date.now())
+      attempts.push({ attempt, outcome: 'skipped', durationMs: 0, error: error.message })
+      console.warn(`${label}: ${error.message}`)
+      throw error
+    }
+
+    const startTime = Date.now()
+    try {
+      const value = await operation(attempt)
+      attempts.push({ attempt, outcome: 'success', durationMs: Date.now() - startTime })
+      if (breaker && breakerKey) breaker.recordSuccess(breakerKey)
+      return value
+    } catch (error) {
+      const failure = classifyError(error)
+      const record: AttemptRecord = {
+        attempt,
+        outcome: 'failed',
+        durationMs: Date.now() - startTime,
+        statusCode: failure.statusCode,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+      attempts.push(record)
+
+      // Failures on the provider's side, timeouts included, count towards
+      // opening its circuit; cancellations and client errors say nothing about
+      // the provider and leave the circuit as it is
+      if (breaker && breakerKey) {
+        if (failure.retryable || failure.timeout) {
+          breaker.recordFailure(breakerKey)
+        } else {
+          breaker.release(breakerKey)
+        }
+      }
+
+      const delay = failure.retryAfterMs ?? backoffDelay(attempt, policy)
+      if (!failure.retryable || attempt >= policy.maxAttempts || delay > policy.maxRetryAfterMs) {
+        console.error(`${label}: attempt ${attempt}/${policy.maxAttempts} failed, giving up:`, record.error)
+        throw error
+      }
+
+      record.retryInMs = delay
+      console.warn(`${label}: attempt ${attempt}/${policy.maxAttempts} failed (${record.error}), retrying in ${delay}ms`)
+      await wait(delay, signal)
+    }
+  }
+}
+
+/**
+ * Short summary for response cards, e.g. "succeeded on attempt 2"
+ */
+function describeAttempts(attempts: AttemptRecord[]): string {
+  if (attempts.length === 0) return ''
+  const last = attempts[attempts.length - 1]
+  switch (last.outcome) {
+    case 'success':
+      return `succeeded on attempt ${last.attempt}`
+    case 'skipped':
+      return 'skipped, provider paused'
+    default:
+      return `failed after ${attempts.length} ${attempts.length === 1 ? 'attempt' : 'attempts'}`
+  }
+}
+
+export {
+  DEFAULT_RETRY_POLICY,
+  ConnectTimeoutError,
+  RunCancelledError,
+  CompletionError,
+  CircuitOpenError,
+  CircuitBreaker,
+  providerCircuitBreaker,
+  unwrapErrors,
+  parseRetryAfter,
+  classifyError,
+  backoffDelay,
+  createConnectTimeoutFetch,
+  withRetry,
+  describeAttempts
+}
+export type { RetryPolicy, AttemptRecord, FailureInfo, CircuitState }
@@ -0,0 +1,45 @@
+import { RunCancelledError } from './resilience'
+
+// Runs in progress in this server process, keyed by the id the client
+// generated for the run. Kept on globalThis so routes bundled separately share
+// it; it cannot reach runs in other instances, e.g. another serverless
+// function, so runs are also cancelled when their client goes away.
+const globalForRuns = globalThis as unknown as { activeRuns?: Map<string, AbortController> }
+const activeRuns = globalForRuns.activeRuns || (globalForRuns.activeRuns = new Map())
+
+/**
+ * Track a run so it can be cancelled; its requests listen to the returned
+ * signal. Aborting any of `signals`, e.g. the request's when the client
+ * disconnects, cancels the run as well. Without an id the run can only be
+ * cancelled through those signals.
+ */
+function registerRun(runId: string | undefined, signals: Array<AbortSignal | undefined> = []): AbortSignal {
+  const controller = new AbortController()
+  const cancel = () => controller.abort(new RunCancelledError())
+
+  signals.forEach(signal => {
+    if (signal?.aborted) cancel()
+    else signal?.addEventListener('abort', cancel, { once: true })
+  })
+  if (runId) activeRuns.set(runId, controller)
+  return controller.signal
+}
+
+function unregisterRun(runId: string): void {
+  activeRuns.delete(runId)
+}
+
+/**
+ * Abort a run's outstanding requests. Returns false when the run is unknown,
+ * e.g. because it already finished.
+ */
+function cancelRun(runId: string): boolean {
+  const controller = activeRuns.get(runId)
+  if (!controller) return false
+
+  controller.abort(new RunCancelledError())
+  activeRuns.delete(runId)
+  return true
+}
+
+export { registerRun, unregisterRun, cancelRun }
@@ -0,0 +1,202 @@
+interface SimilarityStrategy {
+  name: string
+  /**
+   * Score two normalized texts between 0 (unrelated) and 1 (identical)
+   */
+  compare(text1: string, text2: string): number
+}
+
+type SimilarityStrategyName = 'levenshtein' | 'exact' | 'jaccard' | 'numeric'
+
+const SIMILARITY_STRATEGY_NAMES: SimilarityStrategyName[] = ['levenshtein', 'exact', 'jaccard', 'numeric']
+
+// Threshold used when a request does not specify one
+const DEFAULT_THRESHOLDS: Record<SimilarityStrategyName, number> = {
+  levenshtein: 0.8,
+  exact: 1,
+  jaccard: 0.5,
+  numeric: 1
+}
+
+const STRATEGY_LABELS: Record<SimilarityStrategyName, string> = {
+  levenshtein: 'Edit distance (Levenshtein)',
+  exact: 'Exact match',
+  jaccard: 'Token-set overlap (Jaccard)',
+  numeric: 'Numeric equivalence'
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90
+}
+
+const NUMBER_SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+  billion: 1000000000
+}
+
+/**
+ * Parse a number written with digits ("1,000", "3.5") or words ("twenty one")
+ */
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim().toLowerCase()
+  if (trimmed === '') return null
+
+  const numeric = trimmed.replace(/,/g, '')
+  if (/^-?\d+(\.\d+)?$/.test(numeric)) {
+    return parseFloat(numeric)
+  }
+
+  const words = trimmed.replace(/-/g, ' ').split(/\s+/).filter(word => word !== 'and')
+  if (words.length === 0) return null
+
+  let total = 0
+  let current = 0
+
+  for (const word of words) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word]
+    } else if (word in NUMBER_SCALES) {
+      const scale = NUMBER_SCALES[word]
+      if (scale === 100) {
+        current = (current || 1) * scale
+      } else {
+        total += (current || 1) * scale
+        current = 0
+      }
+    } else {
+      return null
+    }
+  }
+
+  return total + current
+}
+
+/**
+ * Calculate Levenshtein distance between two strings
+ */
+function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null))
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1, // deletion
+        matrix[j - 1][i] + 1, // insertion
+        matrix[j - 1][i - 1] + indicator // substitution
+      )
+    }
+  }
+
+  return matrix[str2.length][str1.length]
+}
+
+const levenshteinStrategy: SimilarityStrategy = {
+  name: 'levenshtein',
+  compare(text1, text2) {
+    if (text1 === text2) return 1.0
+
+    const distance = levenshteinDistance(text1, text2)
+    const maxLength = Math.max(text1.length, text2.length)
+
+    return maxLength === 0 ? 1.0 : 1 - (distance / maxLength)
+  }
+}
+
+const exactStrategy: SimilarityStrategy = {
+  name: 'exact',
+  compare(text1, text2) {
+    return text1 === text2 ? 1.0 : 0
+  }
+}
+
+const jaccardStrategy: SimilarityStrategy = {
+  name: 'jaccard',
+  compare(text1, text2) {
+    const tokens1 = new Set(text1.split(' ').filter(Boolean))
+    const tokens2 = new Set(text2.split(' ').filter(Boolean))
+
+    if (tokens1.size === 0 && tokens2.size === 0) return 1.0
+
+    let intersection = 0
+    tokens1.forEach(token => {
+      if (tokens2.has(token)) intersection++
+    })
+    const union = tokens1.size + tokens2.size - intersection
+
+    return union === 0 ? 0 : intersection / union
+  }
+}
+
+const numericStrategy: SimilarityStrategy = {
+  name: 'numeric',
+  compare(text1, text2) {
+    const number1 = parseNumber(text1)
+    const number2 = parseNumber(text2)
+
+    // Non-numeric answers only match when they are identical
+    if (number1 === null || number2 === null) {
+      return number1 === null && number2 === null && text1 === text2 ? 1.0 : 0
+    }
+
+    return number1 === number2 ? 1.0 : 0
+  }
+}
+
+const BUILT_IN_STRATEGIES: Record<SimilarityStrategyName, SimilarityStrategy> = {
+  levenshtein: levenshteinStrategy,
+  exact: exactStrategy,
+  jaccard: jaccardStrategy,
+  numeric: numericStrategy
+}
+
+/**
+ * Look up one of the built-in similarity strategies by name
+ */
+function getSimilarityStrategy(name: SimilarityStrategyName): SimilarityStrategy {
+  return BUILT_IN_STRATEGIES[name]
+}
+
+/**
+ * Wrap a custom comparison function so it can be passed to the analyzer
+ */
+function createSimilarityStrategy(
+  name: string,
+  compare: (text1: string, text2: string) => number
+): SimilarityStrategy {
+  return { name, compare }
+}
+
+function getDefaultThreshold(name: string): number {
+  return DEFAULT_THRESHOLDS[name as SimilarityStrategyName] ?? DEFAULT_THRESHOLDS.levenshtein
+}
+
+function getSimilarityStrategyLabel(name: string): string {
+  return STRATEGY_LABELS[name as SimilarityStrategyName] || `Custom (${name})`
+}
+
+/**
+ * Human-readable explanation of how consensus groups were formed
+ */
+function describeSimilarityStrategy(name: string, threshold: number): string {
+  return `${getSimilarityStrategyLabel(name)}, threshold ${threshold.toFixed(2)}`
+}
+
+export {
+  SIMILARITY_STRATEGY_NAMES,
+  getSimilarityStrategy,
+  createSimilarityStrategy,
+  getDefaultThreshold,
+  getSimilarityStrategyLabel,
+  describeSimilarityStrategy,
+  parseNumber
+}
+export type { SimilarityStrategy, SimilarityStrategyName }
@@ -0,0 +1,96 @@
+// Minimal Server-Sent Events helpers shared by streaming routes and the stores
+// that consume them
+
+interface SseEvent {
+  event: string
+  data: any
+}
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive'
+}
+
+function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Build a streaming response; `run` sends events until it resolves, and an
+ * uncaught error is reported as a final "error" event. Once the client goes
+ * away, the signal passed to `run` aborts and events are dropped while `run`
+ * finishes, e.g. saving a cancelled run.
+ */
+function createSseResponse(
+  run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder()
+  const disconnect = new AbortController()
+  let disconnected = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (disconnected) return
+        controller.enqueue(encoder.encode(formatSseEvent(event, data)))
+      }
+
+      try {
+        await run(send, disconnect.signal)
+      } catch (error) {
+        console.error('Error in event stream:', error)
+        send('error', { error: error instanceof Error ? error.message : 'Stream failed' })
+      } finally {
+        if (!disconnected) controller.close()
+      }
+    },
+    cancel() {
+      disconnected = true
+      disconnect.abort()
+    }
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
+
+/**
+ * Read an event stream from a fetch response, calling `onEvent` for each event
+ */
+async function readSseStream(response: Response, onEvent: (event: SseEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      const dataLines: string[] = []
+      chunk.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+      })
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) })
+      }
+    }
+  }
+}
+
+export { formatSseEvent, createSseResponse, readSseStream }
+export type { SseEvent }
@@ -0,0 +1,125 @@
+import { BenchmarkRun, Response } from './database-types'
+import { analyzeSavedRun } from './benchmark-runner'
+import { ConsensusAnalyzer, ConsensusAnalysis } from './consensus-analyzer'
+import { FleissKappa } from './agreement-statistics'
+import { sumCosts } from './pricing'
+
+interface RunMatrixCell {
+  answer: string
+  agreesWithMajority: boolean
+  isCorrect?: boolean | null
+  // Share of the model's samples matching its own answer, when sampled repeatedly
+  consistency?: number
+}
+
+interface RunMatrixRow {
+  runId: string
+  text: string
+  topResponse: string
+  consensusLevel: number
+  accuracy?: number
+  // Keyed by model id
+  cells: Record<string, RunMatrixCell>
+}
+
+interface RunMatrixModel {
+  id: string
+  name: string
+  provider: string
+  answered: number
+  // Share of prompts where the model was in the largest consensus group
+  agreementRate: number
+  accuracy: number | null
+}
+
+interface RunMatrix {
+  models: RunMatrixModel[]
+  rows: RunMatrixRow[]
+  averageConsensus: number
+  averageAccuracy: number | null
+  // Chance-corrected agreement of the models across all prompts
+  fleissKappa: FleissKappa | null
+  // Null when no response could be priced
+  totalCostUsd: number | null
+}
+
+/**
+ * Build the prompt x model matrix of a suite run, re-analyzing each prompt's
+ * run with the settings it was saved with
+ */
+function buildRunMatrix(runs: BenchmarkRun[], responses: Response[]): RunMatrix {
+  const models = new Map<string, RunMatrixModel & { agreed: number; correct: number; scored: number }>()
+  const analyses: ConsensusAnalysis[] = []
+
+  const rows: RunMatrixRow[] = runs.map(run => {
+    const promptResponses = responses.filter(response => response.run_id === run.id)
+    const analysis = analyzeSavedRun(run, promptResponses)
+    analyses.push(analysis)
+    const cells: Record<string, RunMatrixCell> = {}
+
+    analysis.groups.forEach((group, groupIndex) => {
+      group.responses.forEach(response => {
+        const agreesWithMajority = groupIndex === 0
+        cells[response.model_id] = {
+          answer: response.canonical_text || response.response_text,
+          agreesWithMajority,
+          isCorrect: response.is_correct,
+          consistency: analysis.selfConsistency?.find(model => model.modelId === response.model_id)?.consistency
+        }
+
+        const source = promptResponses.find(r => r.id === response.id)
+        const entry = models.get(response.model_id) || {
+          id: response.model_id,
+          name: source?.model?.name || 'Unknown',
+          provider: source?.model?.provider || 'Unknown',
+          answered: 0,
+          agreementRate: 0,
+          accuracy: null,
+          agreed: 0,
+          correct: 0,
+          scored: 0
+        }
+        entry.answered++
+        if (agreesWithMajority) entry.agreed++
+        if (response.is_correct !== undefined && response.is_correct !== null) {
+          entry.scored++
+          if (response.is_correct) entry.correct++
+        }
+        models.set(response.model_id, entry)
+      })
+    })
+
+    return {
+      runId: run.id,
+      text: run.prompt?.text || '',
+      topResponse: analysis.topResponse,
+      consensusLevel: analysis.consensusLevel,
+      accuracy: analysis.accuracy,
+      cells
+    }
+  })
+
+  const scoredRows = rows.filter(row => row.accuracy !== undefined)
+
+  return {
+    models: Array.from(models.values())
+      .map(({ agreed, correct, scored, ...model }) => ({
+        ...model,
+        agreementRate: model.answered > 0 ? (agreed / model.answered) * 100 : 0,
+        accuracy: scored > 0 ? (correct / scored) * 100 : null
+      }))
+      .sort((a, b) => a.provider.localeCompare(b.provider) || a.name.localeCompare(b.name)),
+    rows,
+    averageConsensus: rows.length > 0
+      ? rows.reduce((sum, row) => sum + row.consensusLevel, 0) / rows.length
+      : 0,
+    averageAccuracy: scoredRows.length > 0
+      ? scoredRows.reduce((sum, row) => sum + row.accuracy!, 0) / scoredRows.length
+      : null,
+    fleissKappa: ConsensusAnalyzer.fleissKappa(analyses),
+    totalCostUsd: sumCosts(responses.map(response => response.cost_usd))
+  }
+}
+
+export { buildRunMatrix }
+export type { RunMatrix, RunMatrixRow, RunMatrixCell, RunMatrixModel }
@@ -0,0 +1,193 @@
+import { parseGroundTruthInput } from './accuracy-scorer'
+import { parseTags } from './utils'
+
+type SuiteFormat = 'json' | 'jsonl' | 'csv'
+
+interface SuitePromptInput {
+  text: string
+  expected_answers: string[] | null
+  expected_pattern: string | null
+  tags: string[] | null
+}
+
+interface ParsedSuite {
+  name?: string
+  description?: string
+  prompts: SuitePromptInput[]
+}
+
+const MAX_PROMPT_LENGTH = 1000
+
+/**
+ * Guess the format from the content when the user did not pick one
+ */
+function detectSuiteFormat(content: string): SuiteFormat {
+  const trimmed = content.trim()
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return 'csv'
+  }
+
+  // A single JSON document parses as a whole; JSON Lines does not
+  try {
+    JSON.parse(trimmed)
+    return 'json'
+  } catch {
+    return 'jsonl'
+  }
+}
+
+/**
+ * Parse a suite file. Each entry needs a prompt ("text", "prompt" or
+ * "question") and may carry expected answers ("expected", "answer" or
+ * "answers" - a string, a "|"-separated list or an array), a "pattern" and
+ * "tags" (a comma-separated list or an array).
+ */
+function parseSuite(content: string, format: SuiteFormat = detectSuiteFormat(content)): ParsedSuite {
+  let suite: ParsedSuite
+
+  switch (format) {
+    case 'json': {
+      const data = JSON.parse(content)
+      const entries = Array.isArray(data) ? data : data.prompts
+      if (!Array.isArray(entries)) {
+        throw new Error('JSON suites must be an array of prompts or an object with a "prompts" array')
+      }
+      suite = {
+        name: Array.isArray(data) ? undefined : data.name,
+        description: Array.isArray(data) ? undefined : data.description,
+        prompts: entries.map((entry: unknown, index: number) => toSuitePrompt(entry, index + 1))
+      }
+      break
+    }
+    case 'jsonl':
+      suite = {
+        prompts: content
+          .split('\n')
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map((line, index) => {
+            try {
+              return toSuitePrompt(JSON.parse(line), index + 1)
+            } catch (error) {
+              if (error instanceof SyntaxError) {
+                throw new Error(`Line ${index + 1}: invalid JSON`)
+              }
+              throw error
+            }
+          })
+      }
+      break
+    case 'csv': {
+      const [header, ...rows] = parseCsv(content)
+      if (!header) {
+        throw new Error('CSV suites need a header row')
+      }
+      const columns = header.map(column => column.trim().toLowerCase())
+      suite = {
+        prompts: rows.map((row, index) => {
+          const entry: Record<string, string> = {}
+          columns.forEach((column, i) => {
+            entry[column] = row[i] ?? ''
+          })
+          return toSuitePrompt(entry, index + 2)
+        })
+      }
+      break
+    }
+  }
+
+  if (suite.prompts.length === 0) {
+    throw new Error('Suite contains no prompts')
+  }
+
+  return suite
+}
+
+function toSuitePrompt(entry: unknown, line: number): SuitePromptInput {
+  if (typeof entry === 'string') {
+    entry = { text: entry }
+  }
+  if (!entry || typeof entry !== 'object') {
+    throw new Error(`Entry ${line}: expected an object`)
+  }
+
+  const record = entry as Record<string, unknown>
+  const text = String(record.text ?? record.prompt ?? record.question ?? '').trim()
+  if (!text) {
+    throw new Error(`Entry ${line}: prompt text is required`)
+  }
+  if (text.length > MAX_PROMPT_LENGTH) {
+    throw new Error(`Entry ${line}: prompt too long (max ${MAX_PROMPT_LENGTH} characters)`)
+  }
+
+  const expected = record.expected ?? record.answers ?? record.answer
+  const answers = Array.isArray(expected)
+    ? expected.map(answer => String(answer).trim()).filter(Boolean)
+    : parseGroundTruthInput(String(expected ?? ''))?.answers || []
+
+  const pattern = typeof record.pattern === 'string' && record.pattern.trim() !== '' ? record.pattern.trim() : null
+  if (pattern) {
+    try {
+      new RegExp(pattern)
+    } catch {
+      throw new Error(`Entry ${line}: invalid regular expression "${pattern}"`)
+    }
+  }
+
+  const tags = Array.isArray(record.tags)
+    ? parseTags(record.tags.map(tag => String(tag)))
+    : parseTags(String(record.tags ?? ''))
+
+  return {
+    text,
+    expected_answers: answers.length > 0 ? answers : null,
+    expected_pattern: pattern,
+    tags: tags.length > 0 ? tags : null
+  }
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(value => value.trim() !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some(value => value.trim() !== '')) rows.push(row)
+
+  return rows
+}
+
+export { parseSuite, detectSuiteFormat }
+export type { SuiteFormat, SuitePromptInput, ParsedSuite }
@@ -1,57 +1,59 @@
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables')
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { hashPromptText } from './prompt-hash'
+import type {
+  BenchmarkRepository,
+  BenchmarkRun,
+  BenchmarkRunUpdate,
+  ConsensusGroup,
+  DriftSchedule,
+  DriftScheduleUpdate,
+  Model,
+  ModelProfile,
+  NewConsensusGroup,
+  NewDriftSchedule,
+  NewModel,
+  NewBenchmarkRun,
+  NewModelProfile,
+  NewResponse,
+  NewSuitePrompt,
+  Prompt,
+  PromptHistoryEntry,
+  Response,
+  Suite,
+  SuitePrompt,
+  SuiteRun,
+  SuiteRunUpdate
+} from './database-types'
+
+let client: SupabaseClient | null = null
+
+function isSupabaseConfigured(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
-
-// Database types
-export interface Model {
-  id: string
-  name: string
-  provider: string
-  model_id: string
-  enabled: boolean
-  context_length: number
-  created_at?: string
-  updated_at?: string
-}
+// Created on first use so that importing this module never requires Supabase
+function getSupabase(): SupabaseClient {
+  if (!client) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
-export interface Prompt {
-  id: string
-  text: string
-  created_at: string
-  updated_at?: string
-}
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
 
-export interface Response {
-  id: string
-  prompt_id: string
-  model_id: string
-  response_text: string
-  response_time_ms: number
-  created_at: string
-  model?: Model
+    client = createClient(supabaseUrl, supabaseAnonKey)
+  }
+  return client
 }
 
-export interface ConsensusGroup {
-  id: string
-  prompt_id: string
-  group_name: string
-  count: number
-  percentage: number
-  color: string
-  models?: string[]  // Optional since database doesn't have this column yet
-  created_at: string
-}
+// Supabase returns at most 1000 rows per request by default
+const HISTORY_PAGE_SIZE = 1000
 
-// Supabase client with enhanced error handling
-export class SupabaseClient {
-  private client = supabase
+// Supabase repository with enhanced error handling
+class SupabaseRepository implements BenchmarkRepository {
+  private get client(): SupabaseClient {
+    return getSupabase()
+  }
 
   async getModels(): Promise<Model[]> {
     try {
@@ -92,7 +94,7 @@ export class SupabaseClient {
     }
   }
 
-  async upsertModels(models: Omit<Model, 'id' | 'created_at' | 'updated_at'>[]): Promise<Model[]> {
+  async upsertModels(models: NewModel[]): Promise<Model[]> {
     try {
       const { data, error } = await this.client
         .from('models')
@@ -110,14 +112,67 @@ export class SupabaseClient {
     }
   }
 
-  async savePrompt(text: string): Promise<Prompt> {
+  async getModelProfiles(): Promise<ModelProfile[]> {
     try {
       const { data, error } = await this.client
-        .from('prompts')
-        .insert({ text })
+        .from('model_profiles')
+        .select('*')
+
+      if (error) {
+        throw new Error(`Failed to fetch model profiles: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching model profiles:', error)
+      throw error
+    }
+  }
+
+  async upsertModelProfile(profile: NewModelProfile): Promise<ModelProfile> {
+    try {
+      const { data, error } = await this.client
+        .from('model_profiles')
+        .upsert({ ...profile, updated_at: new Date().toISOString() }, { onConflict: 'model_id' })
         .select()
         .single()
 
+      if (error) {
+        throw new Error(`Failed to save model profile: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error saving model profile:', error)
+      throw error
+    }
+  }
+
+  async deleteModelProfile(modelId: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('model_profiles')
+        .delete()
+        .eq('model_id', modelId)
+
+      if (error) {
+        throw new Error(`Failed to delete model profile: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error deleting model profile:', error)
+      throw error
+    }
+  }
+
+  async findOrCreatePrompt(text: string): Promise<Prompt> {
+    try {
+      // Upserting also bumps updated_at, which orders the prompt history
+      const { data, error } = await this.client
+        .from('prompts')
+        .upsert({ text, text_hash: hashPromptText(text), updated_at: new Date().toISOString() }, { onConflict: 'text_hash' })
+        .select('id, text, text_hash, created_at, updated_at')
+        .single()
+
       if (error) {
         throw new Error(`Failed to save prompt: ${error.message}`)
       }
@@ -129,7 +184,42 @@ export class SupabaseClient {
     }
   }
 
-  async saveResponses(responses: Omit<Response, 'id' | 'created_at'>[]): Promise<Response[]> {
+  async createBenchmarkRun(run: NewBenchmarkRun): Promise<BenchmarkRun> {
+    try {
+      const { data, error } = await this.client
+        .from('benchmark_runs')
+        .insert({ ...run, status: 'running' })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create benchmark run: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error creating benchmark run:', error)
+      throw error
+    }
+  }
+
+  async updateBenchmarkRun(id: string, updates: BenchmarkRunUpdate): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('benchmark_runs')
+        .update(updates)
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to update benchmark run: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error updating benchmark run:', error)
+      throw error
+    }
+  }
+
+  async saveResponses(responses: NewResponse[]): Promise<Response[]> {
     try {
       const { data, error } = await this.client
         .from('responses')
@@ -150,7 +240,7 @@ export class SupabaseClient {
     }
   }
 
-  async saveConsensusGroups(groups: Omit<ConsensusGroup, 'id' | 'created_at'>[]): Promise<ConsensusGroup[]> {
+  async saveConsensusGroups(groups: NewConsensusGroup[]): Promise<ConsensusGroup[]> {
     try {
       const { data, error } = await this.client
         .from('consensus_groups')
@@ -168,54 +258,535 @@ export class SupabaseClient {
     }
   }
 
-  async getPromptHistory(limit = 50): Promise<Prompt[]> {
+  async getScoredResponses(modelIds: string[]): Promise<Pick<Response, 'model_id' | 'is_correct'>[]> {
+    try {
+      const responses: Pick<Response, 'model_id' | 'is_correct'>[] = []
+
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from('responses')
+          .select('model_id, is_correct')
+          .in('model_id', modelIds)
+          .not('is_correct', 'is', null)
+          .order('id')
+          .range(offset, offset + HISTORY_PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to fetch scored responses: ${error.message}`)
+        }
+
+        responses.push(...(data || []))
+        if (!data || data.length < HISTORY_PAGE_SIZE) break
+      }
+
+      return responses
+    } catch (error) {
+      console.error('Error fetching scored responses:', error)
+      throw error
+    }
+  }
+
+  async getSpendSince(from: string): Promise<number> {
+    try {
+      let total = 0
+
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from('responses')
+          .select('cost_usd')
+          .gte('created_at', from)
+          .not('cost_usd', 'is', null)
+          .order('id')
+          .range(offset, offset + HISTORY_PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to fetch spend: ${error.message}`)
+        }
+
+        total += (data || []).reduce((sum, row) => sum + Number(row.cost_usd), 0)
+        if (!data || data.length < HISTORY_PAGE_SIZE) break
+      }
+
+      return total
+    } catch (error) {
+      console.error('Error fetching spend:', error)
+      throw error
+    }
+  }
+
+  async getConsensusGroupHistory(limit = 5000): Promise<ConsensusGroup[]> {
+    try {
+      const groups: ConsensusGroup[] = []
+
+      // Supabase caps rows per request, so read up to the limit page by page
+      for (let offset = 0; offset < limit; offset += HISTORY_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from('consensus_groups')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(offset, Math.min(offset + HISTORY_PAGE_SIZE, limit) - 1)
+
+        if (error) {
+          throw new Error(`Failed to fetch consensus group history: ${error.message}`)
+        }
+
+        groups.push(...(data || []))
+        if (!data || data.length < Math.min(HISTORY_PAGE_SIZE, limit - offset)) break
+      }
+
+      return groups
+    } catch (error) {
+      console.error('Error fetching consensus group history:', error)
+      throw error
+    }
+  }
+
+  async getRunsWithResponses(runIds: string[]): Promise<{
+    runs: BenchmarkRun[]
+    responses: Response[]
+  }> {
+    try {
+      if (runIds.length === 0) {
+        return { runs: [], responses: [] }
+      }
+
+      const [runsResult, responsesResult] = await Promise.all([
+        this.client.from('benchmark_runs').select('*').in('id', runIds),
+        this.client.from('responses').select(`
+          *,
+          model:models(*)
+        `).in('run_id', runIds).order('created_at').order('id')
+      ])
+
+      if (runsResult.error) {
+        throw new Error(`Failed to fetch benchmark runs: ${runsResult.error.message}`)
+      }
+      if (responsesResult.error) {
+        throw new Error(`Failed to fetch responses: ${responsesResult.error.message}`)
+      }
+
+      return { runs: runsResult.data || [], responses: responsesResult.data || [] }
+    } catch (error) {
+      console.error('Error fetching runs with responses:', error)
+      throw error
+    }
+  }
+
+  async getResponseHistory({ from, to }: { from?: string; to?: string } = {}): Promise<Array<Response & { run: BenchmarkRun }>> {
+    try {
+      const responses: Array<Response & { run: BenchmarkRun }> = []
+
+      // Supabase caps rows per request, so read the history page by page
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        let query = this.client
+          .from('responses')
+          .select(`
+            *,
+            model:models(*),
+            run:benchmark_runs(*)
+          `)
+          .order('created_at')
+          .order('id')
+          .range(offset, offset + HISTORY_PAGE_SIZE - 1)
+
+        if (from) query = query.gte('created_at', from)
+        if (to) query = query.lt('created_at', to)
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Failed to fetch response history: ${error.message}`)
+        }
+
+        responses.push(...(data || []))
+        if (!data || data.length < HISTORY_PAGE_SIZE) break
+      }
+
+      return responses
+    } catch (error) {
+      console.error('Error fetching response history:', error)
+      throw error
+    }
+  }
+
+  async getPromptHistory(limit = 50): Promise<PromptHistoryEntry[]> {
     try {
       const { data, error } = await this.client
         .from('prompts')
-        .select('*')
-        .order('created_at', { ascending: false })
+        .select('id, text, text_hash, created_at, updated_at, runs:benchmark_runs(*)')
+        .order('updated_at', { ascending: false })
         .limit(limit)
 
       if (error) {
         throw new Error(`Failed to fetch prompt history: ${error.message}`)
       }
 
-      return data || []
+      return (data || []).map((prompt: PromptHistoryEntry) => ({
+        ...prompt,
+        runs: [...(prompt.runs || [])].sort((a, b) => b.created_at.localeCompare(a.created_at))
+      }))
     } catch (error) {
       console.error('Error fetching prompt history:', error)
       throw error
     }
   }
 
-  async getPromptWithResults(promptId: string): Promise<{
+  async getRunWithResults(runId: string): Promise<{
     prompt: Prompt
+    run: BenchmarkRun
     responses: Response[]
     consensusGroups: ConsensusGroup[]
   } | null> {
     try {
-      const [promptResult, responsesResult, consensusResult] = await Promise.all([
-        this.client.from('prompts').select('*').eq('id', promptId).single(),
+      const [runResult, responsesResult, consensusResult] = await Promise.all([
+        this.client.from('benchmark_runs').select('*, prompt:prompts(id, text, text_hash, created_at, updated_at)').eq('id', runId).maybeSingle(),
         this.client.from('responses').select(`
           *,
           model:models(*)
-        `).eq('prompt_id', promptId),
-        this.client.from('consensus_groups').select('*').eq('prompt_id', promptId)
+        `).eq('run_id', runId).order('created_at').order('id'),
+        this.client.from('consensus_groups').select('*').eq('run_id', runId)
       ])
 
-      if (promptResult.error) {
-        throw new Error(`Failed to fetch prompt: ${promptResult.error.message}`)
+      if (runResult.error) {
+        throw new Error(`Failed to fetch benchmark run: ${runResult.error.message}`)
       }
+      if (!runResult.data) return null
 
+      const { prompt, ...run } = runResult.data
       return {
-        prompt: promptResult.data,
+        prompt,
+        run,
         responses: responsesResult.data || [],
         consensusGroups: consensusResult.data || []
       }
     } catch (error) {
-      console.error('Error fetching prompt with results:', error)
+      console.error('Error fetching run with results:', error)
+      throw error
+    }
+  }
+
+  async createSuite(
+    name: string,
+    description: string | null,
+    prompts: NewSuitePrompt[]
+  ): Promise<Suite> {
+    try {
+      const { data: suite, error } = await this.client
+        .from('suites')
+        .insert({ name, description })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create suite: ${error.message}`)
+      }
+
+      const { error: promptsError } = await this.client
+        .from('suite_prompts')
+        .insert(prompts.map((prompt, position) => ({ ...prompt, suite_id: suite.id, position })))
+
+      if (promptsError) {
+        throw new Error(`Failed to save suite prompts: ${promptsError.message}`)
+      }
+
+      return { ...suite, prompt_count: prompts.length }
+    } catch (error) {
+      console.error('Error creating suite:', error)
+      throw error
+    }
+  }
+
+  async getSuites(): Promise<Suite[]> {
+    try {
+      const { data, error } = await this.client
+        .from('suites')
+        .select('*, suite_prompts(count)')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch suites: ${error.message}`)
+      }
+
+      return (data || []).map(({ suite_prompts, ...suite }: any) => ({
+        ...suite,
+        prompt_count: suite_prompts?.[0]?.count ?? 0
+      }))
+    } catch (error) {
+      console.error('Error fetching suites:', error)
+      throw error
+    }
+  }
+
+  async getSuitePrompts(suiteId: string): Promise<SuitePrompt[]> {
+    try {
+      const { data, error } = await this.client
+        .from('suite_prompts')
+        .select('*')
+        .eq('suite_id', suiteId)
+        .order('position', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch suite prompts: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching suite prompts:', error)
+      throw error
+    }
+  }
+
+  async createSuiteRun(suiteId: string, modelIds: string[], totalPrompts: number, scheduleId?: string): Promise<SuiteRun> {
+    try {
+      const { data, error } = await this.client
+        .from('suite_runs')
+        .insert({
+          suite_id: suiteId,
+          model_ids: modelIds,
+          status: 'running',
+          total_prompts: totalPrompts,
+          completed_prompts: 0,
+          schedule_id: scheduleId || null
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create suite run: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error creating suite run:', error)
+      throw error
+    }
+  }
+
+  async updateSuiteRun(
+    id: string,
+    updates: SuiteRunUpdate
+  ): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('suite_runs')
+        .update(updates)
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to update suite run: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error updating suite run:', error)
+      throw error
+    }
+  }
+
+  async getSuiteRuns(limit = 20): Promise<SuiteRun[]> {
+    try {
+      const { data, error } = await this.client
+        .from('suite_runs')
+        .select('*, suite:suites(id, name)')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Failed to fetch suite runs: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching suite runs:', error)
+      throw error
+    }
+  }
+
+  async getSuiteRunWithResults(runId: string): Promise<{
+    run: SuiteRun
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null> {
+    try {
+      const [runResult, runsResult] = await Promise.all([
+        this.client.from('suite_runs').select('*, suite:suites(id, name)').eq('id', runId).single(),
+        this.client.from('benchmark_runs').select('*, prompt:prompts(id, text, text_hash, created_at, updated_at)').eq('suite_run_id', runId).order('created_at')
+      ])
+
+      if (runResult.error) {
+        throw new Error(`Failed to fetch suite run: ${runResult.error.message}`)
+      }
+
+      const runs: BenchmarkRun[] = runsResult.data || []
+      if (runs.length === 0) {
+        return { run: runResult.data, runs, responses: [] }
+      }
+
+      const { data: responses, error } = await this.client
+        .from('responses')
+        .select(`
+          *,
+          model:models(*)
+        `)
+        .in('run_id', runs.map(run => run.id))
+        .order('created_at')
+        .order('id')
+
+      if (error) {
+        throw new Error(`Failed to fetch suite run responses: ${error.message}`)
+      }
+
+      return { run: runResult.data, runs, responses: responses || [] }
+    } catch (error) {
+      console.error('Error fetching suite run with results:', error)
+      throw error
+    }
+  }
+
+  async createDriftSchedule(schedule: NewDriftSchedule): Promise<DriftSchedule> {
+    try {
+      const { data, error } = await this.client
+        .from('drift_schedules')
+        .insert(schedule)
+        .select('*, suite:suites(id, name)')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create drift schedule: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error creating drift schedule:', error)
+      throw error
+    }
+  }
+
+  async getDriftSchedules(): Promise<DriftSchedule[]> {
+    try {
+      const { data, error } = await this.client
+        .from('drift_schedules')
+        .select('*, suite:suites(id, name)')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch drift schedules: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching drift schedules:', error)
+      throw error
+    }
+  }
+
+  async updateDriftSchedule(id: string, updates: DriftScheduleUpdate): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('drift_schedules')
+        .update(updates)
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to update drift schedule: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error updating drift schedule:', error)
+      throw error
+    }
+  }
+
+  async deleteDriftSchedule(id: string): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('drift_schedules')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Failed to delete drift schedule: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Error deleting drift schedule:', error)
+      throw error
+    }
+  }
+
+  async getDriftHistory(scheduleId: string, limit = 20): Promise<{
+    schedule: DriftSchedule
+    suiteRuns: SuiteRun[]
+    runs: BenchmarkRun[]
+    responses: Response[]
+  } | null> {
+    try {
+      const [scheduleResult, suiteRunsResult] = await Promise.all([
+        this.client.from('drift_schedules').select('*, suite:suites(id, name)').eq('id', scheduleId).maybeSingle(),
+        this.client.from('suite_runs').select('*, suite:suites(id, name)').eq('schedule_id', scheduleId)
+          .order('created_at', { ascending: false })
+          .limit(limit)
+      ])
+
+      if (scheduleResult.error) {
+        throw new Error(`Failed to fetch drift schedule: ${scheduleResult.error.message}`)
+      }
+      if (suiteRunsResult.error) {
+        throw new Error(`Failed to fetch drift runs: ${suiteRunsResult.error.message}`)
+      }
+      if (!scheduleResult.data) return null
+
+      const suiteRuns: SuiteRun[] = [...(suiteRunsResult.data || [])].reverse()
+      const suiteRunIds = suiteRuns.map(run => run.id)
+      const runs: BenchmarkRun[] = []
+      const responses: Response[] = []
+      if (suiteRunIds.length === 0) {
+        return { schedule: scheduleResult.data, suiteRuns, runs, responses }
+      }
+
+      // A schedule's history easily exceeds one page, so read it page by page
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from('benchmark_runs')
+          .select('*, prompt:prompts(id, text, text_hash, created_at, updated_at)')
+          .in('suite_run_id', suiteRunIds)
+          .order('created_at')
+          .order('id')
+          .range(offset, offset + HISTORY_PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to fetch drift benchmark runs: ${error.message}`)
+        }
+
+        runs.push(...(data || []))
+        if (!data || data.length < HISTORY_PAGE_SIZE) break
+      }
+
+      // Filtered through the run, since the run ids are too many for one query
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from('responses')
+          .select(`
+            *,
+            model:models(*),
+            benchmark_runs!inner(suite_run_id)
+          `)
+          .in('benchmark_runs.suite_run_id', suiteRunIds)
+          .order('created_at')
+          .order('id')
+          .range(offset, offset + HISTORY_PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to fetch drift responses: ${error.message}`)
+        }
+
+        responses.push(...(data || []).map(({ benchmark_runs, ...response }: any) => response))
+        if (!data || data.length < HISTORY_PAGE_SIZE) break
+      }
+
+      return { schedule: scheduleResult.data, suiteRuns, runs, responses }
+    } catch (error) {
+      console.error('Error fetching drift history:', error)
       throw error
     }
   }
 }
 
-export const supabaseClient = new SupabaseClient()
\ No newline at end of file
+export { SupabaseRepository, getSupabase, isSupabaseConfigured }
@@ -92,6 +92,14 @@ export function formatPercentage(value: number, decimals = 1): string {
   return `${value.toFixed(decimals)}%`
 }
 
+// Utility for parsing comma-separated prompt tags into lowercase, de-duplicated tags
+export function parseTags(input: string | string[]): string[] {
+  const tags = (Array.isArray(input) ? input : input.split(','))
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
 // Utility for validating URLs
 export function isValidUrl(string: string): boolean {
   try {
@@ -0,0 +1,132 @@
+interface Vectorizer {
+  name: string
+  /**
+   * Turn normalized texts into vectors of equal length. Implementations must run
+   * locally - no network calls.
+   */
+  vectorize(texts: string[]): number[][]
+}
+
+interface TfIdfOptions {
+  minNgram?: number
+  maxNgram?: number
+  includeWords?: boolean
+}
+
+// Cosine similarity above which two answers are considered the same in semantic mode
+const DEFAULT_SEMANTIC_THRESHOLD = 0.4
+
+/**
+ * TF-IDF over character n-grams (and optionally whole words). Character n-grams
+ * make "jupiter" and "the planet jupiter" overlap strongly, while IDF keeps shared
+ * filler such as "the" from dominating.
+ */
+class TfIdfVectorizer implements Vectorizer {
+  readonly name = 'tfidf'
+  private minNgram: number
+  private maxNgram: number
+  private includeWords: boolean
+
+  constructor(options: TfIdfOptions = {}) {
+    this.minNgram = options.minNgram ?? 3
+    this.maxNgram = options.maxNgram ?? 4
+    this.includeWords = options.includeWords ?? true
+  }
+
+  vectorize(texts: string[]): number[][] {
+    const termCounts = texts.map(text => this.countTerms(text))
+
+    // Build vocabulary and document frequencies
+    const documentFrequency = new Map<string, number>()
+    termCounts.forEach(counts => {
+      counts.forEach((_, term) => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+      })
+    })
+    const vocabulary = Array.from(documentFrequency.keys()).sort()
+    const index = new Map(vocabulary.map((term, i) => [term, i]))
+
+    // Smoothed IDF so terms present in every document still carry some weight
+    const total = texts.length
+    const idf = vocabulary.map(term => Math.log((1 + total) / (1 + documentFrequency.get(term)!)) + 1)
+
+    return termCounts.map(counts => {
+      const vector = new Array(vocabulary.length).fill(0)
+      counts.forEach((count, term) => {
+        const i = index.get(term)!
+        vector[i] = count * idf[i]
+      })
+      return vector
+    })
+  }
+
+  private countTerms(text: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    const add = (term: string) => counts.set(term, (counts.get(term) || 0) + 1)
+
+    const words = text.split(' ').filter(Boolean)
+    if (this.includeWords) {
+      words.forEach(word => add(`w:${word}`))
+    }
+
+    words.forEach(word => {
+      const padded = ` ${word} `
+      for (let n = this.minNgram; n <= this.maxNgram; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          add(`c:${padded.slice(i, i + n)}`)
+        }
+      }
+    })
+
+    return counts
+  }
+}
+
+/**
+ * Wrap a local embedding function (e.g. an on-device model) as a vectorizer
+ */
+function createEmbeddingVectorizer(name: string, embed: (text: string) => number[]): Vectorizer {
+  return {
+    name,
+    vectorize: (texts) => texts.map(text => embed(text))
+  }
+}
+
+function cosineSimilarity(vector1: number[], vector2: number[]): number {
+  let dot = 0
+  let norm1 = 0
+  let norm2 = 0
+
+  for (let i = 0; i < vector1.length; i++) {
+    dot += vector1[i] * vector2[i]
+    norm1 += vector1[i] * vector1[i]
+    norm2 += vector2[i] * vector2[i]
+  }
+
+  if (norm1 === 0 || norm2 === 0) {
+    return norm1 === norm2 ? 1.0 : 0
+  }
+
+  return dot / (Math.sqrt(norm1) * Math.sqrt(norm2))
+}
+
+function meanVector(vectors: number[][]): number[] {
+  if (vectors.length === 0) return []
+
+  const mean = new Array(vectors[0].length).fill(0)
+  vectors.forEach(vector => {
+    vector.forEach((value, i) => {
+      mean[i] += value / vectors.length
+    })
+  })
+  return mean
+}
+
+export {
+  TfIdfVectorizer,
+  createEmbeddingVectorizer,
+  cosineSimilarity,
+  meanVector,
+  DEFAULT_SEMANTIC_THRESHOLD
+}
+export type { Vectorizer, TfIdfOptions }
@@ -1,4 +1,18 @@
-import { generateText } from 'ai'
+import { generateText, streamText } from 'ai'
+import { createGateway } from '@ai-sdk/gateway'
+import { applyModelProfile, ModelProfileOverrides } from './model-profiles'
+import {
+  AttemptRecord,
+  CompletionError,
+  DEFAULT_RETRY_POLICY,
+  classifyError,
+  createConnectTimeoutFetch,
+  providerCircuitBreaker,
+  withRetry
+} from './resilience'
+import { RateLimits, RequestScheduler, getProviderKey } from './rate-limiter'
+import { estimateTokens } from './budget'
+import { ErrorCategory, categorizeError } from './error-taxonomy'
 
 interface VercelAIModel {
   id: string
@@ -16,8 +30,47 @@ interface VercelAIResponse {
   data: VercelAIModel[]
 }
 
+interface CompletionResult {
+  text: string
+  timeMs: number
+  usage?: any
+  // Only set for streamed completions
+  timeToFirstTokenMs?: number
+  tokensPerSecond?: number
+}
+
+interface CompletionOptions {
+  maxTokens?: number
+  temperature?: number
+  topP?: number
+  stopSequences?: string[]
+  seed?: number
+  systemPrompt?: string
+  // Per attempt: until the provider starts responding, and for the whole completion
+  connectTimeout?: number
+  timeout?: number
+  // Tries per completion, including the first
+  maxAttempts?: number
+  // Aborts the request when the run is cancelled
+  abortSignal?: AbortSignal
+}
+
+interface BatchCompletionResult {
+  modelId: string
+  // Which of the model's repeated samples this is, starting at 0
+  sampleIndex: number
+  result?: CompletionResult
+  error?: string
+  // Why the last attempt failed, when no result was received
+  errorCategory?: ErrorCategory
+  // Every try, in order; the last one succeeded when result is set
+  attempts: AttemptRecord[]
+}
+
 export class VercelAIGatewayClient {
   private apiKey: string
+  // Gateway providers built so far, one per connect timeout in use
+  private gateways = new Map<number, ReturnType<typeof createGateway>>()
 
   constructor(apiKey: string) {
     this.apiKey = apiKey
@@ -51,19 +104,20 @@ export class VercelAIGatewayClient {
   async getCompletion(
     modelId: string, 
     prompt: string, 
-    options: {
-      maxTokens?: number
-      temperature?: number
-      systemPrompt?: string
-      timeout?: number
-    } = {}
-  ): Promise<{ text: string; timeMs: number; usage?: any }> {
+    options: CompletionOptions = {}
+  ): Promise<CompletionResult> {
     const startTime = Date.now()
     
     const {
+      maxTokens,
       temperature = 0.7,
+      topP,
+      stopSequences,
+      seed,
       systemPrompt = 'You are a helpful assistant. Please provide a clear, concise response to the user\'s question.',
-      timeout = 30000
+      connectTimeout = 10000,
+      timeout = 30000,
+      abortSignal
     } = options
 
     try {
@@ -72,20 +126,25 @@ export class VercelAIGatewayClient {
         throw new Error('Vercel AI Gateway API key is required')
       }
 
-      // Set the environment variable for the AI SDK to use
-      process.env.AI_GATEWAY_API_KEY = this.apiKey
-
-      // Use the AI SDK directly with the model ID
-      // According to the documentation, the AI Gateway provider will default to using AI_GATEWAY_API_KEY
+      // Retries are handled by batchCompletion, so the SDK makes a single attempt
       const result = await generateText({
-        model: modelId, // Use the model ID directly (e.g., 'openai/gpt-4o')
+        model: this.getGateway(connectTimeout)(modelId),
         system: systemPrompt,
         prompt: prompt,
         temperature: temperature,
-        maxRetries: 3,
-        abortSignal: AbortSignal.timeout(timeout),
+        topP,
+        maxOutputTokens: maxTokens,
+        stopSequences,
+        seed,
+        maxRetries: 0,
+        abortSignal: this.getAbortSignal(timeout, abortSignal),
       })
 
+      // Nothing but a refusal from the filter is a failure, not an empty answer
+      if (result.finishReason === 'content-filter' && !result.text) {
+        throw new Error('Response blocked by the provider\'s content filter')
+      }
+
       const endTime = Date.now()
       
       return {
@@ -94,59 +153,208 @@ export class VercelAIGatewayClient {
         usage: result.usage
       }
     } catch (error) {
+      throw this.toCompletionError(error, 'Failed to get completion', { connectTimeout, timeout, abortSignal })
+    }
+  }
+
+  async streamCompletion(
+    modelId: string, 
+    prompt: string, 
+    options: CompletionOptions & {
+      onDelta?: (delta: string) => void
+    } = {}
+  ): Promise<CompletionResult> {
+    const startTime = Date.now()
+    
+    const {
+      maxTokens,
+      temperature = 0.7,
+      topP,
+      stopSequences,
+      seed,
+      systemPrompt = 'You are a helpful assistant. Please provide a clear, concise response to the user\'s question.',
+      connectTimeout = 10000,
+      timeout = 30000,
+      abortSignal,
+      onDelta
+    } = options
+
+    try {
+      // Check if API key is provided
+      if (!this.apiKey || this.apiKey.trim() === '') {
+        throw new Error('Vercel AI Gateway API key is required')
+      }
+
+      const result = streamText({
+        model: this.getGateway(connectTimeout)(modelId),
+        system: systemPrompt,
+        prompt: prompt,
+        temperature: temperature,
+        topP,
+        maxOutputTokens: maxTokens,
+        stopSequences,
+        seed,
+        maxRetries: 0,
+        abortSignal: this.getAbortSignal(timeout, abortSignal),
+      })
+
+      let text = ''
+      let firstTokenTime: number | null = null
+
+      // The full stream carries errors as parts instead of throwing, so surface them here
+      for await (const part of result.fullStream) {
+        if (part.type === 'text-delta') {
+          if (firstTokenTime === null) firstTokenTime = Date.now()
+          text += part.text
+          onDelta?.(part.text)
+        } else if (part.type === 'error') {
+          throw part.error
+        }
+      }
+
+      if (!text && (await result.finishReason) === 'content-filter') {
+        throw new Error('Response blocked by the provider\'s content filter')
+      }
+
       const endTime = Date.now()
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`)
+      const usage = await result.usage
+      const generationSeconds = firstTokenTime !== null ? (endTime - firstTokenTime) / 1000 : 0
+
+      return {
+        text,
+        timeMs: endTime - startTime,
+        usage,
+        timeToFirstTokenMs: firstTokenTime !== null ? firstTokenTime - startTime : undefined,
+        tokensPerSecond: usage?.outputTokens && generationSeconds > 0
+          ? usage.outputTokens / generationSeconds
+          : undefined
       }
-      
-      console.error(`Error getting completion from ${modelId}:`, error)
-      throw new Error(`Failed to get completion: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } catch (error) {
+      throw this.toCompletionError(error, 'Failed to stream completion', { connectTimeout, timeout, abortSignal })
     }
   }
 
   async batchCompletion(
     modelIds: string[], 
     prompt: string, 
-    options: {
-      maxTokens?: number
-      temperature?: number
-      systemPrompt?: string
-      timeout?: number
+    options: CompletionOptions & {
+      // Requests kept in flight; ignored when a shared scheduler is given
       concurrency?: number
+      // Requests and tokens per minute, keyed by provider
+      rateLimits?: RateLimits
+      // Lets several prompts share one pool, e.g. in a suite run
+      scheduler?: RequestScheduler
+      // Number of completions requested from each model
+      samples?: number
+      // Per-model overrides keyed by model ID, applied automatically
+      profiles?: Record<string, ModelProfileOverrides>
+      // Called when each attempt at a model's request is sent, and as soon as its result arrives
+      onStart?: (modelId: string, sampleIndex: number, attempt: number) => void
+      onResult?: (result: BatchCompletionResult) => void
+      // When set, completions are streamed and each text delta is reported
+      onDelta?: (modelId: string, delta: string, sampleIndex: number) => void
     } = {}
-  ): Promise<Array<{ modelId: string; result?: { text: string; timeMs: number; usage?: any }; error?: string }>> {
-    const { concurrency = 5 } = options
-    
-    // Process requests in batches to avoid overwhelming the API
-    const results: Array<{ modelId: string; result?: { text: string; timeMs: number; usage?: any }; error?: string }> = []
-    
-    for (let i = 0; i < modelIds.length; i += concurrency) {
-      const batch = modelIds.slice(i, i + concurrency)
-      
-      const batchPromises = batch.map(async (modelId) => {
-        try {
-          const result = await this.getCompletion(modelId, prompt, options)
-          return { modelId, result }
-        } catch (error) {
-          console.error(`Error for model ${modelId}:`, error)
-          return { 
-            modelId, 
-            error: error instanceof Error ? error.message : 'Unknown error'
-          }
+  ): Promise<BatchCompletionResult[]> {
+    const {
+      concurrency = 5,
+      rateLimits,
+      samples = 1,
+      maxAttempts = DEFAULT_RETRY_POLICY.maxAttempts,
+      profiles,
+      onStart,
+      onResult,
+      onDelta,
+      abortSignal
+    } = options
+    const scheduler = options.scheduler || new RequestScheduler({ concurrency, rateLimits })
+    const requests = modelIds.flatMap(modelId =>
+      Array.from({ length: samples }, (_, sampleIndex) => ({ modelId, sampleIndex }))
+    )
+
+    // Every request is queued at once; the scheduler starts each as soon as a
+    // slot is free and its provider is within its rate limits
+    return Promise.all(requests.map(async ({ modelId, sampleIndex }) => {
+      let batchResult: BatchCompletionResult
+      const { prompt: modelPrompt, options: modelOptions } = applyModelProfile(prompt, options, profiles?.[modelId])
+      const providerKey = getProviderKey(modelId)
+      // Reserved against the provider's token limit until the real usage is known
+      const estimatedTokens = estimateTokens(modelOptions.systemPrompt) + estimateTokens(modelPrompt) + (modelOptions.maxTokens ?? 0)
+      const attempts: AttemptRecord[] = []
+      try {
+        // Retry with backoff, and skip providers whose circuit is open; each
+        // attempt waits for its own slot
+        const result = await withRetry(attempt => scheduler.schedule(
+          providerKey,
+          estimatedTokens,
+          () => {
+            onStart?.(modelId, sampleIndex, attempt)
+            return onDelta
+              ? this.streamCompletion(modelId, modelPrompt, { ...modelOptions, onDelta: delta => onDelta(modelId, delta, sampleIndex) })
+              : this.getCompletion(modelId, modelPrompt, modelOptions)
+          },
+          { getTokens: completion => completion.usage?.totalTokens, signal: abortSignal }
+        ), {
+          policy: { ...DEFAULT_RETRY_POLICY, maxAttempts },
+          attempts,
+          label: samples > 1 ? `${modelId} sample ${sampleIndex + 1}` : modelId,
+          breaker: providerCircuitBreaker,
+          breakerKey: providerKey,
+          signal: abortSignal
+        })
+        batchResult = { modelId, sampleIndex, result, attempts }
+      } catch (error) {
+        // withRetry has already logged each failed attempt
+        batchResult = { 
+          modelId, 
+          sampleIndex,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorCategory: categorizeError(error),
+          attempts
         }
-      })
-      
-      const batchResults = await Promise.all(batchPromises)
-      results.push(...batchResults)
-      
-      // Small delay between batches to be respectful to the API
-      if (i + concurrency < modelIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 100))
       }
+      onResult?.(batchResult)
+      return batchResult
+    }))
+  }
+
+  // Generation timeout, combined with the run's cancellation signal if any
+  private getAbortSignal(timeout: number, abortSignal?: AbortSignal): AbortSignal {
+    const timeoutSignal = AbortSignal.timeout(timeout)
+    return abortSignal ? AbortSignal.any([timeoutSignal, abortSignal]) : timeoutSignal
+  }
+
+  // Gateway provider whose fetch enforces the connect timeout, built once per
+  // timeout and reused for every request of this client
+  private getGateway(connectTimeout: number) {
+    let gateway = this.gateways.get(connectTimeout)
+    if (!gateway) {
+      gateway = createGateway({ apiKey: this.apiKey, fetch: createConnectTimeoutFetch(connectTimeout) })
+      this.gateways.set(connectTimeout, gateway)
     }
-    
-    return results
+    return gateway
+  }
+
+  // Wrap an SDK error with what the retry loop needs: status, Retry-After and
+  // whether it is worth retrying
+  private toCompletionError(
+    error: unknown,
+    prefix: string,
+    { connectTimeout, timeout, abortSignal }: { connectTimeout: number; timeout: number; abortSignal?: AbortSignal }
+  ): CompletionError {
+    const failure = classifyError(error)
+
+    // The SDK may report the abort without its reason, so check the signal too
+    if (failure.cancelled || abortSignal?.aborted) {
+      return new CompletionError('Cancelled', { ...failure, retryable: false, timeout: undefined, cancelled: true }, error)
+    }
+    if (failure.timeout === 'connect') {
+      return new CompletionError(`Connect timeout after ${connectTimeout}ms`, failure, error)
+    }
+    if (failure.timeout === 'generation') {
+      return new CompletionError(`Request timeout after ${timeout}ms`, failure, error)
+    }
+
+    return new CompletionError(`${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`, failure, error)
   }
 
   // Helper method to extract provider from model ID
@@ -181,7 +389,9 @@ export class VercelAIGatewayClient {
     ]
   }
 
-  // Get predefined models list (since Vercel AI Gateway doesn't have a models endpoint)
+  // Get predefined models list (since Vercel AI Gateway doesn't have a models endpoint).
+  // Pricing is the providers' list price in USD per token and can be overridden
+  // locally on the settings page.
   static getPredefinedModels(): VercelAIModel[] {
     return [
       {
@@ -189,87 +399,100 @@ export class VercelAIGatewayClient {
         name: 'GPT-4o',
         provider: 'OpenAI',
         context_length: 128000,
-        description: 'Most capable GPT-4 model'
+        description: 'Most capable GPT-4 model',
+        pricing: { prompt: '0.0000025', completion: '0.00001' }
       },
       {
         id: 'openai/gpt-4o-mini',
         name: 'GPT-4o Mini',
         provider: 'OpenAI',
         context_length: 128000,
-        description: 'Faster and cheaper GPT-4o model'
+        description: 'Faster and cheaper GPT-4o model',
+        pricing: { prompt: '0.00000015', completion: '0.0000006' }
       },
       {
         id: 'openai/gpt-3.5-turbo',
         name: 'GPT-3.5 Turbo',
         provider: 'OpenAI',
         context_length: 16385,
-        description: 'Fast and efficient model'
+        description: 'Fast and efficient model',
+        pricing: { prompt: '0.0000005', completion: '0.0000015' }
       },
       {
         id: 'anthropic/claude-3-5-sonnet',
         name: 'Claude 3.5 Sonnet',
         provider: 'Anthropic',
         context_length: 200000,
-        description: 'Most intelligent Claude model'
+        description: 'Most intelligent Claude model',
+        pricing: { prompt: '0.000003', completion: '0.000015' }
       },
       {
         id: 'anthropic/claude-3-haiku',
         name: 'Claude 3 Haiku',
         provider: 'Anthropic',
         context_length: 200000,
-        description: 'Fastest Claude model'
+        description: 'Fastest Claude model',
+        pricing: { prompt: '0.00000025', completion: '0.00000125' }
       },
       {
         id: 'google/gemini-1.5-pro',
         name: 'Gemini 1.5 Pro',
         provider: 'Google',
         context_length: 2000000,
-        description: 'Google\'s most capable model'
+        description: 'Google\'s most capable model',
+        pricing: { prompt: '0.00000125', completion: '0.000005' }
       },
       {
         id: 'google/gemini-1.5-flash',
         name: 'Gemini 1.5 Flash',
         provider: 'Google',
         context_length: 1000000,
-        description: 'Fast and efficient Gemini model'
+        description: 'Fast and efficient Gemini model',
+        pricing: { prompt: '0.000000075', completion: '0.0000003' }
       },
       {
         id: 'meta-llama/llama-3.1-70b-instruct',
         name: 'Llama 3.1 70B',
         provider: 'Meta',
         context_length: 131072,
-        description: 'Meta\'s large language model'
+        description: 'Meta\'s large language model',
+        pricing: { prompt: '0.00000072', completion: '0.00000072' }
       },
       {
         id: 'meta-llama/llama-3.1-8b-instruct',
         name: 'Llama 3.1 8B',
         provider: 'Meta',
         context_length: 131072,
-        description: 'Smaller, faster Llama model'
+        description: 'Smaller, faster Llama model',
+        pricing: { prompt: '0.0000001', completion: '0.0000001' }
       },
       {
         id: 'mistralai/mistral-large',
         name: 'Mistral Large',
         provider: 'Mistral AI',
         context_length: 128000,
-        description: 'Mistral\'s most capable model'
+        description: 'Mistral\'s most capable model',
+        pricing: { prompt: '0.000002', completion: '0.000006' }
       },
       {
         id: 'mistralai/mistral-small',
         name: 'Mistral Small',
         provider: 'Mistral AI',
         context_length: 32000,
-        description: 'Efficient Mistral model'
+        description: 'Efficient Mistral model',
+        pricing: { prompt: '0.0000002', completion: '0.0000006' }
       },
       {
         id: 'cohere/command-r-plus',
         name: 'Command R+',
         provider: 'Cohere',
         context_length: 128000,
-        description: 'Cohere\'s advanced model'
+        description: 'Cohere\'s advanced model',
+        pricing: { prompt: '0.0000025', completion: '0.00001' }
       }
     ]
   }
 }
 
-export default VercelAIGatewayClient
\ No newline at end of file
+export default VercelAIGatewayClient
+export type { VercelAIModel, CompletionOptions, CompletionResult, BatchCompletionResult }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import type { ModelAccuracy } from './accuracy-scorer'
+
+// How much each vote counts when computing the weighted consensus
+type VoteWeighting = 'equal' | 'accuracy' | 'trust' | 'confidence'
+
+const VOTE_WEIGHTINGS: VoteWeighting[] = ['equal', 'accuracy', 'trust', 'confidence']
+
+// Weight of a reply that states no confidence, halfway between sure and unsure
+const NEUTRAL_CONFIDENCE = 0.5
+
+const CONFIDENCE_LEVELS: Record<string, number> = {
+  'very high': 0.95,
+  high: 0.85,
+  medium: 0.6,
+  moderate: 0.6,
+  low: 0.3,
+  'very low': 0.1
+}
+
+// "confidence: 85%", "confidence 0.8", "confidence: high", "(90% confident)"
+const CONFIDENCE_PATTERN = /[(\[]?\s*(?:confidence(?:\s+level)?\s*(?:is|[:=-])?\s*(\d{1,3}(?:\.\d+)?\s*%?|very high|very low|high|medium|moderate|low)|(\d{1,3}(?:\.\d+)?)\s*%?\s*(?:confident|confidence))\s*[)\]]?/i
+
+/**
+ * Parse a self-reported confidence from a reply as a number between 0 and 1,
+ * or null when the reply does not state one
+ */
+function parseConfidence(text: string): number | null {
+  const match = text.match(CONFIDENCE_PATTERN)
+  if (!match) return null
+
+  const raw = (match[1] ?? match[2]).trim().toLowerCase()
+  if (raw in CONFIDENCE_LEVELS) {
+    return CONFIDENCE_LEVELS[raw]
+  }
+
+  const value = parseFloat(raw)
+  if (isNaN(value)) return null
+
+  // "0.8" is a fraction, "80" or "80%" a percentage
+  const fraction = raw.endsWith('%') || value > 1 ? value / 100 : value
+  return Math.min(1, Math.max(0, fraction))
+}
+
+/**
+ * Remove a confidence statement so it does not take part in answer grouping
+ */
+function stripConfidence(text: string): string {
+  return text.replace(CONFIDENCE_PATTERN, ' ').replace(/[ \t]+/g, ' ').trim()
+}
+
+/**
+ * Turn historical accuracy into vote weights keyed by model id. Counts are
+ * smoothed so a model with little history stays close to an even 0.5.
+ */
+function accuracyWeights(accuracy: ModelAccuracy[]): Record<string, number> {
+  return Object.fromEntries(accuracy.map(entry => [entry.modelId, (entry.correct + 1) / (entry.total + 2)]))
+}
+
+function getVoteWeightingLabel(weighting: VoteWeighting): string {
+  switch (weighting) {
+    case 'accuracy':
+      return 'Historical accuracy'
+    case 'trust':
+      return 'Trust weight'
+    case 'confidence':
+      return 'Stated confidence'
+    default:
+      return 'Equal'
+  }
+}
+
+export {
+  VOTE_WEIGHTINGS,
+  NEUTRAL_CONFIDENCE,
+  parseConfidence,
+  stripConfidence,
+  accuracyWeights,
+  getVoteWeightingLabel
+}
+export type { VoteWeighting }
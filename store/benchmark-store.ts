@@ -1,7 +1,22 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
-import { ConsensusGroup, ConsensusAnalysis } from '@/lib/consensus-analyzer'
+import { ConsensusGroup, ConsensusAnalysis, ClusteringMode, ModelConsistency, VotingMode } from '@/lib/consensus-analyzer'
 import { createAuthHeaders } from '@/lib/credentials'
+import { SimilarityStrategyName } from '@/lib/similarity-strategies'
+import { parseGroundTruthInput } from '@/lib/accuracy-scorer'
+import { readSseStream } from '@/lib/sse'
+import { parseTags } from '@/lib/utils'
+import { GenerationSettings } from '@/lib/generation-settings'
+import { VoteWeighting, getVoteWeightingLabel } from '@/lib/vote-weights'
+import { shannonEntropy, normalizedEntropy, bootstrapConsensus, formatInterval } from '@/lib/agreement-statistics'
+import { TokenUsage, getLocalPricingOverrides, sumCosts, formatCost } from '@/lib/pricing'
+import { BUDGET_EXCEEDED } from '@/lib/budget'
+import { getLocalRateLimits } from '@/lib/rate-limiter'
+import { AttemptRecord } from '@/lib/resilience'
+import { ErrorCategory } from '@/lib/error-taxonomy'
+
+// Per-model progress while a prompt is streaming
+type ModelRunStatus = 'pending' | 'streaming' | 'done' | 'failed' | 'cancelled'
 
 interface BenchmarkResponse {
   model: {
@@ -9,25 +24,65 @@ interface BenchmarkResponse {
     name: string
     provider: string
   }
+  sample_index?: number
   response_text: string
+  canonical_text?: string
+  is_correct?: boolean | null
   response_time_ms: number
+  time_to_first_token_ms?: number | null
+  tokens_per_second?: number | null
   error?: string
-  usage?: any
+  error_category?: ErrorCategory
+  usage?: TokenUsage
+  // Null when the model has no price or reported no token counts
+  cost_usd?: number | null
+  attempts?: AttemptRecord[]
 }
 
 interface BenchmarkState {
   // Current benchmark state
   prompt: string
+  expectedAnswer: string
+  // Comma-separated tags saved with the next prompt
+  promptTags: string
   isProcessing: boolean
   responses: BenchmarkResponse[]
+  // Keyed by getSampleKey(modelId, sampleIndex)
+  modelStatuses: Record<string, ModelRunStatus>
+  // Text received so far from samples that are still streaming
+  partialTexts: Record<string, string>
+  // Attempt in flight, above 1 while a sample is being retried
+  modelAttempts: Record<string, number>
+  samplesPerModel: number
+  // One vote per model; sampleConsensusGroups counts every sample instead
   consensusGroups: ConsensusGroup[]
+  sampleConsensusGroups: ConsensusGroup[]
+  selfConsistency: ModelConsistency[] | null
+  consensusVoting: VotingMode
+  // Weighting the shown results were computed with
+  consensusWeighting: VoteWeighting
   insights: string[]
   summary: any
   error: string | null
+  // Set when the last run was over budget and may be resent after confirming
+  budgetConfirmation: string | null
+  isCancelling: boolean
+  // The last run was stopped before every model answered
+  runCancelled: boolean
+  
+  // Grouping settings
+  clusteringMode: ClusteringMode
+  similarityStrategy: SimilarityStrategyName
+  similarityThreshold: number | null
+  
+  // Generation settings; unset fields use the server defaults
+  generationSettings: Partial<GenerationSettings>
+  // Weighting used for the next run
+  voteWeighting: VoteWeighting
   
   // History and results
   promptHistory: any[]
-  currentPromptId: string | null
+  currentRunId: string | null
   
   // UI state
   showExamples: boolean
@@ -35,27 +90,43 @@ interface BenchmarkState {
   
   // Actions
   setPrompt: (prompt: string) => void
+  setExpectedAnswer: (expectedAnswer: string) => void
+  setPromptTags: (promptTags: string) => void
   setProcessing: (processing: boolean) => void
   setResponses: (responses: BenchmarkResponse[]) => void
   setConsensusGroups: (groups: ConsensusGroup[]) => void
+  setConsensusVoting: (voting: VotingMode) => void
   setInsights: (insights: string[]) => void
   setSummary: (summary: any) => void
   setError: (error: string | null) => void
+  setClusteringMode: (mode: ClusteringMode) => void
+  setSimilarityStrategy: (strategy: SimilarityStrategyName) => void
+  setSimilarityThreshold: (threshold: number | null) => void
+  setGenerationSettings: (settings: Partial<GenerationSettings>) => void
+  resetGenerationSettings: () => void
+  setVoteWeighting: (weighting: VoteWeighting) => void
   setShowExamples: (show: boolean) => void
   setSelectedTab: (tab: 'responses' | 'consensus' | 'insights') => void
   clearResults: () => void
-  submitPrompt: (modelIds: string[]) => Promise<void>
+  submitPrompt: (modelIds: string[], options?: { confirmOverBudget?: boolean }) => Promise<void>
+  cancelRun: () => Promise<void>
   loadHistory: () => Promise<void>
-  loadPromptResults: (promptId: string) => Promise<void>
+  loadRunResults: (runId: string) => Promise<void>
   exportResults: () => void
 }
 
-const EXAMPLE_PROMPTS = [
-  "What is the capital of France?",
-  "What is the largest planet in our solar system?",
-  "What color is the sky?",
-  "What is the chemical symbol for gold?",
-  "What is the tallest mountain on Earth?"
+// Identifies one sample of one model within the current run
+const getSampleKey = (modelId: string, sampleIndex = 0) => `${modelId}:${sampleIndex}`
+
+// The run in flight; the id lets the server abort its requests on cancel
+let activeRun: { runId: string; controller: AbortController } | null = null
+
+const EXAMPLE_PROMPTS: Array<{ text: string; expected: string }> = [
+  { text: "What is the capital of France?", expected: "Paris" },
+  { text: "What is the largest planet in our solar system?", expected: "Jupiter" },
+  { text: "What color is the sky?", expected: "Blue" },
+  { text: "What is the chemical symbol for gold?", expected: "Au" },
+  { text: "What is the tallest mountain on Earth?", expected: "Mount Everest" }
 ]
 
 export const useBenchmarkStore = create<BenchmarkState>()(
@@ -63,47 +134,91 @@ export const useBenchmarkStore = create<BenchmarkState>()(
     (set, get) => ({
       // Initial state
       prompt: '',
+      expectedAnswer: '',
+      promptTags: '',
       isProcessing: false,
       responses: [],
+      modelStatuses: {},
+      partialTexts: {},
+      modelAttempts: {},
+      samplesPerModel: 1,
       consensusGroups: [],
+      sampleConsensusGroups: [],
+      selfConsistency: null,
+      consensusVoting: 'model',
+      consensusWeighting: 'equal',
       insights: [],
       summary: null,
       error: null,
+      budgetConfirmation: null,
+      isCancelling: false,
+      runCancelled: false,
+      clusteringMode: 'pairwise',
+      similarityStrategy: 'levenshtein',
+      similarityThreshold: null,
+      generationSettings: {},
+      voteWeighting: 'equal',
       promptHistory: [],
-      currentPromptId: null,
+      currentRunId: null,
       showExamples: false,
       selectedTab: 'responses',
 
       // Actions
       setPrompt: (prompt: string) => set({ prompt }),
 
+      setExpectedAnswer: (expectedAnswer: string) => set({ expectedAnswer }),
+
+      setPromptTags: (promptTags: string) => set({ promptTags }),
+
       setProcessing: (processing: boolean) => set({ isProcessing: processing }),
 
       setResponses: (responses: BenchmarkResponse[]) => set({ responses }),
 
       setConsensusGroups: (groups: ConsensusGroup[]) => set({ consensusGroups: groups }),
 
+      setConsensusVoting: (voting: VotingMode) => set({ consensusVoting: voting }),
+
       setInsights: (insights: string[]) => set({ insights }),
 
       setSummary: (summary: any) => set({ summary }),
 
       setError: (error: string | null) => set({ error }),
 
+      setClusteringMode: (mode: ClusteringMode) => set({ clusteringMode: mode }),
+
+      setSimilarityStrategy: (strategy: SimilarityStrategyName) => set({ similarityStrategy: strategy }),
+
+      setSimilarityThreshold: (threshold: number | null) => set({ similarityThreshold: threshold }),
+
+      setGenerationSettings: (settings: Partial<GenerationSettings>) =>
+        set((state) => ({ generationSettings: { ...state.generationSettings, ...settings } })),
+
+      resetGenerationSettings: () => set({ generationSettings: {} }),
+
+      setVoteWeighting: (weighting: VoteWeighting) => set({ voteWeighting: weighting }),
+
       setShowExamples: (show: boolean) => set({ showExamples: show }),
 
       setSelectedTab: (tab: 'responses' | 'consensus' | 'insights') => set({ selectedTab: tab }),
 
       clearResults: () => set({
         responses: [],
+        modelStatuses: {},
+        partialTexts: {},
+        modelAttempts: {},
         consensusGroups: [],
+        sampleConsensusGroups: [],
+        selfConsistency: null,
         insights: [],
         summary: null,
         error: null,
-        currentPromptId: null
+        budgetConfirmation: null,
+        runCancelled: false,
+        currentRunId: null
       }),
 
-      submitPrompt: async (modelIds: string[]) => {
-        const { prompt } = get()
+      submitPrompt: async (modelIds: string[], { confirmOverBudget = false } = {}) => {
+        const { prompt, expectedAnswer, promptTags, clusteringMode, similarityStrategy, similarityThreshold, generationSettings, voteWeighting } = get()
         
         if (!prompt.trim()) {
           set({ error: 'Please enter a prompt' })
@@ -115,11 +230,26 @@ export const useBenchmarkStore = create<BenchmarkState>()(
           return
         }
 
+        const samplesPerModel = generationSettings.samples ?? 1
+        const run = { runId: crypto.randomUUID(), controller: new AbortController() }
+        activeRun = run
+
         set({ 
           isProcessing: true, 
           error: null,
+          budgetConfirmation: null,
+          runCancelled: false,
           responses: [],
+          modelStatuses: Object.fromEntries(modelIds.flatMap(id =>
+            Array.from({ length: samplesPerModel }, (_, sampleIndex) => [getSampleKey(id, sampleIndex), 'pending' as const])
+          )),
+          partialTexts: {},
+          modelAttempts: {},
+          samplesPerModel,
+          consensusWeighting: voteWeighting,
           consensusGroups: [],
+          sampleConsensusGroups: [],
+          selfConsistency: null,
           insights: [],
           summary: null
         })
@@ -129,35 +259,128 @@ export const useBenchmarkStore = create<BenchmarkState>()(
           const response = await fetch('/api/prompt', {
             method: 'POST',
             headers,
+            signal: run.controller.signal,
             body: JSON.stringify({
               text: prompt,
-              modelIds
+              modelIds,
+              similarity: {
+                mode: clusteringMode,
+                strategy: similarityStrategy,
+                ...(similarityThreshold !== null && { threshold: similarityThreshold })
+              },
+              groundTruth: parseGroundTruthInput(expectedAnswer) || undefined,
+              tags: parseTags(promptTags),
+              generation: generationSettings,
+              weighting: voteWeighting,
+              pricing: getLocalPricingOverrides(),
+              confirmOverBudget,
+              rateLimits: getLocalRateLimits(),
+              stream: true,
+              runId: run.runId
             })
           })
 
-          const data = await response.json()
-
           if (!response.ok) {
+            const data = await response.json()
+            // Nothing was sent to the models; offer to resend when settings allow going over
+            if (data.code === BUDGET_EXCEEDED) {
+              set({ modelStatuses: {}, budgetConfirmation: data.confirmable ? data.error : null })
+            }
             throw new Error(data.error || 'Failed to process prompt')
           }
 
-          set({
-            responses: data.responses,
-            consensusGroups: data.consensus_groups,
-            insights: data.insights,
-            summary: data.summary,
-            currentPromptId: data.prompt?.id
+          // Fill in cards and consensus as each model answers
+          await readSseStream(response, ({ event, data }) => {
+            switch (event) {
+              case 'run':
+                set({ currentRunId: data.run.id })
+                break
+              case 'start': {
+                const key = getSampleKey(data.model.id, data.sampleIndex)
+                // A retry streams the answer again from the start
+                set(state => ({
+                  modelStatuses: { ...state.modelStatuses, [key]: 'streaming' },
+                  partialTexts: { ...state.partialTexts, [key]: '' },
+                  modelAttempts: { ...state.modelAttempts, [key]: data.attempt ?? 1 }
+                }))
+                break
+              }
+              case 'delta': {
+                const key = getSampleKey(data.modelId, data.sampleIndex)
+                set(state => ({
+                  partialTexts: { ...state.partialTexts, [key]: (state.partialTexts[key] || '') + data.delta }
+                }))
+                break
+              }
+              case 'result': {
+                const key = getSampleKey(data.result.model.id, data.result.sample_index)
+                set(state => ({
+                  responses: [...state.responses, data.result],
+                  modelStatuses: { ...state.modelStatuses, [key]: data.result.error ? 'failed' : 'done' },
+                  consensusGroups: data.analysis.groups
+                }))
+                break
+              }
+              case 'complete':
+                set({
+                  responses: data.responses,
+                  consensusGroups: data.consensus_groups,
+                  sampleConsensusGroups: data.sample_consensus_groups || [],
+                  selfConsistency: data.self_consistency || null,
+                  insights: data.insights,
+                  summary: data.summary,
+                  currentRunId: data.run?.id,
+                  // Cancelled after the server got the request but before the stream was dropped
+                  runCancelled: data.cancelled ?? false
+                })
+                break
+              case 'error':
+                throw new Error(data.error || 'Failed to process prompt')
+            }
           })
 
           // Refresh history to include new prompt
           get().loadHistory()
 
         } catch (error) {
-          set({ 
-            error: error instanceof Error ? error.message : 'Failed to process prompt'
+          if (run.controller.signal.aborted) {
+            // The server saves what arrived before the cancellation
+            set(state => ({
+              runCancelled: true,
+              modelStatuses: Object.fromEntries(Object.entries(state.modelStatuses).map(([key, status]) =>
+                [key, status === 'pending' || status === 'streaming' ? 'cancelled' as const : status]
+              ))
+            }))
+            get().loadHistory()
+          } else {
+            set({ 
+              error: error instanceof Error ? error.message : 'Failed to process prompt'
+            })
+          }
+        } finally {
+          if (activeRun === run) activeRun = null
+          set({ isProcessing: false, isCancelling: false })
+        }
+      },
+
+      cancelRun: async () => {
+        const run = activeRun
+        if (!run || get().isCancelling) return
+
+        set({ isCancelling: true })
+
+        // Let the server abort the model requests before dropping the connection
+        try {
+          const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+          await fetch('/api/prompt/cancel', {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ runId: run.runId })
           })
+        } catch (error) {
+          console.error('Failed to cancel run on the server:', error)
         } finally {
-          set({ isProcessing: false })
+          run.controller.abort()
         }
       },
 
@@ -175,12 +398,12 @@ export const useBenchmarkStore = create<BenchmarkState>()(
         }
       },
 
-      loadPromptResults: async (promptId: string) => {
+      loadRunResults: async (runId: string) => {
         set({ isProcessing: true, error: null })
 
         try {
           const headers = createAuthHeaders()
-          const response = await fetch(`/api/prompt?id=${promptId}`, { headers })
+          const response = await fetch(`/api/prompt?runId=${runId}`, { headers })
           const data = await response.json()
 
           if (!response.ok) {
@@ -194,15 +417,42 @@ export const useBenchmarkStore = create<BenchmarkState>()(
               name: r.model?.name || 'Unknown',
               provider: r.model?.provider || 'Unknown'
             },
+            sample_index: r.sample_index ?? 0,
             response_text: r.response_text,
-            response_time_ms: r.response_time_ms
+            canonical_text: r.canonical_text || undefined,
+            is_correct: r.is_correct,
+            response_time_ms: r.response_time_ms,
+            time_to_first_token_ms: r.time_to_first_token_ms,
+            tokens_per_second: r.tokens_per_second != null ? Number(r.tokens_per_second) : null,
+            usage: {
+              inputTokens: r.input_tokens ?? null,
+              outputTokens: r.output_tokens ?? null,
+              totalTokens: r.input_tokens != null && r.output_tokens != null ? r.input_tokens + r.output_tokens : null
+            },
+            cost_usd: r.cost_usd != null ? Number(r.cost_usd) : null,
+            attempts: r.attempts || undefined,
+            // Failed requests are saved without a response text
+            ...(r.status === 'failed' && {
+              response_text: r.error_message || 'Error',
+              error: r.error_message || 'Unknown error',
+              error_category: r.error_category || undefined
+            })
           }))
 
           set({
+            modelStatuses: Object.fromEntries(formattedResponses.map((r: BenchmarkResponse) => [
+              getSampleKey(r.model.id, r.sample_index),
+              r.error ? 'failed' as const : 'done' as const
+            ])),
             prompt: data.prompt.text,
             responses: formattedResponses,
-            consensusGroups: data.consensusGroups || [],
-            currentPromptId: promptId
+            samplesPerModel: data.run.generation_settings?.samples ?? 1,
+            consensusWeighting: data.analysis?.weighting || 'equal',
+            consensusGroups: data.analysis?.groups || [],
+            sampleConsensusGroups: data.sample_analysis?.groups || [],
+            selfConsistency: data.analysis?.selfConsistency || null,
+            insights: data.insights || [],
+            currentRunId: runId
           })
 
         } catch (error) {
@@ -215,19 +465,35 @@ export const useBenchmarkStore = create<BenchmarkState>()(
       },
 
       exportResults: () => {
-        const { prompt, consensusGroups } = get()
+        const { prompt, responses, consensusVoting, consensusWeighting, selfConsistency, sampleConsensusGroups } = get()
+        const consensusGroups = consensusVoting === 'sample' && selfConsistency
+          ? sampleConsensusGroups
+          : get().consensusGroups
         
         if (consensusGroups.length === 0) {
           set({ error: 'No results to export' })
           return
         }
 
+        // The heaviest group wins the weighted vote; ties go to the larger group
+        const weightedTop = consensusGroups.reduce((best, group) => (group.weight > best.weight ? group : best))
+        const counts = consensusGroups.map(group => group.count)
+        const { interval } = bootstrapConsensus(counts)
+
+        // Cost per group, matching grouped answers to the responses they came from
+        const costs = new Map(responses.map(response => [getSampleKey(response.model.id, response.sample_index), response.cost_usd]))
+        const groupCost = (group: ConsensusGroup) =>
+          sumCosts(group.responses.map(response => costs.get(getSampleKey(response.model_id, response.sample_index))))
+
         // Create CSV content
-        const headers = ['Response', 'Count', 'Percentage', 'Models']
+        const headers = ['Response', 'Count', 'Percentage', 'Weight', 'Weighted Percentage', 'Cost (USD)', 'Models']
         const rows = consensusGroups.map(group => [
           `"${group.groupName.replace(/"/g, '""')}"`,
           group.count.toString(),
           group.percentage.toFixed(1),
+          group.weight.toFixed(2),
+          group.weightedPercentage.toFixed(1),
+          groupCost(group)?.toFixed(8) ?? '',
           `"${group.models.join(', ').replace(/"/g, '""')}"`
         ])
 
@@ -235,6 +501,14 @@ export const useBenchmarkStore = create<BenchmarkState>()(
           `# LLM Consensus Analysis`,
           `# Prompt: "${prompt.replace(/"/g, '""')}"`,
           `# Generated: ${new Date().toISOString()}`,
+          ...(selfConsistency ? [`# Voting: one vote per ${consensusVoting}`] : []),
+          `# Consensus Level: ${consensusGroups[0].percentage.toFixed(1)}% (${formatInterval(interval)})`,
+          `# Entropy: ${shannonEntropy(counts).toFixed(3)} bits (normalized ${normalizedEntropy(counts).toFixed(3)})`,
+          `# Top Response: "${consensusGroups[0].groupName.replace(/"/g, '""')}"`,
+          `# Weighting: ${getVoteWeightingLabel(consensusWeighting)}`,
+          `# Weighted Consensus Level: ${weightedTop.weightedPercentage.toFixed(1)}%`,
+          `# Weighted Top Response: "${weightedTop.groupName.replace(/"/g, '""')}"`,
+          `# Total Cost: ${formatCost(sumCosts(responses.map(response => response.cost_usd)))}`,
           ``,
           headers.join(','),
           ...rows.map(row => row.join(','))
@@ -257,5 +531,5 @@ export const useBenchmarkStore = create<BenchmarkState>()(
   )
 )
 
-export { EXAMPLE_PROMPTS }
-export type { BenchmarkResponse }
\ No newline at end of file
+export { EXAMPLE_PROMPTS, getSampleKey }
+export type { BenchmarkResponse, ModelRunStatus }
\ No newline at end of file
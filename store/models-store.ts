@@ -1,11 +1,13 @@
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
-import { Model } from '@/lib/supabase'
+import type { Model, ModelProfile } from '@/lib/database-types'
 import { createAuthHeaders } from '@/lib/credentials'
 
 interface ModelsState {
   models: Model[]
   selectedModelIds: string[]
+  // Keyed by model id
+  profiles: Record<string, ModelProfile>
   isLoading: boolean
   error: string | null
   searchTerm: string
@@ -28,6 +30,9 @@ interface ModelsState {
   getProviders: () => string[]
   syncModels: () => Promise<void>
   updateModelEnabled: (modelId: string, enabled: boolean) => Promise<void>
+  loadProfiles: () => Promise<void>
+  saveProfile: (profile: Omit<ModelProfile, 'id' | 'created_at' | 'updated_at'>) => Promise<void>
+  deleteProfile: (modelId: string) => Promise<void>
 }
 
 const RECOMMENDED_MODEL_IDS = [
@@ -45,6 +50,7 @@ export const useModelsStore = create<ModelsState>()(
       (set, get) => ({
         models: [],
         selectedModelIds: [],
+        profiles: {},
         isLoading: false,
         error: null,
         searchTerm: '',
@@ -213,6 +219,58 @@ export const useModelsStore = create<ModelsState>()(
           } catch (error) {
             set({ error: error instanceof Error ? error.message : 'Failed to update model' })
           }
+        },
+
+        loadProfiles: async () => {
+          try {
+            const headers = createAuthHeaders()
+            const response = await fetch('/api/models/profiles', { headers })
+            const data = await response.json()
+
+            if (!response.ok) {
+              throw new Error(data.error || 'Failed to load model profiles')
+            }
+
+            set({
+              profiles: Object.fromEntries(data.profiles.map((profile: ModelProfile) => [profile.model_id, profile]))
+            })
+          } catch (error) {
+            set({ error: error instanceof Error ? error.message : 'Failed to load model profiles' })
+          }
+        },
+
+        saveProfile: async (profile) => {
+          const headers = createAuthHeaders({ 'Content-Type': 'application/json' })
+          const response = await fetch('/api/models/profiles', {
+            method: 'PUT',
+            headers,
+            body: JSON.stringify(profile)
+          })
+          const data = await response.json()
+
+          if (!response.ok) {
+            throw new Error(data.error || 'Failed to save model profile')
+          }
+
+          set((state) => ({ profiles: { ...state.profiles, [profile.model_id]: data.profile } }))
+        },
+
+        deleteProfile: async (modelId) => {
+          const headers = createAuthHeaders()
+          const response = await fetch(`/api/models/profiles?modelId=${modelId}`, {
+            method: 'DELETE',
+            headers
+          })
+
+          if (!response.ok) {
+            const data = await response.json()
+            throw new Error(data.error || 'Failed to delete model profile')
+          }
+
+          set((state) => {
+            const { [modelId]: _removed, ...profiles } = state.profiles
+            return { profiles }
+          })
         }
       }),
       {